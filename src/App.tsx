@@ -8,6 +8,7 @@ import { ProtectedRoute } from "@/components/ProtectedRoute";
 import Index from "./pages/Index";
 import Auth from "./pages/Auth";
 import FleetManagement from "./pages/FleetManagement";
+import VehicleDetail from "./pages/VehicleDetail";
 import Teams from "./pages/Teams";
 import Departures from "./pages/Departures";
 import Schedule from "./pages/Schedule";
@@ -15,6 +16,8 @@ import Admin from "./pages/Admin";
 import Production from "./pages/Production";
 import Budget from "./pages/Budget";
 import Reports from "./pages/Reports";
+import Incidents from "./pages/Incidents";
+import Maintenance from "./pages/Maintenance";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -30,11 +33,14 @@ const App = () => (
             <Route path="/auth" element={<Auth />} />
             <Route path="/" element={<ProtectedRoute><Index /></ProtectedRoute>} />
             <Route path="/frotas" element={<ProtectedRoute><FleetManagement /></ProtectedRoute>} />
+            <Route path="/frotas/veiculo/:id" element={<ProtectedRoute><VehicleDetail /></ProtectedRoute>} />
             <Route path="/equipes" element={<ProtectedRoute><Teams /></ProtectedRoute>} />
             <Route path="/escala" element={<ProtectedRoute><Schedule /></ProtectedRoute>} />
             <Route path="/saida" element={<ProtectedRoute><Departures /></ProtectedRoute>} />
             <Route path="/producao" element={<ProtectedRoute><Production /></ProtectedRoute>} />
             <Route path="/orcamento" element={<ProtectedRoute><Budget /></ProtectedRoute>} />
+            <Route path="/manutencao" element={<ProtectedRoute><Maintenance /></ProtectedRoute>} />
+            <Route path="/ocorrencias" element={<ProtectedRoute><Incidents /></ProtectedRoute>} />
             <Route path="/relatorios" element={<ProtectedRoute><Reports /></ProtectedRoute>} />
             <Route path="/admin" element={<ProtectedRoute requireAdmin><Admin /></ProtectedRoute>} />
             <Route path="*" element={<NotFound />} />
@@ -0,0 +1,346 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Ban, Copy, Key, Plus } from "lucide-react";
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+
+interface ApiKey {
+  id: string;
+  name: string;
+  key_prefix: string;
+  scopes: string[];
+  require_signature: boolean;
+  expires_at: string | null;
+  last_used_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
+}
+
+interface CreatedKey {
+  api_key: string;
+  signing_secret: string | null;
+}
+
+// Columns readable by admins; the hash and signing secret are not exposed
+const API_KEY_COLUMNS = "id, name, key_prefix, scopes, require_signature, expires_at, last_used_at, revoked_at, created_at";
+
+const SCOPES: { value: string; label: string; description: string }[] = [
+  {
+    value: "production:sync",
+    label: "Sincronizar produção",
+    description: "Grava os dados de produção (inclui simulação)",
+  },
+  {
+    value: "production:dry_run",
+    label: "Simular sincronização",
+    description: "Apenas chamadas com dry_run, sem gravar",
+  },
+];
+
+const emptyForm = { name: "", scopes: ["production:sync"], require_signature: false, expires_at: "" };
+
+const getKeyStatus = (key: ApiKey) => {
+  if (key.revoked_at) return { label: "Revogada", variant: "destructive" as const };
+  if (key.expires_at && new Date(key.expires_at) <= new Date()) return { label: "Expirada", variant: "outline" as const };
+  return { label: "Ativa", variant: "default" as const };
+};
+
+const copyToClipboard = async (value: string) => {
+  try {
+    await navigator.clipboard.writeText(value);
+    toast({ title: "Copiado para a área de transferência" });
+  } catch {
+    toast({ title: "Não foi possível copiar", variant: "destructive" });
+  }
+};
+
+export const ApiKeysTab = () => {
+  const queryClient = useQueryClient();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [formData, setFormData] = useState(emptyForm);
+  const [createdKey, setCreatedKey] = useState<CreatedKey | null>(null);
+
+  const { data: keys = [], isLoading } = useQuery({
+    queryKey: ["integration_api_keys"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("integration_api_keys")
+        .select(API_KEY_COLUMNS)
+        .order("created_at", { ascending: false });
+      if (error) throw error;
+      return data as ApiKey[];
+    },
+  });
+
+  const createKey = useMutation({
+    mutationFn: async () => {
+      const { data, error } = await supabase.rpc("create_integration_api_key", {
+        _name: formData.name,
+        _scopes: formData.scopes,
+        _require_signature: formData.require_signature,
+        _expires_at: formData.expires_at ? new Date(formData.expires_at + "T23:59:59").toISOString() : undefined,
+      });
+      if (error) throw error;
+      return data[0];
+    },
+    onSuccess: (created) => {
+      queryClient.invalidateQueries({ queryKey: ["integration_api_keys"] });
+      setIsDialogOpen(false);
+      setFormData(emptyForm);
+      setCreatedKey({ api_key: created.api_key, signing_secret: created.signing_secret });
+    },
+    onError: (error) => {
+      toast({ title: "Erro ao criar chave", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const revokeKey = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.rpc("revoke_integration_api_key", { _key_id: id });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["integration_api_keys"] });
+      toast({ title: "Chave revogada!" });
+    },
+    onError: (error) => {
+      toast({ title: "Erro ao revogar chave", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const toggleScope = (scope: string, checked: boolean) => {
+    setFormData((prev) => ({
+      ...prev,
+      scopes: checked ? [...prev.scopes, scope] : prev.scopes.filter((s) => s !== scope),
+    }));
+  };
+
+  const handleRevoke = (key: ApiKey) => {
+    if (confirm(`Revogar a chave "${key.name}"? As integrações que a utilizam deixarão de funcionar.`)) {
+      revokeKey.mutate(key.id);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    createKey.mutate();
+  };
+
+  return (
+    <div>
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6">
+        <div>
+          <h2 className="text-xl font-semibold mb-2">Chaves de API</h2>
+          <p className="text-muted-foreground text-sm">
+            Chaves usadas por integrações externas, como o fluxo do Power Automate que envia a produção
+          </p>
+        </div>
+        <Button className="gap-2" onClick={() => setIsDialogOpen(true)}>
+          <Plus className="h-4 w-4" />
+          Nova Chave
+        </Button>
+      </div>
+
+      <div className="bg-card rounded-xl border border-border overflow-hidden">
+        <Table>
+          <TableHeader>
+            <TableRow className="bg-muted/50">
+              <TableHead>Nome</TableHead>
+              <TableHead>Chave</TableHead>
+              <TableHead>Escopos</TableHead>
+              <TableHead>Assinatura</TableHead>
+              <TableHead>Último uso</TableHead>
+              <TableHead>Expira em</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="text-right">Ações</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {keys.map((key) => {
+              const status = getKeyStatus(key);
+              return (
+                <TableRow key={key.id} className="hover:bg-muted/30">
+                  <TableCell className="font-medium">
+                    {key.name}
+                    <div className="text-xs text-muted-foreground">
+                      Criada em {format(new Date(key.created_at), "dd/MM/yyyy")}
+                    </div>
+                  </TableCell>
+                  <TableCell className="font-mono text-sm">{key.key_prefix}…</TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {key.scopes.map((scope) => (
+                        <Badge key={scope} variant="outline" className="text-xs">
+                          {SCOPES.find((s) => s.value === scope)?.label || scope}
+                        </Badge>
+                      ))}
+                    </div>
+                  </TableCell>
+                  <TableCell>{key.require_signature ? "HMAC obrigatório" : "—"}</TableCell>
+                  <TableCell className="whitespace-nowrap">
+                    {key.last_used_at ? format(new Date(key.last_used_at), "dd/MM/yyyy HH:mm") : (
+                      <span className="text-muted-foreground">Nunca</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap">
+                    {key.expires_at ? format(new Date(key.expires_at), "dd/MM/yyyy") : "—"}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={status.variant}>{status.label}</Badge>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {!key.revoked_at && (
+                      <Button variant="ghost" size="icon" onClick={() => handleRevoke(key)} title="Revogar">
+                        <Ban className="h-4 w-4 text-destructive" />
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+        {isLoading && (
+          <div className="p-8 text-center text-muted-foreground">Carregando...</div>
+        )}
+        {!isLoading && keys.length === 0 && (
+          <div className="p-8 text-center text-muted-foreground">Nenhuma chave cadastrada</div>
+        )}
+      </div>
+
+      {/* Create Key Dialog */}
+      <Dialog open={isDialogOpen} onOpenChange={(open) => { setIsDialogOpen(open); if (!open) setFormData(emptyForm); }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Key className="h-5 w-5" />
+              Nova Chave de API
+            </DialogTitle>
+            <DialogDescription>
+              A chave será exibida apenas uma vez, logo após a criação.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="key_name">Nome da integração *</Label>
+              <Input
+                id="key_name"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                placeholder="Ex: Power Automate - Produção"
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Escopos *</Label>
+              {SCOPES.map((scope) => (
+                <div key={scope.value} className="flex items-start gap-2">
+                  <Checkbox
+                    id={`scope_${scope.value}`}
+                    checked={formData.scopes.includes(scope.value)}
+                    onCheckedChange={(checked) => toggleScope(scope.value, checked === true)}
+                  />
+                  <label htmlFor={`scope_${scope.value}`} className="text-sm leading-tight cursor-pointer">
+                    {scope.label}
+                    <span className="block text-xs text-muted-foreground">{scope.description}</span>
+                  </label>
+                </div>
+              ))}
+            </div>
+            <div className="flex items-start gap-2">
+              <Checkbox
+                id="require_signature"
+                checked={formData.require_signature}
+                onCheckedChange={(checked) => setFormData({ ...formData, require_signature: checked === true })}
+              />
+              <label htmlFor="require_signature" className="text-sm leading-tight cursor-pointer">
+                Exigir assinatura HMAC
+                <span className="block text-xs text-muted-foreground">
+                  O cabeçalho x-signature deve conter o HMAC-SHA256 do corpo da requisição
+                </span>
+              </label>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="key_expires_at">Expira em</Label>
+              <Input
+                id="key_expires_at"
+                type="date"
+                value={formData.expires_at}
+                onChange={(e) => setFormData({ ...formData, expires_at: e.target.value })}
+              />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                Cancelar
+              </Button>
+              <Button type="submit" disabled={createKey.isPending || formData.scopes.length === 0}>
+                Criar Chave
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Created Key Dialog */}
+      <Dialog open={!!createdKey} onOpenChange={(open) => { if (!open) setCreatedKey(null); }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Chave criada</DialogTitle>
+            <DialogDescription>
+              Copie os valores agora. Eles não poderão ser consultados novamente.
+            </DialogDescription>
+          </DialogHeader>
+          {createdKey && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label>Chave (cabeçalho x-api-key)</Label>
+                <div className="flex gap-2">
+                  <Input readOnly value={createdKey.api_key} className="font-mono text-xs" />
+                  <Button variant="outline" size="icon" onClick={() => copyToClipboard(createdKey.api_key)}>
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+              {createdKey.signing_secret && (
+                <div className="space-y-2">
+                  <Label>Segredo de assinatura (HMAC-SHA256)</Label>
+                  <div className="flex gap-2">
+                    <Input readOnly value={createdKey.signing_secret} className="font-mono text-xs" />
+                    <Button variant="outline" size="icon" onClick={() => copyToClipboard(createdKey.signing_secret!)}>
+                      <Copy className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+          <DialogFooter>
+            <Button onClick={() => setCreatedKey(null)}>Concluir</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
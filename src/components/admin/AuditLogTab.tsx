@@ -0,0 +1,356 @@
+import { useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ChevronLeft, ChevronRight, Eye, Search } from "lucide-react";
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Json } from "@/integrations/supabase/types";
+import { cn } from "@/lib/utils";
+
+type AuditAction = "INSERT" | "UPDATE" | "DELETE";
+
+interface AuditEntry {
+  id: number;
+  actor_id: string | null;
+  table_name: string;
+  row_id: string | null;
+  action: AuditAction;
+  old_data: Record<string, Json> | null;
+  new_data: Record<string, Json> | null;
+  changed_fields: string[] | null;
+  created_at: string;
+}
+
+const PAGE_SIZE = 50;
+
+const TABLE_LABELS: Record<string, string> = {
+  vehicles: "Veículos",
+  workshop_entries: "Oficina",
+  drivers: "Motoristas",
+  allocations: "Retiradas de veículos",
+  incidents: "Ocorrências",
+  maintenance_records: "Manutenções",
+  departures: "Saídas",
+  teams: "Equipes",
+  supervisor_teams: "Vínculos de equipes",
+  team_schedules: "Escala",
+  oses: "OSEs",
+  ose_items: "Itens de OSE",
+  ose_trips: "Viagens de OSE",
+  ose_teams: "Equipes de OSE",
+};
+
+const ACTION_CONFIG: Record<AuditAction, { label: string; className: string }> = {
+  INSERT: { label: "Criação", className: "bg-green-500/20 text-green-700" },
+  UPDATE: { label: "Alteração", className: "bg-blue-500/20 text-blue-700" },
+  DELETE: { label: "Exclusão", className: "bg-red-500/20 text-red-700" },
+};
+
+// Fields that identify a record to a human, checked in order
+const LABEL_FIELDS = ["plate", "name", "ose_number", "date"];
+
+const getRecordLabel = (entry: AuditEntry) => {
+  const data = entry.new_data || entry.old_data || {};
+  for (const field of LABEL_FIELDS) {
+    if (data[field] !== null && data[field] !== undefined) return String(data[field]);
+  }
+  return entry.row_id ? entry.row_id.slice(0, 8) : "-";
+};
+
+const formatValue = (value: Json | undefined) => {
+  if (value === null || value === undefined) return "—";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+};
+
+export const AuditLogTab = () => {
+  const [tableFilter, setTableFilter] = useState("all");
+  const [actionFilter, setActionFilter] = useState("all");
+  const [actorFilter, setActorFilter] = useState("all");
+  const [search, setSearch] = useState("");
+  const [dateFrom, setDateFrom] = useState("");
+  const [dateTo, setDateTo] = useState("");
+  const [page, setPage] = useState(0);
+  const [selectedEntry, setSelectedEntry] = useState<AuditEntry | null>(null);
+
+  const { data: profiles = [] } = useQuery({
+    queryKey: ["profiles"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("profiles").select("id, name").order("name");
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const profilesMap = useMemo(() => {
+    const map: Record<string, string> = {};
+    profiles.forEach((p) => { map[p.id] = p.name; });
+    return map;
+  }, [profiles]);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["audit_log", tableFilter, actionFilter, actorFilter, search, dateFrom, dateTo, page],
+    queryFn: async () => {
+      let query = supabase
+        .from("audit_log")
+        .select("*", { count: "exact" })
+        .order("created_at", { ascending: false })
+        .range(page * PAGE_SIZE, page * PAGE_SIZE + PAGE_SIZE - 1);
+
+      if (tableFilter !== "all") query = query.eq("table_name", tableFilter);
+      if (actionFilter !== "all") query = query.eq("action", actionFilter);
+      if (actorFilter !== "all") query = query.eq("actor_id", actorFilter);
+      if (dateFrom) query = query.gte("created_at", new Date(dateFrom + "T00:00:00").toISOString());
+      if (dateTo) query = query.lte("created_at", new Date(dateTo + "T23:59:59").toISOString());
+
+      const term = search.trim().replace(/[,()]/g, "");
+      if (term) {
+        const conditions = [`row_id.eq.${term}`];
+        LABEL_FIELDS.forEach((field) => {
+          conditions.push(`new_data->>${field}.ilike.*${term}*`, `old_data->>${field}.ilike.*${term}*`);
+        });
+        query = query.or(conditions.join(","));
+      }
+
+      const { data, error, count } = await query;
+      if (error) throw error;
+      return { entries: data as AuditEntry[], count: count || 0 };
+    },
+  });
+
+  const entries = data?.entries || [];
+  const totalPages = Math.max(1, Math.ceil((data?.count || 0) / PAGE_SIZE));
+
+  // Any filter change goes back to the first page
+  const withPageReset = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    setPage(0);
+  };
+
+  const diffFields = useMemo(() => {
+    if (!selectedEntry) return [];
+    const oldData = selectedEntry.old_data || {};
+    const newData = selectedEntry.new_data || {};
+    const keys = Array.from(new Set([...Object.keys(oldData), ...Object.keys(newData)])).sort();
+    return keys.map((key) => ({
+      key,
+      before: oldData[key],
+      after: newData[key],
+      changed: selectedEntry.action === "UPDATE"
+        ? (selectedEntry.changed_fields || []).includes(key)
+        : true,
+    }));
+  }, [selectedEntry]);
+
+  return (
+    <div>
+      <div className="mb-6">
+        <h2 className="text-xl font-semibold mb-2">Auditoria</h2>
+        <p className="text-muted-foreground text-sm">
+          Histórico de criações, alterações e exclusões feitas no sistema
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4 mb-6">
+        <div className="space-y-2 lg:col-span-2">
+          <Label htmlFor="audit_search">Buscar</Label>
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              id="audit_search"
+              placeholder="Placa, nome, nº da OSE ou ID..."
+              value={search}
+              onChange={(e) => withPageReset(setSearch)(e.target.value)}
+              className="pl-10"
+            />
+          </div>
+        </div>
+        <div className="space-y-2">
+          <Label>Tabela</Label>
+          <Select value={tableFilter} onValueChange={withPageReset(setTableFilter)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Todas</SelectItem>
+              {Object.entries(TABLE_LABELS).map(([table, label]) => (
+                <SelectItem key={table} value={table}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Ação</Label>
+          <Select value={actionFilter} onValueChange={withPageReset(setActionFilter)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Todas</SelectItem>
+              {(Object.keys(ACTION_CONFIG) as AuditAction[]).map((action) => (
+                <SelectItem key={action} value={action}>{ACTION_CONFIG[action].label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Usuário</Label>
+          <Select value={actorFilter} onValueChange={withPageReset(setActorFilter)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Todos</SelectItem>
+              {profiles.map((profile) => (
+                <SelectItem key={profile.id} value={profile.id}>{profile.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-2">
+            <Label htmlFor="audit_from">De</Label>
+            <Input id="audit_from" type="date" value={dateFrom} onChange={(e) => withPageReset(setDateFrom)(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="audit_to">Até</Label>
+            <Input id="audit_to" type="date" value={dateTo} onChange={(e) => withPageReset(setDateTo)(e.target.value)} />
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-card rounded-xl border border-border overflow-hidden">
+        <Table>
+          <TableHeader>
+            <TableRow className="bg-muted/50">
+              <TableHead>Data/Hora</TableHead>
+              <TableHead>Usuário</TableHead>
+              <TableHead>Tabela</TableHead>
+              <TableHead>Registro</TableHead>
+              <TableHead>Ação</TableHead>
+              <TableHead>Campos Alterados</TableHead>
+              <TableHead className="text-right">Detalhes</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {entries.map((entry) => (
+              <TableRow key={entry.id} className="hover:bg-muted/30">
+                <TableCell className="whitespace-nowrap">{format(new Date(entry.created_at), "dd/MM/yyyy HH:mm:ss")}</TableCell>
+                <TableCell>
+                  {entry.actor_id ? profilesMap[entry.actor_id] || entry.actor_id.slice(0, 8) : (
+                    <span className="text-muted-foreground">Sistema</span>
+                  )}
+                </TableCell>
+                <TableCell>{TABLE_LABELS[entry.table_name] || entry.table_name}</TableCell>
+                <TableCell className="font-medium">{getRecordLabel(entry)}</TableCell>
+                <TableCell>
+                  <span className={cn("px-3 py-1 rounded-full text-xs font-medium", ACTION_CONFIG[entry.action]?.className)}>
+                    {ACTION_CONFIG[entry.action]?.label || entry.action}
+                  </span>
+                </TableCell>
+                <TableCell className="max-w-xs">
+                  <div className="flex flex-wrap gap-1">
+                    {(entry.changed_fields || []).map((field) => (
+                      <Badge key={field} variant="outline" className="text-xs">{field}</Badge>
+                    ))}
+                  </div>
+                </TableCell>
+                <TableCell className="text-right">
+                  <Button variant="ghost" size="icon" onClick={() => setSelectedEntry(entry)}>
+                    <Eye className="h-4 w-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+        {isLoading && (
+          <div className="p-8 text-center text-muted-foreground">Carregando...</div>
+        )}
+        {!isLoading && entries.length === 0 && (
+          <div className="p-8 text-center text-muted-foreground">Nenhum registro encontrado</div>
+        )}
+      </div>
+
+      <div className="flex items-center justify-between mt-4 text-sm text-muted-foreground">
+        <span>{data?.count || 0} registro(s)</span>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={() => setPage((p) => p - 1)} disabled={page === 0}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <span>Página {page + 1} de {totalPages}</span>
+          <Button variant="outline" size="sm" onClick={() => setPage((p) => p + 1)} disabled={page + 1 >= totalPages}>
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      {/* Diff Dialog */}
+      <Dialog open={!!selectedEntry} onOpenChange={(open) => { if (!open) setSelectedEntry(null); }}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              {selectedEntry && `${ACTION_CONFIG[selectedEntry.action]?.label} - ${TABLE_LABELS[selectedEntry.table_name] || selectedEntry.table_name}`}
+            </DialogTitle>
+            <DialogDescription>
+              {selectedEntry && (
+                <>
+                  {format(new Date(selectedEntry.created_at), "dd/MM/yyyy HH:mm:ss")} •{" "}
+                  {selectedEntry.actor_id ? profilesMap[selectedEntry.actor_id] || selectedEntry.actor_id : "Sistema"} •{" "}
+                  ID {selectedEntry.row_id}
+                </>
+              )}
+            </DialogDescription>
+          </DialogHeader>
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-muted/50">
+                <TableHead className="w-48">Campo</TableHead>
+                <TableHead>Antes</TableHead>
+                <TableHead>Depois</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {diffFields.map(({ key, before, after, changed }) => (
+                <TableRow key={key} className={cn(changed && selectedEntry?.action === "UPDATE" && "bg-yellow-500/10")}>
+                  <TableCell className="font-mono text-xs">{key}</TableCell>
+                  <TableCell className={cn("text-sm break-all", changed && before !== undefined && "text-red-700")}>
+                    {formatValue(before)}
+                  </TableCell>
+                  <TableCell className={cn("text-sm break-all", changed && after !== undefined && "text-green-700")}>
+                    {formatValue(after)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
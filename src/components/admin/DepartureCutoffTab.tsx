@@ -0,0 +1,366 @@
+import { useEffect, useMemo, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { LockOpen, Plus } from "lucide-react";
+import { addHours, format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import { DepartureCutoffSettings, DepartureUnlock } from "@/lib/departureCutoff";
+
+const UNLOCK_HOURS = ["1", "2", "4", "8", "24"];
+
+const emptyUnlockForm = {
+  supervisor_id: "",
+  date: format(new Date(), "yyyy-MM-dd"),
+  hours: "2",
+  justification: "",
+};
+
+export const DepartureCutoffTab = () => {
+  const queryClient = useQueryClient();
+  const [settingsForm, setSettingsForm] = useState({ is_enabled: true, cutoff_time: "09:00", cutoff_days_after: "0" });
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [unlockForm, setUnlockForm] = useState(emptyUnlockForm);
+
+  const { data: settings } = useQuery({
+    queryKey: ["departure_cutoff_settings"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("departure_cutoff_settings").select("*").maybeSingle();
+      if (error) throw error;
+      return data as DepartureCutoffSettings | null;
+    },
+  });
+
+  useEffect(() => {
+    if (settings) {
+      setSettingsForm({
+        is_enabled: settings.is_enabled,
+        cutoff_time: settings.cutoff_time.slice(0, 5),
+        cutoff_days_after: String(settings.cutoff_days_after),
+      });
+    }
+  }, [settings]);
+
+  const { data: unlocks = [], isLoading } = useQuery({
+    queryKey: ["departure_unlocks"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("departure_unlocks")
+        .select("*")
+        .order("created_at", { ascending: false })
+        .limit(100);
+      if (error) throw error;
+      return data as DepartureUnlock[];
+    },
+  });
+
+  const { data: supervisors = [] } = useQuery({
+    queryKey: ["supervisors"],
+    queryFn: async () => {
+      const { data: roles, error: rolesError } = await supabase
+        .from("user_roles")
+        .select("user_id")
+        .eq("role", "supervisor");
+      if (rolesError) throw rolesError;
+
+      const supervisorIds = roles.map((r) => r.user_id);
+      if (supervisorIds.length === 0) return [];
+
+      const { data: profiles, error: profilesError } = await supabase
+        .from("profiles")
+        .select("id, name, username")
+        .in("id", supervisorIds);
+      if (profilesError) throw profilesError;
+      return profiles.sort((a, b) => a.name.localeCompare(b.name));
+    },
+  });
+
+  // Unlocks are granted by admins and gestors, so names come from all profiles
+  const { data: profiles = [] } = useQuery({
+    queryKey: ["profiles_names"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("profiles").select("id, name");
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const profilesMap = useMemo(() => new Map(profiles.map((p) => [p.id, p.name])), [profiles]);
+
+  const saveSettings = useMutation({
+    mutationFn: async () => {
+      const daysAfter = Number(settingsForm.cutoff_days_after);
+      if (!settingsForm.cutoff_time) throw new Error("Informe o horário limite");
+      if (!Number.isInteger(daysAfter) || daysAfter < 0 || daysAfter > 7) {
+        throw new Error("Os dias após a data devem estar entre 0 e 7");
+      }
+      const { error } = await supabase
+        .from("departure_cutoff_settings")
+        .update({
+          is_enabled: settingsForm.is_enabled,
+          cutoff_time: settingsForm.cutoff_time,
+          cutoff_days_after: daysAfter,
+        })
+        .eq("id", true);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["departure_cutoff_settings"] });
+      toast({ title: "Prazo de lançamento atualizado!" });
+    },
+    onError: (error) => {
+      toast({ title: "Erro ao salvar prazo", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const createUnlock = useMutation({
+    mutationFn: async () => {
+      const justification = unlockForm.justification.trim();
+      if (!unlockForm.supervisor_id) throw new Error("Selecione o supervisor");
+      if (!unlockForm.date) throw new Error("Informe a data");
+      if (justification.length < 10) throw new Error("A justificativa deve ter ao menos 10 caracteres");
+
+      const { error } = await supabase.from("departure_unlocks").insert({
+        supervisor_id: unlockForm.supervisor_id,
+        date: unlockForm.date,
+        justification,
+        expires_at: addHours(new Date(), Number(unlockForm.hours)).toISOString(),
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["departure_unlocks"] });
+      toast({ title: "Lançamento desbloqueado!" });
+      setIsDialogOpen(false);
+    },
+    onError: (error) => {
+      toast({ title: "Erro ao desbloquear", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const openNew = () => {
+    setUnlockForm(emptyUnlockForm);
+    setIsDialogOpen(true);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    createUnlock.mutate();
+  };
+
+  const now = new Date();
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Prazo de Lançamento de Saídas</CardTitle>
+          <CardDescription>
+            Após o horário limite, os supervisores só conseguem lançar ou editar as saídas do dia com um desbloqueio.
+            Lançamentos feitos após o prazo contam como atrasados.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center justify-between max-w-md">
+            <Label htmlFor="cutoff_enabled">Bloquear lançamentos após o prazo</Label>
+            <Switch
+              id="cutoff_enabled"
+              checked={settingsForm.is_enabled}
+              onCheckedChange={(checked) => setSettingsForm({ ...settingsForm, is_enabled: checked })}
+            />
+          </div>
+          <div className="flex flex-col sm:flex-row gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="cutoff_time">Horário limite</Label>
+              <Input
+                id="cutoff_time"
+                type="time"
+                value={settingsForm.cutoff_time}
+                onChange={(e) => setSettingsForm({ ...settingsForm, cutoff_time: e.target.value })}
+                className="w-36"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="cutoff_days_after">Dias após a data da saída</Label>
+              <Input
+                id="cutoff_days_after"
+                type="number"
+                min="0"
+                max="7"
+                value={settingsForm.cutoff_days_after}
+                onChange={(e) => setSettingsForm({ ...settingsForm, cutoff_days_after: e.target.value })}
+                className="w-36"
+              />
+            </div>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            {settingsForm.cutoff_days_after === "0"
+              ? `Saídas de um dia podem ser lançadas até as ${settingsForm.cutoff_time} do mesmo dia.`
+              : `Saídas de um dia podem ser lançadas até as ${settingsForm.cutoff_time} de ${settingsForm.cutoff_days_after} dia(s) depois.`}
+          </p>
+          <Button onClick={() => saveSettings.mutate()} disabled={saveSettings.isPending}>
+            Salvar Prazo
+          </Button>
+        </CardContent>
+      </Card>
+
+      <div>
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-4">
+          <div>
+            <h2 className="text-xl font-semibold mb-2">Desbloqueios</h2>
+            <p className="text-muted-foreground text-sm">
+              Libera o supervisor para lançar ou editar as saídas de uma data após o prazo, por tempo limitado.
+            </p>
+          </div>
+          <Button className="gap-2" onClick={openNew}>
+            <Plus className="h-4 w-4" />
+            Novo Desbloqueio
+          </Button>
+        </div>
+
+        <div className="bg-card rounded-xl border border-border overflow-hidden">
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-muted/50">
+                <TableHead>Data da Saída</TableHead>
+                <TableHead>Supervisor</TableHead>
+                <TableHead>Justificativa</TableHead>
+                <TableHead>Liberado por</TableHead>
+                <TableHead>Válido até</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {unlocks.map((unlock) => (
+                <TableRow key={unlock.id} className="hover:bg-muted/30">
+                  <TableCell className="font-medium">
+                    {format(new Date(unlock.date + "T12:00:00"), "dd/MM/yyyy")}
+                  </TableCell>
+                  <TableCell>{profilesMap.get(unlock.supervisor_id) || "-"}</TableCell>
+                  <TableCell className="text-sm text-muted-foreground max-w-xs">{unlock.justification}</TableCell>
+                  <TableCell>{unlock.unlocked_by ? profilesMap.get(unlock.unlocked_by) || "-" : "-"}</TableCell>
+                  <TableCell>
+                    {format(new Date(unlock.expires_at), "dd/MM/yyyy HH:mm")}
+                    {new Date(unlock.expires_at) > now && (
+                      <Badge variant="secondary" className="ml-2">Ativo</Badge>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          {isLoading && (
+            <div className="p-8 text-center text-muted-foreground">Carregando...</div>
+          )}
+          {!isLoading && unlocks.length === 0 && (
+            <div className="p-8 text-center text-muted-foreground">Nenhum desbloqueio registrado</div>
+          )}
+        </div>
+      </div>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <LockOpen className="h-5 w-5" />
+              Novo Desbloqueio
+            </DialogTitle>
+            <DialogDescription>
+              O supervisor poderá lançar e editar as saídas da data enquanto o desbloqueio estiver válido.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label>Supervisor *</Label>
+              <Select
+                value={unlockForm.supervisor_id}
+                onValueChange={(value) => setUnlockForm({ ...unlockForm, supervisor_id: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Selecione" />
+                </SelectTrigger>
+                <SelectContent>
+                  {supervisors.map((sup) => (
+                    <SelectItem key={sup.id} value={sup.id}>{sup.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="unlock_date">Data da saída *</Label>
+                <Input
+                  id="unlock_date"
+                  type="date"
+                  value={unlockForm.date}
+                  onChange={(e) => setUnlockForm({ ...unlockForm, date: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Válido por</Label>
+                <Select value={unlockForm.hours} onValueChange={(value) => setUnlockForm({ ...unlockForm, hours: value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {UNLOCK_HOURS.map((hours) => (
+                      <SelectItem key={hours} value={hours}>{hours} hora(s)</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="unlock_justification">Justificativa *</Label>
+              <Textarea
+                id="unlock_justification"
+                value={unlockForm.justification}
+                onChange={(e) => setUnlockForm({ ...unlockForm, justification: e.target.value })}
+                placeholder="Por que o lançamento está sendo feito após o prazo?"
+                rows={3}
+                required
+              />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                Cancelar
+              </Button>
+              <Button type="submit" disabled={createUnlock.isPending}>
+                Desbloquear
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
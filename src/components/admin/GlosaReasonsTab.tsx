@@ -0,0 +1,289 @@
+import { useMemo, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Edit, FileX, Plus, Trash2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import { GlosaReason } from "@/lib/oseValidation";
+
+const emptyForm = {
+  code: "",
+  name: "",
+  requires_note: false,
+  is_active: true,
+  sort_order: "0",
+};
+
+export const GlosaReasonsTab = () => {
+  const queryClient = useQueryClient();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+
+  const { data: reasons = [], isLoading } = useQuery({
+    queryKey: ["glosa_reasons"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("glosa_reasons")
+        .select("*")
+        .order("sort_order")
+        .order("code");
+      if (error) throw error;
+      return data as GlosaReason[];
+    },
+  });
+
+  const nextSortOrder = useMemo(
+    () => (reasons.length > 0 ? Math.max(...reasons.map((r) => r.sort_order)) + 10 : 10),
+    [reasons]
+  );
+
+  const saveReason = useMutation({
+    mutationFn: async () => {
+      const code = formData.code.trim().toUpperCase();
+      const name = formData.name.trim();
+      const sortOrder = Number(formData.sort_order);
+      if (!code) throw new Error("Informe o código do motivo");
+      if (!name) throw new Error("Informe a descrição do motivo");
+      if (!Number.isInteger(sortOrder)) throw new Error("Informe uma ordem válida");
+
+      const payload = {
+        code,
+        name,
+        requires_note: formData.requires_note,
+        is_active: formData.is_active,
+        sort_order: sortOrder,
+      };
+      const { error } = editingId
+        ? await supabase.from("glosa_reasons").update(payload).eq("id", editingId)
+        : await supabase.from("glosa_reasons").insert(payload);
+      if (error) {
+        if (error.code === "23505") throw new Error("Já existe um motivo com esse código.");
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["glosa_reasons"] });
+      toast({ title: editingId ? "Motivo atualizado!" : "Motivo cadastrado!" });
+      setIsDialogOpen(false);
+    },
+    onError: (error) => {
+      toast({ title: "Erro ao salvar motivo", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const toggleActive = useMutation({
+    mutationFn: async ({ id, is_active }: { id: string; is_active: boolean }) => {
+      const { error } = await supabase.from("glosa_reasons").update({ is_active }).eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["glosa_reasons"] });
+    },
+    onError: (error) => {
+      toast({ title: "Erro ao atualizar motivo", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteReason = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("glosa_reasons").delete().eq("id", id);
+      if (error) {
+        if (error.code === "23503") {
+          throw new Error("Motivo já utilizado em validações. Desative-o em vez de remover.");
+        }
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["glosa_reasons"] });
+      toast({ title: "Motivo removido!" });
+    },
+    onError: (error) => {
+      toast({ title: "Erro ao remover motivo", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const openNew = () => {
+    setEditingId(null);
+    setFormData({ ...emptyForm, sort_order: String(nextSortOrder) });
+    setIsDialogOpen(true);
+  };
+
+  const openEdit = (reason: GlosaReason) => {
+    setEditingId(reason.id);
+    setFormData({
+      code: reason.code,
+      name: reason.name,
+      requires_note: reason.requires_note,
+      is_active: reason.is_active,
+      sort_order: String(reason.sort_order),
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleDelete = (id: string) => {
+    if (confirm("Tem certeza que deseja remover este motivo?")) {
+      deleteReason.mutate(id);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveReason.mutate();
+  };
+
+  return (
+    <div>
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6">
+        <div>
+          <h2 className="text-xl font-semibold mb-2">Motivos de Glosa</h2>
+          <p className="text-muted-foreground text-sm">
+            Códigos usados na validação dos itens das OSEs. Motivos já utilizados não podem ser removidos, apenas
+            desativados.
+          </p>
+        </div>
+        <Button className="gap-2" onClick={openNew}>
+          <Plus className="h-4 w-4" />
+          Novo Motivo
+        </Button>
+      </div>
+
+      <div className="bg-card rounded-xl border border-border overflow-hidden">
+        <Table>
+          <TableHeader>
+            <TableRow className="bg-muted/50">
+              <TableHead className="w-16">Ordem</TableHead>
+              <TableHead className="w-24">Código</TableHead>
+              <TableHead>Motivo</TableHead>
+              <TableHead>Observação</TableHead>
+              <TableHead>Ativo</TableHead>
+              <TableHead className="text-right">Ações</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {reasons.map((reason) => (
+              <TableRow key={reason.id} className="hover:bg-muted/30">
+                <TableCell className="font-mono text-muted-foreground">{reason.sort_order}</TableCell>
+                <TableCell className="font-mono font-medium">{reason.code}</TableCell>
+                <TableCell className="font-medium">{reason.name}</TableCell>
+                <TableCell className="text-sm text-muted-foreground">
+                  {reason.requires_note ? "Obrigatória" : "Opcional"}
+                </TableCell>
+                <TableCell>
+                  <Switch
+                    checked={reason.is_active}
+                    onCheckedChange={(checked) => toggleActive.mutate({ id: reason.id, is_active: checked })}
+                  />
+                </TableCell>
+                <TableCell className="text-right">
+                  <Button variant="ghost" size="icon" onClick={() => openEdit(reason)}>
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => handleDelete(reason.id)}>
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+        {isLoading && (
+          <div className="p-8 text-center text-muted-foreground">Carregando...</div>
+        )}
+        {!isLoading && reasons.length === 0 && (
+          <div className="p-8 text-center text-muted-foreground">Nenhum motivo cadastrado</div>
+        )}
+      </div>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <FileX className="h-5 w-5" />
+              {editingId ? "Editar Motivo" : "Novo Motivo"}
+            </DialogTitle>
+            <DialogDescription>
+              Use o mesmo código do relatório de validação do contratante.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="glosa_code">Código *</Label>
+                <Input
+                  id="glosa_code"
+                  value={formData.code}
+                  onChange={(e) => setFormData({ ...formData, code: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-2 col-span-2">
+                <Label htmlFor="glosa_name">Motivo *</Label>
+                <Input
+                  id="glosa_name"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  required
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="glosa_sort_order">Ordem na lista</Label>
+              <Input
+                id="glosa_sort_order"
+                type="number"
+                value={formData.sort_order}
+                onChange={(e) => setFormData({ ...formData, sort_order: e.target.value })}
+                className="w-32"
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="glosa_requires_note">Exigir observação</Label>
+              <Switch
+                id="glosa_requires_note"
+                checked={formData.requires_note}
+                onCheckedChange={(checked) => setFormData({ ...formData, requires_note: checked })}
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="glosa_is_active">Ativo</Label>
+              <Switch
+                id="glosa_is_active"
+                checked={formData.is_active}
+                onCheckedChange={(checked) => setFormData({ ...formData, is_active: checked })}
+              />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                Cancelar
+              </Button>
+              <Button type="submit" disabled={saveReason.isPending}>
+                Salvar
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
@@ -0,0 +1,385 @@
+import { useMemo, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Edit, Plus, Target, Trash2 } from "lucide-react";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { supabase } from "@/integrations/supabase/client";
+import { Database } from "@/integrations/supabase/types";
+import { toast } from "@/hooks/use-toast";
+import { ProductionTarget, TARGET_METRICS, TargetMetric } from "@/lib/productionTargets";
+
+type TeamType = Database["public"]["Enums"]["team_type"];
+
+const TEAM_TYPE_LABELS: Record<TeamType, string> = {
+  linha_viva: "Linha Viva",
+  linha_morta: "Linha Morta",
+  poda: "Poda",
+  linha_morta_obras: "Linha Morta Obras",
+  recolha: "Recolha",
+  linha_viva_obras: "Linha Viva Obras",
+};
+
+const emptyForm = {
+  metric: "producao" as TargetMetric,
+  month: format(new Date(), "yyyy-MM"),
+  scope: "team_type" as "team_type" | "team",
+  team_type: "" as TeamType | "",
+  team_id: "",
+  target_value: "",
+  notes: "",
+};
+
+const formatMonth = (month: string) => format(new Date(month + "T00:00:00"), "MMMM yyyy", { locale: ptBR });
+
+export const ProductionTargetsTab = () => {
+  const queryClient = useQueryClient();
+  const [metricFilter, setMetricFilter] = useState("all");
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+
+  const { data: targets = [], isLoading } = useQuery({
+    queryKey: ["production_targets"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("production_targets").select("*");
+      if (error) throw error;
+      return data as ProductionTarget[];
+    },
+  });
+
+  const { data: teams = [] } = useQuery({
+    queryKey: ["teams_for_targets"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("teams").select("id, name, type").order("name");
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const teamsMap = useMemo(() => new Map(teams.map((t) => [t.id, t.name])), [teams]);
+
+  const sortedTargets = useMemo(
+    () =>
+      targets
+        .filter((t) => metricFilter === "all" || t.metric === metricFilter)
+        .sort((a, b) =>
+          b.month.localeCompare(a.month) ||
+          a.metric.localeCompare(b.metric) ||
+          (a.team_type || "").localeCompare(b.team_type || "")
+        ),
+    [targets, metricFilter]
+  );
+
+  const saveTarget = useMutation({
+    mutationFn: async () => {
+      const value = Number(formData.target_value.replace(",", "."));
+      if (!formData.month) throw new Error("Informe o mês");
+      if (Number.isNaN(value) || value < 0) throw new Error("Informe um valor de meta válido");
+      if (formData.scope === "team" && !formData.team_id) throw new Error("Selecione a equipe");
+      if (formData.scope === "team_type" && !formData.team_type) throw new Error("Selecione o tipo de equipe");
+
+      const { data: userData } = await supabase.auth.getUser();
+      const payload = {
+        metric: formData.metric,
+        month: `${formData.month}-01`,
+        team_id: formData.scope === "team" ? formData.team_id : null,
+        team_type: formData.scope === "team_type" ? (formData.team_type as TeamType) : null,
+        target_value: value,
+        notes: formData.notes || null,
+      };
+      const { error } = editingId
+        ? await supabase.from("production_targets").update(payload).eq("id", editingId)
+        : await supabase.from("production_targets").insert({ ...payload, created_by: userData.user?.id });
+      if (error) {
+        if (error.code === "23505") {
+          throw new Error("Já existe uma meta para essa métrica, mês e equipe/tipo. Edite a meta existente.");
+        }
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["production_targets"] });
+      toast({ title: editingId ? "Meta atualizada!" : "Meta cadastrada!" });
+      setIsDialogOpen(false);
+    },
+    onError: (error) => {
+      toast({ title: "Erro ao salvar meta", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteTarget = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("production_targets").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["production_targets"] });
+      toast({ title: "Meta removida!" });
+    },
+    onError: (error) => {
+      toast({ title: "Erro ao remover meta", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const openNew = () => {
+    setEditingId(null);
+    setFormData(emptyForm);
+    setIsDialogOpen(true);
+  };
+
+  const openEdit = (target: ProductionTarget) => {
+    setEditingId(target.id);
+    setFormData({
+      metric: target.metric as TargetMetric,
+      month: target.month.slice(0, 7),
+      scope: target.team_id ? "team" : "team_type",
+      team_type: (target.team_type as TeamType) || "",
+      team_id: target.team_id || "",
+      target_value: String(target.target_value),
+      notes: target.notes || "",
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleDelete = (id: string) => {
+    if (confirm("Tem certeza que deseja remover esta meta?")) {
+      deleteTarget.mutate(id);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveTarget.mutate();
+  };
+
+  return (
+    <div>
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6">
+        <div>
+          <h2 className="text-xl font-semibold mb-2">Metas de Produção</h2>
+          <p className="text-muted-foreground text-sm">
+            Uma meta vale a partir do mês informado até ser substituída por outra mais recente. A meta da equipe
+            prevalece sobre a do tipo de equipe.
+          </p>
+        </div>
+        <Button className="gap-2" onClick={openNew}>
+          <Plus className="h-4 w-4" />
+          Nova Meta
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap gap-4 mb-6">
+        <Select value={metricFilter} onValueChange={setMetricFilter}>
+          <SelectTrigger className="w-64">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Todas as métricas</SelectItem>
+            {(Object.keys(TARGET_METRICS) as TargetMetric[]).map((metric) => (
+              <SelectItem key={metric} value={metric}>{TARGET_METRICS[metric].label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="bg-card rounded-xl border border-border overflow-hidden">
+        <Table>
+          <TableHeader>
+            <TableRow className="bg-muted/50">
+              <TableHead>Métrica</TableHead>
+              <TableHead>A partir de</TableHead>
+              <TableHead>Aplica-se a</TableHead>
+              <TableHead className="text-right">Meta</TableHead>
+              <TableHead>Observação</TableHead>
+              <TableHead className="text-right">Ações</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {sortedTargets.map((target) => {
+              const metric = TARGET_METRICS[target.metric as TargetMetric];
+              return (
+                <TableRow key={target.id} className="hover:bg-muted/30">
+                  <TableCell className="font-medium">{metric?.label || target.metric}</TableCell>
+                  <TableCell className="capitalize">{formatMonth(target.month)}</TableCell>
+                  <TableCell>
+                    {target.team_id ? (
+                      <span>{teamsMap.get(target.team_id) || "Equipe removida"}</span>
+                    ) : (
+                      <Badge variant="outline">Tipo: {TEAM_TYPE_LABELS[target.team_type as TeamType] || target.team_type}</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right font-mono">
+                    {Number(target.target_value).toLocaleString("pt-BR")}
+                    {metric && <div className="text-xs font-sans text-muted-foreground">{metric.unit}</div>}
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground">{target.notes || "-"}</TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="ghost" size="icon" onClick={() => openEdit(target)}>
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => handleDelete(target.id)}>
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+        {isLoading && (
+          <div className="p-8 text-center text-muted-foreground">Carregando...</div>
+        )}
+        {!isLoading && sortedTargets.length === 0 && (
+          <div className="p-8 text-center text-muted-foreground">Nenhuma meta cadastrada</div>
+        )}
+      </div>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Target className="h-5 w-5" />
+              {editingId ? "Editar Meta" : "Nova Meta"}
+            </DialogTitle>
+            <DialogDescription>
+              {TARGET_METRICS[formData.metric].label}: meta {TARGET_METRICS[formData.metric].unit}
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Métrica *</Label>
+                <Select
+                  value={formData.metric}
+                  onValueChange={(value) => setFormData({ ...formData, metric: value as TargetMetric })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(TARGET_METRICS) as TargetMetric[]).map((metric) => (
+                      <SelectItem key={metric} value={metric}>{TARGET_METRICS[metric].label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="target_month">A partir do mês *</Label>
+                <Input
+                  id="target_month"
+                  type="month"
+                  value={formData.month}
+                  onChange={(e) => setFormData({ ...formData, month: e.target.value })}
+                  required
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Aplica-se a *</Label>
+                <Select
+                  value={formData.scope}
+                  onValueChange={(value) => setFormData({ ...formData, scope: value as "team_type" | "team" })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="team_type">Tipo de equipe</SelectItem>
+                    <SelectItem value="team">Equipe específica</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {formData.scope === "team_type" ? (
+                <div className="space-y-2">
+                  <Label>Tipo *</Label>
+                  <Select
+                    value={formData.team_type}
+                    onValueChange={(value) => setFormData({ ...formData, team_type: value as TeamType })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Selecione" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(TEAM_TYPE_LABELS) as TeamType[]).map((type) => (
+                        <SelectItem key={type} value={type}>{TEAM_TYPE_LABELS[type]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  <Label>Equipe *</Label>
+                  <Select value={formData.team_id} onValueChange={(value) => setFormData({ ...formData, team_id: value })}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Selecione" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {teams.map((team) => (
+                        <SelectItem key={team.id} value={team.id}>{team.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="target_value">Meta * ({TARGET_METRICS[formData.metric].unit})</Label>
+              <Input
+                id="target_value"
+                inputMode="decimal"
+                value={formData.target_value}
+                onChange={(e) => setFormData({ ...formData, target_value: e.target.value })}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="target_notes">Observação</Label>
+              <Input
+                id="target_notes"
+                value={formData.notes}
+                onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                placeholder="Opcional"
+              />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                Cancelar
+              </Button>
+              <Button type="submit" disabled={saveTarget.isPending}>
+                Salvar
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
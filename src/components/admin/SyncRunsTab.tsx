@@ -0,0 +1,316 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ChevronLeft, ChevronRight, Eye } from "lucide-react";
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { cn } from "@/lib/utils";
+
+type SyncRun = Tables<"production_sync_runs">;
+
+type IgnoreReason = "sem_codigo" | "data_invalida" | "equipe_nao_encontrada";
+
+interface IgnoredRow {
+  reason: IgnoreReason;
+  code: string | null;
+  date: string | null;
+  production: number | null;
+}
+
+interface UnmatchedCode {
+  code: string;
+  rows: number;
+  production: number;
+}
+
+const PAGE_SIZE = 30;
+
+const IGNORE_REASON_LABELS: Record<IgnoreReason, string> = {
+  sem_codigo: "Sem código",
+  data_invalida: "Data inválida",
+  equipe_nao_encontrada: "Equipe não encontrada",
+};
+
+const STATUS_CONFIG: Record<string, { label: string; className: string }> = {
+  sucesso: { label: "Sucesso", className: "bg-green-500/20 text-green-700" },
+  erro: { label: "Erro", className: "bg-red-500/20 text-red-700" },
+};
+
+const formatDay = (date: string | null) =>
+  date ? format(new Date(date + "T00:00:00"), "dd/MM/yyyy") : "—";
+
+const formatDuration = (ms: number | null) => {
+  if (ms === null) return "—";
+  return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+};
+
+export const SyncRunsTab = () => {
+  const [statusFilter, setStatusFilter] = useState("all");
+  const [modeFilter, setModeFilter] = useState("all");
+  const [page, setPage] = useState(0);
+  const [selectedRun, setSelectedRun] = useState<SyncRun | null>(null);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["production_sync_runs", statusFilter, modeFilter, page],
+    queryFn: async () => {
+      let query = supabase
+        .from("production_sync_runs")
+        .select("*", { count: "exact" })
+        .order("started_at", { ascending: false })
+        .range(page * PAGE_SIZE, page * PAGE_SIZE + PAGE_SIZE - 1);
+
+      if (statusFilter !== "all") query = query.eq("status", statusFilter);
+      if (modeFilter !== "all") query = query.eq("dry_run", modeFilter === "dry_run");
+
+      const { data, error, count } = await query;
+      if (error) throw error;
+      return { runs: data, count: count || 0 };
+    },
+  });
+
+  const runs = data?.runs || [];
+  const totalPages = Math.max(1, Math.ceil((data?.count || 0) / PAGE_SIZE));
+
+  const unmatchedCodes = ((selectedRun?.unmatched_codes || []) as unknown) as UnmatchedCode[];
+  const ignoredRows = ((selectedRun?.ignored_rows || []) as unknown) as IgnoredRow[];
+
+  return (
+    <div>
+      <div className="mb-6">
+        <h2 className="text-xl font-semibold mb-2">Sincronização de Produção</h2>
+        <p className="text-muted-foreground text-sm">
+          Histórico de execuções da sincronização com o BI, com linhas ignoradas e códigos de equipe não reconhecidos
+        </p>
+      </div>
+
+      <div className="flex flex-wrap gap-4 mb-6">
+        <Select value={statusFilter} onValueChange={(value) => { setStatusFilter(value); setPage(0); }}>
+          <SelectTrigger className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Todos os status</SelectItem>
+            <SelectItem value="sucesso">Sucesso</SelectItem>
+            <SelectItem value="erro">Erro</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select value={modeFilter} onValueChange={(value) => { setModeFilter(value); setPage(0); }}>
+          <SelectTrigger className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Todos os modos</SelectItem>
+            <SelectItem value="real">Gravação</SelectItem>
+            <SelectItem value="dry_run">Simulação</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="bg-card rounded-xl border border-border overflow-hidden">
+        <Table>
+          <TableHeader>
+            <TableRow className="bg-muted/50">
+              <TableHead>Início</TableHead>
+              <TableHead>Origem</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Período</TableHead>
+              <TableHead className="text-right">Recebidas</TableHead>
+              <TableHead className="text-right">Gravadas</TableHead>
+              <TableHead className="text-right">Atualizadas</TableHead>
+              <TableHead className="text-right">Removidas</TableHead>
+              <TableHead className="text-right">Ignoradas</TableHead>
+              <TableHead className="text-right">Duração</TableHead>
+              <TableHead className="text-right">Detalhes</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {runs.map((run) => {
+              const status = STATUS_CONFIG[run.status];
+              const unmatchedCount = ((run.unmatched_codes || []) as unknown as UnmatchedCode[]).length;
+              return (
+                <TableRow key={run.id} className="hover:bg-muted/30">
+                  <TableCell className="whitespace-nowrap">{format(new Date(run.started_at), "dd/MM/yyyy HH:mm:ss")}</TableCell>
+                  <TableCell className="max-w-[12rem] truncate" title={run.source || undefined}>
+                    {run.source || <span className="text-muted-foreground">—</span>}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-1">
+                      <span className={cn("px-3 py-1 rounded-full text-xs font-medium", status?.className)}>
+                        {status?.label || run.status}
+                      </span>
+                      {run.dry_run && <Badge variant="outline" className="text-xs">Simulação</Badge>}
+                    </div>
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap text-sm">
+                    {run.date_from ? `${formatDay(run.date_from)} a ${formatDay(run.date_to)}` : "—"}
+                  </TableCell>
+                  <TableCell className="text-right">{run.rows_received}</TableCell>
+                  <TableCell className="text-right">{run.rows_inserted}</TableCell>
+                  <TableCell className="text-right">{run.rows_updated}</TableCell>
+                  <TableCell className="text-right">{run.rows_deleted}</TableCell>
+                  <TableCell className="text-right">
+                    <span className={cn(run.rows_ignored > 0 && "text-orange-600 font-medium")}>{run.rows_ignored}</span>
+                    {unmatchedCount > 0 && (
+                      <div className="text-xs text-muted-foreground">{unmatchedCount} código(s)</div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right whitespace-nowrap">{formatDuration(run.duration_ms)}</TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="ghost" size="icon" onClick={() => setSelectedRun(run)}>
+                      <Eye className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+        {isLoading && (
+          <div className="p-8 text-center text-muted-foreground">Carregando...</div>
+        )}
+        {!isLoading && runs.length === 0 && (
+          <div className="p-8 text-center text-muted-foreground">Nenhuma execução registrada</div>
+        )}
+      </div>
+
+      <div className="flex items-center justify-between mt-4 text-sm text-muted-foreground">
+        <span>{data?.count || 0} execução(ões)</span>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={() => setPage((p) => p - 1)} disabled={page === 0}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <span>Página {page + 1} de {totalPages}</span>
+          <Button variant="outline" size="sm" onClick={() => setPage((p) => p + 1)} disabled={page + 1 >= totalPages}>
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      {/* Run Details Dialog */}
+      <Dialog open={!!selectedRun} onOpenChange={(open) => { if (!open) setSelectedRun(null); }}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              Execução {selectedRun && format(new Date(selectedRun.started_at), "dd/MM/yyyy HH:mm:ss")}
+              {selectedRun?.dry_run && " (simulação)"}
+            </DialogTitle>
+            <DialogDescription>
+              {selectedRun && (
+                <>
+                  {selectedRun.source || "Origem desconhecida"} • Período {formatDay(selectedRun.date_from)} a{" "}
+                  {formatDay(selectedRun.date_to)}
+                </>
+              )}
+            </DialogDescription>
+          </DialogHeader>
+
+          {selectedRun && (
+            <div className="space-y-6">
+              {selectedRun.error && (
+                <div className="rounded-lg border border-destructive/50 bg-destructive/10 p-3 text-sm text-destructive">
+                  {selectedRun.error}
+                </div>
+              )}
+
+              {selectedRun.payload_hash && (
+                <div className="text-xs text-muted-foreground">
+                  Hash do payload: <span className="font-mono break-all">{selectedRun.payload_hash}</span>
+                </div>
+              )}
+
+              <div>
+                <h3 className="font-medium mb-1">Códigos não reconhecidos</h3>
+                <p className="text-xs text-muted-foreground mb-2">
+                  Cadastre os códigos em Equipes → Códigos Externos para que a produção seja importada.
+                </p>
+                {unmatchedCodes.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">Nenhum</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow className="bg-muted/50">
+                        <TableHead>Código</TableHead>
+                        <TableHead className="text-right">Linhas</TableHead>
+                        <TableHead className="text-right">Produção</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {unmatchedCodes.map((item) => (
+                        <TableRow key={item.code}>
+                          <TableCell className="font-mono">{item.code}</TableCell>
+                          <TableCell className="text-right">{item.rows}</TableCell>
+                          <TableCell className="text-right">{item.production.toLocaleString("pt-BR")}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </div>
+
+              <div>
+                <h3 className="font-medium mb-2">
+                  Linhas ignoradas
+                  {selectedRun.rows_ignored > ignoredRows.length && (
+                    <span className="text-xs font-normal text-muted-foreground ml-2">
+                      (exibindo {ignoredRows.length} de {selectedRun.rows_ignored})
+                    </span>
+                  )}
+                </h3>
+                {ignoredRows.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">Nenhuma</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow className="bg-muted/50">
+                        <TableHead>Motivo</TableHead>
+                        <TableHead>Código</TableHead>
+                        <TableHead>Data</TableHead>
+                        <TableHead className="text-right">Produção</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {ignoredRows.map((row, index) => (
+                        <TableRow key={index}>
+                          <TableCell>{IGNORE_REASON_LABELS[row.reason] || row.reason}</TableCell>
+                          <TableCell className="font-mono">{row.code || "—"}</TableCell>
+                          <TableCell>{row.date || "—"}</TableCell>
+                          <TableCell className="text-right">
+                            {row.production !== null ? row.production.toLocaleString("pt-BR") : "—"}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
@@ -15,6 +15,8 @@ import { cn } from "@/lib/utils";
 import { ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, ResponsiveContainer, Cell } from "recharts";
 import { exportToCsv, CsvColumn, formatCurrency as formatCurrencyCsv } from "@/lib/exportCsv";
+import { getOseStatusClassName, getOseStatusLabel } from "@/lib/oseStatus";
+import { GlosaAnalytics } from "@/components/budget/GlosaAnalytics";
 
 interface Team {
   id: string;
@@ -287,7 +289,7 @@ export function AnalyticsTab({
     const columns: CsvColumn[] = [
       { key: "oseNumber", header: "Nº OSE" },
       { key: "description", header: "Descrição" },
-      { key: "status", header: "Status" },
+      { key: "status", header: "Status", format: (v) => getOseStatusLabel(v) },
       { key: "teamsInvolved", header: "Equipes", format: (v) => v.join(", ") },
       { key: "totalTrips", header: "Idas" },
       { key: "podasCount", header: "Podas" },
@@ -597,10 +599,11 @@ export function AnalyticsTab({
         <CardContent className="pt-6">
           <Tabs defaultValue="teams" className="w-full">
             <div className="flex items-center justify-between mb-4">
-              <TabsList className="grid w-auto grid-cols-3">
+              <TabsList className="grid w-auto grid-cols-4">
                 <TabsTrigger value="teams">Por Equipe</TabsTrigger>
                 <TabsTrigger value="services">Por Serviço</TabsTrigger>
                 <TabsTrigger value="oses">Por OSE</TabsTrigger>
+                <TabsTrigger value="glosas">Glosas</TabsTrigger>
               </TabsList>
             </div>
 
@@ -826,10 +829,8 @@ export function AnalyticsTab({
                           <TableCell className="font-medium">{ose.oseNumber}</TableCell>
                           <TableCell className="max-w-[200px] truncate">{ose.description || "-"}</TableCell>
                           <TableCell>
-                            <Badge 
-                              variant={ose.status === "aprovada" ? "default" : ose.status === "pendente" ? "secondary" : "outline"}
-                            >
-                              {ose.status}
+                            <Badge className={getOseStatusClassName(ose.status)}>
+                              {getOseStatusLabel(ose.status)}
                             </Badge>
                           </TableCell>
                           <TableCell>
@@ -867,6 +868,11 @@ export function AnalyticsTab({
                 </>
               )}
             </TabsContent>
+
+            {/* Glosas */}
+            <TabsContent value="glosas" className="mt-4">
+              <GlosaAnalytics items={allOseItems} />
+            </TabsContent>
           </Tabs>
         </CardContent>
       </Card>
@@ -0,0 +1,177 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  GlosaBreakdownRow,
+  GlosaReason,
+  ValidatableItem,
+  buildGlosaBreakdown,
+  formatGlosaReason,
+  getGlosaValue,
+} from "@/lib/oseValidation";
+
+interface GlosaAnalyticsItem extends ValidatableItem {
+  service?: { up: string; description: string } | null;
+  trip?: { team_id: string; teams?: { name: string } | null } | null;
+}
+
+interface GlosaAnalyticsProps {
+  /** ose_items with service and trip (with team) joined, already filtered */
+  items: GlosaAnalyticsItem[];
+}
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat("pt-BR", { style: "currency", currency: "BRL" }).format(value);
+
+const formatPercent = (value: number) => `${value.toLocaleString("pt-BR", { maximumFractionDigits: 1 })}%`;
+
+function BreakdownTable({ title, keyHeader, rows }: { title: string; keyHeader: string; rows: GlosaBreakdownRow[] }) {
+  return (
+    <div className="space-y-2">
+      <p className="text-sm font-medium">{title}</p>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>{keyHeader}</TableHead>
+            <TableHead className="text-right">Validado</TableHead>
+            <TableHead className="text-right">Glosa</TableHead>
+            <TableHead className="text-right">% Glosa</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map((row) => (
+            <TableRow key={row.key}>
+              <TableCell className="max-w-[240px] truncate font-medium" title={row.label}>{row.label}</TableCell>
+              <TableCell className="text-right">{formatCurrency(row.validatedValue)}</TableCell>
+              <TableCell className="text-right text-destructive font-medium">{formatCurrency(row.glosaValue)}</TableCell>
+              <TableCell className="text-right">{formatPercent(row.glosaPercent)}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
+/** Glosa of the validated items by service UP, by team and by reason */
+export function GlosaAnalytics({ items }: GlosaAnalyticsProps) {
+  const { data: reasons = [] } = useQuery({
+    queryKey: ["glosa_reasons"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("glosa_reasons")
+        .select("*")
+        .order("sort_order")
+        .order("code");
+      if (error) throw error;
+      return data as GlosaReason[];
+    },
+  });
+
+  const byService = useMemo(
+    () =>
+      buildGlosaBreakdown(
+        items.filter((item) => item.service),
+        (item) => item.service.up,
+        (item) => `${item.service.up} - ${item.service.description}`,
+      ),
+    [items]
+  );
+
+  const byTeam = useMemo(
+    () =>
+      buildGlosaBreakdown(
+        items.filter((item) => item.trip),
+        (item) => item.trip.team_id,
+        (item) => item.trip.teams?.name || "Desconhecida",
+      ),
+    [items]
+  );
+
+  // Only the glosado items, so the share is of the total glosa
+  const byReason = useMemo(() => {
+    const reasonsMap = new Map(reasons.map((r) => [r.id, r]));
+    return buildGlosaBreakdown(
+      items.filter((item) => getGlosaValue(item) > 0),
+      (item) => item.glosa_reason_id || "none",
+      (item) => formatGlosaReason(reasonsMap.get(item.glosa_reason_id)),
+    );
+  }, [items, reasons]);
+
+  const totals = useMemo(() => {
+    const measured = byService.reduce((sum, row) => sum + row.measuredValue, 0);
+    const glosa = byService.reduce((sum, row) => sum + row.glosaValue, 0);
+    return {
+      measured,
+      glosa,
+      validated: byService.reduce((sum, row) => sum + row.validatedValue, 0),
+      percent: measured > 0 ? (glosa / measured) * 100 : 0,
+      pending: items.filter((item) => item.validated_quantity === null).length,
+    };
+  }, [byService, items]);
+
+  if (byService.length === 0) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        Nenhum item validado para os filtros selecionados.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        <div className="rounded-lg border p-3">
+          <p className="text-xs text-muted-foreground">Medido (itens validados)</p>
+          <p className="text-lg font-bold">{formatCurrency(totals.measured)}</p>
+        </div>
+        <div className="rounded-lg border p-3">
+          <p className="text-xs text-muted-foreground">Validado</p>
+          <p className="text-lg font-bold text-success">{formatCurrency(totals.validated)}</p>
+        </div>
+        <div className="rounded-lg border p-3">
+          <p className="text-xs text-muted-foreground">Glosa</p>
+          <p className="text-lg font-bold text-destructive">
+            {formatCurrency(totals.glosa)} <span className="text-sm font-normal">({formatPercent(totals.percent)})</span>
+          </p>
+        </div>
+        <div className="rounded-lg border p-3">
+          <p className="text-xs text-muted-foreground">Itens aguardando validação</p>
+          <p className="text-lg font-bold">{totals.pending}</p>
+        </div>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        <BreakdownTable title="Glosa por Serviço (UP)" keyHeader="Serviço" rows={byService.filter((row) => row.glosaValue > 0)} />
+        <BreakdownTable title="Glosa por Equipe" keyHeader="Equipe" rows={byTeam} />
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-sm font-medium">Glosa por Motivo</p>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Motivo</TableHead>
+              <TableHead className="text-right">Itens</TableHead>
+              <TableHead className="text-right">Glosa</TableHead>
+              <TableHead className="text-right">% do Total Glosado</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {byReason.map((row) => (
+              <TableRow key={row.key}>
+                <TableCell className="font-medium">{row.label}</TableCell>
+                <TableCell className="text-right">{row.glosedItems}</TableCell>
+                <TableCell className="text-right text-destructive font-medium">{formatCurrency(row.glosaValue)}</TableCell>
+                <TableCell className="text-right">
+                  {formatPercent(totals.glosa > 0 ? (row.glosaValue / totals.glosa) * 100 : 0)}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+import { useMemo } from "react";
+import { Hourglass } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { OseStatusPeriod, calculateStageAging, getAllowedOseTransitions, oseStatusConfig } from "@/lib/oseStatus";
+
+interface OseAgingCardProps {
+  /** Status periods of the OSEs shown in the list */
+  periods: OseStatusPeriod[];
+}
+
+const formatDays = (days: number | null) =>
+  days === null ? "-" : `${days.toLocaleString("pt-BR", { maximumFractionDigits: 1 })} d`;
+
+/** Aging of the OSEs per lifecycle stage, for the stages that still have a next step */
+export function OseAgingCard({ periods }: OseAgingCardProps) {
+  const aging = useMemo(
+    () => calculateStageAging(periods).filter((row) => getAllowedOseTransitions(row.status, true).length > 0),
+    [periods]
+  );
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Hourglass className="h-5 w-5" />
+          Aging por Etapa
+        </CardTitle>
+        <CardDescription>
+          Há quanto tempo as OSEs estão paradas na etapa atual e quanto tempo costumam levar para sair dela
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Etapa</TableHead>
+              <TableHead className="text-right">OSEs</TableHead>
+              <TableHead className="text-right">Idade média</TableHead>
+              <TableHead className="text-right">Mais antiga</TableHead>
+              <TableHead className="text-right">Tempo médio na etapa</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {aging.map((row) => (
+              <TableRow key={row.status}>
+                <TableCell>
+                  <Badge className={oseStatusConfig[row.status].className}>{oseStatusConfig[row.status].label}</Badge>
+                </TableCell>
+                <TableCell className="text-right font-mono">{row.count}</TableCell>
+                <TableCell className="text-right font-mono">{formatDays(row.averageDays)}</TableCell>
+                <TableCell className="text-right font-mono">{formatDays(row.maxDays)}</TableCell>
+                <TableCell className="text-right font-mono text-muted-foreground">
+                  {formatDays(row.averageCompletedDays)}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
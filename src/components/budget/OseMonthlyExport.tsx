@@ -0,0 +1,70 @@
+import { useMemo, useState } from "react";
+import { format, subMonths } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { FileDown, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "@/hooks/use-toast";
+import { downloadOseDocuments, fetchOseDocument, getMonthlyDocumentFileName } from "@/lib/oseDocument";
+
+interface OseMonthlyExportProps {
+  oses: { id: string; ose_number: string; trips?: { date: string }[] }[];
+}
+
+const getMonthOptions = () =>
+  Array.from({ length: 12 }, (_, i) => {
+    const date = subMonths(new Date(), i);
+    return { value: format(date, "yyyy-MM"), label: format(date, "MMMM yyyy", { locale: ptBR }) };
+  });
+
+/** Measurement documents of every OSE with a trip in the chosen month, in one PDF */
+export function OseMonthlyExport({ oses }: OseMonthlyExportProps) {
+  const [month, setMonth] = useState(() => format(new Date(), "yyyy-MM"));
+  const [isExporting, setIsExporting] = useState(false);
+  const monthOptions = useMemo(() => getMonthOptions(), []);
+
+  const monthOses = useMemo(
+    () =>
+      oses
+        .filter((ose) => ose.trips?.some((trip) => trip.date.startsWith(month)))
+        .sort((a, b) => a.ose_number.localeCompare(b.ose_number)),
+    [oses, month]
+  );
+
+  const handleExport = async () => {
+    if (monthOses.length === 0) {
+      toast({ title: "Nenhuma OSE com idas no mês selecionado", variant: "destructive" });
+      return;
+    }
+    setIsExporting(true);
+    try {
+      const docs = await Promise.all(monthOses.map((ose) => fetchOseDocument(ose.id)));
+      downloadOseDocuments(docs, getMonthlyDocumentFileName(month));
+    } catch (error) {
+      toast({ title: "Erro ao gerar PDF", description: (error as Error).message, variant: "destructive" });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <Select value={month} onValueChange={setMonth}>
+        <SelectTrigger className="w-[160px]">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {monthOptions.map((option) => (
+            <SelectItem key={option.value} value={option.value}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button variant="outline" onClick={handleExport} disabled={isExporting}>
+        {isExporting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <FileDown className="h-4 w-4 mr-2" />}
+        PDF do Mês ({monthOses.length})
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { ArrowRight, History } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { Badge } from "@/components/ui/badge";
+import { OseStatusPeriod, getOseStatusClassName, getOseStatusLabel, getPeriodDays } from "@/lib/oseStatus";
+
+interface OseStatusHistoryProps {
+  /** Status periods of a single OSE */
+  periods: OseStatusPeriod[];
+}
+
+/** Timeline of the status moves of an OSE, newest first */
+export function OseStatusHistory({ periods }: OseStatusHistoryProps) {
+  const sorted = useMemo(
+    () => [...periods].sort((a, b) => b.started_at.localeCompare(a.started_at)),
+    [periods]
+  );
+
+  const actorIds = useMemo(
+    () => [...new Set(periods.map((p) => p.changed_by).filter((id): id is string => !!id))],
+    [periods]
+  );
+  const { data: actors = [] } = useQuery({
+    queryKey: ["ose_status_actors", actorIds],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("profiles").select("id, name").in("id", actorIds);
+      if (error) throw error;
+      return data;
+    },
+    enabled: actorIds.length > 0,
+  });
+  const actorNames = useMemo(() => new Map(actors.map((a) => [a.id, a.name])), [actors]);
+
+  if (sorted.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm font-medium flex items-center gap-2">
+        <History className="h-4 w-4" />
+        Histórico de Status
+      </p>
+      <div className="space-y-1">
+        {sorted.map((period, index) => {
+          const previous = sorted[index + 1];
+          return (
+            <div key={period.id} className="flex flex-wrap items-center gap-2 text-sm">
+              <span className="text-muted-foreground w-[120px]">
+                {format(new Date(period.started_at), "dd/MM/yy HH:mm", { locale: ptBR })}
+              </span>
+              {previous && (
+                <>
+                  <Badge variant="outline" className="text-xs">{getOseStatusLabel(previous.status)}</Badge>
+                  <ArrowRight className="h-3 w-3 text-muted-foreground" />
+                </>
+              )}
+              <Badge className={getOseStatusClassName(period.status)}>{getOseStatusLabel(period.status)}</Badge>
+              <span className="text-muted-foreground">
+                {period.changed_by ? actorNames.get(period.changed_by) || "-" : "Sistema"}
+              </span>
+              <span className="text-xs text-muted-foreground ml-auto">
+                {getPeriodDays(period).toLocaleString("pt-BR", { maximumFractionDigits: 1 })} d
+                {!period.ended_at && " (atual)"}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,349 @@
+import { useEffect, useMemo, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { AlertTriangle, CheckCheck, ClipboardCheck } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { toast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+import {
+  GlosaReason,
+  ValidatableItem,
+  formatGlosaReason,
+  getGlosaValue,
+  getItemValidationError,
+  getValidatedTotal,
+} from "@/lib/oseValidation";
+
+interface ValidationItem extends ValidatableItem {
+  id: string;
+  glosa_note: string | null;
+  service?: { up: string; description: string };
+}
+
+interface ValidationTrip {
+  id: string;
+  date: string;
+  team?: { name: string };
+  items?: ValidationItem[];
+}
+
+interface OseValidationDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  ose: { id: string; ose_number: string; status: string };
+  trips: ValidationTrip[];
+}
+
+interface RowForm {
+  validated_quantity: string;
+  validated_unit_price: string;
+  glosa_reason_id: string | null;
+  glosa_note: string;
+}
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat("pt-BR", { style: "currency", currency: "BRL" }).format(value);
+
+const toRowForm = (item: ValidationItem): RowForm => ({
+  validated_quantity: item.validated_quantity?.toString() ?? "",
+  validated_unit_price: (item.validated_unit_price ?? item.unit_price).toString(),
+  glosa_reason_id: item.glosa_reason_id,
+  glosa_note: item.glosa_note ?? "",
+});
+
+/** Item with the values typed in the form, for the diff and the checks */
+const applyRowForm = (item: ValidationItem, row: RowForm | undefined): ValidationItem => {
+  if (!row || row.validated_quantity === "") return { ...item, validated_quantity: null };
+  return {
+    ...item,
+    validated_quantity: parseFloat(row.validated_quantity),
+    validated_unit_price: row.validated_unit_price === "" ? item.unit_price : parseFloat(row.validated_unit_price),
+    glosa_reason_id: row.glosa_reason_id,
+    glosa_note: row.glosa_note,
+  };
+};
+
+/**
+ * Item-level validation of an OSE: measured vs validated per service, with the
+ * glosa reason of anything rejected. Editable by admins/gestores while the OSE
+ * is sent to validation; otherwise a read-only diff.
+ */
+export function OseValidationDialog({ open, onOpenChange, ose, trips }: OseValidationDialogProps) {
+  const { isAdmin } = useAuth();
+  const queryClient = useQueryClient();
+  const [rows, setRows] = useState<Record<string, RowForm>>({});
+  const canEdit = isAdmin && ose.status === "enviada_validacao";
+
+  const { data: reasons = [] } = useQuery({
+    queryKey: ["glosa_reasons"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("glosa_reasons")
+        .select("*")
+        .order("sort_order")
+        .order("code");
+      if (error) throw error;
+      return data as GlosaReason[];
+    },
+  });
+  const activeReasons = useMemo(() => reasons.filter((r) => r.is_active), [reasons]);
+
+  const entries = useMemo(
+    () => trips.flatMap((trip) => (trip.items || []).map((item) => ({ trip, item }))),
+    [trips]
+  );
+
+  useEffect(() => {
+    if (!open) return;
+    setRows(Object.fromEntries(entries.map(({ item }) => [item.id, toRowForm(item)])));
+  }, [open, entries]);
+
+  const edited = useMemo(
+    () => entries.map(({ trip, item }) => ({ trip, item: applyRowForm(item, rows[item.id]) })),
+    [entries, rows]
+  );
+
+  const totals = useMemo(() => {
+    const validatedItems = edited.filter(({ item }) => item.validated_quantity !== null);
+    return {
+      measured: edited.reduce((sum, { item }) => sum + item.total_price, 0),
+      validated: validatedItems.reduce((sum, { item }) => sum + getValidatedTotal(item)!, 0),
+      glosa: validatedItems.reduce((sum, { item }) => sum + getGlosaValue(item), 0),
+      pending: edited.length - validatedItems.length,
+    };
+  }, [edited]);
+
+  const updateRow = (itemId: string, data: Partial<RowForm>) => {
+    setRows((prev) => ({ ...prev, [itemId]: { ...prev[itemId], ...data } }));
+  };
+
+  // Fills the items not validated yet with the measured values
+  const acceptPending = () => {
+    setRows((prev) => {
+      const next = { ...prev };
+      entries.forEach(({ item }) => {
+        if (next[item.id]?.validated_quantity === "") {
+          next[item.id] = { ...next[item.id], validated_quantity: item.quantity.toString() };
+        }
+      });
+      return next;
+    });
+  };
+
+  const saveValidation = useMutation({
+    mutationFn: async (conclude: boolean) => {
+      for (const { item } of edited) {
+        const error = getItemValidationError(item, reasons);
+        if (error) throw new Error(`${item.service?.up || "Item"}: ${error}`);
+      }
+      const items = edited
+        .filter(({ item }) => item.validated_quantity !== null)
+        .map(({ item }) => ({
+          id: item.id,
+          validated_quantity: item.validated_quantity,
+          validated_unit_price: item.validated_unit_price,
+          glosa_reason_id: getGlosaValue(item) > 0 ? item.glosa_reason_id : null,
+          glosa_note: getGlosaValue(item) > 0 ? item.glosa_note : null,
+        }));
+      const { error } = await supabase.rpc("save_ose_validation", {
+        _ose_id: ose.id,
+        _items: items,
+        _conclude: conclude,
+      });
+      if (error) throw error;
+    },
+    onSuccess: (_, conclude) => {
+      queryClient.invalidateQueries({ queryKey: ["oses"] });
+      queryClient.invalidateQueries({ queryKey: ["ose-trips-items", ose.id] });
+      queryClient.invalidateQueries({ queryKey: ["ose_status_history"] });
+      toast({ title: conclude ? "Validação concluída!" : "Validação salva!" });
+      if (conclude) onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao salvar validação", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-6xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ClipboardCheck className="h-5 w-5" />
+            Validação da {ose.ose_number}
+          </DialogTitle>
+          <DialogDescription>
+            {canEdit
+              ? "Informe a quantidade e o preço aceitos pelo contratante. Valores abaixo do medido são glosa e exigem motivo."
+              : "Comparativo entre o medido e o validado pelo contratante."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          <div className="rounded-lg border p-3">
+            <p className="text-xs text-muted-foreground">Medido</p>
+            <p className="text-lg font-bold">{formatCurrency(totals.measured)}</p>
+          </div>
+          <div className="rounded-lg border p-3">
+            <p className="text-xs text-muted-foreground">Validado</p>
+            <p className="text-lg font-bold text-success">{formatCurrency(totals.validated)}</p>
+          </div>
+          <div className="rounded-lg border p-3">
+            <p className="text-xs text-muted-foreground">Glosa</p>
+            <p className={cn("text-lg font-bold", totals.glosa > 0 && "text-destructive")}>
+              {formatCurrency(totals.glosa)}
+            </p>
+          </div>
+          <div className="rounded-lg border p-3">
+            <p className="text-xs text-muted-foreground">Itens sem validação</p>
+            <p className="text-lg font-bold">{totals.pending}</p>
+          </div>
+        </div>
+
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Ida</TableHead>
+                <TableHead>UP</TableHead>
+                <TableHead className="text-right">Qtd Medida</TableHead>
+                <TableHead className="text-right">Total Medido</TableHead>
+                <TableHead className="text-right">Qtd Validada</TableHead>
+                <TableHead className="text-right">Preço Validado</TableHead>
+                <TableHead className="text-right">Total Validado</TableHead>
+                <TableHead className="text-right">Glosa</TableHead>
+                <TableHead>Motivo da Glosa</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {edited.map(({ trip, item }) => {
+                const row = rows[item.id];
+                const glosa = getGlosaValue(item);
+                const validatedTotal = getValidatedTotal(item);
+                const error = getItemValidationError(item, reasons);
+                const reason = reasons.find((r) => r.id === item.glosa_reason_id);
+                return (
+                  <TableRow key={item.id} className={cn(glosa > 0 && "bg-destructive/5")}>
+                    <TableCell className="text-xs whitespace-nowrap">
+                      {trip.team?.name}
+                      <span className="block text-muted-foreground">{format(new Date(trip.date), "dd/MM/yyyy")}</span>
+                    </TableCell>
+                    <TableCell className="text-xs max-w-[200px]">
+                      <span className="font-medium">{item.service?.up}</span>
+                      <span className="block text-muted-foreground truncate">{item.service?.description}</span>
+                    </TableCell>
+                    <TableCell className="text-right font-mono">{item.quantity}</TableCell>
+                    <TableCell className="text-right font-mono">{formatCurrency(item.total_price)}</TableCell>
+                    <TableCell className="text-right">
+                      {canEdit && row ? (
+                        <Input
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          value={row.validated_quantity}
+                          onChange={(e) => updateRow(item.id, { validated_quantity: e.target.value })}
+                          className="w-24 ml-auto text-right"
+                        />
+                      ) : (
+                        <span className="font-mono">{item.validated_quantity ?? "-"}</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {canEdit && row ? (
+                        <Input
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          value={row.validated_unit_price}
+                          onChange={(e) => updateRow(item.id, { validated_unit_price: e.target.value })}
+                          className="w-28 ml-auto text-right"
+                        />
+                      ) : (
+                        <span className="font-mono">
+                          {item.validated_quantity !== null ? formatCurrency(item.validated_unit_price ?? item.unit_price) : "-"}
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right font-mono">
+                      {validatedTotal === null ? "-" : formatCurrency(validatedTotal)}
+                    </TableCell>
+                    <TableCell className={cn("text-right font-mono", glosa > 0 && "text-destructive font-medium")}>
+                      {glosa > 0 ? formatCurrency(glosa) : "-"}
+                    </TableCell>
+                    <TableCell className="min-w-[220px]">
+                      {glosa > 0 && canEdit && row ? (
+                        <div className="space-y-1">
+                          <Select
+                            value={row.glosa_reason_id ?? ""}
+                            onValueChange={(value) => updateRow(item.id, { glosa_reason_id: value })}
+                          >
+                            <SelectTrigger className="h-8 text-xs">
+                              <SelectValue placeholder="Selecione o motivo" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {activeReasons.map((r) => (
+                                <SelectItem key={r.id} value={r.id}>
+                                  {formatGlosaReason(r)}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <Input
+                            placeholder={reason?.requires_note ? "Observação (obrigatória)" : "Observação"}
+                            value={row.glosa_note}
+                            onChange={(e) => updateRow(item.id, { glosa_note: e.target.value })}
+                            className="h-8 text-xs"
+                          />
+                          {error && <p className="text-xs text-destructive">{error}</p>}
+                        </div>
+                      ) : glosa > 0 ? (
+                        <div className="text-xs">
+                          <Badge variant="outline" className="text-xs">{formatGlosaReason(reason)}</Badge>
+                          {item.glosa_note && <p className="text-muted-foreground mt-1">{item.glosa_note}</p>}
+                        </div>
+                      ) : null}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+
+        {!canEdit && isAdmin && (
+          <p className="text-sm text-muted-foreground flex items-center gap-2">
+            <AlertTriangle className="h-4 w-4" />
+            A validação só pode ser editada com a OSE no status "Enviada p/ Validação".
+          </p>
+        )}
+
+        {canEdit && (
+          <DialogFooter className="gap-2 sm:justify-between">
+            <Button variant="outline" onClick={acceptPending} disabled={totals.pending === 0}>
+              <CheckCheck className="h-4 w-4 mr-2" />
+              Aceitar pendentes como medido
+            </Button>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => saveValidation.mutate(false)} disabled={saveValidation.isPending}>
+                Salvar
+              </Button>
+              <Button
+                onClick={() => saveValidation.mutate(true)}
+                disabled={saveValidation.isPending || totals.pending > 0}
+              >
+                Salvar e Concluir
+              </Button>
+            </div>
+          </DialogFooter>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
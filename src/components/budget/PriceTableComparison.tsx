@@ -0,0 +1,181 @@
+import { useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { ArrowRight } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+import { PriceComparisonStatus, PriceTable, PriceTableItem, comparePriceTables } from "@/lib/priceTables";
+
+interface PriceTableComparisonProps {
+  /** Newest first, as listed in the tab */
+  tables: PriceTable[];
+  services: { id: string; up: string; description: string; unit: string }[];
+}
+
+const statusConfig: Record<PriceComparisonStatus, { label: string; className: string }> = {
+  changed: { label: "Alterado", className: "bg-warning/10 text-warning border-warning/20" },
+  unchanged: { label: "Igual", className: "bg-muted text-muted-foreground" },
+  added: { label: "Incluído", className: "bg-success/10 text-success border-success/20" },
+  removed: { label: "Excluído", className: "bg-destructive/10 text-destructive border-destructive/20" },
+};
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat("pt-BR", { style: "currency", currency: "BRL" }).format(value);
+
+const formatPercent = (value: number) =>
+  `${value > 0 ? "+" : ""}${value.toLocaleString("pt-BR", { maximumFractionDigits: 2 })}%`;
+
+const useTableItems = (tableId: string | undefined) =>
+  useQuery({
+    queryKey: ["price_table_items", tableId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("price_table_items")
+        .select("id, price_table_id, service_id, gross_price")
+        .eq("price_table_id", tableId!);
+      if (error) throw error;
+      return data as PriceTableItem[];
+    },
+    enabled: !!tableId,
+  });
+
+/** Price deltas of every service between two tables */
+export function PriceTableComparison({ tables, services }: PriceTableComparisonProps) {
+  const [tableAId, setTableAId] = useState<string | null>(null);
+  const [tableBId, setTableBId] = useState<string | null>(null);
+  const [onlyChanges, setOnlyChanges] = useState(true);
+
+  // Defaults to the previous table against the latest one
+  const tableA = tableAId ?? tables[1]?.id;
+  const tableB = tableBId ?? tables[0]?.id;
+
+  const { data: itemsA = [] } = useTableItems(tableA);
+  const { data: itemsB = [] } = useTableItems(tableB);
+
+  const { rows, summary } = useMemo(
+    () => comparePriceTables(itemsA, itemsB, services),
+    [itemsA, itemsB, services]
+  );
+
+  const visibleRows = onlyChanges ? rows.filter((row) => row.status !== "unchanged") : rows;
+
+  if (tables.length < 2) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Comparar Tabelas</CardTitle>
+        <CardDescription>Diferença de preço de cada serviço entre duas tabelas</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-3">
+          <Select value={tableA} onValueChange={setTableAId}>
+            <SelectTrigger className="w-[220px]">
+              <SelectValue placeholder="Tabela base" />
+            </SelectTrigger>
+            <SelectContent>
+              {tables.map((table) => (
+                <SelectItem key={table.id} value={table.id}>
+                  {table.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <ArrowRight className="h-4 w-4 text-muted-foreground" />
+          <Select value={tableB} onValueChange={setTableBId}>
+            <SelectTrigger className="w-[220px]">
+              <SelectValue placeholder="Tabela comparada" />
+            </SelectTrigger>
+            <SelectContent>
+              {tables.map((table) => (
+                <SelectItem key={table.id} value={table.id}>
+                  {table.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="flex items-center gap-2 ml-auto">
+            <Switch id="price_comparison_only_changes" checked={onlyChanges} onCheckedChange={setOnlyChanges} />
+            <Label htmlFor="price_comparison_only_changes">Apenas diferenças</Label>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+          <div className="rounded-lg border p-3">
+            <p className="text-xs text-muted-foreground">Reajuste médio</p>
+            <p className="text-lg font-bold">{formatPercent(summary.averagePercent)}</p>
+          </div>
+          <div className="rounded-lg border p-3">
+            <p className="text-xs text-muted-foreground">Alterados</p>
+            <p className="text-lg font-bold">{summary.changed}</p>
+          </div>
+          <div className="rounded-lg border p-3">
+            <p className="text-xs text-muted-foreground">Iguais</p>
+            <p className="text-lg font-bold">{summary.unchanged}</p>
+          </div>
+          <div className="rounded-lg border p-3">
+            <p className="text-xs text-muted-foreground">Incluídos</p>
+            <p className="text-lg font-bold">{summary.added}</p>
+          </div>
+          <div className="rounded-lg border p-3">
+            <p className="text-xs text-muted-foreground">Excluídos</p>
+            <p className="text-lg font-bold">{summary.removed}</p>
+          </div>
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>UP</TableHead>
+              <TableHead>Descrição</TableHead>
+              <TableHead>Unidade</TableHead>
+              <TableHead className="text-right">Preço Base</TableHead>
+              <TableHead className="text-right">Preço Comparado</TableHead>
+              <TableHead className="text-right">Diferença</TableHead>
+              <TableHead className="text-right">%</TableHead>
+              <TableHead>Situação</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {visibleRows.map((row) => (
+              <TableRow key={row.serviceId}>
+                <TableCell className="font-medium">{row.up}</TableCell>
+                <TableCell className="max-w-[320px] truncate" title={row.description}>
+                  {row.description}
+                </TableCell>
+                <TableCell>{row.unit}</TableCell>
+                <TableCell className="text-right">{row.priceA === null ? "-" : formatCurrency(row.priceA)}</TableCell>
+                <TableCell className="text-right">{row.priceB === null ? "-" : formatCurrency(row.priceB)}</TableCell>
+                <TableCell
+                  className={cn(
+                    "text-right font-medium",
+                    row.delta > 0 && "text-destructive",
+                    row.delta < 0 && "text-success"
+                  )}
+                >
+                  {row.delta === null ? "-" : formatCurrency(row.delta)}
+                </TableCell>
+                <TableCell className="text-right">
+                  {row.deltaPercent === null ? "-" : formatPercent(row.deltaPercent)}
+                </TableCell>
+                <TableCell>
+                  <Badge variant="outline" className={statusConfig[row.status].className}>
+                    {statusConfig[row.status].label}
+                  </Badge>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+        {visibleRows.length === 0 && (
+          <div className="p-8 text-center text-muted-foreground">Nenhuma diferença entre as tabelas</div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,521 @@
+import { useMemo, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Edit, ListPlus, Plus, Search, Table2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { toast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import { PriceTable, PriceTableItem, formatTablePeriod, isTableInForce } from "@/lib/priceTables";
+import { PriceTableComparison } from "@/components/budget/PriceTableComparison";
+
+interface CatalogService {
+  id: string;
+  up: string;
+  service_number: string;
+  description: string;
+  unit: string;
+  gross_price: number;
+  is_active: boolean;
+}
+
+interface PriceTablesTabProps {
+  services: CatalogService[];
+}
+
+const CATALOG_BASE = "catalog";
+
+const emptyForm = {
+  name: "",
+  contract_reference: "",
+  effective_from: "",
+  effective_to: "",
+  readjustment_index: "",
+  readjustment_percent: "",
+  notes: "",
+  base_table_id: CATALOG_BASE,
+};
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat("pt-BR", { style: "currency", currency: "BRL" }).format(value);
+
+const parsePercent = (value: string) => {
+  if (!value.trim()) return null;
+  const percent = Number(value.replace(",", "."));
+  if (isNaN(percent)) throw new Error("Informe um percentual de reajuste válido");
+  return percent;
+};
+
+/** Price tables with their validity, the prices of each table and the comparison between two tables */
+export function PriceTablesTab({ services }: PriceTablesTabProps) {
+  const { isAdmin } = useAuth();
+  const queryClient = useQueryClient();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+  const [selectedTableId, setSelectedTableId] = useState<string | null>(null);
+  const [priceSearch, setPriceSearch] = useState("");
+
+  const { data: tables = [], isLoading } = useQuery({
+    queryKey: ["price_tables"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("price_tables")
+        .select("*")
+        .order("effective_from", { ascending: false });
+      if (error) throw error;
+      return data as PriceTable[];
+    },
+  });
+
+  const currentTable = tables.find((table) => isTableInForce(table, new Date())) ?? null;
+  const selectedTable = tables.find((table) => table.id === (selectedTableId ?? currentTable?.id)) ?? null;
+
+  const { data: tableItems = [] } = useQuery({
+    queryKey: ["price_table_items", selectedTable?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("price_table_items")
+        .select("id, price_table_id, service_id, gross_price")
+        .eq("price_table_id", selectedTable!.id);
+      if (error) throw error;
+      return data as PriceTableItem[];
+    },
+    enabled: !!selectedTable,
+  });
+
+  const servicesMap = useMemo(() => new Map(services.map((s) => [s.id, s])), [services]);
+
+  const filteredItems = useMemo(() => {
+    const search = priceSearch.toLowerCase();
+    return tableItems
+      .map((item) => ({ item, service: servicesMap.get(item.service_id) }))
+      .filter(({ service }) => service)
+      .filter(
+        ({ service }) =>
+          !search || service.up.toLowerCase().includes(search) || service.description.toLowerCase().includes(search)
+      )
+      .sort((a, b) => a.service.up.localeCompare(b.service.up));
+  }, [tableItems, servicesMap, priceSearch]);
+
+  const missingServices = useMemo(() => {
+    const priced = new Set(tableItems.map((item) => item.service_id));
+    return services.filter((service) => service.is_active && !priced.has(service.id));
+  }, [tableItems, services]);
+
+  const saveTable = useMutation({
+    mutationFn: async () => {
+      const name = formData.name.trim();
+      if (!name) throw new Error("Informe o nome da tabela");
+      if (!formData.effective_from) throw new Error("Informe o início da vigência");
+      const readjustmentPercent = parsePercent(formData.readjustment_percent);
+
+      if (editingId) {
+        const { error } = await supabase
+          .from("price_tables")
+          .update({
+            name,
+            contract_reference: formData.contract_reference.trim() || null,
+            effective_from: formData.effective_from,
+            effective_to: formData.effective_to || null,
+            readjustment_index: formData.readjustment_index.trim() || null,
+            readjustment_percent: readjustmentPercent,
+            notes: formData.notes.trim() || null,
+          })
+          .eq("id", editingId);
+        if (error) {
+          if (error.code === "23505") throw new Error("Já existe uma tabela com esse nome.");
+          // Exclusion constraint: another table is in force in part of the period
+          if (error.code === "23P01") throw new Error("A vigência se sobrepõe à de outra tabela de preços.");
+          throw error;
+        }
+        return editingId;
+      }
+
+      const { data, error } = await supabase.rpc("create_price_table", {
+        _name: name,
+        _effective_from: formData.effective_from,
+        _base_table_id: formData.base_table_id === CATALOG_BASE ? null : formData.base_table_id,
+        _contract_reference: formData.contract_reference.trim() || null,
+        _readjustment_index: formData.readjustment_index.trim() || null,
+        _readjustment_percent: readjustmentPercent,
+        _notes: formData.notes.trim() || null,
+      });
+      if (error) {
+        if (error.code === "23505") throw new Error("Já existe uma tabela com esse nome.");
+        if (error.code === "23P01") throw new Error("A vigência se sobrepõe à de outra tabela de preços.");
+        throw error;
+      }
+      return data;
+    },
+    onSuccess: (tableId) => {
+      queryClient.invalidateQueries({ queryKey: ["price_tables"] });
+      queryClient.invalidateQueries({ queryKey: ["price_table_items"] });
+      toast({ title: editingId ? "Tabela atualizada!" : "Tabela de preços criada!" });
+      setSelectedTableId(tableId);
+      setIsDialogOpen(false);
+    },
+    onError: (error) => {
+      toast({ title: "Erro ao salvar tabela", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const updatePrice = useMutation({
+    mutationFn: async ({ id, gross_price }: { id: string; gross_price: number }) => {
+      const { error } = await supabase.from("price_table_items").update({ gross_price }).eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["price_table_items"] });
+    },
+    onError: (error) => {
+      toast({ title: "Erro ao atualizar preço", description: error.message, variant: "destructive" });
+    },
+  });
+
+  // Services added to the catalog after the table was created enter at the catalog price
+  const addMissingServices = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase.from("price_table_items").insert(
+        missingServices.map((service) => ({
+          price_table_id: selectedTable!.id,
+          service_id: service.id,
+          gross_price: service.gross_price,
+        }))
+      );
+      if (error) throw error;
+      return missingServices.length;
+    },
+    onSuccess: (count) => {
+      queryClient.invalidateQueries({ queryKey: ["price_table_items"] });
+      toast({ title: `${count} serviços incluídos na tabela` });
+    },
+    onError: (error) => {
+      toast({ title: "Erro ao incluir serviços", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const openNew = () => {
+    setEditingId(null);
+    setFormData({ ...emptyForm, base_table_id: currentTable?.id ?? CATALOG_BASE });
+    setIsDialogOpen(true);
+  };
+
+  const openEdit = (table: PriceTable) => {
+    setEditingId(table.id);
+    setFormData({
+      name: table.name,
+      contract_reference: table.contract_reference || "",
+      effective_from: table.effective_from,
+      effective_to: table.effective_to || "",
+      readjustment_index: table.readjustment_index || "",
+      readjustment_percent: table.readjustment_percent === null ? "" : String(table.readjustment_percent),
+      notes: table.notes || "",
+      base_table_id: CATALOG_BASE,
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handlePriceBlur = (item: PriceTableItem, value: string) => {
+    const price = Number(value.replace(",", "."));
+    if (isNaN(price) || price < 0) {
+      toast({ title: "Preço inválido", variant: "destructive" });
+      return;
+    }
+    if (Math.abs(price - Number(item.gross_price)) < 0.005) return;
+    updatePrice.mutate({ id: item.id, gross_price: price });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveTable.mutate();
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Tabelas de Preço</CardTitle>
+              <CardDescription>
+                Os itens das OSEs são precificados pela tabela vigente na data da ida. Sem tabela vigente, vale o
+                preço do catálogo.
+              </CardDescription>
+            </div>
+            {isAdmin && (
+              <Button onClick={openNew}>
+                <Plus className="h-4 w-4 mr-2" />
+                Nova Tabela
+              </Button>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Tabela</TableHead>
+                <TableHead>Vigência</TableHead>
+                <TableHead>Contrato</TableHead>
+                <TableHead>Índice</TableHead>
+                <TableHead className="text-right">Reajuste</TableHead>
+                <TableHead className="text-right">Ações</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {tables.map((table) => (
+                <TableRow
+                  key={table.id}
+                  className={cn("cursor-pointer", selectedTable?.id === table.id && "bg-muted/50")}
+                  onClick={() => setSelectedTableId(table.id)}
+                >
+                  <TableCell className="font-medium">
+                    {table.name}
+                    {table.id === currentTable?.id && <Badge className="ml-2">Vigente</Badge>}
+                  </TableCell>
+                  <TableCell>{formatTablePeriod(table)}</TableCell>
+                  <TableCell>{table.contract_reference || "-"}</TableCell>
+                  <TableCell>{table.readjustment_index || "-"}</TableCell>
+                  <TableCell className="text-right">
+                    {table.readjustment_percent === null
+                      ? "-"
+                      : `${Number(table.readjustment_percent).toLocaleString("pt-BR", { maximumFractionDigits: 2 })}%`}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {isAdmin && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          openEdit(table);
+                        }}
+                      >
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          {isLoading && <div className="p-8 text-center text-muted-foreground">Carregando...</div>}
+          {!isLoading && tables.length === 0 && (
+            <div className="p-8 text-center text-muted-foreground">Nenhuma tabela de preços cadastrada</div>
+          )}
+        </CardContent>
+      </Card>
+
+      {selectedTable && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <CardTitle>Preços - {selectedTable.name}</CardTitle>
+                <CardDescription>
+                  {formatTablePeriod(selectedTable)} ({tableItems.length} serviços)
+                  {selectedTable.notes && ` - ${selectedTable.notes}`}
+                </CardDescription>
+              </div>
+              {isAdmin && missingServices.length > 0 && (
+                <Button
+                  variant="outline"
+                  onClick={() => addMissingServices.mutate()}
+                  disabled={addMissingServices.isPending}
+                >
+                  <ListPlus className="h-4 w-4 mr-2" />
+                  Incluir {missingServices.length} serviços sem preço
+                </Button>
+              )}
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div className="relative mb-4">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Pesquisar por UP ou descrição..."
+                value={priceSearch}
+                onChange={(e) => setPriceSearch(e.target.value)}
+                className="pl-9"
+              />
+            </div>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>UP</TableHead>
+                  <TableHead>Descrição</TableHead>
+                  <TableHead>Unidade</TableHead>
+                  <TableHead className="text-right">Preço Catálogo</TableHead>
+                  <TableHead className="text-right w-[160px]">Preço na Tabela</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredItems.map(({ item, service }) => (
+                  <TableRow key={item.id}>
+                    <TableCell className="font-medium">{service.up}</TableCell>
+                    <TableCell className="max-w-[400px]">{service.description}</TableCell>
+                    <TableCell>{service.unit}</TableCell>
+                    <TableCell className="text-right text-muted-foreground">
+                      {formatCurrency(service.gross_price)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {isAdmin ? (
+                        <Input
+                          key={`${item.id}_${item.gross_price}`}
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          defaultValue={item.gross_price}
+                          onBlur={(e) => handlePriceBlur(item, e.target.value)}
+                          className="h-8 text-right"
+                        />
+                      ) : (
+                        <span className="font-medium">{formatCurrency(Number(item.gross_price))}</span>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      <PriceTableComparison tables={tables} services={services} />
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Table2 className="h-5 w-5" />
+              {editingId ? "Editar Tabela de Preços" : "Nova Tabela de Preços"}
+            </DialogTitle>
+            <DialogDescription>
+              {editingId
+                ? "Os preços são editados na lista da tabela."
+                : "A tabela vigente sem data de término é encerrada no dia anterior ao início da nova."}
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="price_table_name">Nome *</Label>
+              <Input
+                id="price_table_name"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                placeholder="Ex: Tabela 2026"
+                required
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="price_table_from">Início da vigência *</Label>
+                <Input
+                  id="price_table_from"
+                  type="date"
+                  value={formData.effective_from}
+                  onChange={(e) => setFormData({ ...formData, effective_from: e.target.value })}
+                  required
+                />
+              </div>
+              {editingId && (
+                <div className="space-y-2">
+                  <Label htmlFor="price_table_to">Fim da vigência</Label>
+                  <Input
+                    id="price_table_to"
+                    type="date"
+                    value={formData.effective_to}
+                    onChange={(e) => setFormData({ ...formData, effective_to: e.target.value })}
+                  />
+                </div>
+              )}
+            </div>
+            {!editingId && (
+              <div className="space-y-2">
+                <Label>Preços de origem</Label>
+                <Select
+                  value={formData.base_table_id}
+                  onValueChange={(value) => setFormData({ ...formData, base_table_id: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={CATALOG_BASE}>Catálogo de serviços</SelectItem>
+                    {tables.map((table) => (
+                      <SelectItem key={table.id} value={table.id}>
+                        {table.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="price_table_index">Índice de reajuste</Label>
+                <Input
+                  id="price_table_index"
+                  value={formData.readjustment_index}
+                  onChange={(e) => setFormData({ ...formData, readjustment_index: e.target.value })}
+                  placeholder="Ex: IPCA"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="price_table_percent">Reajuste (%)</Label>
+                <Input
+                  id="price_table_percent"
+                  value={formData.readjustment_percent}
+                  onChange={(e) => setFormData({ ...formData, readjustment_percent: e.target.value })}
+                  placeholder="Ex: 4,5"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="price_table_contract">Referência do contrato</Label>
+              <Input
+                id="price_table_contract"
+                value={formData.contract_reference}
+                onChange={(e) => setFormData({ ...formData, contract_reference: e.target.value })}
+                placeholder="Ex: Contrato 123/2025 - Aditivo 2"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="price_table_notes">Observações</Label>
+              <Textarea
+                id="price_table_notes"
+                value={formData.notes}
+                onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                rows={2}
+              />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                Cancelar
+              </Button>
+              <Button type="submit" disabled={saveTable.isPending}>
+                {saveTable.isPending ? "Salvando..." : "Salvar"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
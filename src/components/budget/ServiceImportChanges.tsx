@@ -0,0 +1,126 @@
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  SERVICE_IMPORT_ACTIONS,
+  ServiceImportAction,
+  ServiceImportError,
+  ServiceImportReport,
+  describeChange,
+} from "@/lib/serviceImport";
+
+interface ServiceImportChangesProps {
+  report: ServiceImportReport;
+  /** Whether the services missing from the file are (or were) deactivated */
+  deactivateMissing: boolean;
+  errors?: ServiceImportError[];
+}
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat("pt-BR", { style: "currency", currency: "BRL" }).format(value);
+
+/** Summary, changed services and rejected rows of an import preview or report */
+export function ServiceImportChanges({ report, deactivateMissing, errors = [] }: ServiceImportChangesProps) {
+  const [actionFilter, setActionFilter] = useState<ServiceImportAction | "all">("all");
+  const changes =
+    actionFilter === "all" ? report.changes : report.changes.filter((change) => change.action === actionFilter);
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+        <div className="rounded-lg border p-3">
+          <p className="text-xs text-muted-foreground">Novos</p>
+          <p className="text-lg font-bold text-success">{report.summary.new}</p>
+        </div>
+        <div className="rounded-lg border p-3">
+          <p className="text-xs text-muted-foreground">Alterados</p>
+          <p className="text-lg font-bold text-warning">{report.summary.changed}</p>
+        </div>
+        <div className="rounded-lg border p-3">
+          <p className="text-xs text-muted-foreground">Sem alteração</p>
+          <p className="text-lg font-bold">{report.summary.unchanged}</p>
+        </div>
+        <div className="rounded-lg border p-3">
+          <p className="text-xs text-muted-foreground">
+            {deactivateMissing ? "Desativados" : "Ausentes no arquivo"}
+          </p>
+          <p className="text-lg font-bold text-destructive">{report.summary.removed}</p>
+        </div>
+        <div className="rounded-lg border p-3">
+          <p className="text-xs text-muted-foreground">Linhas com erro</p>
+          <p className="text-lg font-bold">{errors.length}</p>
+        </div>
+      </div>
+
+      {errors.length > 0 && (
+        <div className="rounded-lg border border-destructive/30 bg-destructive/5 p-3 max-h-40 overflow-y-auto">
+          {errors.map((error, index) => (
+            <p key={index} className="text-sm text-destructive">
+              {error.row > 0 ? `Linha ${error.row}: ` : ""}
+              {error.message}
+            </p>
+          ))}
+        </div>
+      )}
+
+      {report.changes.length > 0 && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <p className="text-sm font-medium">Serviços afetados</p>
+            <Select value={actionFilter} onValueChange={(value) => setActionFilter(value as ServiceImportAction | "all")}>
+              <SelectTrigger className="w-[180px] h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Todos</SelectItem>
+                {(Object.keys(SERVICE_IMPORT_ACTIONS) as ServiceImportAction[]).map((action) => (
+                  <SelectItem key={action} value={action}>
+                    {SERVICE_IMPORT_ACTIONS[action].label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="max-h-[320px] overflow-y-auto border rounded-lg">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-[100px]">Situação</TableHead>
+                  <TableHead>UP</TableHead>
+                  <TableHead>Descrição</TableHead>
+                  <TableHead>Alterações</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {changes.map((change) => {
+                  const values = change.after ?? change.before;
+                  return (
+                    <TableRow key={change.up}>
+                      <TableCell>
+                        <Badge variant="outline" className={SERVICE_IMPORT_ACTIONS[change.action].className}>
+                          {SERVICE_IMPORT_ACTIONS[change.action].label}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="font-medium">{change.up}</TableCell>
+                      <TableCell className="max-w-[260px] truncate" title={values?.description}>
+                        {values?.description}
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {change.action === "new" && values && formatCurrency(Number(values.gross_price))}
+                        {change.action === "removed" && (deactivateMissing ? "Desativado" : "Mantido no catálogo")}
+                        {describeChange(change, formatCurrency).map((line) => (
+                          <p key={line}>{line}</p>
+                        ))}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,322 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { FileSpreadsheet, Loader2, Upload } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { Json } from "@/integrations/supabase/types";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { toast } from "@/hooks/use-toast";
+import { PriceTable, isTableInForce } from "@/lib/priceTables";
+import { parseDelimited, readSpreadsheetFile } from "@/lib/spreadsheet";
+import {
+  SERVICE_IMPORT_FIELDS,
+  ServiceImportMapping,
+  ServiceImportReport,
+  buildImportRows,
+  guessMapping,
+  looksLikeHeader,
+} from "@/lib/serviceImport";
+import { ServiceImportChanges } from "@/components/budget/ServiceImportChanges";
+
+const CATALOG_TARGET = "catalog";
+const UNMAPPED = "-1";
+
+/**
+ * Catalog import from a CSV/XLSX file or pasted text: columns are mapped,
+ * rows validated, and the changes previewed before anything is saved
+ */
+export function ServiceImportDialog() {
+  const queryClient = useQueryClient();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [open, setOpen] = useState(false);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [pastedText, setPastedText] = useState("");
+  const [rawRows, setRawRows] = useState<string[][]>([]);
+  const [hasHeader, setHasHeader] = useState(true);
+  const [mapping, setMapping] = useState<ServiceImportMapping>(() => guessMapping(null));
+  const [target, setTarget] = useState<string | null>(null);
+  const [deactivateMissing, setDeactivateMissing] = useState(false);
+  const [preview, setPreview] = useState<ServiceImportReport | null>(null);
+
+  const { data: priceTables = [] } = useQuery({
+    queryKey: ["price_tables"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("price_tables")
+        .select("*")
+        .order("effective_from", { ascending: false });
+      if (error) throw error;
+      return data as PriceTable[];
+    },
+  });
+
+  // Prices go to the table in force by default, since that is what prices the OSEs
+  const selectedTarget = target ?? priceTables.find((table) => isTableInForce(table, new Date()))?.id ?? CATALOG_TARGET;
+  const priceTableId = selectedTarget === CATALOG_TARGET ? null : selectedTarget;
+
+  const parsed = useMemo(() => buildImportRows(rawRows, mapping, hasHeader), [rawRows, mapping, hasHeader]);
+
+  // Any change to the input invalidates the preview
+  useEffect(() => {
+    setPreview(null);
+  }, [parsed, priceTableId]);
+
+  const columnCount = useMemo(() => Math.max(0, ...rawRows.slice(0, 20).map((row) => row.length)), [rawRows]);
+  const columnOptions = Array.from({ length: columnCount }, (_, index) => {
+    const header = hasHeader ? rawRows[0]?.[index]?.trim() : "";
+    const sample = rawRows[hasHeader ? 1 : 0]?.[index]?.trim();
+    return {
+      value: String(index),
+      label: `${header || `Coluna ${index + 1}`}${sample ? ` (ex: ${sample.slice(0, 30)})` : ""}`,
+    };
+  });
+
+  const loadRows = (rows: string[][], name: string | null) => {
+    const header = rows.length > 0 && looksLikeHeader(rows[0]);
+    setRawRows(rows);
+    setFileName(name);
+    setHasHeader(header);
+    setMapping(guessMapping(header ? rows[0] : null));
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    try {
+      loadRows(await readSpreadsheetFile(file), file.name);
+      setPastedText("");
+    } catch (error) {
+      toast({ title: "Erro ao ler arquivo", description: (error as Error).message, variant: "destructive" });
+    }
+  };
+
+  const handlePaste = (value: string) => {
+    setPastedText(value);
+    loadRows(value.trim() ? parseDelimited(value) : [], null);
+  };
+
+  const handleHeaderChange = (checked: boolean) => {
+    setHasHeader(checked);
+    setMapping(guessMapping(checked ? rawRows[0] : null));
+  };
+
+  const reset = () => {
+    setFileName(null);
+    setPastedText("");
+    setRawRows([]);
+    setTarget(null);
+    setDeactivateMissing(false);
+  };
+
+  const loadPreview = useMutation({
+    mutationFn: async () => {
+      if (parsed.rows.length === 0) throw new Error("Nenhum serviço válido para importar");
+      const { data, error } = await supabase.rpc("preview_service_import", {
+        _rows: parsed.rows as unknown as Json,
+        _price_table_id: priceTableId,
+      });
+      if (error) throw error;
+      return data as unknown as ServiceImportReport;
+    },
+    onSuccess: setPreview,
+    onError: (error: Error) => {
+      toast({ title: "Erro ao verificar importação", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const applyImport = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase.rpc("apply_service_import", {
+        _rows: parsed.rows as unknown as Json,
+        _file_name: fileName ?? "Texto colado",
+        _errors: parsed.errors as unknown as Json,
+        _price_table_id: priceTableId,
+        _deactivate_missing: deactivateMissing,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["service-catalog"] });
+      queryClient.invalidateQueries({ queryKey: ["price_table_items"] });
+      queryClient.invalidateQueries({ queryKey: ["service_imports"] });
+      const summary = preview?.summary;
+      toast({
+        title: "Catálogo importado!",
+        description: summary
+          ? `${summary.new} novos, ${summary.changed} alterados${
+              deactivateMissing ? `, ${summary.removed} desativados` : ""
+            }`
+          : undefined,
+      });
+      setOpen(false);
+      reset();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao importar", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const pendingChanges = preview
+    ? preview.summary.new + preview.summary.changed + (deactivateMissing ? preview.summary.removed : 0)
+    : 0;
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(value) => {
+        setOpen(value);
+        if (!value) reset();
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button>
+          <Upload className="h-4 w-4 mr-2" />
+          Importar Catálogo
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Importar Catálogo de Serviços</DialogTitle>
+          <DialogDescription>
+            Planilha .xlsx ou .csv (separada por ponto e vírgula, vírgula ou tabulação), ou dados colados abaixo.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-center gap-3">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,.txt,.xlsx"
+              onChange={handleFileChange}
+              className="hidden"
+            />
+            <Button type="button" variant="outline" onClick={() => fileInputRef.current?.click()}>
+              <FileSpreadsheet className="h-4 w-4 mr-2" />
+              Selecionar Arquivo
+            </Button>
+            <span className="text-sm text-muted-foreground">
+              {fileName ? `${fileName} - ${rawRows.length} linhas` : "ou cole os dados"}
+            </span>
+          </div>
+
+          {!fileName && (
+            <Textarea
+              value={pastedText}
+              onChange={(e) => handlePaste(e.target.value)}
+              placeholder={"UP;Número do Serviço;Descrição;Unidade;Preço\nUP001;12345;Instalação de poste;UN;150,00"}
+              rows={6}
+              className="font-mono text-sm"
+            />
+          )}
+
+          {rawRows.length > 0 && (
+            <>
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <p className="text-sm font-medium">Colunas</p>
+                  <div className="flex items-center gap-2">
+                    <Switch id="service_import_header" checked={hasHeader} onCheckedChange={handleHeaderChange} />
+                    <Label htmlFor="service_import_header">Primeira linha é cabeçalho</Label>
+                  </div>
+                </div>
+                <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+                  {SERVICE_IMPORT_FIELDS.map((field) => (
+                    <div key={field.key} className="space-y-1">
+                      <Label className="text-xs">{field.label}</Label>
+                      <Select
+                        value={String(mapping[field.key])}
+                        onValueChange={(value) => setMapping({ ...mapping, [field.key]: Number(value) })}
+                      >
+                        <SelectTrigger className="h-9">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={UNMAPPED}>Não mapeada</SelectItem>
+                          {columnOptions.map((option) => (
+                            <SelectItem key={option.value} value={option.value}>
+                              {option.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className="grid gap-4 md:grid-cols-2">
+                <div className="space-y-1">
+                  <Label className="text-xs">Importar preços para</Label>
+                  <Select value={selectedTarget} onValueChange={setTarget}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={CATALOG_TARGET}>Preço de catálogo</SelectItem>
+                      {priceTables.map((table) => (
+                        <SelectItem key={table.id} value={table.id}>
+                          Tabela {table.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="flex items-center gap-2 md:pt-5">
+                  <Switch
+                    id="service_import_deactivate"
+                    checked={deactivateMissing}
+                    onCheckedChange={setDeactivateMissing}
+                  />
+                  <Label htmlFor="service_import_deactivate">Desativar serviços ausentes no arquivo</Label>
+                </div>
+              </div>
+
+              {preview ? (
+                <ServiceImportChanges report={preview} deactivateMissing={deactivateMissing} errors={parsed.errors} />
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  {parsed.rows.length} serviços válidos, {parsed.errors.length} linhas com erro. Verifique as
+                  alterações antes de importar.
+                </p>
+              )}
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Cancelar
+          </Button>
+          {preview ? (
+            <Button onClick={() => applyImport.mutate()} disabled={applyImport.isPending || pendingChanges === 0}>
+              {applyImport.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {pendingChanges === 0 ? "Nada a importar" : `Importar ${pendingChanges} alterações`}
+            </Button>
+          ) : (
+            <Button
+              onClick={() => loadPreview.mutate()}
+              disabled={loadPreview.isPending || parsed.rows.length === 0}
+            >
+              {loadPreview.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Verificar Alterações
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
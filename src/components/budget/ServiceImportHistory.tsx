@@ -0,0 +1,122 @@
+import { useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { FileText } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ServiceImportReport } from "@/lib/serviceImport";
+import { ServiceImportChanges } from "@/components/budget/ServiceImportChanges";
+
+const SOURCE_LABELS: Record<string, string> = {
+  tela: "Tela",
+  api: "API",
+};
+
+/** Latest catalog imports with the report of what each one changed */
+export function ServiceImportHistory() {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const { data: imports = [] } = useQuery({
+    queryKey: ["service_imports"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("service_imports")
+        .select("*, price_tables:price_table_id(name)")
+        .order("created_at", { ascending: false })
+        .limit(20);
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const authorIds = useMemo(
+    () => Array.from(new Set(imports.map((i) => i.created_by).filter(Boolean))),
+    [imports]
+  );
+  const { data: authors = [] } = useQuery({
+    queryKey: ["service_import_authors", authorIds],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("profiles").select("id, name").in("id", authorIds);
+      if (error) throw error;
+      return data;
+    },
+    enabled: authorIds.length > 0,
+  });
+  const authorNames = useMemo(() => new Map(authors.map((a) => [a.id, a.name])), [authors]);
+
+  const selected = imports.find((i) => i.id === selectedId);
+  const selectedReport = selected?.report as unknown as ServiceImportReport | undefined;
+
+  if (imports.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Histórico de Importações</CardTitle>
+        <CardDescription>Últimas importações do catálogo e o que cada uma alterou</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Data</TableHead>
+              <TableHead>Arquivo</TableHead>
+              <TableHead>Preços</TableHead>
+              <TableHead>Usuário</TableHead>
+              <TableHead className="text-right">Novos</TableHead>
+              <TableHead className="text-right">Alterados</TableHead>
+              <TableHead className="text-right">Desativados</TableHead>
+              <TableHead className="text-right">Erros</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {imports.map((item) => (
+              <TableRow key={item.id}>
+                <TableCell className="whitespace-nowrap">{format(new Date(item.created_at), "dd/MM/yyyy HH:mm")}</TableCell>
+                <TableCell className="max-w-[200px] truncate" title={item.file_name ?? undefined}>
+                  {item.file_name || "-"}
+                  <span className="text-xs text-muted-foreground ml-1">({SOURCE_LABELS[item.source] ?? item.source})</span>
+                </TableCell>
+                <TableCell>{item.price_tables?.name ? `Tabela ${item.price_tables.name}` : "Catálogo"}</TableCell>
+                <TableCell>{(item.created_by && authorNames.get(item.created_by)) || "-"}</TableCell>
+                <TableCell className="text-right">{item.created_count}</TableCell>
+                <TableCell className="text-right">{item.updated_count}</TableCell>
+                <TableCell className="text-right">{item.deactivated_count}</TableCell>
+                <TableCell className="text-right">{item.error_count}</TableCell>
+                <TableCell className="text-right">
+                  <Button variant="ghost" size="sm" onClick={() => setSelectedId(item.id)}>
+                    <FileText className="h-4 w-4 mr-1" />
+                    Relatório
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+
+      <Dialog open={!!selected} onOpenChange={(open) => !open && setSelectedId(null)}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Relatório de Importação</DialogTitle>
+            <DialogDescription>
+              {selected &&
+                `${selected.file_name || "Importação"} - ${format(new Date(selected.created_at), "dd/MM/yyyy HH:mm")}`}
+            </DialogDescription>
+          </DialogHeader>
+          {selected && selectedReport?.summary && (
+            <ServiceImportChanges
+              report={selectedReport}
+              deactivateMissing={selected.deactivate_missing}
+              errors={selectedReport.errors ?? []}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -7,12 +7,16 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/u
 import { supabase } from "@/integrations/supabase/client";
 import { format, subDays } from "date-fns";
 import { ptBR } from "date-fns/locale";
-import { CheckCircle2, XCircle, Clock, TrendingUp, Users, Copy, Trophy, AlertTriangle } from "lucide-react";
+import { CheckCircle2, XCircle, Clock, TrendingUp, Users, Copy, Trophy, AlertTriangle, Timer } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { toast } from "sonner";
 import { ExportButton } from "@/components/ExportButton";
 import { CsvColumn, formatBoolean } from "@/lib/exportCsv";
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine, Cell, LabelList } from "recharts";
+import { TeamScheduleEntry, calculateDelayMinutes, indexSchedules, resolveSchedule } from "@/lib/teamSchedule";
+import { formatNoDepartureReason } from "@/lib/noDepartureReasons";
+import { calculateCutoffCompliance } from "@/lib/departureCutoff";
+import { NoDepartureParetoChart } from "@/components/dashboard/NoDepartureParetoChart";
 
 const teamTypeLabels: Record<string, string> = {
   linha_viva: "Linha Viva",
@@ -27,12 +31,16 @@ interface DepartureRecord {
   id: string;
   departed: boolean;
   departure_time: string | null;
+  /** Catalog reason followed by the note, as shown in reports */
   no_departure_reason: string | null;
   teams: { id: string; name: string; type: string } | null;
   supervisorName: string;
   supervisor_id: string;
   date: string;
-  scheduled_entry_time?: string;
+  /** Entry time of the team on that date, from the schedule or the team default */
+  scheduled_entry_time: string;
+  /** Created after the registration deadline */
+  registered_late: boolean;
 }
 
 interface DailyStats {
@@ -54,6 +62,42 @@ interface TeamTypeStats {
   avgDelayMinutes: number | null;
 }
 
+type DepartureRow = {
+  id: string;
+  departed: boolean;
+  departure_time: string | null;
+  no_departure_reason: string | null;
+  no_departure_reasons: { name: string } | null;
+  registered_late: boolean;
+  supervisor_id: string;
+  date: string;
+  teams: { id: string; name: string; type: string; scheduled_entry_time: string } | null;
+};
+
+// Attach the schedule of the day to each departure, dropping teams that were
+// scheduled off that day: they don't count for rates, delays or rankings
+const toDepartureRecords = (
+  rows: DepartureRow[],
+  profilesMap: Map<string, string>,
+  scheduleIndex: ReturnType<typeof indexSchedules>,
+): DepartureRecord[] =>
+  rows.flatMap((d) => {
+    const schedule = d.teams ? resolveSchedule(scheduleIndex, d.teams, d.date) : null;
+    if (schedule && !schedule.isWorking) return [];
+    return [{
+      id: d.id,
+      departed: d.departed,
+      departure_time: d.departure_time,
+      no_departure_reason: formatNoDepartureReason(d.no_departure_reasons, d.no_departure_reason),
+      teams: d.teams,
+      date: d.date,
+      supervisor_id: d.supervisor_id,
+      supervisorName: profilesMap.get(d.supervisor_id) || "-",
+      scheduled_entry_time: schedule?.scheduledEntryTime ?? "",
+      registered_late: d.registered_late,
+    }];
+  });
+
 export function DeparturesOverview() {
   const today = format(new Date(), "yyyy-MM-dd");
   const [selectedDay, setSelectedDay] = useState<DailyStats | null>(null);
@@ -93,30 +137,25 @@ export function DeparturesOverview() {
       const startDate = format(subDays(new Date(), 7), "yyyy-MM-dd");
       const { data, error } = await supabase
         .from("departures")
-        .select(`*, teams!inner(id, name, type, scheduled_entry_time)`)
+        .select(`*, teams!inner(id, name, type, scheduled_entry_time), no_departure_reasons(name)`)
         .gte("date", startDate);
       if (error) throw error;
       
-      // Fetch supervisor names
+      // Fetch supervisor names and the schedules of the period
       const supervisorIds = [...new Set(data.map(d => d.supervisor_id))];
-      const { data: profiles } = await supabase
-        .from("profiles")
-        .select("id, name")
-        .in("id", supervisorIds);
+      const [{ data: profiles }, { data: schedules, error: schedulesError }] = await Promise.all([
+        supabase.from("profiles").select("id, name").in("id", supervisorIds),
+        supabase
+          .from("team_schedules")
+          .select("team_id, date, is_working, scheduled_entry_time, scheduled_exit_time")
+          .gte("date", startDate),
+      ]);
+      if (schedulesError) throw schedulesError;
       
       const profilesMap = new Map(profiles?.map(p => [p.id, p.name]) || []);
+      const scheduleIndex = indexSchedules((schedules || []) as TeamScheduleEntry[]);
       
-      return data.map(d => ({
-        id: d.id,
-        departed: d.departed,
-        departure_time: d.departure_time,
-        no_departure_reason: d.no_departure_reason,
-        teams: d.teams,
-        date: d.date,
-        supervisor_id: d.supervisor_id,
-        supervisorName: profilesMap.get(d.supervisor_id) || "-",
-        scheduled_entry_time: d.teams?.scheduled_entry_time || "07:00:00"
-      })) as DepartureRecord[];
+      return toDepartureRecords(data, profilesMap, scheduleIndex);
     },
   });
 
@@ -126,44 +165,30 @@ export function DeparturesOverview() {
     queryFn: async () => {
       const { data, error } = await supabase
         .from("departures")
-        .select("id, departed, departure_time, no_departure_reason, supervisor_id, date, team_id, teams(id, name, type, scheduled_entry_time)")
+        .select("id, departed, departure_time, no_departure_reason, registered_late, supervisor_id, date, team_id, teams(id, name, type, scheduled_entry_time), no_departure_reasons(name)")
         .eq("date", today)
         .order("created_at", { ascending: false })
         .limit(10);
       if (error) throw error;
       
       const supervisorIds = [...new Set(data.map(d => d.supervisor_id))];
-      const { data: profiles } = await supabase
-        .from("profiles")
-        .select("id, name")
-        .in("id", supervisorIds);
+      const [{ data: profiles }, { data: schedules, error: schedulesError }] = await Promise.all([
+        supabase.from("profiles").select("id, name").in("id", supervisorIds),
+        supabase
+          .from("team_schedules")
+          .select("team_id, date, is_working, scheduled_entry_time, scheduled_exit_time")
+          .eq("date", today),
+      ]);
+      if (schedulesError) throw schedulesError;
       
       const profilesMap = new Map(profiles?.map(p => [p.id, p.name]) || []);
+      const scheduleIndex = indexSchedules((schedules || []) as TeamScheduleEntry[]);
       
-      return data
-        .filter(d => d.teams !== null)
-        .map(d => ({
-          id: d.id,
-          departed: d.departed,
-          departure_time: d.departure_time,
-          no_departure_reason: d.no_departure_reason,
-          teams: d.teams,
-          date: d.date,
-          supervisor_id: d.supervisor_id,
-          supervisorName: profilesMap.get(d.supervisor_id) || "-",
-          scheduled_entry_time: d.teams?.scheduled_entry_time || "07:00:00"
-        })) as DepartureRecord[];
+      return toDepartureRecords(data.filter(d => d.teams !== null), profilesMap, scheduleIndex);
     },
   });
 
-  // Helper function to calculate delay in minutes
-  const calculateDelayMinutes = (departureTime: string, scheduledTime: string = "07:00:00"): number => {
-    const [depHours, depMinutes] = departureTime.split(":").map(Number);
-    const [schHours, schMinutes] = scheduledTime.split(":").map(Number);
-    const depTotalMinutes = depHours * 60 + depMinutes;
-    const schTotalMinutes = schHours * 60 + schMinutes;
-    return depTotalMinutes - schTotalMinutes;
-  };
+  const cutoffCompliance = calculateCutoffCompliance(weeklyDepartures);
 
   // Calculate average delay in minutes by team type
   const avgDelayByType = weeklyDepartures?.reduce((acc, dep) => {
@@ -698,6 +723,48 @@ export function DeparturesOverview() {
         </CardContent>
       </Card>
 
+      <NoDepartureParetoChart />
+
+      {/* Registration deadline compliance per supervisor */}
+      <Card className="bg-card border-border">
+        <CardHeader className="p-4 sm:p-6">
+          <CardTitle className="text-base sm:text-lg flex items-center gap-2">
+            <Timer className="h-4 w-4 sm:h-5 sm:w-5 text-primary" />
+            <span className="truncate">Lançamentos no Prazo por Supervisor - 7 dias</span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="p-4 pt-0 sm:p-6 sm:pt-0">
+          {cutoffCompliance.length === 0 ? (
+            <p className="text-muted-foreground text-sm">Nenhum lançamento no período</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Supervisor</TableHead>
+                  <TableHead className="text-right">Lançamentos</TableHead>
+                  <TableHead className="text-right">Após o prazo</TableHead>
+                  <TableHead className="text-right">No prazo</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {cutoffCompliance.map((row) => (
+                  <TableRow key={row.supervisorId}>
+                    <TableCell className="font-medium">{row.name}</TableCell>
+                    <TableCell className="text-right">{row.total}</TableCell>
+                    <TableCell className="text-right">{row.late}</TableCell>
+                    <TableCell className="text-right">
+                      <Badge variant={row.late === 0 ? "default" : "destructive"} className={row.late === 0 ? "bg-green-600" : ""}>
+                        {row.onTimePercent.toFixed(0)}%
+                      </Badge>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Supervisor Rankings by Departure Time - Bar Chart */}
       <Card className="bg-card border-border">
         <CardHeader className="p-4 sm:p-6">
@@ -0,0 +1,181 @@
+import { useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import { format, subDays } from "date-fns";
+import { BarChart3 } from "lucide-react";
+import { Bar, CartesianGrid, Cell, ComposedChart, Line, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { TeamScheduleEntry, indexSchedules, resolveSchedule } from "@/lib/teamSchedule";
+import {
+  NoDepartureReason,
+  REASON_ACCOUNTABILITY,
+  ReasonAccountability,
+  buildReasonPareto,
+} from "@/lib/noDepartureReasons";
+
+const PERIODS = [
+  { value: "7", label: "Últimos 7 dias" },
+  { value: "30", label: "Últimos 30 dias" },
+  { value: "90", label: "Últimos 90 dias" },
+];
+
+const UNCLASSIFIED_COLOR = "hsl(var(--border))";
+
+/** Pareto of lost team-days (teams that did not leave) by no-departure reason */
+export function NoDepartureParetoChart() {
+  const [period, setPeriod] = useState("30");
+
+  const { data: reasons = [] } = useQuery({
+    queryKey: ["no_departure_reasons"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("no_departure_reasons")
+        .select("*")
+        .order("sort_order")
+        .order("name");
+      if (error) throw error;
+      return data as NoDepartureReason[];
+    },
+  });
+
+  const { data: lostDays = [], isLoading } = useQuery({
+    queryKey: ["dashboard_lost_team_days", period],
+    queryFn: async () => {
+      const startDate = format(subDays(new Date(), Number(period)), "yyyy-MM-dd");
+      const [{ data, error }, { data: schedules, error: schedulesError }] = await Promise.all([
+        supabase
+          .from("departures")
+          .select("date, no_departure_reason_id, teams!inner(id, scheduled_entry_time)")
+          .eq("departed", false)
+          .gte("date", startDate),
+        supabase
+          .from("team_schedules")
+          .select("team_id, date, is_working, scheduled_entry_time, scheduled_exit_time")
+          .eq("is_working", false)
+          .gte("date", startDate),
+      ]);
+      if (error) throw error;
+      if (schedulesError) throw schedulesError;
+
+      // A team scheduled off that day did not lose the day
+      const scheduleIndex = indexSchedules((schedules || []) as TeamScheduleEntry[]);
+      return data.filter((d) => resolveSchedule(scheduleIndex, d.teams, d.date).isWorking);
+    },
+  });
+
+  const pareto = useMemo(() => buildReasonPareto(lostDays, reasons), [lostDays, reasons]);
+
+  const byAccountability = useMemo(() => {
+    const totals: Record<string, number> = {};
+    pareto.forEach((row) => {
+      const key = row.accountability ?? "unclassified";
+      totals[key] = (totals[key] || 0) + row.teamDays;
+    });
+    return totals;
+  }, [pareto]);
+
+  return (
+    <Card className="bg-card border-border">
+      <CardHeader className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 p-4 sm:p-6">
+        <CardTitle className="text-base sm:text-lg flex items-center gap-2">
+          <BarChart3 className="h-4 w-4 sm:h-5 sm:w-5 text-primary" />
+          <span className="truncate">Dias-Equipe Perdidos por Motivo</span>
+        </CardTitle>
+        <Select value={period} onValueChange={setPeriod}>
+          <SelectTrigger className="w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PERIODS.map((p) => (
+              <SelectItem key={p.value} value={p.value}>{p.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent className="p-4 pt-0 sm:p-6 sm:pt-0">
+        {isLoading ? (
+          <p className="text-muted-foreground text-sm">Carregando...</p>
+        ) : pareto.length === 0 ? (
+          <p className="text-muted-foreground text-sm">Nenhuma equipe deixou de sair no período</p>
+        ) : (
+          <>
+            <div className="flex flex-wrap gap-2 mb-4">
+              <Badge variant="outline">Total: {lostDays.length} dias-equipe</Badge>
+              {(Object.keys(REASON_ACCOUNTABILITY) as ReasonAccountability[])
+                .filter((key) => byAccountability[key])
+                .map((key) => (
+                  <Badge key={key} variant="outline" className="gap-1">
+                    <span className="h-2 w-2 rounded-full" style={{ backgroundColor: REASON_ACCOUNTABILITY[key].color }} />
+                    {REASON_ACCOUNTABILITY[key].label}: {byAccountability[key]}
+                  </Badge>
+                ))}
+              {byAccountability.unclassified > 0 && (
+                <Badge variant="outline" className="gap-1">
+                  <span className="h-2 w-2 rounded-full" style={{ backgroundColor: UNCLASSIFIED_COLOR }} />
+                  Sem classificação: {byAccountability.unclassified}
+                </Badge>
+              )}
+            </div>
+            <div className="h-[300px] sm:h-[360px] w-full">
+              <ResponsiveContainer width="100%" height="100%">
+                <ComposedChart data={pareto} margin={{ top: 10, right: 10, left: 0, bottom: 60 }}>
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="hsl(var(--border))" />
+                  <XAxis
+                    dataKey="name"
+                    interval={0}
+                    angle={-35}
+                    textAnchor="end"
+                    height={70}
+                    stroke="hsl(var(--muted-foreground))"
+                    fontSize={11}
+                    tickFormatter={(value) => value.length > 18 ? value.substring(0, 18) + "..." : value}
+                  />
+                  <YAxis yAxisId="days" allowDecimals={false} stroke="hsl(var(--muted-foreground))" fontSize={12} />
+                  <YAxis
+                    yAxisId="cumulative"
+                    orientation="right"
+                    domain={[0, 100]}
+                    tickFormatter={(value) => `${value}%`}
+                    stroke="hsl(var(--muted-foreground))"
+                    fontSize={12}
+                  />
+                  <Tooltip
+                    formatter={(value: number, name: string) =>
+                      name === "cumulativePercent" ? [`${value.toFixed(1)}%`, "Acumulado"] : [value, "Dias-equipe"]
+                    }
+                    contentStyle={{
+                      backgroundColor: "hsl(var(--card))",
+                      border: "1px solid hsl(var(--border))",
+                      borderRadius: "8px",
+                      color: "hsl(var(--foreground))",
+                      fontSize: "12px",
+                    }}
+                  />
+                  <ReferenceLine yAxisId="cumulative" y={80} stroke="hsl(var(--muted-foreground))" strokeDasharray="5 5" />
+                  <Bar yAxisId="days" dataKey="teamDays" radius={[4, 4, 0, 0]} maxBarSize={48}>
+                    {pareto.map((row) => (
+                      <Cell
+                        key={row.reasonId ?? "unclassified"}
+                        fill={REASON_ACCOUNTABILITY[row.accountability as ReasonAccountability]?.color ?? UNCLASSIFIED_COLOR}
+                      />
+                    ))}
+                  </Bar>
+                  <Line
+                    yAxisId="cumulative"
+                    type="monotone"
+                    dataKey="cumulativePercent"
+                    stroke="hsl(var(--primary))"
+                    strokeWidth={2}
+                    dot={{ r: 3 }}
+                  />
+                </ComposedChart>
+              </ResponsiveContainer>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,119 @@
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { History, Undo2 } from "lucide-react";
+import { format } from "date-fns";
+import { useAllocationHistory, useReturnVehicle } from "@/hooks/useAllocations";
+import { ALLOCATION_STATUS_LABELS, isAllocationOverdue } from "@/lib/allocations";
+
+interface AllocationHistoryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  vehicleId?: string;
+  driverId?: string;
+  canManage: boolean;
+}
+
+const formatDateTime = (value: string | null) => (value ? format(new Date(value), "dd/MM/yyyy HH:mm") : "-");
+
+export const AllocationHistoryDialog = ({
+  open,
+  onOpenChange,
+  title,
+  vehicleId,
+  driverId,
+  canManage,
+}: AllocationHistoryDialogProps) => {
+  const { data: allocations = [], isLoading } = useAllocationHistory({ vehicleId, driverId }, open);
+  const returnVehicle = useReturnVehicle();
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Histórico de Retiradas - {title}
+          </DialogTitle>
+          <DialogDescription>Retiradas e devoluções registradas</DialogDescription>
+        </DialogHeader>
+        {isLoading ? (
+          <div className="text-center py-8 text-muted-foreground">Carregando...</div>
+        ) : allocations.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">Nenhuma retirada registrada</div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-muted/50">
+                <TableHead>{vehicleId ? "Motorista" : "Veículo"}</TableHead>
+                <TableHead>Retirada</TableHead>
+                <TableHead>Previsão</TableHead>
+                <TableHead>Devolução</TableHead>
+                <TableHead>Status</TableHead>
+                {canManage && <TableHead className="text-right">Ações</TableHead>}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {allocations.map((allocation) => {
+                const overdue = isAllocationOverdue(allocation);
+                return (
+                  <TableRow key={allocation.id}>
+                    <TableCell className="font-medium">
+                      {vehicleId ? allocation.drivers?.name || "-" : allocation.vehicles?.plate || "-"}
+                      {allocation.notes && (
+                        <div className="text-xs text-muted-foreground">{allocation.notes}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>{formatDateTime(allocation.checkout_date)}</TableCell>
+                    <TableCell>{formatDateTime(allocation.expected_return)}</TableCell>
+                    <TableCell>{formatDateTime(allocation.actual_return)}</TableCell>
+                    <TableCell>
+                      {overdue ? (
+                        <Badge variant="destructive">Atrasado</Badge>
+                      ) : (
+                        <Badge variant={allocation.status === "em_uso" ? "default" : "secondary"}>
+                          {ALLOCATION_STATUS_LABELS[allocation.status] || allocation.status}
+                        </Badge>
+                      )}
+                    </TableCell>
+                    {canManage && (
+                      <TableCell className="text-right">
+                        {allocation.status === "em_uso" && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            className="gap-1"
+                            onClick={() => returnVehicle.mutate(allocation)}
+                            disabled={returnVehicle.isPending}
+                          >
+                            <Undo2 className="h-4 w-4" />
+                            Devolver
+                          </Button>
+                        )}
+                      </TableCell>
+                    )}
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,173 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { KeyRound } from "lucide-react";
+import { format } from "date-fns";
+import { useCheckoutVehicle } from "@/hooks/useAllocations";
+
+interface CheckoutDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  vehicles: { id: string; plate: string; model: string; status: string }[];
+  drivers: { id: string; name: string; matricula: string }[];
+  /** Vehicles currently checked out, which can't be picked again */
+  busyVehicleIds: string[];
+  defaultVehicleId?: string;
+  defaultDriverId?: string;
+}
+
+const nowInputValue = () => format(new Date(), "yyyy-MM-dd'T'HH:mm");
+
+export const CheckoutDialog = ({
+  open,
+  onOpenChange,
+  vehicles,
+  drivers,
+  busyVehicleIds,
+  defaultVehicleId,
+  defaultDriverId,
+}: CheckoutDialogProps) => {
+  const [formData, setFormData] = useState({
+    vehicle_id: "",
+    driver_id: "",
+    checkout_date: nowInputValue(),
+    expected_return: "",
+    notes: "",
+  });
+
+  useEffect(() => {
+    if (open) {
+      setFormData({
+        vehicle_id: defaultVehicleId || "",
+        driver_id: defaultDriverId || "",
+        checkout_date: nowInputValue(),
+        expected_return: "",
+        notes: "",
+      });
+    }
+  }, [open, defaultVehicleId, defaultDriverId]);
+
+  const checkout = useCheckoutVehicle(() => onOpenChange(false));
+
+  const availableVehicles = vehicles.filter(
+    (v) => v.id === formData.vehicle_id || (!busyVehicleIds.includes(v.id) && v.status !== "oficina")
+  );
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    checkout.mutate({
+      vehicle_id: formData.vehicle_id,
+      driver_id: formData.driver_id,
+      checkout_date: new Date(formData.checkout_date).toISOString(),
+      expected_return: formData.expected_return ? new Date(formData.expected_return).toISOString() : null,
+      notes: formData.notes || null,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <KeyRound className="h-5 w-5" />
+            Registrar Retirada
+          </DialogTitle>
+          <DialogDescription>Informe o veículo, o motorista e a previsão de devolução</DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label>Veículo *</Label>
+            <Select
+              value={formData.vehicle_id}
+              onValueChange={(value) => setFormData({ ...formData, vehicle_id: value })}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Selecione o veículo" />
+              </SelectTrigger>
+              <SelectContent>
+                {availableVehicles.map((vehicle) => (
+                  <SelectItem key={vehicle.id} value={vehicle.id}>
+                    {vehicle.plate} - {vehicle.model}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Motorista *</Label>
+            <Select
+              value={formData.driver_id}
+              onValueChange={(value) => setFormData({ ...formData, driver_id: value })}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Selecione o motorista" />
+              </SelectTrigger>
+              <SelectContent>
+                {drivers.map((driver) => (
+                  <SelectItem key={driver.id} value={driver.id}>
+                    {driver.name} ({driver.matricula})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="checkout_date">Retirada</Label>
+              <Input
+                id="checkout_date"
+                type="datetime-local"
+                value={formData.checkout_date}
+                onChange={(e) => setFormData({ ...formData, checkout_date: e.target.value })}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="expected_return">Previsão de Devolução</Label>
+              <Input
+                id="expected_return"
+                type="datetime-local"
+                value={formData.expected_return}
+                min={formData.checkout_date}
+                onChange={(e) => setFormData({ ...formData, expected_return: e.target.value })}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="checkout_notes">Observações (opcional)</Label>
+            <Textarea
+              id="checkout_notes"
+              value={formData.notes}
+              onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+              rows={2}
+            />
+          </div>
+          <div className="flex justify-end gap-3 pt-4">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancelar
+            </Button>
+            <Button type="submit" disabled={checkout.isPending || !formData.vehicle_id || !formData.driver_id}>
+              Registrar Retirada
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,247 @@
+import { useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Activity, CalendarRange, TrendingUp, Users, Car } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { addMonths, format, startOfMonth, subMonths } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from "recharts";
+import {
+  StatusPeriod,
+  formatPercent,
+  monthlyAvailability,
+  sumAvailability,
+} from "@/lib/fleetAvailability";
+
+interface FleetAvailabilitySectionProps {
+  teamsMap: Record<string, string>;
+}
+
+const MONTHS_SHOWN = 12;
+const TREND_MONTHS = 6;
+
+const percentColor = (value: number | null) => {
+  if (value === null) return "text-muted-foreground";
+  if (value >= 90) return "text-green-600";
+  if (value >= 75) return "text-yellow-600";
+  return "text-destructive";
+};
+
+export const FleetAvailabilitySection = ({ teamsMap }: FleetAvailabilitySectionProps) => {
+  const [selectedMonth, setSelectedMonth] = useState(format(new Date(), "yyyy-MM"));
+
+  const monthOptions = useMemo(() => {
+    const current = startOfMonth(new Date());
+    return Array.from({ length: MONTHS_SHOWN }, (_, i) => {
+      const month = subMonths(current, i);
+      return { value: format(month, "yyyy-MM"), label: format(month, "MMMM 'de' yyyy", { locale: ptBR }) };
+    });
+  }, []);
+
+  const { data: periods = [], isLoading } = useQuery({
+    queryKey: ["vehicle_status_history_indicators"],
+    queryFn: async () => {
+      const since = subMonths(startOfMonth(new Date()), MONTHS_SHOWN - 1).toISOString();
+      const { data, error } = await supabase
+        .from("vehicle_status_history")
+        .select("vehicle_id, status, team_id, gerencia, started_at, ended_at")
+        .or(`ended_at.is.null,ended_at.gte.${since}`);
+      if (error) throw error;
+      return data as StatusPeriod[];
+    },
+  });
+
+  const { data: platesMap = {} } = useQuery({
+    queryKey: ["vehicle_plates_map"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("vehicles").select("id, plate");
+      if (error) throw error;
+      const map: Record<string, string> = {};
+      data.forEach(v => { map[v.id] = v.plate; });
+      return map;
+    },
+  });
+
+  const availability = useMemo(() => {
+    const monthStart = new Date(selectedMonth + "-01T00:00:00");
+    const monthEnd = addMonths(monthStart, 1);
+    const byKey = (keyOf: (p: StatusPeriod) => string | null) =>
+      sumAvailability(periods, monthStart, monthEnd, keyOf)
+        .sort((a, b) => (a.percent ?? 0) - (b.percent ?? 0));
+
+    const [fleet] = sumAvailability(periods, monthStart, monthEnd, () => "fleet");
+    return {
+      fleet: fleet?.percent ?? null,
+      trackedHours: fleet?.totalHours ?? 0,
+      byVehicle: byKey(p => p.vehicle_id),
+      byTeam: byKey(p => (p.team_id ? teamsMap[p.team_id] || "Equipe removida" : "Sem equipe")),
+      byGerencia: byKey(p => p.gerencia || "Sem gerência"),
+      trend: monthlyAvailability(periods, TREND_MONTHS),
+    };
+  }, [periods, selectedMonth, teamsMap]);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="text-muted-foreground">Carregando disponibilidade...</div>
+      </div>
+    );
+  }
+
+  const toChartData = (rows: typeof availability.byTeam) =>
+    rows.map(r => ({ name: r.key, value: r.percent !== null ? Number(r.percent.toFixed(1)) : 0 }));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <Activity className="h-5 w-5 text-primary" />
+          <h3 className="text-lg font-semibold">Disponibilidade da Frota</h3>
+        </div>
+        <Select value={selectedMonth} onValueChange={setSelectedMonth}>
+          <SelectTrigger className="w-full sm:w-56">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {monthOptions.map(option => (
+              <SelectItem key={option.value} value={option.value} className="capitalize">
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <Card className="p-5">
+          <div className="flex items-center gap-3">
+            <div className="p-3 rounded-xl bg-green-500/10">
+              <Activity className="h-6 w-6 text-green-500" />
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground">Disponibilidade no Mês</p>
+              <p className={`text-2xl font-bold ${percentColor(availability.fleet)}`}>
+                {formatPercent(availability.fleet)}
+              </p>
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground mt-3">
+            Horas em "Ativo" sobre o total de horas registradas no histórico de status
+            ({Math.round(availability.trackedHours).toLocaleString("pt-BR")}h no mês).
+          </p>
+        </Card>
+
+        {/* Evolução mensal */}
+        <Card className="p-5 lg:col-span-2">
+          <div className="flex items-center gap-2 mb-4">
+            <CalendarRange className="h-5 w-5 text-primary" />
+            <h3 className="text-lg font-semibold">Evolução Mensal</h3>
+          </div>
+          <div className="h-48">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={availability.trend.map(t => ({ ...t, value: t.percent ?? 0 }))}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="label" tick={{ fontSize: 12 }} />
+                <YAxis domain={[0, 100]} tickFormatter={(v) => `${v}%`} />
+                <Tooltip formatter={(_, __, item) => [formatPercent(item.payload.percent), "Disponibilidade"]} />
+                <Bar dataKey="value" fill="#10b981" radius={[4, 4, 0, 0]} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </Card>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Por gerência */}
+        <Card className="p-5">
+          <div className="flex items-center gap-2 mb-4">
+            <TrendingUp className="h-5 w-5 text-primary" />
+            <h3 className="text-lg font-semibold">Disponibilidade por Gerência</h3>
+          </div>
+          <div className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={toChartData(availability.byGerencia)}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="name" tick={{ fontSize: 11 }} angle={-15} textAnchor="end" height={60} />
+                <YAxis domain={[0, 100]} tickFormatter={(v) => `${v}%`} />
+                <Tooltip formatter={(value) => [formatPercent(value as number), "Disponibilidade"]} />
+                <Bar dataKey="value" fill="#3b82f6" radius={[4, 4, 0, 0]} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </Card>
+
+        {/* Por equipe */}
+        <Card className="p-5">
+          <div className="flex items-center gap-2 mb-4">
+            <Users className="h-5 w-5 text-primary" />
+            <h3 className="text-lg font-semibold">Menor Disponibilidade por Equipe</h3>
+          </div>
+          <div className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={toChartData(availability.byTeam.slice(0, 8))} layout="vertical">
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis type="number" domain={[0, 100]} tickFormatter={(v) => `${v}%`} />
+                <YAxis type="category" dataKey="name" width={100} tick={{ fontSize: 12 }} />
+                <Tooltip formatter={(value) => [formatPercent(value as number), "Disponibilidade"]} />
+                <Bar dataKey="value" fill="#f59e0b" radius={[0, 4, 4, 0]} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </Card>
+      </div>
+
+      {/* Por veículo */}
+      <Card className="p-5">
+        <div className="flex items-center gap-2 mb-4">
+          <Car className="h-5 w-5 text-primary" />
+          <h3 className="text-lg font-semibold">Disponibilidade por Veículo</h3>
+        </div>
+        <div className="overflow-x-auto max-h-96 overflow-y-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-border">
+                <th className="text-left py-3 px-4 font-medium text-muted-foreground">Placa</th>
+                <th className="text-right py-3 px-4 font-medium text-muted-foreground">Horas Ativo</th>
+                <th className="text-right py-3 px-4 font-medium text-muted-foreground">Horas no Período</th>
+                <th className="text-right py-3 px-4 font-medium text-muted-foreground">Disponibilidade</th>
+              </tr>
+            </thead>
+            <tbody>
+              {availability.byVehicle.map((row) => (
+                <tr key={row.key} className="border-b border-border/50 hover:bg-muted/30">
+                  <td className="py-3 px-4 font-medium">{platesMap[row.key] || "Veículo removido"}</td>
+                  <td className="py-3 px-4 text-right">{Math.round(row.activeHours).toLocaleString("pt-BR")}h</td>
+                  <td className="py-3 px-4 text-right">{Math.round(row.totalHours).toLocaleString("pt-BR")}h</td>
+                  <td className={`py-3 px-4 text-right font-semibold ${percentColor(row.percent)}`}>
+                    {formatPercent(row.percent)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {availability.byVehicle.length === 0 && (
+            <div className="text-center py-8 text-muted-foreground">
+              Nenhum histórico de status no período
+            </div>
+          )}
+        </div>
+      </Card>
+    </div>
+  );
+};
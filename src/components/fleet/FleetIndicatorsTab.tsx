@@ -3,10 +3,12 @@ import { useQuery } from "@tanstack/react-query";
 import { Card } from "@/components/ui/card";
 import { 
   Clock, DollarSign, Building, Wrench, Car, Users, 
-  TrendingUp, BarChart3, PieChart 
+  TrendingUp, BarChart3, PieChart, Scale, CalendarX
 } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
+import { FleetAvailabilitySection } from "@/components/fleet/FleetAvailabilitySection";
 import { differenceInHours } from "date-fns";
+import { getCostVariance } from "@/lib/workshopFlow";
 import {
   BarChart,
   Bar,
@@ -36,6 +38,9 @@ interface WorkshopEntry {
     team_id: string | null;
     gerencia: string | null;
   };
+  approved_quote?: {
+    total: number;
+  } | null;
 }
 
 interface Team {
@@ -43,6 +48,14 @@ interface Team {
   name: string;
 }
 
+interface WorkshopLostDay {
+  date: string;
+  workshop_entries: {
+    workshop_name: string | null;
+    vehicles: { plate: string; team_id: string | null } | null;
+  };
+}
+
 const REASON_COLORS: Record<string, string> = {
   "Implemento": "#3b82f6",
   "Mecânico": "#f59e0b",
@@ -68,6 +81,9 @@ export const FleetIndicatorsTab = () => {
             model,
             team_id,
             gerencia
+          ),
+          approved_quote:workshop_quotes!workshop_entries_approved_quote_id_fkey (
+            total
           )
         `)
         .order("entry_date", { ascending: false });
@@ -88,6 +104,20 @@ export const FleetIndicatorsTab = () => {
     },
   });
 
+  // Departures that didn't happen because the vehicle was in the workshop
+  const { data: workshopLostDays = [] } = useQuery({
+    queryKey: ["workshop_lost_team_days_indicators"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("departures")
+        .select("date, workshop_entries!inner(workshop_name, vehicles(plate, team_id))")
+        .eq("departed", false)
+        .not("workshop_entry_id", "is", null);
+      if (error) throw error;
+      return data as WorkshopLostDay[];
+    },
+  });
+
   const teamsMap = useMemo(() => {
     const map: Record<string, string> = {};
     teams.forEach(t => { map[t.id] = t.name; });
@@ -181,6 +211,50 @@ export const FleetIndicatorsTab = () => {
       .map(([name, value]) => ({ name, value }))
       .sort((a, b) => b.value - a.value);
 
+    // 6. Variação de custo vs. orçamento aprovado (entradas concluídas)
+    const varianceEntries = completedEntries
+      .map(entry => ({
+        entry,
+        variance: getCostVariance(entry.maintenance_cost, entry.approved_quote?.total ?? null),
+      }))
+      .filter(v => v.variance !== null);
+    const totalApproved = varianceEntries.reduce((sum, v) => sum + v.entry.approved_quote!.total, 0);
+    const totalFinal = varianceEntries.reduce((sum, v) => sum + (v.entry.maintenance_cost || 0), 0);
+    const totalVariance = getCostVariance(totalFinal, totalApproved);
+
+    const varianceByWorkshop: Record<string, { approved: number; final: number }> = {};
+    varianceEntries.forEach(({ entry }) => {
+      const name = entry.workshop_name || "Não informada";
+      if (!varianceByWorkshop[name]) varianceByWorkshop[name] = { approved: 0, final: 0 };
+      varianceByWorkshop[name].approved += entry.approved_quote!.total;
+      varianceByWorkshop[name].final += entry.maintenance_cost || 0;
+    });
+    const varianceByWorkshopArray = Object.entries(varianceByWorkshop)
+      .map(([name, v]) => ({ name, ...v, percent: getCostVariance(v.final, v.approved)?.percent ?? 0 }))
+      .sort((a, b) => b.percent - a.percent);
+
+    // 7. Dias-equipe perdidos por oficina (saídas não realizadas vinculadas à entrada)
+    const lostDaysByPlate: Record<string, { plate: string; team: string; days: number }> = {};
+    const lostDaysByWorkshop: Record<string, number> = {};
+    workshopLostDays.forEach(day => {
+      const vehicle = day.workshop_entries.vehicles;
+      const plate = vehicle?.plate || "Sem placa";
+      if (!lostDaysByPlate[plate]) {
+        lostDaysByPlate[plate] = {
+          plate,
+          team: vehicle?.team_id ? (teamsMap[vehicle.team_id] || "Sem equipe") : "Sem equipe",
+          days: 0,
+        };
+      }
+      lostDaysByPlate[plate].days += 1;
+      const workshop = day.workshop_entries.workshop_name || "Não informada";
+      lostDaysByWorkshop[workshop] = (lostDaysByWorkshop[workshop] || 0) + 1;
+    });
+    const lostDaysByPlateArray = Object.values(lostDaysByPlate).sort((a, b) => b.days - a.days);
+    const lostDaysByWorkshopArray = Object.entries(lostDaysByWorkshop)
+      .map(([name, value]) => ({ name, value }))
+      .sort((a, b) => b.value - a.value);
+
     // Total values
     const totalMaintenanceCost = workshopEntries.reduce((sum, e) => sum + (e.maintenance_cost || 0), 0);
 
@@ -196,8 +270,16 @@ export const FleetIndicatorsTab = () => {
       costByGerenciaArray,
       costByWorkshopArray,
       reasonRanking,
+      varianceCount: varianceEntries.length,
+      totalApproved,
+      totalFinal,
+      totalVariance,
+      varianceByWorkshopArray,
+      totalLostDays: workshopLostDays.length,
+      lostDaysByPlateArray,
+      lostDaysByWorkshopArray,
     };
-  }, [workshopEntries, teamsMap]);
+  }, [workshopEntries, workshopLostDays, teamsMap]);
 
   const formatCurrency = (value: number) => {
     return value.toLocaleString("pt-BR", { style: "currency", currency: "BRL" });
@@ -409,6 +491,118 @@ export const FleetIndicatorsTab = () => {
           )}
         </div>
       </Card>
+
+      {/* Variação de Custo vs. Orçamento */}
+      <Card className="p-5">
+        <div className="flex items-center gap-2 mb-4">
+          <Scale className="h-5 w-5 text-primary" />
+          <h3 className="text-lg font-semibold">Variação de Custo vs. Orçamento Aprovado</h3>
+        </div>
+        <div className="grid grid-cols-1 sm:grid-cols-4 gap-4 mb-4">
+          <div>
+            <p className="text-sm text-muted-foreground">Saídas com orçamento</p>
+            <p className="text-xl font-bold">{metrics.varianceCount}</p>
+          </div>
+          <div>
+            <p className="text-sm text-muted-foreground">Total Aprovado</p>
+            <p className="text-xl font-bold">{formatCurrency(metrics.totalApproved)}</p>
+          </div>
+          <div>
+            <p className="text-sm text-muted-foreground">Total Final</p>
+            <p className="text-xl font-bold">{formatCurrency(metrics.totalFinal)}</p>
+          </div>
+          <div>
+            <p className="text-sm text-muted-foreground">Variação</p>
+            <p className={`text-xl font-bold ${metrics.totalVariance && metrics.totalVariance.amount > 0 ? "text-destructive" : "text-green-600"}`}>
+              {metrics.totalVariance
+                ? `${metrics.totalVariance.amount > 0 ? "+" : ""}${formatCurrency(metrics.totalVariance.amount)} (${metrics.totalVariance.percent.toFixed(1)}%)`
+                : "-"}
+            </p>
+          </div>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-border">
+                <th className="text-left py-3 px-4 font-medium text-muted-foreground">Oficina</th>
+                <th className="text-right py-3 px-4 font-medium text-muted-foreground">Aprovado</th>
+                <th className="text-right py-3 px-4 font-medium text-muted-foreground">Final</th>
+                <th className="text-right py-3 px-4 font-medium text-muted-foreground">Variação</th>
+              </tr>
+            </thead>
+            <tbody>
+              {metrics.varianceByWorkshopArray.map((item) => (
+                <tr key={item.name} className="border-b border-border/50 hover:bg-muted/30">
+                  <td className="py-3 px-4 font-medium">{item.name}</td>
+                  <td className="py-3 px-4 text-right">{formatCurrency(item.approved)}</td>
+                  <td className="py-3 px-4 text-right">{formatCurrency(item.final)}</td>
+                  <td className={`py-3 px-4 text-right font-semibold ${item.percent > 0 ? "text-destructive" : "text-green-600"}`}>
+                    {item.percent > 0 ? "+" : ""}{item.percent.toFixed(1)}%
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {metrics.varianceByWorkshopArray.length === 0 && (
+            <div className="text-center py-8 text-muted-foreground">
+              Nenhuma saída com orçamento aprovado
+            </div>
+          )}
+        </div>
+      </Card>
+
+      {/* Dias-Equipe Perdidos por Oficina */}
+      <Card className="p-5">
+        <div className="flex items-center gap-2 mb-1">
+          <CalendarX className="h-5 w-5 text-primary" />
+          <h3 className="text-lg font-semibold">Dias-Equipe Perdidos por Oficina</h3>
+        </div>
+        <p className="text-sm text-muted-foreground mb-4">
+          {metrics.totalLostDays} dia(s)-equipe sem saída com o veículo na oficina
+        </p>
+        {metrics.totalLostDays > 0 ? (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-border">
+                    <th className="text-left py-3 px-4 font-medium text-muted-foreground">Placa</th>
+                    <th className="text-left py-3 px-4 font-medium text-muted-foreground">Equipe</th>
+                    <th className="text-right py-3 px-4 font-medium text-muted-foreground">Dias-Equipe</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {metrics.lostDaysByPlateArray.slice(0, 15).map((item) => (
+                    <tr key={item.plate} className="border-b border-border/50 hover:bg-muted/30">
+                      <td className="py-3 px-4 font-medium">{item.plate}</td>
+                      <td className="py-3 px-4 text-muted-foreground">{item.team}</td>
+                      <td className="py-3 px-4 text-right font-semibold text-destructive">{item.days}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <div className="h-64">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={metrics.lostDaysByWorkshopArray.slice(0, 8)} layout="vertical">
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis type="number" allowDecimals={false} />
+                  <YAxis type="category" dataKey="name" width={100} tick={{ fontSize: 12 }} />
+                  <Tooltip formatter={(value) => [`${value} dia(s)-equipe`, "Perdidos"]} />
+                  <Bar dataKey="value" fill="#ef4444" radius={[0, 4, 4, 0]} />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+        ) : (
+          <div className="text-center py-8 text-muted-foreground">
+            Nenhuma saída perdida vinculada à oficina
+          </div>
+        )}
+      </Card>
+
+      {/* Disponibilidade da Frota */}
+      <FleetAvailabilitySection teamsMap={teamsMap} />
     </div>
   );
 };
@@ -0,0 +1,259 @@
+import { useMemo, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from "recharts";
+import { Gauge, Plus, Trash2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import {
+  ODOMETER_SOURCE_LABELS,
+  OdometerReading,
+  checkOdometerReading,
+  formatKm,
+  parseKmInput,
+} from "@/lib/odometer";
+
+interface OdometerHistoryProps {
+  vehicleId: string;
+  canRecord: boolean;
+  canDelete?: boolean;
+}
+
+const formatDate = (date: string) => format(new Date(date + "T00:00:00"), "dd/MM/yyyy", { locale: ptBR });
+
+export const OdometerHistory = ({ vehicleId, canRecord, canDelete = false }: OdometerHistoryProps) => {
+  const queryClient = useQueryClient();
+  const [readingDate, setReadingDate] = useState(new Date().toISOString().split("T")[0]);
+  const [kmInput, setKmInput] = useState("");
+  const [notes, setNotes] = useState("");
+
+  const { data: readings = [], isLoading } = useQuery({
+    queryKey: ["odometer_readings", vehicleId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("odometer_readings")
+        .select("*")
+        .eq("vehicle_id", vehicleId)
+        .order("reading_date", { ascending: true })
+        .order("km", { ascending: true });
+      if (error) throw error;
+      return data as OdometerReading[];
+    },
+  });
+
+  const { data: profilesMap = {} } = useQuery({
+    queryKey: ["profiles_map"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("profiles").select("id, name");
+      if (error) throw error;
+      const map: Record<string, string> = {};
+      data.forEach(p => { map[p.id] = p.name; });
+      return map;
+    },
+  });
+
+  const chartData = useMemo(
+    () => readings.map(r => ({ date: format(new Date(r.reading_date + "T00:00:00"), "dd/MM/yy"), km: r.km })),
+    [readings]
+  );
+
+  const currentKm = readings.length > 0 ? readings[readings.length - 1].km : null;
+
+  const addReading = useMutation({
+    mutationFn: async () => {
+      const km = parseKmInput(kmInput);
+      if (km === null || Number.isNaN(km)) throw new Error("Informe um km válido");
+      const validationError = await checkOdometerReading(vehicleId, readingDate, km);
+      if (validationError) throw new Error(validationError);
+
+      const { error } = await supabase.from("odometer_readings").insert({
+        vehicle_id: vehicleId,
+        reading_date: readingDate,
+        km,
+        source: "manual",
+        notes: notes || null,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["odometer_readings"] });
+      queryClient.invalidateQueries({ queryKey: ["vehicle_current_km"] });
+      toast({ title: "Leitura registrada!" });
+      setKmInput("");
+      setNotes("");
+    },
+    onError: (error) => {
+      toast({ title: "Erro ao registrar leitura", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteReading = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("odometer_readings").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["odometer_readings"] });
+      queryClient.invalidateQueries({ queryKey: ["vehicle_current_km"] });
+      toast({ title: "Leitura removida!" });
+    },
+    onError: (error) => {
+      toast({ title: "Erro ao remover leitura", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    addReading.mutate();
+  };
+
+  const handleDelete = (id: string) => {
+    if (confirm("Tem certeza que deseja remover esta leitura?")) {
+      deleteReading.mutate(id);
+    }
+  };
+
+  if (isLoading) {
+    return <div className="text-center py-8 text-muted-foreground">Carregando...</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-2 text-lg font-semibold">
+        <Gauge className="h-5 w-5 text-primary" />
+        {currentKm !== null ? formatKm(currentKm) : "Sem leituras registradas"}
+      </div>
+
+      {chartData.length > 1 && (
+        <div className="h-[220px] w-full">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" stroke="hsl(0, 10%, 88%)" />
+              <XAxis dataKey="date" stroke="hsl(0, 0%, 45%)" fontSize={12} tickLine={false} axisLine={false} />
+              <YAxis
+                stroke="hsl(0, 0%, 45%)"
+                fontSize={12}
+                tickLine={false}
+                axisLine={false}
+                width={70}
+                domain={["dataMin", "dataMax"]}
+                tickFormatter={(v) => v.toLocaleString("pt-BR")}
+              />
+              <Tooltip
+                formatter={(value: number) => [formatKm(value), "Hodômetro"]}
+                contentStyle={{
+                  backgroundColor: "hsl(0, 0%, 100%)",
+                  border: "1px solid hsl(0, 10%, 88%)",
+                  borderRadius: "8px",
+                }}
+              />
+              <Line type="monotone" dataKey="km" stroke="hsl(0, 76%, 28%)" strokeWidth={2} dot={{ r: 3 }} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+
+      {canRecord && (
+        <form onSubmit={handleSubmit} className="grid grid-cols-1 sm:grid-cols-[1fr_1fr_2fr_auto] gap-3 items-end">
+          <div className="space-y-2">
+            <Label htmlFor="odometer_date">Data</Label>
+            <Input
+              id="odometer_date"
+              type="date"
+              value={readingDate}
+              onChange={(e) => setReadingDate(e.target.value)}
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="odometer_km">Km</Label>
+            <Input
+              id="odometer_km"
+              type="number"
+              min="0"
+              value={kmInput}
+              onChange={(e) => setKmInput(e.target.value)}
+              placeholder="Ex: 45200"
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="odometer_notes">Observação</Label>
+            <Input
+              id="odometer_notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Opcional"
+            />
+          </div>
+          <Button type="submit" className="gap-2" disabled={addReading.isPending}>
+            <Plus className="h-4 w-4" />
+            Registrar
+          </Button>
+        </form>
+      )}
+
+      <div className="max-h-72 overflow-y-auto border rounded-lg">
+        <Table>
+          <TableHeader>
+            <TableRow className="bg-muted/50">
+              <TableHead>Data</TableHead>
+              <TableHead>Km</TableHead>
+              <TableHead>Origem</TableHead>
+              <TableHead>Registrado por</TableHead>
+              {canDelete && <TableHead className="text-right">Ações</TableHead>}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {[...readings].reverse().map((reading) => (
+              <TableRow key={reading.id}>
+                <TableCell>{formatDate(reading.reading_date)}</TableCell>
+                <TableCell className="font-medium">
+                  {formatKm(reading.km)}
+                  {reading.notes && <div className="text-xs text-muted-foreground">{reading.notes}</div>}
+                </TableCell>
+                <TableCell>
+                  <Badge variant="outline">{ODOMETER_SOURCE_LABELS[reading.source] || reading.source}</Badge>
+                </TableCell>
+                <TableCell>{reading.recorded_by ? profilesMap[reading.recorded_by] || "-" : "-"}</TableCell>
+                {canDelete && (
+                  <TableCell className="text-right">
+                    <Button variant="ghost" size="icon" onClick={() => handleDelete(reading.id)}>
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </TableCell>
+                )}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+        {readings.length === 0 && (
+          <div className="p-6 text-center text-muted-foreground text-sm">
+            Nenhuma leitura de hodômetro registrada
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
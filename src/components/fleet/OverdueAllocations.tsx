@@ -0,0 +1,91 @@
+import { useMemo } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { AlertCircle, Undo2 } from "lucide-react";
+import { format, formatDistanceToNow } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { Allocation, isAllocationOverdue } from "@/lib/allocations";
+import { useReturnVehicle } from "@/hooks/useAllocations";
+
+interface OverdueAllocationsProps {
+  activeAllocations: Allocation[];
+  canManage: boolean;
+}
+
+/**
+ * Vehicles still checked out after their expected return
+ */
+export const OverdueAllocations = ({ activeAllocations, canManage }: OverdueAllocationsProps) => {
+  const returnVehicle = useReturnVehicle();
+
+  const overdue = useMemo(() => {
+    const now = new Date();
+    return activeAllocations
+      .filter((a) => isAllocationOverdue(a, now))
+      .sort((a, b) => new Date(a.expected_return!).getTime() - new Date(b.expected_return!).getTime());
+  }, [activeAllocations]);
+
+  if (overdue.length === 0) return null;
+
+  return (
+    <Card className="border-red-500 border-2 mb-6">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-lg text-red-700">
+          <AlertCircle className="h-5 w-5" />
+          Devoluções Atrasadas
+          <Badge variant="secondary" className="ml-auto">{overdue.length}</Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow className="text-xs">
+              <TableHead className="py-2">Veículo</TableHead>
+              <TableHead className="py-2">Motorista</TableHead>
+              <TableHead className="py-2">Retirada</TableHead>
+              <TableHead className="py-2">Previsão</TableHead>
+              <TableHead className="py-2">Atraso</TableHead>
+              {canManage && <TableHead className="py-2 text-right">Ações</TableHead>}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {overdue.map((allocation) => (
+              <TableRow key={allocation.id} className="text-sm">
+                <TableCell className="py-2 font-medium">{allocation.vehicles?.plate || "-"}</TableCell>
+                <TableCell className="py-2">{allocation.drivers?.name || "-"}</TableCell>
+                <TableCell className="py-2">{format(new Date(allocation.checkout_date), "dd/MM/yyyy HH:mm")}</TableCell>
+                <TableCell className="py-2">{format(new Date(allocation.expected_return!), "dd/MM/yyyy HH:mm")}</TableCell>
+                <TableCell className="py-2 text-red-600 font-medium">
+                  {formatDistanceToNow(new Date(allocation.expected_return!), { locale: ptBR })}
+                </TableCell>
+                {canManage && (
+                  <TableCell className="py-2 text-right">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="gap-1"
+                      onClick={() => returnVehicle.mutate(allocation)}
+                      disabled={returnVehicle.isPending}
+                    >
+                      <Undo2 className="h-4 w-4" />
+                      Devolver
+                    </Button>
+                  </TableCell>
+                )}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+};
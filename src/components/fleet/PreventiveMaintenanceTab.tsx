@@ -0,0 +1,395 @@
+import { useMemo } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { AlertCircle, AlertTriangle, CalendarClock, CheckCircle, ClipboardList, RefreshCw } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import {
+  MaintenanceDueStatus,
+  UPCOMING_DAYS_THRESHOLD,
+  UPCOMING_KM_THRESHOLD,
+  formatPlanInterval,
+  getDaysUntilDue,
+  getKmUntilDue,
+  getMaintenanceDueStatus,
+} from "@/lib/preventiveMaintenance";
+import { formatKm } from "@/lib/odometer";
+
+interface PlannedMaintenance {
+  id: string;
+  vehicle_id: string;
+  plan_id: string | null;
+  type: string;
+  scheduled_date: string | null;
+  scheduled_km: number | null;
+  status: "pendente" | "em_andamento" | "concluida";
+  vehicles?: {
+    plate: string;
+    model: string;
+    team_id: string | null;
+  };
+  maintenance_plans?: {
+    name: string;
+    interval_km: number | null;
+    interval_months: number | null;
+  } | null;
+}
+
+interface Team {
+  id: string;
+  name: string;
+}
+
+interface PreventiveMaintenanceTabProps {
+  canManage: boolean;
+}
+
+export const PreventiveMaintenanceTab = ({ canManage }: PreventiveMaintenanceTabProps) => {
+  const queryClient = useQueryClient();
+
+  const { data: records = [], isLoading } = useQuery({
+    queryKey: ["planned_maintenance"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("maintenance_records")
+        .select(`
+          id, vehicle_id, plan_id, type, scheduled_date, scheduled_km, status,
+          vehicles (
+            plate,
+            model,
+            team_id
+          ),
+          maintenance_plans (
+            name,
+            interval_km,
+            interval_months
+          )
+        `)
+        .not("plan_id", "is", null)
+        .neq("status", "concluida")
+        .order("scheduled_date", { ascending: true, nullsFirst: false });
+      if (error) throw error;
+      return data as PlannedMaintenance[];
+    },
+  });
+
+  const { data: activePlansCount = 0 } = useQuery({
+    queryKey: ["maintenance_plans_active_count"],
+    queryFn: async () => {
+      const { count, error } = await supabase
+        .from("maintenance_plans")
+        .select("id", { count: "exact", head: true })
+        .eq("is_active", true);
+      if (error) throw error;
+      return count || 0;
+    },
+  });
+
+  const { data: currentKmMap = {} } = useQuery({
+    queryKey: ["vehicle_current_km"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("vehicle_current_km")
+        .select("vehicle_id, km");
+      if (error) throw error;
+      const map: Record<string, number> = {};
+      data.forEach((row) => {
+        if (row.vehicle_id && row.km !== null) map[row.vehicle_id] = row.km;
+      });
+      return map;
+    },
+  });
+
+  const { data: teams = [] } = useQuery({
+    queryKey: ["teams"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("teams")
+        .select("id, name")
+        .order("name");
+      if (error) throw error;
+      return data as Team[];
+    },
+  });
+
+  const teamsMap = useMemo(() => {
+    const map: Record<string, string> = {};
+    teams.forEach((t) => {
+      map[t.id] = t.name;
+    });
+    return map;
+  }, [teams]);
+
+  const grouped = useMemo(() => {
+    const today = new Date();
+    const result: Record<MaintenanceDueStatus, PlannedMaintenance[]> = {
+      vencida: [],
+      proxima: [],
+      programada: [],
+    };
+    records.forEach((record) => {
+      result[getMaintenanceDueStatus(record, today, currentKmMap[record.vehicle_id] ?? null)].push(record);
+    });
+    return result;
+  }, [records, currentKmMap]);
+
+  const generateSchedule = useMutation({
+    mutationFn: async () => {
+      const { data, error } = await supabase.rpc("generate_planned_maintenance");
+      if (error) throw error;
+      return data as number;
+    },
+    onSuccess: (count) => {
+      queryClient.invalidateQueries({ queryKey: ["planned_maintenance"] });
+      queryClient.invalidateQueries({ queryKey: ["maintenance_records"] });
+      queryClient.invalidateQueries({ queryKey: ["vehicle_current_km"] });
+      toast({
+        title: count > 0 ? `${count} manutenção(ões) programada(s)` : "Agenda já está atualizada",
+      });
+    },
+    onError: (error) => {
+      toast({ title: "Erro ao gerar agenda", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const completeMaintenance = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from("maintenance_records")
+        .update({ status: "concluida", completed_date: new Date().toISOString().split("T")[0] })
+        .eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["planned_maintenance"] });
+      queryClient.invalidateQueries({ queryKey: ["maintenance_records"] });
+      toast({ title: "Manutenção concluída! Próxima ocorrência programada." });
+    },
+    onError: (error) => {
+      toast({ title: "Erro ao concluir manutenção", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const formatDate = (date: string) => format(new Date(date + "T00:00:00"), "dd/MM/yyyy", { locale: ptBR });
+
+  const MaintenanceTable = ({
+    title,
+    items,
+    icon: Icon,
+    colorClass,
+    borderClass,
+  }: {
+    title: string;
+    items: PlannedMaintenance[];
+    icon: React.ComponentType<{ className?: string }>;
+    colorClass: string;
+    borderClass: string;
+  }) => (
+    <Card className={`${borderClass} border-2`}>
+      <CardHeader className="pb-3">
+        <CardTitle className={`flex items-center gap-2 text-lg ${colorClass}`}>
+          <Icon className="h-5 w-5" />
+          {title}
+          <Badge variant="secondary" className="ml-auto">{items.length}</Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {items.length === 0 ? (
+          <div className="text-center py-4 text-muted-foreground text-sm">
+            Nenhuma manutenção nesta categoria
+          </div>
+        ) : (
+          <div className="max-h-80 overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow className="text-xs">
+                  <TableHead className="py-2">Veículo</TableHead>
+                  <TableHead className="py-2">Equipe</TableHead>
+                  <TableHead className="py-2">Plano</TableHead>
+                  <TableHead className="py-2">Data Prevista</TableHead>
+                  <TableHead className="py-2">Km Previsto</TableHead>
+                  <TableHead className="py-2">Km Atual</TableHead>
+                  <TableHead className="py-2 text-right">Dias</TableHead>
+                  {canManage && <TableHead className="py-2 text-right">Ações</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {items.map((item) => {
+                  const days = getDaysUntilDue(item);
+                  const currentKm = currentKmMap[item.vehicle_id] ?? null;
+                  const kmLeft = getKmUntilDue(item, currentKm);
+                  return (
+                    <TableRow key={item.id} className="text-sm">
+                      <TableCell className="py-2 font-medium">{item.vehicles?.plate || "-"}</TableCell>
+                      <TableCell className="py-2">
+                        {item.vehicles?.team_id ? teamsMap[item.vehicles.team_id] || "Sem equipe" : "Sem equipe"}
+                      </TableCell>
+                      <TableCell className="py-2">
+                        <div>{item.maintenance_plans?.name || item.type}</div>
+                        {item.maintenance_plans && (
+                          <div className="text-xs text-muted-foreground">
+                            A cada {formatPlanInterval(item.maintenance_plans)}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell className="py-2">{item.scheduled_date ? formatDate(item.scheduled_date) : "-"}</TableCell>
+                      <TableCell className="py-2">
+                        {item.scheduled_km !== null ? formatKm(item.scheduled_km) : "-"}
+                      </TableCell>
+                      <TableCell className="py-2">
+                        {currentKm === null ? (
+                          "-"
+                        ) : (
+                          <span
+                            className={
+                              kmLeft !== null && kmLeft <= 0
+                                ? "text-red-600 font-medium"
+                                : kmLeft !== null && kmLeft <= UPCOMING_KM_THRESHOLD
+                                  ? "text-orange-600 font-medium"
+                                  : ""
+                            }
+                          >
+                            {formatKm(currentKm)}
+                          </span>
+                        )}
+                      </TableCell>
+                      <TableCell className="py-2 text-right">
+                        {days === null ? (
+                          "-"
+                        ) : days < 0 ? (
+                          <span className="text-red-600 font-medium">{Math.abs(days)}d atrás</span>
+                        ) : (
+                          <span className={days <= UPCOMING_DAYS_THRESHOLD ? "text-orange-600 font-medium" : ""}>
+                            {days}d
+                          </span>
+                        )}
+                      </TableCell>
+                      {canManage && (
+                        <TableCell className="py-2 text-right">
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => completeMaintenance.mutate(item.id)}
+                            disabled={completeMaintenance.isPending}
+                          >
+                            Concluir
+                          </Button>
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+
+  if (isLoading) {
+    return <div className="text-center py-12 text-muted-foreground">Carregando...</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Summary Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Planos Ativos</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold flex items-center gap-2">
+              <ClipboardList className="h-5 w-5" />
+              {activePlansCount}
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Vencidas</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-red-600 flex items-center gap-2">
+              <AlertCircle className="h-5 w-5" />
+              {grouped.vencida.length}
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Próximos {UPCOMING_DAYS_THRESHOLD} dias</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-orange-600 flex items-center gap-2">
+              <AlertTriangle className="h-5 w-5" />
+              {grouped.proxima.length}
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Programadas</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-green-600 flex items-center gap-2">
+              <CheckCircle className="h-5 w-5" />
+              {grouped.programada.length}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {canManage && (
+        <div className="flex justify-end">
+          <Button
+            variant="outline"
+            className="gap-2"
+            onClick={() => generateSchedule.mutate()}
+            disabled={generateSchedule.isPending}
+          >
+            <RefreshCw className="h-4 w-4" />
+            Atualizar Agenda
+          </Button>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 gap-6">
+        <MaintenanceTable
+          title="Manutenções Vencidas"
+          items={grouped.vencida}
+          icon={AlertCircle}
+          colorClass="text-red-700"
+          borderClass="border-red-500"
+        />
+        <MaintenanceTable
+          title={`Vencer em até ${UPCOMING_DAYS_THRESHOLD} dias`}
+          items={grouped.proxima}
+          icon={AlertTriangle}
+          colorClass="text-orange-600"
+          borderClass="border-orange-400"
+        />
+        <MaintenanceTable
+          title="Programadas"
+          items={grouped.programada}
+          icon={CalendarClock}
+          colorClass="text-green-700"
+          borderClass="border-green-400"
+        />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,620 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Check, ClipboardList, FileText, LogOut, Play, Plus, Stethoscope, Trash2, Undo2, X,
+} from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import { formatCurrency } from "@/lib/exportCsv";
+import { cn } from "@/lib/utils";
+import {
+  QUOTE_ITEM_TYPE_LABELS,
+  QUOTE_STATUS_LABELS,
+  QuoteItemType,
+  WORKSHOP_NAMES,
+  WORKSHOP_STAGES,
+  WORKSHOP_STAGE_LABELS,
+  WorkshopQuote,
+  WorkshopStage,
+  getCostVariance,
+  getStageIndex,
+  quoteItemsTotal,
+} from "@/lib/workshopFlow";
+
+export interface WorkshopFlowEntry {
+  id: string;
+  stage: WorkshopStage;
+  diagnosis: string | null;
+  diagnosed_at: string | null;
+  approved_quote_id: string | null;
+  maintenance_cost: number | null;
+  exit_date: string | null;
+  workshop_name: string | null;
+  vehicles?: {
+    plate: string;
+    model: string;
+  };
+}
+
+interface WorkshopFlowDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  entry: WorkshopFlowEntry | null;
+  /** Gestors and admins approve quotes */
+  canApprove: boolean;
+  onRegisterExit: () => void;
+}
+
+interface ItemDraft {
+  item_type: QuoteItemType;
+  description: string;
+  quantity: string;
+  unit_price: string;
+}
+
+const emptyItem = (): ItemDraft => ({ item_type: "servico", description: "", quantity: "1", unit_price: "" });
+
+const emptyQuote = () => ({
+  workshop_name: "",
+  quote_date: new Date().toISOString().split("T")[0],
+  valid_until: "",
+  notes: "",
+  items: [emptyItem()],
+});
+
+const formatDate = (date: string) => new Date(date.length === 10 ? date + "T00:00:00" : date).toLocaleDateString("pt-BR");
+
+export const WorkshopFlowDialog = ({ open, onOpenChange, entry, canApprove, onRegisterExit }: WorkshopFlowDialogProps) => {
+  const queryClient = useQueryClient();
+  const [diagnosis, setDiagnosis] = useState("");
+  const [quoteForm, setQuoteForm] = useState(emptyQuote());
+  const [isAddingQuote, setIsAddingQuote] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setDiagnosis(entry?.diagnosis || "");
+      setQuoteForm(emptyQuote());
+      setIsAddingQuote(false);
+    }
+  }, [open, entry?.id, entry?.diagnosis]);
+
+  const { data: quotes = [] } = useQuery({
+    queryKey: ["workshop_quotes", entry?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("workshop_quotes")
+        .select("*, workshop_quote_items (*)")
+        .eq("workshop_entry_id", entry!.id)
+        .order("created_at");
+      if (error) throw error;
+      return data as WorkshopQuote[];
+    },
+    enabled: open && !!entry,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["workshop_entries"] });
+    queryClient.invalidateQueries({ queryKey: ["workshop_quotes"] });
+  };
+
+  const updateStage = useMutation({
+    mutationFn: async (update: { stage: WorkshopStage; diagnosis?: string; diagnosed_at?: string; execution_started_at?: string }) => {
+      const { error } = await supabase.from("workshop_entries").update(update).eq("id", entry!.id);
+      if (error) throw error;
+    },
+    onSuccess: (_, update) => {
+      invalidate();
+      toast({ title: `Etapa atualizada: ${WORKSHOP_STAGE_LABELS[update.stage]}` });
+    },
+    onError: (error) => {
+      toast({ title: "Erro ao atualizar etapa", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const createQuote = useMutation({
+    mutationFn: async () => {
+      if (!quoteForm.workshop_name) throw new Error("Oficina é obrigatória");
+      const items = quoteForm.items
+        .filter(item => item.description.trim())
+        .map(item => ({
+          item_type: item.item_type,
+          description: item.description.trim(),
+          quantity: parseFloat(item.quantity),
+          unit_price: parseFloat(item.unit_price),
+        }));
+      if (items.length === 0) throw new Error("Adicione ao menos um item ao orçamento");
+      if (items.some(item => !(item.quantity > 0) || !(item.unit_price >= 0))) {
+        throw new Error("Quantidade e valor unitário dos itens devem ser válidos");
+      }
+
+      const { data: quote, error } = await supabase
+        .from("workshop_quotes")
+        .insert({
+          workshop_entry_id: entry!.id,
+          workshop_name: quoteForm.workshop_name,
+          quote_date: quoteForm.quote_date,
+          valid_until: quoteForm.valid_until || null,
+          notes: quoteForm.notes || null,
+        })
+        .select()
+        .single();
+      if (error) throw error;
+
+      const { error: itemsError } = await supabase
+        .from("workshop_quote_items")
+        .insert(items.map(item => ({ ...item, quote_id: quote.id })));
+      if (itemsError) {
+        await supabase.from("workshop_quotes").delete().eq("id", quote.id);
+        throw itemsError;
+      }
+
+      if (entry!.stage === "diagnostico") {
+        const { error: stageError } = await supabase
+          .from("workshop_entries")
+          .update({ stage: "orcamento" })
+          .eq("id", entry!.id);
+        if (stageError) throw stageError;
+      }
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Orçamento registrado!" });
+      setQuoteForm(emptyQuote());
+      setIsAddingQuote(false);
+    },
+    onError: (error) => {
+      toast({ title: "Erro ao registrar orçamento", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const approveQuote = useMutation({
+    mutationFn: async (quoteId: string) => {
+      const { error } = await supabase.rpc("approve_workshop_quote", { _quote_id: quoteId });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Orçamento aprovado!" });
+    },
+    onError: (error) => {
+      toast({ title: "Erro ao aprovar orçamento", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const rejectQuote = useMutation({
+    mutationFn: async (quoteId: string) => {
+      const { error } = await supabase.from("workshop_quotes").update({ status: "rejeitado" }).eq("id", quoteId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Orçamento rejeitado" });
+    },
+    onError: (error) => {
+      toast({ title: "Erro ao rejeitar orçamento", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteQuote = useMutation({
+    mutationFn: async (quoteId: string) => {
+      const { error } = await supabase.from("workshop_quotes").delete().eq("id", quoteId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Orçamento removido!" });
+    },
+    onError: (error) => {
+      toast({ title: "Erro ao remover orçamento", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (!entry) return null;
+
+  const stageIndex = getStageIndex(entry.stage);
+  const approvedQuote = quotes.find(q => q.id === entry.approved_quote_id);
+  const pendingQuotes = quotes.filter(q => q.status === "pendente");
+  const canAddQuote = entry.stage === "diagnostico" || entry.stage === "orcamento";
+  const variance = getCostVariance(entry.maintenance_cost, approvedQuote?.total ?? null);
+
+  const updateItem = (index: number, changes: Partial<ItemDraft>) => {
+    setQuoteForm(prev => ({
+      ...prev,
+      items: prev.items.map((item, i) => (i === index ? { ...item, ...changes } : item)),
+    }));
+  };
+
+  const draftTotal = quoteItemsTotal(
+    quoteForm.items.map(item => ({
+      quantity: parseFloat(item.quantity) || 0,
+      unit_price: parseFloat(item.unit_price) || 0,
+    }))
+  );
+
+  const handleQuoteSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    createQuote.mutate();
+  };
+
+  const handleDeleteQuote = (quoteId: string) => {
+    if (confirm("Tem certeza que deseja remover este orçamento?")) {
+      deleteQuote.mutate(quoteId);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ClipboardList className="h-5 w-5" />
+            Etapas da Oficina {entry.vehicles ? `- ${entry.vehicles.plate}` : ""}
+          </DialogTitle>
+          <DialogDescription>Diagnóstico, orçamentos, aprovação e execução do serviço</DialogDescription>
+        </DialogHeader>
+
+        {/* Stepper */}
+        <div className="flex flex-wrap items-center gap-2">
+          {WORKSHOP_STAGES.map((stage, index) => (
+            <div key={stage} className="flex items-center gap-2">
+              <span
+                className={cn(
+                  "px-3 py-1 rounded-full text-xs font-medium",
+                  index < stageIndex && "bg-green-500/20 text-green-700",
+                  index === stageIndex && "bg-primary text-primary-foreground",
+                  index > stageIndex && "bg-muted text-muted-foreground"
+                )}
+              >
+                {WORKSHOP_STAGE_LABELS[stage]}
+              </span>
+              {index < WORKSHOP_STAGES.length - 1 && <span className="text-muted-foreground">›</span>}
+            </div>
+          ))}
+        </div>
+
+        {/* Diagnosis */}
+        <div className="space-y-2 border rounded-lg p-4">
+          <div className="flex items-center gap-2 font-semibold">
+            <Stethoscope className="h-4 w-4 text-primary" />
+            Diagnóstico
+          </div>
+          {entry.stage === "entrada" ? (
+            <>
+              <Textarea
+                value={diagnosis}
+                onChange={(e) => setDiagnosis(e.target.value)}
+                placeholder="Descreva o problema identificado pela oficina..."
+                rows={3}
+              />
+              <div className="flex justify-end">
+                <Button
+                  size="sm"
+                  disabled={!diagnosis.trim() || updateStage.isPending}
+                  onClick={() => updateStage.mutate({
+                    stage: "diagnostico",
+                    diagnosis: diagnosis.trim(),
+                    diagnosed_at: new Date().toISOString(),
+                  })}
+                >
+                  Concluir Diagnóstico
+                </Button>
+              </div>
+            </>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              {entry.diagnosis || "Entrada registrada antes do fluxo por etapas"}
+              {entry.diagnosed_at && ` (${formatDate(entry.diagnosed_at)})`}
+            </p>
+          )}
+        </div>
+
+        {/* Quotes */}
+        {stageIndex >= getStageIndex("diagnostico") && (
+          <div className="space-y-3 border rounded-lg p-4">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2 font-semibold">
+                <FileText className="h-4 w-4 text-primary" />
+                Orçamentos
+              </div>
+              {canAddQuote && !isAddingQuote && (
+                <Button size="sm" variant="outline" className="gap-1" onClick={() => setIsAddingQuote(true)}>
+                  <Plus className="h-4 w-4" />
+                  Novo Orçamento
+                </Button>
+              )}
+            </div>
+
+            {quotes.length === 0 && !isAddingQuote && (
+              <p className="text-sm text-muted-foreground">Nenhum orçamento registrado</p>
+            )}
+
+            {quotes.map((quote) => (
+              <div
+                key={quote.id}
+                className={cn("rounded-lg border p-3 space-y-2", quote.status === "aprovado" && "border-green-500/50 bg-green-500/5")}
+              >
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{quote.workshop_name}</span>
+                    <Badge variant={quote.status === "aprovado" ? "default" : "outline"}>
+                      {QUOTE_STATUS_LABELS[quote.status]}
+                    </Badge>
+                    <span className="text-xs text-muted-foreground">
+                      {formatDate(quote.quote_date)}
+                      {quote.valid_until && ` • válido até ${formatDate(quote.valid_until)}`}
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <span className="font-semibold">{formatCurrency(quote.total)}</span>
+                    {quote.status === "pendente" && entry.stage === "orcamento" && canApprove && (
+                      <>
+                        <Button size="sm" className="gap-1" onClick={() => approveQuote.mutate(quote.id)} disabled={approveQuote.isPending}>
+                          <Check className="h-4 w-4" />
+                          Aprovar
+                        </Button>
+                        <Button size="sm" variant="outline" className="gap-1" onClick={() => rejectQuote.mutate(quote.id)} disabled={rejectQuote.isPending}>
+                          <X className="h-4 w-4" />
+                          Rejeitar
+                        </Button>
+                      </>
+                    )}
+                    {quote.status !== "aprovado" && canAddQuote && (
+                      <Button size="icon" variant="ghost" onClick={() => handleDeleteQuote(quote.id)}>
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Tipo</TableHead>
+                      <TableHead>Descrição</TableHead>
+                      <TableHead className="text-right">Qtd.</TableHead>
+                      <TableHead className="text-right">Unitário</TableHead>
+                      <TableHead className="text-right">Total</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {quote.workshop_quote_items.map((item) => (
+                      <TableRow key={item.id}>
+                        <TableCell>{QUOTE_ITEM_TYPE_LABELS[item.item_type]}</TableCell>
+                        <TableCell>{item.description}</TableCell>
+                        <TableCell className="text-right">{item.quantity.toLocaleString("pt-BR")}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(item.unit_price)}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(item.quantity * item.unit_price)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+                {quote.notes && <p className="text-xs text-muted-foreground">{quote.notes}</p>}
+              </div>
+            ))}
+
+            {isAddingQuote && (
+              <form onSubmit={handleQuoteSubmit} className="rounded-lg border border-dashed p-3 space-y-3">
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                  <div className="space-y-2">
+                    <Label>Oficina *</Label>
+                    <Select
+                      value={quoteForm.workshop_name}
+                      onValueChange={(value) => setQuoteForm({ ...quoteForm, workshop_name: value })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Selecione a oficina" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {WORKSHOP_NAMES.map((name) => (
+                          <SelectItem key={name} value={name}>{name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="quote_date">Data do Orçamento</Label>
+                    <Input
+                      id="quote_date"
+                      type="date"
+                      value={quoteForm.quote_date}
+                      onChange={(e) => setQuoteForm({ ...quoteForm, quote_date: e.target.value })}
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="quote_valid_until">Validade</Label>
+                    <Input
+                      id="quote_valid_until"
+                      type="date"
+                      value={quoteForm.valid_until}
+                      min={quoteForm.quote_date}
+                      onChange={(e) => setQuoteForm({ ...quoteForm, valid_until: e.target.value })}
+                    />
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Itens *</Label>
+                  {quoteForm.items.map((item, index) => (
+                    <div key={index} className="grid grid-cols-[7rem_1fr_5rem_7rem_auto] gap-2 items-center">
+                      <Select
+                        value={item.item_type}
+                        onValueChange={(value) => updateItem(index, { item_type: value as QuoteItemType })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(QUOTE_ITEM_TYPE_LABELS).map(([value, label]) => (
+                            <SelectItem key={value} value={value}>{label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Input
+                        value={item.description}
+                        onChange={(e) => updateItem(index, { description: e.target.value })}
+                        placeholder="Descrição"
+                      />
+                      <Input
+                        type="number"
+                        min="0.01"
+                        step="0.01"
+                        value={item.quantity}
+                        onChange={(e) => updateItem(index, { quantity: e.target.value })}
+                        placeholder="Qtd."
+                      />
+                      <Input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={item.unit_price}
+                        onChange={(e) => updateItem(index, { unit_price: e.target.value })}
+                        placeholder="R$ unit."
+                      />
+                      <Button
+                        type="button"
+                        size="icon"
+                        variant="ghost"
+                        disabled={quoteForm.items.length === 1}
+                        onClick={() => setQuoteForm(prev => ({ ...prev, items: prev.items.filter((_, i) => i !== index) }))}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="ghost"
+                    className="gap-1"
+                    onClick={() => setQuoteForm(prev => ({ ...prev, items: [...prev.items, emptyItem()] }))}
+                  >
+                    <Plus className="h-4 w-4" />
+                    Adicionar item
+                  </Button>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="quote_notes">Observações</Label>
+                  <Input
+                    id="quote_notes"
+                    value={quoteForm.notes}
+                    onChange={(e) => setQuoteForm({ ...quoteForm, notes: e.target.value })}
+                    placeholder="Opcional"
+                  />
+                </div>
+
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-semibold">Total: {formatCurrency(draftTotal)}</span>
+                  <div className="flex gap-2">
+                    <Button type="button" variant="outline" onClick={() => setIsAddingQuote(false)}>
+                      Cancelar
+                    </Button>
+                    <Button type="submit" disabled={createQuote.isPending}>
+                      Salvar Orçamento
+                    </Button>
+                  </div>
+                </div>
+              </form>
+            )}
+
+            {entry.stage === "orcamento" && pendingQuotes.length > 0 && !canApprove && (
+              <p className="text-sm text-yellow-700">Aguardando aprovação de um gestor.</p>
+            )}
+            {entry.stage === "orcamento" && pendingQuotes.length === 0 && (
+              <div className="flex items-center justify-between text-sm text-muted-foreground">
+                Todos os orçamentos foram rejeitados. Registre um novo orçamento ou refaça o diagnóstico.
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="gap-1"
+                  onClick={() => updateStage.mutate({ stage: "diagnostico" })}
+                  disabled={updateStage.isPending}
+                >
+                  <Undo2 className="h-4 w-4" />
+                  Voltar ao diagnóstico
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Execution and exit */}
+        {entry.stage === "aprovado" && (
+          <div className="flex items-center justify-between border rounded-lg p-4">
+            <p className="text-sm">
+              Orçamento aprovado{approvedQuote ? ` de ${approvedQuote.workshop_name}: ${formatCurrency(approvedQuote.total)}` : ""}.
+            </p>
+            <Button
+              className="gap-1"
+              onClick={() => updateStage.mutate({ stage: "execucao", execution_started_at: new Date().toISOString() })}
+              disabled={updateStage.isPending}
+            >
+              <Play className="h-4 w-4" />
+              Iniciar Execução
+            </Button>
+          </div>
+        )}
+
+        {entry.stage === "execucao" && (
+          <div className="flex items-center justify-between border rounded-lg p-4">
+            <p className="text-sm">
+              Serviço em execução{approvedQuote ? ` (aprovado: ${formatCurrency(approvedQuote.total)})` : ""}.
+            </p>
+            <Button className="gap-1" onClick={onRegisterExit}>
+              <LogOut className="h-4 w-4" />
+              Registrar Saída
+            </Button>
+          </div>
+        )}
+
+        {entry.stage === "concluida" && approvedQuote && (
+          <div className="grid grid-cols-3 gap-4 border rounded-lg p-4 text-sm">
+            <div>
+              <p className="text-muted-foreground">Aprovado</p>
+              <p className="font-semibold">{formatCurrency(approvedQuote.total)}</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Custo Final</p>
+              <p className="font-semibold">{formatCurrency(entry.maintenance_cost)}</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Variação</p>
+              <p className={cn("font-semibold", variance && variance.amount > 0 ? "text-destructive" : "text-green-600")}>
+                {variance
+                  ? `${variance.amount > 0 ? "+" : ""}${formatCurrency(variance.amount)} (${variance.percent.toFixed(1)}%)`
+                  : "-"}
+              </p>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,93 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Bell, CheckCheck } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { cn } from "@/lib/utils";
+import { AppNotification, useNotifications } from "@/hooks/useNotifications";
+
+interface NotificationBellProps {
+  // The sidebar renders a bell on both the mobile header and the desktop
+  // sidebar, sharing a single subscription
+  state: ReturnType<typeof useNotifications>;
+}
+
+export function NotificationBell({ state }: NotificationBellProps) {
+  const [open, setOpen] = useState(false);
+  const navigate = useNavigate();
+  const { notifications, unreadCount, markAsRead, markAllAsRead } = state;
+
+  const handleClick = (notification: AppNotification) => {
+    if (!notification.read_at) markAsRead.mutate(notification.id);
+    if (notification.link) {
+      setOpen(false);
+      navigate(notification.link);
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <button
+          className="relative p-2.5 rounded-xl bg-sidebar-accent/50 text-sidebar-foreground/80 hover:text-sidebar-foreground hover:bg-sidebar-accent transition-all duration-200"
+          aria-label="Notificações"
+        >
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-1 -right-1 min-w-[18px] h-[18px] px-1 rounded-full bg-white text-sidebar text-[10px] font-bold flex items-center justify-center">
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </span>
+          )}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-80 p-0">
+        <div className="flex items-center justify-between px-4 py-3 border-b">
+          <span className="font-semibold text-sm">Notificações</span>
+          {unreadCount > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 gap-1 text-xs"
+              onClick={() => markAllAsRead.mutate()}
+              disabled={markAllAsRead.isPending}
+            >
+              <CheckCheck className="h-3.5 w-3.5" />
+              Marcar todas como lidas
+            </Button>
+          )}
+        </div>
+        {notifications.length === 0 ? (
+          <div className="p-6 text-center text-sm text-muted-foreground">Nenhuma notificação</div>
+        ) : (
+          <div className="max-h-96 overflow-y-auto divide-y">
+              {notifications.map((notification) => (
+                <button
+                  key={notification.id}
+                  onClick={() => handleClick(notification)}
+                  className={cn(
+                    "w-full text-left px-4 py-3 hover:bg-muted/50 transition-colors",
+                    !notification.read_at && "bg-primary/5"
+                  )}
+                >
+                  <div className="flex items-start gap-2">
+                    {!notification.read_at && <span className="mt-1.5 h-2 w-2 rounded-full bg-primary shrink-0" />}
+                    <div className="min-w-0">
+                      <p className={cn("text-sm", !notification.read_at && "font-semibold")}>{notification.title}</p>
+                      {notification.message && (
+                        <p className="text-xs text-muted-foreground mt-0.5">{notification.message}</p>
+                      )}
+                      <p className="text-[11px] text-muted-foreground mt-1">
+                        {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true, locale: ptBR })}
+                      </p>
+                    </div>
+                  </div>
+                </button>
+              ))}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -13,12 +13,16 @@ import {
   BarChart3,
   FileText,
   ClipboardCheck,
+  AlertTriangle,
+  Wrench,
 } from "lucide-react";
 import { useState } from "react";
 import { cn } from "@/lib/utils";
 import { useAuth } from "@/contexts/AuthContext";
 import { Button } from "@/components/ui/button";
 import { usePermissions, PageName } from "@/hooks/usePermissions";
+import { useNotifications } from "@/hooks/useNotifications";
+import { NotificationBell } from "./NotificationBell";
 
 interface NavItem {
   title: string;
@@ -32,6 +36,8 @@ const navItems: NavItem[] = [
   { title: "Dashboard", url: "/", icon: LayoutDashboard, page: "dashboard" },
   { title: "Equipes", url: "/equipes", icon: Users2, page: "teams" },
   { title: "Gestão de Frotas", url: "/frotas", icon: Car, page: "vehicles" },
+  { title: "Manutenção", url: "/manutencao", icon: Wrench, page: "maintenance" },
+  { title: "Ocorrências", url: "/ocorrencias", icon: AlertTriangle, page: "incidents" },
   { title: "Escala", url: "/escala", icon: CalendarDays, page: "schedule" },
   { title: "Saída", url: "/saida", icon: LogIn, page: "departures" },
   { title: "Produção", url: "/producao", icon: BarChart3, page: "production" },
@@ -39,13 +45,14 @@ const navItems: NavItem[] = [
   { title: "Relatórios", url: "/relatorios", icon: ClipboardCheck, page: "reports" as PageName, adminOnly: true },
 ];
 
-// Pages allowed for Frotas profile (now just vehicles which includes workshop and drivers)
-const FROTAS_ALLOWED_PAGES: PageName[] = ["vehicles"];
+// Pages allowed for Frotas profile (vehicles, which includes workshop and drivers, plus maintenance and incidents)
+const FROTAS_ALLOWED_PAGES: PageName[] = ["vehicles", "maintenance", "incidents"];
 
 export function Sidebar() {
   const [isOpen, setIsOpen] = useState(false);
   const { user, isAdmin, userRole, signOut } = useAuth();
   const { canViewPage, isFrotasProfile, getUserProfileName } = usePermissions();
+  const notifications = useNotifications();
 
   const profileName = getUserProfileName();
   const isProgramacao = profileName === "Programação";
@@ -85,13 +92,16 @@ export function Sidebar() {
           </div>
           <h1 className="text-lg font-bold text-sidebar-foreground tracking-tight">E-Grid</h1>
         </div>
-        <button
-          onClick={() => setIsOpen(!isOpen)}
-          className="p-2.5 rounded-xl bg-sidebar-accent/50 text-sidebar-foreground/80 hover:text-sidebar-foreground hover:bg-sidebar-accent transition-all duration-200"
-          aria-label="Toggle menu"
-        >
-          {isOpen ? <X className="h-5 w-5" /> : <Menu className="h-5 w-5" />}
-        </button>
+        <div className="flex items-center gap-2">
+          <NotificationBell state={notifications} />
+          <button
+            onClick={() => setIsOpen(!isOpen)}
+            className="p-2.5 rounded-xl bg-sidebar-accent/50 text-sidebar-foreground/80 hover:text-sidebar-foreground hover:bg-sidebar-accent transition-all duration-200"
+            aria-label="Toggle menu"
+          >
+            {isOpen ? <X className="h-5 w-5" /> : <Menu className="h-5 w-5" />}
+          </button>
+        </div>
       </header>
 
       {/* Overlay for mobile */}
@@ -115,10 +125,11 @@ export function Sidebar() {
             <div className="p-2.5 rounded-xl bg-sidebar-accent/50">
               <Truck className="h-6 w-6 text-sidebar-foreground" />
             </div>
-            <div>
+            <div className="flex-1">
               <h1 className="text-lg font-bold text-sidebar-foreground tracking-tight">E-Grid</h1>
               <p className="text-xs text-sidebar-foreground/50 font-medium">Gestão Operacional</p>
             </div>
+            <NotificationBell state={notifications} />
           </div>
 
           {/* Navigation */}
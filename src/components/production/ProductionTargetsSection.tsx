@@ -0,0 +1,295 @@
+import { useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { eachDayOfInterval, endOfMonth, format, startOfMonth, subMonths } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { Target, TrendingUp, Gauge, CalendarCheck } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { BarChart, Bar, XAxis, YAxis, ResponsiveContainer, LineChart, Line, CartesianGrid, Legend } from "recharts";
+import { Skeleton } from "@/components/ui/skeleton";
+import { cn } from "@/lib/utils";
+import { ProductionTarget, calculatePacing, resolveTarget, toTargetMonth } from "@/lib/productionTargets";
+
+interface ProductionTargetsSectionProps {
+  /** Teams to consider; null for all teams */
+  teamIds: string[] | null;
+}
+
+const chartConfig = {
+  actual: { label: "Realizado", color: "hsl(var(--chart-1))" },
+  target: { label: "Meta", color: "hsl(var(--chart-2))" },
+  projected: { label: "Projeção", color: "hsl(var(--chart-3))" },
+};
+
+const formatNumber = (value: number) => value.toLocaleString("pt-BR", { maximumFractionDigits: 0 });
+const formatPercent = (value: number | null) => (value === null ? "-" : `${value.toFixed(0)}%`);
+
+const percentClass = (value: number | null) => {
+  if (value === null) return "text-muted-foreground";
+  if (value >= 100) return "text-green-600";
+  if (value >= 90) return "text-yellow-600";
+  return "text-red-600";
+};
+
+const getMonthOptions = () =>
+  Array.from({ length: 12 }, (_, i) => {
+    const date = subMonths(new Date(), i);
+    return { value: format(date, "yyyy-MM"), label: format(date, "MMMM yyyy", { locale: ptBR }) };
+  });
+
+export function ProductionTargetsSection({ teamIds }: ProductionTargetsSectionProps) {
+  const [selectedMonth, setSelectedMonth] = useState(() => format(new Date(), "yyyy-MM"));
+  const monthOptions = useMemo(() => getMonthOptions(), []);
+
+  const monthDate = useMemo(() => {
+    const [year, month] = selectedMonth.split("-").map(Number);
+    return new Date(year, month - 1, 1);
+  }, [selectedMonth]);
+  const monthStart = format(startOfMonth(monthDate), "yyyy-MM-dd");
+  const monthEnd = format(endOfMonth(monthDate), "yyyy-MM-dd");
+
+  const { data: teams = [] } = useQuery({
+    queryKey: ["teams_for_targets"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("teams").select("id, name, type").order("name");
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const { data: targets = [], isLoading: loadingTargets } = useQuery({
+    queryKey: ["production_targets"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("production_targets").select("*");
+      if (error) throw error;
+      return data as ProductionTarget[];
+    },
+  });
+
+  const { data: monthData = [], isLoading: loadingData } = useQuery({
+    queryKey: ["production_data_month", monthStart, teamIds],
+    queryFn: async () => {
+      let query = supabase
+        .from("production_data")
+        .select("team_id, date, production_value")
+        .gte("date", monthStart)
+        .lte("date", monthEnd);
+      if (teamIds) query = query.in("team_id", teamIds);
+      const { data, error } = await query;
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  // Teams with a target for the month, with month-to-date actuals and pacing
+  const teamRows = useMemo(() => {
+    const month = toTargetMonth(monthDate);
+    const actualByTeam = new Map<string, number>();
+    monthData.forEach((row) => {
+      actualByTeam.set(row.team_id, (actualByTeam.get(row.team_id) || 0) + Number(row.production_value));
+    });
+
+    return teams
+      .filter((team) => !teamIds || teamIds.includes(team.id))
+      .map((team) => {
+        const target = resolveTarget(targets, "producao", month, team);
+        const actual = actualByTeam.get(team.id) || 0;
+        return { team, target, actual, pacing: target !== null ? calculatePacing(actual, target, monthDate) : null };
+      })
+      .filter((row) => row.target !== null)
+      .sort((a, b) => (b.pacing?.attainmentPercent ?? 0) - (a.pacing?.attainmentPercent ?? 0));
+  }, [teams, teamIds, targets, monthData, monthDate]);
+
+  const totals = useMemo(() => {
+    const target = teamRows.reduce((sum, row) => sum + (row.target || 0), 0);
+    const actual = teamRows.reduce((sum, row) => sum + row.actual, 0);
+    return { target, actual, pacing: calculatePacing(actual, target, monthDate) };
+  }, [teamRows, monthDate]);
+
+  // Cumulative actual vs the linear target line, for the teams with a target
+  const cumulativeData = useMemo(() => {
+    const teamsWithTarget = new Set(teamRows.map((row) => row.team.id));
+    const byDate = new Map<string, number>();
+    monthData
+      .filter((row) => teamsWithTarget.has(row.team_id))
+      .forEach((row) => byDate.set(row.date, (byDate.get(row.date) || 0) + Number(row.production_value)));
+
+    const days = eachDayOfInterval({ start: startOfMonth(monthDate), end: endOfMonth(monthDate) });
+    const today = format(new Date(), "yyyy-MM-dd");
+    let running = 0;
+    return days.map((day, index) => {
+      const key = format(day, "yyyy-MM-dd");
+      running += byDate.get(key) || 0;
+      return {
+        date: format(day, "dd"),
+        target: Math.round((totals.target * (index + 1)) / days.length),
+        actual: key <= today ? running : undefined,
+      };
+    });
+  }, [teamRows, monthData, monthDate, totals.target]);
+
+  const isLoading = loadingTargets || loadingData;
+  const { pacing } = totals;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 pb-2">
+        <div>
+          <CardTitle className="text-base sm:text-lg flex items-center gap-2">
+            <Target className="h-5 w-5" />
+            Metas do Mês
+          </CardTitle>
+          <CardDescription className="text-xs sm:text-sm">
+            Realizado x meta, ritmo até hoje e projeção para o fim do mês
+          </CardDescription>
+        </div>
+        <Select value={selectedMonth} onValueChange={setSelectedMonth}>
+          <SelectTrigger className="w-full sm:w-[180px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {monthOptions.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <Skeleton className="h-[200px] w-full" />
+        ) : teamRows.length === 0 ? (
+          <div className="flex h-32 items-center justify-center text-muted-foreground text-sm text-center">
+            Nenhuma meta de produção cadastrada para as equipes neste mês. As metas são definidas em Administração → Metas.
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 gap-4 lg:grid-cols-4">
+              <div className="rounded-lg border p-3">
+                <p className="text-xs text-muted-foreground flex items-center gap-1"><Target className="h-3 w-3" /> Meta</p>
+                <p className="text-lg sm:text-2xl font-bold">{formatNumber(totals.target)}</p>
+                <p className="text-xs text-muted-foreground">{teamRows.length} equipe(s) com meta</p>
+              </div>
+              <div className="rounded-lg border p-3">
+                <p className="text-xs text-muted-foreground flex items-center gap-1"><TrendingUp className="h-3 w-3" /> Realizado</p>
+                <p className="text-lg sm:text-2xl font-bold">{formatNumber(totals.actual)}</p>
+                <p className={cn("text-xs font-medium", percentClass(pacing.attainmentPercent))}>
+                  {formatPercent(pacing.attainmentPercent)} da meta
+                </p>
+              </div>
+              <div className="rounded-lg border p-3">
+                <p className="text-xs text-muted-foreground flex items-center gap-1"><Gauge className="h-3 w-3" /> Ritmo</p>
+                <p className={cn("text-lg sm:text-2xl font-bold", percentClass(pacing.pacePercent))}>
+                  {formatPercent(pacing.pacePercent)}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  Esperado até hoje: {formatNumber(pacing.expectedToDate)} ({pacing.elapsedDays}/{pacing.daysInMonth} dias)
+                </p>
+              </div>
+              <div className="rounded-lg border p-3">
+                <p className="text-xs text-muted-foreground flex items-center gap-1"><CalendarCheck className="h-3 w-3" /> Projeção</p>
+                <p className="text-lg sm:text-2xl font-bold">{formatNumber(pacing.projected)}</p>
+                <p className={cn("text-xs font-medium", percentClass(pacing.projectedPercent))}>
+                  {formatPercent(pacing.projectedPercent)} da meta no fim do mês
+                </p>
+              </div>
+            </div>
+
+            <div className="grid gap-4 lg:grid-cols-2">
+              <div>
+                <p className="text-sm font-medium mb-2">Acumulado x Meta</p>
+                <ChartContainer config={chartConfig} className="h-[250px] w-full">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={cumulativeData} margin={{ left: -10, right: 10, top: 5, bottom: 5 }}>
+                      <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                      <XAxis dataKey="date" tick={{ fontSize: 10 }} interval="preserveStartEnd" />
+                      <YAxis
+                        tick={{ fontSize: 10 }}
+                        tickFormatter={(value) => value >= 1000 ? `${(value / 1000).toFixed(1)}k` : value.toString()}
+                        width={45}
+                      />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <Legend />
+                      <Line type="monotone" dataKey="target" name="Meta" stroke="hsl(var(--chart-2))" strokeDasharray="6 4" dot={false} />
+                      <Line type="monotone" dataKey="actual" name="Realizado" stroke="hsl(var(--chart-1))" strokeWidth={2} dot={false} />
+                    </LineChart>
+                  </ResponsiveContainer>
+                </ChartContainer>
+              </div>
+              <div>
+                <p className="text-sm font-medium mb-2">Realizado x Meta por Equipe</p>
+                <ChartContainer config={chartConfig} className="h-[250px] w-full">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart
+                      data={teamRows.slice(0, 10).map((row) => ({
+                        team: row.team.name,
+                        actual: row.actual,
+                        target: row.target,
+                        projected: Math.round(row.pacing?.projected || 0),
+                      }))}
+                      margin={{ left: -10, right: 10, top: 5, bottom: 5 }}
+                    >
+                      <CartesianGrid strokeDasharray="3 3" className="stroke-muted" vertical={false} />
+                      <XAxis
+                        dataKey="team"
+                        tick={{ fontSize: 10 }}
+                        tickFormatter={(value) => value.length > 8 ? `${value.substring(0, 8)}...` : value}
+                      />
+                      <YAxis
+                        tick={{ fontSize: 10 }}
+                        tickFormatter={(value) => value >= 1000 ? `${(value / 1000).toFixed(1)}k` : value.toString()}
+                        width={45}
+                      />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <Legend />
+                      <Bar dataKey="actual" name="Realizado" fill="hsl(var(--chart-1))" radius={[4, 4, 0, 0]} />
+                      <Bar dataKey="projected" name="Projeção" fill="hsl(var(--chart-3))" radius={[4, 4, 0, 0]} />
+                      <Bar dataKey="target" name="Meta" fill="hsl(var(--chart-2))" radius={[4, 4, 0, 0]} />
+                    </BarChart>
+                  </ResponsiveContainer>
+                </ChartContainer>
+              </div>
+            </div>
+
+            <div className="overflow-x-auto -mx-4 sm:mx-0">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="text-xs sm:text-sm">Equipe</TableHead>
+                    <TableHead className="text-xs sm:text-sm text-right">Meta</TableHead>
+                    <TableHead className="text-xs sm:text-sm text-right">Realizado</TableHead>
+                    <TableHead className="text-xs sm:text-sm text-right">Atingido</TableHead>
+                    <TableHead className="text-xs sm:text-sm text-right">Ritmo</TableHead>
+                    <TableHead className="text-xs sm:text-sm text-right">Projeção</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {teamRows.map((row) => (
+                    <TableRow key={row.team.id}>
+                      <TableCell className="text-xs sm:text-sm font-medium">{row.team.name}</TableCell>
+                      <TableCell className="text-xs sm:text-sm text-right font-mono">{formatNumber(row.target || 0)}</TableCell>
+                      <TableCell className="text-xs sm:text-sm text-right font-mono">{formatNumber(row.actual)}</TableCell>
+                      <TableCell className={cn("text-xs sm:text-sm text-right font-medium", percentClass(row.pacing?.attainmentPercent ?? null))}>
+                        {formatPercent(row.pacing?.attainmentPercent ?? null)}
+                      </TableCell>
+                      <TableCell className={cn("text-xs sm:text-sm text-right font-medium", percentClass(row.pacing?.pacePercent ?? null))}>
+                        {formatPercent(row.pacing?.pacePercent ?? null)}
+                      </TableCell>
+                      <TableCell className={cn("text-xs sm:text-sm text-right", percentClass(row.pacing?.projectedPercent ?? null))}>
+                        {formatNumber(row.pacing?.projected || 0)} ({formatPercent(row.pacing?.projectedPercent ?? null)})
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
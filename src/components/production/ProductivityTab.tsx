@@ -22,6 +22,7 @@ import { useAuth } from "@/contexts/AuthContext";
 import { cn } from "@/lib/utils";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { ScrollArea, ScrollBar } from "@/components/ui/scroll-area";
+import { ProductionTarget, resolveTarget, toTargetMonth } from "@/lib/productionTargets";
 
 interface ProductivityEntry {
   id: string;
@@ -65,9 +66,6 @@ const PRODUCTIVITY_COLORS = {
   meta: "#dc2626",          // Red for goal line
 };
 
-// Goal per poda team (in anomalies)
-const PODA_GOAL_PER_TEAM = 15;
-
 const chartConfig = {
   programado: {
     label: "Programado",
@@ -259,10 +257,24 @@ export function ProductivityTab() {
     return result;
   }, [teams, selectedTeamTypeFilter, selectedSupervisorFilter, supervisorTeamIds, selectedTeamFilter]);
 
-  // Calculate goal line value: 15 anomalies × number of poda teams shown
+  // Daily goal per poda team, from the targets of the month the range starts in
+  const { data: targets = [] } = useQuery({
+    queryKey: ["production_targets"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("production_targets").select("*");
+      if (error) throw error;
+      return data as ProductionTarget[];
+    },
+  });
+
+  // Goal line value: sum of the daily goal of the poda teams shown
   const goalLineValue = useMemo(() => {
-    return filteredTeams.length * PODA_GOAL_PER_TEAM;
-  }, [filteredTeams.length]);
+    const month = toTargetMonth(startDate);
+    return filteredTeams.reduce(
+      (sum, team) => sum + (resolveTarget(targets, "poda_executado", month, team) || 0),
+      0
+    );
+  }, [filteredTeams, targets, startDate]);
 
   // Group entries by team for table display
   const entriesByTeam = useMemo(() => {
@@ -858,19 +870,21 @@ export function ProductivityTab() {
                           iconSize={16}
                         />
                         {/* Goal Reference Line - Meta de Produtividade */}
-                        <ReferenceLine 
-                          y={goalLineValue} 
-                          stroke={PRODUCTIVITY_COLORS.meta}
-                          strokeWidth={2}
-                          strokeDasharray="8 4"
-                          label={{ 
-                            value: `Meta: ${goalLineValue}`, 
-                            position: 'right',
-                            fill: PRODUCTIVITY_COLORS.meta,
-                            fontSize: 11,
-                            fontWeight: 600
-                          }}
-                        />
+                        {goalLineValue > 0 && (
+                          <ReferenceLine 
+                            y={goalLineValue} 
+                            stroke={PRODUCTIVITY_COLORS.meta}
+                            strokeWidth={2}
+                            strokeDasharray="8 4"
+                            label={{ 
+                              value: `Meta: ${goalLineValue}`, 
+                              position: 'right',
+                              fill: PRODUCTIVITY_COLORS.meta,
+                              fontSize: 11,
+                              fontWeight: 600
+                            }}
+                          />
+                        )}
                         <Line 
                           type="monotone"
                           dataKey="programado" 
@@ -0,0 +1,253 @@
+import { useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { endOfMonth, format, startOfMonth, subMonths } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { Clock, Hourglass, Gauge, LogIn } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Skeleton } from "@/components/ui/skeleton";
+import { WorkedHoursRow, formatMinutes, summarizeWorkedHours } from "@/lib/workedHours";
+
+interface WorkedHoursSectionProps {
+  /** Teams to consider; null for all teams */
+  teamIds: string[] | null;
+}
+
+const formatNumber = (value: number, digits = 0) =>
+  value.toLocaleString("pt-BR", { maximumFractionDigits: digits });
+
+const getMonthOptions = () =>
+  Array.from({ length: 12 }, (_, i) => {
+    const date = subMonths(new Date(), i);
+    return { value: format(date, "yyyy-MM"), label: format(date, "MMMM yyyy", { locale: ptBR }) };
+  });
+
+const teamDayKey = (teamId: string, date: string) => `${teamId}_${date}`;
+
+/** Production per worked hour by team and overtime by supervisor, from the registered returns */
+export function WorkedHoursSection({ teamIds }: WorkedHoursSectionProps) {
+  const [selectedMonth, setSelectedMonth] = useState(() => format(new Date(), "yyyy-MM"));
+  const monthOptions = useMemo(() => getMonthOptions(), []);
+
+  const monthDate = useMemo(() => {
+    const [year, month] = selectedMonth.split("-").map(Number);
+    return new Date(year, month - 1, 1);
+  }, [selectedMonth]);
+  const monthStart = format(startOfMonth(monthDate), "yyyy-MM-dd");
+  const monthEnd = format(endOfMonth(monthDate), "yyyy-MM-dd");
+
+  const { data: teams = [] } = useQuery({
+    queryKey: ["teams_for_targets"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("teams").select("id, name, type").order("name");
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const { data: workedHours = [], isLoading: loadingHours } = useQuery({
+    queryKey: ["team_worked_hours", monthStart, teamIds],
+    queryFn: async () => {
+      let query = supabase
+        .from("team_worked_hours")
+        .select("*")
+        .gte("date", monthStart)
+        .lte("date", monthEnd);
+      if (teamIds) query = query.in("team_id", teamIds);
+      const { data, error } = await query;
+      if (error) throw error;
+      return data as WorkedHoursRow[];
+    },
+  });
+
+  const { data: monthData = [], isLoading: loadingData } = useQuery({
+    queryKey: ["production_data_month", monthStart, teamIds],
+    queryFn: async () => {
+      let query = supabase
+        .from("production_data")
+        .select("team_id, date, production_value")
+        .gte("date", monthStart)
+        .lte("date", monthEnd);
+      if (teamIds) query = query.in("team_id", teamIds);
+      const { data, error } = await query;
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const supervisorIds = useMemo(() => [...new Set(workedHours.map((row) => row.supervisor_id))], [workedHours]);
+  const { data: supervisors = [] } = useQuery({
+    queryKey: ["worked_hours_supervisors", supervisorIds],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("profiles").select("id, name").in("id", supervisorIds);
+      if (error) throw error;
+      return data;
+    },
+    enabled: supervisorIds.length > 0,
+  });
+
+  // Production per worked hour only counts the team-days with a return registered
+  const teamRows = useMemo(() => {
+    const workedDays = new Set(workedHours.map((row) => teamDayKey(row.team_id, row.date)));
+    const productionByTeam = new Map<string, number>();
+    monthData
+      .filter((row) => workedDays.has(teamDayKey(row.team_id, row.date)))
+      .forEach((row) => {
+        productionByTeam.set(row.team_id, (productionByTeam.get(row.team_id) || 0) + Number(row.production_value));
+      });
+
+    const byTeam = summarizeWorkedHours(workedHours, (row) => row.team_id);
+    const teamsMap = new Map(teams.map((t) => [t.id, t.name]));
+    return Array.from(byTeam.entries())
+      .map(([teamId, summary]) => {
+        const production = productionByTeam.get(teamId) || 0;
+        const hours = summary.workedMinutes / 60;
+        return {
+          teamId,
+          name: teamsMap.get(teamId) || "-",
+          ...summary,
+          production,
+          perHour: hours > 0 ? production / hours : null,
+        };
+      })
+      .sort((a, b) => (b.perHour ?? 0) - (a.perHour ?? 0));
+  }, [workedHours, monthData, teams]);
+
+  const supervisorRows = useMemo(() => {
+    const names = new Map(supervisors.map((p) => [p.id, p.name]));
+    return Array.from(summarizeWorkedHours(workedHours, (row) => row.supervisor_id).entries())
+      .map(([supervisorId, summary]) => ({ supervisorId, name: names.get(supervisorId) || "-", ...summary }))
+      .sort((a, b) => b.overtimeMinutes - a.overtimeMinutes);
+  }, [workedHours, supervisors]);
+
+  const totals = useMemo(() => {
+    const workedMinutes = teamRows.reduce((sum, row) => sum + row.workedMinutes, 0);
+    const production = teamRows.reduce((sum, row) => sum + row.production, 0);
+    return {
+      teamDays: teamRows.reduce((sum, row) => sum + row.teamDays, 0),
+      workedMinutes,
+      overtimeMinutes: teamRows.reduce((sum, row) => sum + row.overtimeMinutes, 0),
+      earlyReturns: teamRows.reduce((sum, row) => sum + row.earlyReturns, 0),
+      perHour: workedMinutes > 0 ? production / (workedMinutes / 60) : null,
+    };
+  }, [teamRows]);
+
+  const isLoading = loadingHours || loadingData;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 pb-2">
+        <div>
+          <CardTitle className="text-base sm:text-lg flex items-center gap-2">
+            <Clock className="h-5 w-5" />
+            Horas Trabalhadas
+          </CardTitle>
+          <CardDescription className="text-xs sm:text-sm">
+            Saída x retorno lançados no Controle de Saída, produtividade por hora e horas extras
+          </CardDescription>
+        </div>
+        <Select value={selectedMonth} onValueChange={setSelectedMonth}>
+          <SelectTrigger className="w-full sm:w-[180px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {monthOptions.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <Skeleton className="h-[200px] w-full" />
+        ) : teamRows.length === 0 ? (
+          <div className="flex h-32 items-center justify-center text-muted-foreground text-sm text-center">
+            Nenhum retorno de equipe lançado neste mês.
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 gap-4 lg:grid-cols-4">
+              <div className="rounded-lg border p-3">
+                <p className="text-xs text-muted-foreground flex items-center gap-1"><Clock className="h-3 w-3" /> Horas trabalhadas</p>
+                <p className="text-lg sm:text-2xl font-bold">{formatMinutes(totals.workedMinutes)}</p>
+                <p className="text-xs text-muted-foreground">{totals.teamDays} dia(s)-equipe com retorno</p>
+              </div>
+              <div className="rounded-lg border p-3">
+                <p className="text-xs text-muted-foreground flex items-center gap-1"><Gauge className="h-3 w-3" /> Produção / hora</p>
+                <p className="text-lg sm:text-2xl font-bold">
+                  {totals.perHour === null ? "-" : formatNumber(totals.perHour, 1)}
+                </p>
+                <p className="text-xs text-muted-foreground">nos dias com retorno lançado</p>
+              </div>
+              <div className="rounded-lg border p-3">
+                <p className="text-xs text-muted-foreground flex items-center gap-1"><Hourglass className="h-3 w-3" /> Horas extras</p>
+                <p className="text-lg sm:text-2xl font-bold">{formatMinutes(totals.overtimeMinutes)}</p>
+                <p className="text-xs text-muted-foreground">após a saída prevista</p>
+              </div>
+              <div className="rounded-lg border p-3">
+                <p className="text-xs text-muted-foreground flex items-center gap-1"><LogIn className="h-3 w-3" /> Retornos antecipados</p>
+                <p className="text-lg sm:text-2xl font-bold">{totals.earlyReturns}</p>
+                <p className="text-xs text-muted-foreground">antes da saída prevista</p>
+              </div>
+            </div>
+
+            <div className="grid gap-6 lg:grid-cols-2">
+              <div className="overflow-x-auto -mx-4 sm:mx-0">
+                <p className="text-sm font-medium mb-2 px-4 sm:px-0">Produtividade por Hora - Equipes</p>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="text-xs sm:text-sm">Equipe</TableHead>
+                      <TableHead className="text-xs sm:text-sm text-right">Horas</TableHead>
+                      <TableHead className="text-xs sm:text-sm text-right">Produção</TableHead>
+                      <TableHead className="text-xs sm:text-sm text-right">Prod. / Hora</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {teamRows.map((row) => (
+                      <TableRow key={row.teamId}>
+                        <TableCell className="text-xs sm:text-sm font-medium">{row.name}</TableCell>
+                        <TableCell className="text-xs sm:text-sm text-right font-mono">{formatMinutes(row.workedMinutes)}</TableCell>
+                        <TableCell className="text-xs sm:text-sm text-right font-mono">{formatNumber(row.production)}</TableCell>
+                        <TableCell className="text-xs sm:text-sm text-right font-mono">
+                          {row.perHour === null ? "-" : formatNumber(row.perHour, 1)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+              <div className="overflow-x-auto -mx-4 sm:mx-0">
+                <p className="text-sm font-medium mb-2 px-4 sm:px-0">Horas Extras por Supervisor</p>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="text-xs sm:text-sm">Supervisor</TableHead>
+                      <TableHead className="text-xs sm:text-sm text-right">Dias-equipe</TableHead>
+                      <TableHead className="text-xs sm:text-sm text-right">Horas extras</TableHead>
+                      <TableHead className="text-xs sm:text-sm text-right">Antecipados</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {supervisorRows.map((row) => (
+                      <TableRow key={row.supervisorId}>
+                        <TableCell className="text-xs sm:text-sm font-medium">{row.name}</TableCell>
+                        <TableCell className="text-xs sm:text-sm text-right font-mono">{row.teamDays}</TableCell>
+                        <TableCell className="text-xs sm:text-sm text-right font-mono">{formatMinutes(row.overtimeMinutes)}</TableCell>
+                        <TableCell className="text-xs sm:text-sm text-right font-mono">{row.earlyReturns}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
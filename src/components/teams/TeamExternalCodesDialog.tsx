@@ -0,0 +1,240 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Hash, Edit, Plus, Trash2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import { TeamExternalCode, getCodeValidity, normalizeTeamCode } from "@/lib/teamExternalCodes";
+
+interface TeamExternalCodesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  team: { id: string; name: string } | null;
+  codes: TeamExternalCode[];
+}
+
+const emptyForm = { code: "", valid_from: "", valid_until: "", notes: "" };
+
+const formatDate = (date: string | null) =>
+  date ? new Date(date + "T00:00:00").toLocaleDateString("pt-BR") : "";
+
+const VALIDITY_BADGES = {
+  vigente: { label: "Vigente", variant: "default" as const },
+  futuro: { label: "Futuro", variant: "secondary" as const },
+  encerrado: { label: "Encerrado", variant: "outline" as const },
+};
+
+export const TeamExternalCodesDialog = ({ open, onOpenChange, team, codes }: TeamExternalCodesDialogProps) => {
+  const queryClient = useQueryClient();
+  const [formData, setFormData] = useState(emptyForm);
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      setFormData(emptyForm);
+      setEditingId(null);
+    }
+  }, [open, team?.id]);
+
+  const saveCode = useMutation({
+    mutationFn: async () => {
+      const code = normalizeTeamCode(formData.code);
+      if (!code) throw new Error("Informe o código");
+      const payload = {
+        team_id: team!.id,
+        code,
+        valid_from: formData.valid_from || null,
+        valid_until: formData.valid_until || null,
+        notes: formData.notes || null,
+      };
+      const { error } = editingId
+        ? await supabase.from("team_external_codes").update(payload).eq("id", editingId)
+        : await supabase.from("team_external_codes").insert(payload);
+      if (error) {
+        // Exclusion constraint: the code already points to a team in that period
+        if (error.code === "23P01") {
+          throw new Error(`O código ${code} já está vinculado a uma equipe nesse período. Encerre a vigência anterior primeiro.`);
+        }
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["team_external_codes"] });
+      toast({ title: editingId ? "Código atualizado!" : "Código adicionado!" });
+      setFormData(emptyForm);
+      setEditingId(null);
+    },
+    onError: (error) => {
+      toast({ title: "Erro ao salvar código", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteCode = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("team_external_codes").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["team_external_codes"] });
+      toast({ title: "Código removido!" });
+    },
+    onError: (error) => {
+      toast({ title: "Erro ao remover código", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleEdit = (code: TeamExternalCode) => {
+    setEditingId(code.id);
+    setFormData({
+      code: code.code,
+      valid_from: code.valid_from || "",
+      valid_until: code.valid_until || "",
+      notes: code.notes || "",
+    });
+  };
+
+  const handleDelete = (id: string) => {
+    if (confirm("Tem certeza que deseja remover este código?")) {
+      deleteCode.mutate(id);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveCode.mutate();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Hash className="h-5 w-5" />
+            Códigos Externos - {team?.name}
+          </DialogTitle>
+          <DialogDescription>
+            Códigos usados pela sincronização de produção para identificar a equipe. Use a vigência quando um código
+            for reatribuído a outra equipe.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-64 overflow-y-auto border rounded-lg">
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-muted/50">
+                <TableHead>Código</TableHead>
+                <TableHead>Vigência</TableHead>
+                <TableHead>Situação</TableHead>
+                <TableHead className="text-right">Ações</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {codes.map((code) => {
+                const validity = VALIDITY_BADGES[getCodeValidity(code)];
+                return (
+                  <TableRow key={code.id}>
+                    <TableCell className="font-mono font-medium">
+                      {code.code}
+                      {code.notes && <div className="text-xs font-sans text-muted-foreground">{code.notes}</div>}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {code.valid_from || code.valid_until
+                        ? `${formatDate(code.valid_from) || "..."} até ${formatDate(code.valid_until) || "..."}`
+                        : "Sem limite"}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={validity.variant}>{validity.label}</Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="icon" onClick={() => handleEdit(code)}>
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" onClick={() => handleDelete(code.id)}>
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+          {codes.length === 0 && (
+            <div className="p-6 text-center text-muted-foreground text-sm">Nenhum código cadastrado</div>
+          )}
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-3">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="external_code">Código *</Label>
+              <Input
+                id="external_code"
+                value={formData.code}
+                onChange={(e) => setFormData({ ...formData, code: e.target.value })}
+                placeholder="Ex: 803006A"
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="valid_from">Válido de</Label>
+              <Input
+                id="valid_from"
+                type="date"
+                value={formData.valid_from}
+                onChange={(e) => setFormData({ ...formData, valid_from: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="valid_until">Válido até</Label>
+              <Input
+                id="valid_until"
+                type="date"
+                value={formData.valid_until}
+                min={formData.valid_from || undefined}
+                onChange={(e) => setFormData({ ...formData, valid_until: e.target.value })}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="code_notes">Observação</Label>
+            <Input
+              id="code_notes"
+              value={formData.notes}
+              onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+              placeholder="Opcional"
+            />
+          </div>
+          <div className="flex justify-end gap-3">
+            {editingId && (
+              <Button type="button" variant="outline" onClick={() => { setEditingId(null); setFormData(emptyForm); }}>
+                Cancelar edição
+              </Button>
+            )}
+            <Button type="submit" className="gap-2" disabled={saveCode.isPending}>
+              {editingId ? <Edit className="h-4 w-4" /> : <Plus className="h-4 w-4" />}
+              {editingId ? "Salvar" : "Adicionar Código"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
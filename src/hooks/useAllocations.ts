@@ -0,0 +1,123 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+import { Allocation } from "@/lib/allocations";
+
+const ALLOCATION_SELECT = "*, vehicles(plate, model), drivers(name, matricula)";
+
+export interface CheckoutData {
+  vehicle_id: string;
+  driver_id: string;
+  checkout_date: string;
+  expected_return: string | null;
+  notes: string | null;
+}
+
+/**
+ * Allocations currently in use (vehicles checked out and not yet returned)
+ */
+export function useActiveAllocations() {
+  return useQuery({
+    queryKey: ["allocations", "active"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("allocations")
+        .select(ALLOCATION_SELECT)
+        .eq("status", "em_uso")
+        .order("checkout_date", { ascending: false });
+      if (error) throw error;
+      return data as Allocation[];
+    },
+  });
+}
+
+/**
+ * Checkout history of a vehicle or of a driver
+ */
+export function useAllocationHistory(filter: { vehicleId?: string; driverId?: string }, enabled = true) {
+  return useQuery({
+    queryKey: ["allocations", "history", filter.vehicleId ?? null, filter.driverId ?? null],
+    queryFn: async () => {
+      let query = supabase
+        .from("allocations")
+        .select(ALLOCATION_SELECT)
+        .order("checkout_date", { ascending: false });
+      if (filter.vehicleId) query = query.eq("vehicle_id", filter.vehicleId);
+      if (filter.driverId) query = query.eq("driver_id", filter.driverId);
+      const { data, error } = await query;
+      if (error) throw error;
+      return data as Allocation[];
+    },
+    enabled,
+  });
+}
+
+export function useCheckoutVehicle(onDone?: () => void) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: CheckoutData) => {
+      // Conflict detection: the vehicle can't be with someone else already
+      const { data: active, error: activeError } = await supabase
+        .from("allocations")
+        .select("checkout_date, drivers(name)")
+        .eq("vehicle_id", data.vehicle_id)
+        .eq("status", "em_uso")
+        .maybeSingle();
+      if (activeError) throw activeError;
+      if (active) {
+        throw new Error(
+          `Veículo já retirado por ${active.drivers?.name || "outro motorista"} em ${format(new Date(active.checkout_date), "dd/MM/yyyy HH:mm")}. Registre a devolução antes de uma nova retirada.`
+        );
+      }
+
+      const { data: vehicle, error: vehicleError } = await supabase
+        .from("vehicles")
+        .select("status")
+        .eq("id", data.vehicle_id)
+        .single();
+      if (vehicleError) throw vehicleError;
+      if (vehicle.status === "oficina") throw new Error("Veículo está na oficina e não pode ser retirado");
+
+      const { error } = await supabase.from("allocations").insert({ ...data, status: "em_uso" });
+      if (error) {
+        // Unique index on in-use allocations (another checkout won the race)
+        if (error.code === "23505") throw new Error("Veículo já está em uso por outro motorista");
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["allocations"] });
+      toast({ title: "Retirada registrada!" });
+      onDone?.();
+    },
+    onError: (error) => {
+      toast({ title: "Erro ao registrar retirada", description: error.message, variant: "destructive" });
+    },
+  });
+}
+
+export function useReturnVehicle() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (allocation: Pick<Allocation, "id" | "checkout_date">) => {
+      const now = new Date();
+      // Keep the return consistent with checkouts registered ahead of time
+      const returnDate = now < new Date(allocation.checkout_date) ? new Date(allocation.checkout_date) : now;
+      const { error } = await supabase
+        .from("allocations")
+        .update({ status: "devolvido", actual_return: returnDate.toISOString() })
+        .eq("id", allocation.id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["allocations"] });
+      toast({ title: "Devolução registrada!" });
+    },
+    onError: (error) => {
+      toast({ title: "Erro ao registrar devolução", description: error.message, variant: "destructive" });
+    },
+  });
+}
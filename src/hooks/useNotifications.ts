@@ -0,0 +1,106 @@
+import { useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { toast } from "@/hooks/use-toast";
+
+export interface AppNotification {
+  id: string;
+  type: string;
+  title: string;
+  message: string | null;
+  link: string | null;
+  read_at: string | null;
+  created_at: string;
+}
+
+/** How many recent notifications the bell keeps loaded */
+const NOTIFICATIONS_LIMIT = 50;
+
+/**
+ * Notifications of the signed in user, kept up to date through a realtime
+ * channel on the notifications table.
+ */
+export function useNotifications() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const queryKey = ["notifications", user?.id];
+
+  const { data: notifications = [], isLoading } = useQuery({
+    queryKey,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("notifications")
+        .select("id, type, title, message, link, read_at, created_at")
+        .order("created_at", { ascending: false })
+        .limit(NOTIFICATIONS_LIMIT);
+      if (error) throw error;
+      return data as AppNotification[];
+    },
+    enabled: !!user,
+  });
+
+  // Counted apart, since unread notifications can be older than the loaded ones
+  const { data: unreadCount = 0 } = useQuery({
+    queryKey: [...queryKey, "unread"],
+    queryFn: async () => {
+      const { count, error } = await supabase
+        .from("notifications")
+        .select("id", { count: "exact", head: true })
+        .is("read_at", null);
+      if (error) throw error;
+      return count ?? 0;
+    },
+    enabled: !!user,
+  });
+
+  useEffect(() => {
+    if (!user) return;
+
+    const channel = supabase
+      .channel(`notifications:${user.id}`)
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "notifications", filter: `user_id=eq.${user.id}` },
+        (payload) => {
+          queryClient.invalidateQueries({ queryKey: ["notifications", user.id] });
+          if (payload.eventType === "INSERT") {
+            const notification = payload.new as AppNotification;
+            toast({ title: notification.title, description: notification.message ?? undefined });
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, queryClient]);
+
+  const markAsRead = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from("notifications")
+        .update({ read_at: new Date().toISOString() })
+        .eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["notifications"] }),
+  });
+
+  const markAllAsRead = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase
+        .from("notifications")
+        .update({ read_at: new Date().toISOString() })
+        .is("read_at", null);
+      if (error) throw error;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["notifications"] }),
+    onError: (error) => {
+      toast({ title: "Erro ao marcar notificações", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return { notifications, unreadCount, isLoading, markAsRead, markAllAsRead };
+}
@@ -19,9 +19,11 @@ export type Database = {
           actual_return: string | null
           checkout_date: string
           created_at: string
+          created_by: string | null
           driver_id: string
           expected_return: string | null
           id: string
+          notes: string | null
           status: string
           updated_at: string
           vehicle_id: string
@@ -30,9 +32,11 @@ export type Database = {
           actual_return?: string | null
           checkout_date?: string
           created_at?: string
+          created_by?: string | null
           driver_id: string
           expected_return?: string | null
           id?: string
+          notes?: string | null
           status?: string
           updated_at?: string
           vehicle_id: string
@@ -41,9 +45,11 @@ export type Database = {
           actual_return?: string | null
           checkout_date?: string
           created_at?: string
+          created_by?: string | null
           driver_id?: string
           expected_return?: string | null
           id?: string
+          notes?: string | null
           status?: string
           updated_at?: string
           vehicle_id?: string
@@ -65,6 +71,42 @@ export type Database = {
           },
         ]
       }
+      audit_log: {
+        Row: {
+          action: string
+          actor_id: string | null
+          changed_fields: string[] | null
+          created_at: string
+          id: number
+          new_data: Json | null
+          old_data: Json | null
+          row_id: string | null
+          table_name: string
+        }
+        Insert: {
+          action: string
+          actor_id?: string | null
+          changed_fields?: string[] | null
+          created_at?: string
+          id?: number
+          new_data?: Json | null
+          old_data?: Json | null
+          row_id?: string | null
+          table_name: string
+        }
+        Update: {
+          action?: string
+          actor_id?: string | null
+          changed_fields?: string[] | null
+          created_at?: string
+          id?: number
+          new_data?: Json | null
+          old_data?: Json | null
+          row_id?: string | null
+          table_name?: string
+        }
+        Relationships: []
+      }
       controle_diario: {
         Row: {
           created_at: string
@@ -104,41 +146,123 @@ export type Database = {
         }
         Relationships: []
       }
+      departure_cutoff_settings: {
+        Row: {
+          cutoff_days_after: number
+          cutoff_time: string
+          id: boolean
+          is_enabled: boolean
+          updated_at: string
+        }
+        Insert: {
+          cutoff_days_after?: number
+          cutoff_time?: string
+          id?: boolean
+          is_enabled?: boolean
+          updated_at?: string
+        }
+        Update: {
+          cutoff_days_after?: number
+          cutoff_time?: string
+          id?: boolean
+          is_enabled?: boolean
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      departure_unlocks: {
+        Row: {
+          created_at: string
+          date: string
+          expires_at: string
+          id: string
+          justification: string
+          supervisor_id: string
+          unlocked_by: string | null
+        }
+        Insert: {
+          created_at?: string
+          date: string
+          expires_at: string
+          id?: string
+          justification: string
+          supervisor_id: string
+          unlocked_by?: string | null
+        }
+        Update: {
+          created_at?: string
+          date?: string
+          expires_at?: string
+          id?: string
+          justification?: string
+          supervisor_id?: string
+          unlocked_by?: string | null
+        }
+        Relationships: []
+      }
       departures: {
         Row: {
           created_at: string
           date: string
           departed: boolean
           departure_time: string | null
+          early_return_reason: string | null
           id: string
           no_departure_reason: string | null
+          no_departure_reason_id: string | null
+          registered_late: boolean
+          return_time: string | null
+          returned_next_day: boolean
           supervisor_id: string
           team_id: string
+          unlock_id: string | null
           updated_at: string
+          workshop_entry_id: string | null
         }
         Insert: {
           created_at?: string
           date?: string
           departed?: boolean
           departure_time?: string | null
+          early_return_reason?: string | null
           id?: string
           no_departure_reason?: string | null
+          no_departure_reason_id?: string | null
+          registered_late?: boolean
+          return_time?: string | null
+          returned_next_day?: boolean
           supervisor_id: string
           team_id: string
+          unlock_id?: string | null
           updated_at?: string
+          workshop_entry_id?: string | null
         }
         Update: {
           created_at?: string
           date?: string
           departed?: boolean
           departure_time?: string | null
+          early_return_reason?: string | null
           id?: string
           no_departure_reason?: string | null
+          no_departure_reason_id?: string | null
+          registered_late?: boolean
+          return_time?: string | null
+          returned_next_day?: boolean
           supervisor_id?: string
           team_id?: string
+          unlock_id?: string | null
           updated_at?: string
+          workshop_entry_id?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "departures_no_departure_reason_id_fkey"
+            columns: ["no_departure_reason_id"]
+            isOneToOne: false
+            referencedRelation: "no_departure_reasons"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "departures_team_id_fkey"
             columns: ["team_id"]
@@ -146,6 +270,20 @@ export type Database = {
             referencedRelation: "teams"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "departures_unlock_id_fkey"
+            columns: ["unlock_id"]
+            isOneToOne: false
+            referencedRelation: "departure_unlocks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "departures_workshop_entry_id_fkey"
+            columns: ["workshop_entry_id"]
+            isOneToOne: false
+            referencedRelation: "workshop_entries"
+            referencedColumns: ["id"]
+          },
         ]
       }
       drivers: {
@@ -189,10 +327,44 @@ export type Database = {
           },
         ]
       }
+      glosa_reasons: {
+        Row: {
+          code: string
+          created_at: string
+          id: string
+          is_active: boolean
+          name: string
+          requires_note: boolean
+          sort_order: number
+          updated_at: string
+        }
+        Insert: {
+          code: string
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          name: string
+          requires_note?: boolean
+          sort_order?: number
+          updated_at?: string
+        }
+        Update: {
+          code?: string
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          name?: string
+          requires_note?: boolean
+          sort_order?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
       incidents: {
         Row: {
           attachment_url: string | null
           created_at: string
+          created_by: string | null
           date: string
           description: string
           driver_id: string | null
@@ -205,6 +377,7 @@ export type Database = {
         Insert: {
           attachment_url?: string | null
           created_at?: string
+          created_by?: string | null
           date?: string
           description: string
           driver_id?: string | null
@@ -217,6 +390,7 @@ export type Database = {
         Update: {
           attachment_url?: string | null
           created_at?: string
+          created_by?: string | null
           date?: string
           description?: string
           driver_id?: string | null
@@ -243,6 +417,90 @@ export type Database = {
           },
         ]
       }
+      integration_api_keys: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          expires_at: string | null
+          id: string
+          key_hash: string
+          key_prefix: string
+          last_used_at: string | null
+          name: string
+          require_signature: boolean
+          revoked_at: string | null
+          revoked_by: string | null
+          scopes: string[]
+          signing_secret: string | null
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          expires_at?: string | null
+          id?: string
+          key_hash: string
+          key_prefix: string
+          last_used_at?: string | null
+          name: string
+          require_signature?: boolean
+          revoked_at?: string | null
+          revoked_by?: string | null
+          scopes?: string[]
+          signing_secret?: string | null
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          expires_at?: string | null
+          id?: string
+          key_hash?: string
+          key_prefix?: string
+          last_used_at?: string | null
+          name?: string
+          require_signature?: boolean
+          revoked_at?: string | null
+          revoked_by?: string | null
+          scopes?: string[]
+          signing_secret?: string | null
+        }
+        Relationships: []
+      }
+      maintenance_plans: {
+        Row: {
+          created_at: string
+          description: string | null
+          id: string
+          interval_km: number | null
+          interval_months: number | null
+          is_active: boolean
+          name: string
+          updated_at: string
+          vehicle_model: string | null
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          interval_km?: number | null
+          interval_months?: number | null
+          is_active?: boolean
+          name: string
+          updated_at?: string
+          vehicle_model?: string | null
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          interval_km?: number | null
+          interval_months?: number | null
+          is_active?: boolean
+          name?: string
+          updated_at?: string
+          vehicle_model?: string | null
+        }
+        Relationships: []
+      }
       maintenance_records: {
         Row: {
           completed_date: string | null
@@ -250,6 +508,7 @@ export type Database = {
           created_at: string
           description: string | null
           id: string
+          plan_id: string | null
           proof_url: string | null
           scheduled_date: string | null
           scheduled_km: number | null
@@ -264,6 +523,7 @@ export type Database = {
           created_at?: string
           description?: string | null
           id?: string
+          plan_id?: string | null
           proof_url?: string | null
           scheduled_date?: string | null
           scheduled_km?: number | null
@@ -278,6 +538,7 @@ export type Database = {
           created_at?: string
           description?: string | null
           id?: string
+          plan_id?: string | null
           proof_url?: string | null
           scheduled_date?: string | null
           scheduled_km?: number | null
@@ -287,6 +548,13 @@ export type Database = {
           vehicle_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "maintenance_records_plan_id_fkey"
+            columns: ["plan_id"]
+            isOneToOne: false
+            referencedRelation: "maintenance_plans"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "maintenance_records_vehicle_id_fkey"
             columns: ["vehicle_id"]
@@ -296,6 +564,132 @@ export type Database = {
           },
         ]
       }
+      no_departure_reasons: {
+        Row: {
+          accountability: string
+          category: string
+          code: string | null
+          created_at: string
+          id: string
+          is_active: boolean
+          name: string
+          requires_note: boolean
+          sort_order: number
+          updated_at: string
+        }
+        Insert: {
+          accountability?: string
+          category?: string
+          code?: string | null
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          name: string
+          requires_note?: boolean
+          sort_order?: number
+          updated_at?: string
+        }
+        Update: {
+          accountability?: string
+          category?: string
+          code?: string | null
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          name?: string
+          requires_note?: boolean
+          sort_order?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      notifications: {
+        Row: {
+          created_at: string
+          dedupe_key: string | null
+          id: string
+          link: string | null
+          message: string | null
+          read_at: string | null
+          title: string
+          type: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          dedupe_key?: string | null
+          id?: string
+          link?: string | null
+          message?: string | null
+          read_at?: string | null
+          title: string
+          type: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          dedupe_key?: string | null
+          id?: string
+          link?: string | null
+          message?: string | null
+          read_at?: string | null
+          title?: string
+          type?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      odometer_readings: {
+        Row: {
+          created_at: string
+          id: string
+          km: number
+          notes: string | null
+          reading_date: string
+          recorded_by: string | null
+          source: string
+          vehicle_id: string
+          workshop_entry_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          km: number
+          notes?: string | null
+          reading_date?: string
+          recorded_by?: string | null
+          source?: string
+          vehicle_id: string
+          workshop_entry_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          km?: number
+          notes?: string | null
+          reading_date?: string
+          recorded_by?: string | null
+          source?: string
+          vehicle_id?: string
+          workshop_entry_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "odometer_readings_vehicle_id_fkey"
+            columns: ["vehicle_id"]
+            isOneToOne: false
+            referencedRelation: "vehicles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "odometer_readings_workshop_entry_id_fkey"
+            columns: ["workshop_entry_id"]
+            isOneToOne: false
+            referencedRelation: "workshop_entries"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       ose_dates: {
         Row: {
           created_at: string
@@ -328,6 +722,8 @@ export type Database = {
       ose_items: {
         Row: {
           created_at: string
+          glosa_note: string | null
+          glosa_reason_id: string | null
           id: string
           ose_id: string
           quantity: number
@@ -335,9 +731,15 @@ export type Database = {
           total_price: number
           trip_id: string | null
           unit_price: number
+          validated_at: string | null
+          validated_by: string | null
+          validated_quantity: number | null
+          validated_unit_price: number | null
         }
         Insert: {
           created_at?: string
+          glosa_note?: string | null
+          glosa_reason_id?: string | null
           id?: string
           ose_id: string
           quantity?: number
@@ -345,9 +747,15 @@ export type Database = {
           total_price: number
           trip_id?: string | null
           unit_price: number
+          validated_at?: string | null
+          validated_by?: string | null
+          validated_quantity?: number | null
+          validated_unit_price?: number | null
         }
         Update: {
           created_at?: string
+          glosa_note?: string | null
+          glosa_reason_id?: string | null
           id?: string
           ose_id?: string
           quantity?: number
@@ -355,8 +763,19 @@ export type Database = {
           total_price?: number
           trip_id?: string | null
           unit_price?: number
+          validated_at?: string | null
+          validated_by?: string | null
+          validated_quantity?: number | null
+          validated_unit_price?: number | null
         }
         Relationships: [
+          {
+            foreignKeyName: "ose_items_glosa_reason_id_fkey"
+            columns: ["glosa_reason_id"]
+            isOneToOne: false
+            referencedRelation: "glosa_reasons"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "ose_items_ose_id_fkey"
             columns: ["ose_id"]
@@ -380,6 +799,44 @@ export type Database = {
           },
         ]
       }
+      ose_status_history: {
+        Row: {
+          changed_by: string | null
+          created_at: string
+          ended_at: string | null
+          id: string
+          ose_id: string
+          started_at: string
+          status: string
+        }
+        Insert: {
+          changed_by?: string | null
+          created_at?: string
+          ended_at?: string | null
+          id?: string
+          ose_id: string
+          started_at?: string
+          status: string
+        }
+        Update: {
+          changed_by?: string | null
+          created_at?: string
+          ended_at?: string | null
+          id?: string
+          ose_id?: string
+          started_at?: string
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ose_status_history_ose_id_fkey"
+            columns: ["ose_id"]
+            isOneToOne: false
+            referencedRelation: "oses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       ose_teams: {
         Row: {
           created_at: string
@@ -488,16 +945,183 @@ export type Database = {
           date?: string | null
           description?: string | null
           id?: string
-          ose_number?: string
-          status?: string
-          team_id?: string | null
-          total_value?: number
+          ose_number?: string
+          status?: string
+          team_id?: string | null
+          total_value?: number
+          updated_at?: string
+          validated_value?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "oses_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      password_reset_log: {
+        Row: {
+          created_at: string
+          id: string
+          requested_by: string | null
+          target_user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          requested_by?: string | null
+          target_user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          requested_by?: string | null
+          target_user_id?: string
+        }
+        Relationships: []
+      }
+      permission_profiles: {
+        Row: {
+          created_at: string
+          description: string | null
+          id: string
+          is_system: boolean
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          is_system?: boolean
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          is_system?: boolean
+          name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      price_table_items: {
+        Row: {
+          created_at: string
+          gross_price: number
+          id: string
+          price_table_id: string
+          service_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          gross_price: number
+          id?: string
+          price_table_id: string
+          service_id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          gross_price?: number
+          id?: string
+          price_table_id?: string
+          service_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "price_table_items_price_table_id_fkey"
+            columns: ["price_table_id"]
+            isOneToOne: false
+            referencedRelation: "price_tables"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "price_table_items_service_id_fkey"
+            columns: ["service_id"]
+            isOneToOne: false
+            referencedRelation: "service_catalog"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      price_tables: {
+        Row: {
+          contract_reference: string | null
+          created_at: string
+          created_by: string | null
+          effective_from: string
+          effective_to: string | null
+          id: string
+          name: string
+          notes: string | null
+          readjustment_index: string | null
+          readjustment_percent: number | null
+          updated_at: string
+        }
+        Insert: {
+          contract_reference?: string | null
+          created_at?: string
+          created_by?: string | null
+          effective_from: string
+          effective_to?: string | null
+          id?: string
+          name: string
+          notes?: string | null
+          readjustment_index?: string | null
+          readjustment_percent?: number | null
+          updated_at?: string
+        }
+        Update: {
+          contract_reference?: string | null
+          created_at?: string
+          created_by?: string | null
+          effective_from?: string
+          effective_to?: string | null
+          id?: string
+          name?: string
+          notes?: string | null
+          readjustment_index?: string | null
+          readjustment_percent?: number | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      production_data: {
+        Row: {
+          created_at: string
+          date: string
+          id: string
+          production_value: number
+          team_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          date: string
+          id?: string
+          production_value: number
+          team_id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          date?: string
+          id?: string
+          production_value?: number
+          team_id?: string
           updated_at?: string
-          validated_value?: number | null
         }
         Relationships: [
           {
-            foreignKeyName: "oses_team_id_fkey"
+            foreignKeyName: "production_data_team_id_fkey"
             columns: ["team_id"]
             isOneToOne: false
             referencedRelation: "teams"
@@ -505,61 +1129,123 @@ export type Database = {
           },
         ]
       }
-      permission_profiles: {
+      production_sync_runs: {
         Row: {
+          api_key_id: string | null
           created_at: string
-          description: string | null
+          date_from: string | null
+          date_to: string | null
+          dry_run: boolean
+          duration_ms: number | null
+          error: string | null
+          finished_at: string | null
           id: string
-          is_system: boolean
-          name: string
-          updated_at: string
+          ignored_rows: Json
+          payload_hash: string | null
+          rows_deleted: number
+          rows_ignored: number
+          rows_inserted: number
+          rows_received: number
+          rows_updated: number
+          source: string | null
+          started_at: string
+          status: string
+          unmatched_codes: Json
         }
         Insert: {
+          api_key_id?: string | null
           created_at?: string
-          description?: string | null
+          date_from?: string | null
+          date_to?: string | null
+          dry_run?: boolean
+          duration_ms?: number | null
+          error?: string | null
+          finished_at?: string | null
           id?: string
-          is_system?: boolean
-          name: string
-          updated_at?: string
+          ignored_rows?: Json
+          payload_hash?: string | null
+          rows_deleted?: number
+          rows_ignored?: number
+          rows_inserted?: number
+          rows_received?: number
+          rows_updated?: number
+          source?: string | null
+          started_at?: string
+          status?: string
+          unmatched_codes?: Json
         }
         Update: {
+          api_key_id?: string | null
           created_at?: string
-          description?: string | null
+          date_from?: string | null
+          date_to?: string | null
+          dry_run?: boolean
+          duration_ms?: number | null
+          error?: string | null
+          finished_at?: string | null
           id?: string
-          is_system?: boolean
-          name?: string
-          updated_at?: string
+          ignored_rows?: Json
+          payload_hash?: string | null
+          rows_deleted?: number
+          rows_ignored?: number
+          rows_inserted?: number
+          rows_received?: number
+          rows_updated?: number
+          source?: string | null
+          started_at?: string
+          status?: string
+          unmatched_codes?: Json
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "production_sync_runs_api_key_id_fkey"
+            columns: ["api_key_id"]
+            isOneToOne: false
+            referencedRelation: "integration_api_keys"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      production_data: {
+      production_targets: {
         Row: {
           created_at: string
-          date: string
+          created_by: string | null
           id: string
-          production_value: number
-          team_id: string
+          metric: string
+          month: string
+          notes: string | null
+          target_value: number
+          team_id: string | null
+          team_type: Database["public"]["Enums"]["team_type"] | null
           updated_at: string
         }
         Insert: {
           created_at?: string
-          date: string
+          created_by?: string | null
           id?: string
-          production_value: number
-          team_id: string
+          metric: string
+          month: string
+          notes?: string | null
+          target_value: number
+          team_id?: string | null
+          team_type?: Database["public"]["Enums"]["team_type"] | null
           updated_at?: string
         }
         Update: {
           created_at?: string
-          date?: string
+          created_by?: string | null
           id?: string
-          production_value?: number
-          team_id?: string
+          metric?: string
+          month?: string
+          notes?: string | null
+          target_value?: number
+          team_id?: string | null
+          team_type?: Database["public"]["Enums"]["team_type"] | null
           updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "production_data_team_id_fkey"
+            foreignKeyName: "production_targets_team_id_fkey"
             columns: ["team_id"]
             isOneToOne: false
             referencedRelation: "teams"
@@ -709,6 +1395,7 @@ export type Database = {
           description: string
           gross_price: number
           id: string
+          is_active: boolean
           service_number: string
           unit: string
           up: string
@@ -719,6 +1406,7 @@ export type Database = {
           description: string
           gross_price: number
           id?: string
+          is_active?: boolean
           service_number: string
           unit: string
           up: string
@@ -729,6 +1417,7 @@ export type Database = {
           description?: string
           gross_price?: number
           id?: string
+          is_active?: boolean
           service_number?: string
           unit?: string
           up?: string
@@ -736,6 +1425,62 @@ export type Database = {
         }
         Relationships: []
       }
+      service_imports: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          created_count: number
+          deactivate_missing: boolean
+          deactivated_count: number
+          error_count: number
+          file_name: string | null
+          id: string
+          price_table_id: string | null
+          report: Json
+          source: string
+          unchanged_count: number
+          updated_count: number
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          created_count?: number
+          deactivate_missing?: boolean
+          deactivated_count?: number
+          error_count?: number
+          file_name?: string | null
+          id?: string
+          price_table_id?: string | null
+          report?: Json
+          source?: string
+          unchanged_count?: number
+          updated_count?: number
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          created_count?: number
+          deactivate_missing?: boolean
+          deactivated_count?: number
+          error_count?: number
+          file_name?: string | null
+          id?: string
+          price_table_id?: string | null
+          report?: Json
+          source?: string
+          unchanged_count?: number
+          updated_count?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "service_imports_price_table_id_fkey"
+            columns: ["price_table_id"]
+            isOneToOne: false
+            referencedRelation: "price_tables"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       supervisor_teams: {
         Row: {
           created_at: string
@@ -765,6 +1510,47 @@ export type Database = {
           },
         ]
       }
+      team_external_codes: {
+        Row: {
+          code: string
+          created_at: string
+          id: string
+          notes: string | null
+          team_id: string
+          updated_at: string
+          valid_from: string | null
+          valid_until: string | null
+        }
+        Insert: {
+          code: string
+          created_at?: string
+          id?: string
+          notes?: string | null
+          team_id: string
+          updated_at?: string
+          valid_from?: string | null
+          valid_until?: string | null
+        }
+        Update: {
+          code?: string
+          created_at?: string
+          id?: string
+          notes?: string | null
+          team_id?: string
+          updated_at?: string
+          valid_from?: string | null
+          valid_until?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "team_external_codes_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       team_schedules: {
         Row: {
           created_at: string
@@ -963,6 +1749,57 @@ export type Database = {
           },
         ]
       }
+      vehicle_status_history: {
+        Row: {
+          changed_by: string | null
+          created_at: string
+          ended_at: string | null
+          gerencia: string | null
+          id: string
+          started_at: string
+          status: Database["public"]["Enums"]["vehicle_status"]
+          team_id: string | null
+          vehicle_id: string
+        }
+        Insert: {
+          changed_by?: string | null
+          created_at?: string
+          ended_at?: string | null
+          gerencia?: string | null
+          id?: string
+          started_at?: string
+          status: Database["public"]["Enums"]["vehicle_status"]
+          team_id?: string | null
+          vehicle_id: string
+        }
+        Update: {
+          changed_by?: string | null
+          created_at?: string
+          ended_at?: string | null
+          gerencia?: string | null
+          id?: string
+          started_at?: string
+          status?: Database["public"]["Enums"]["vehicle_status"]
+          team_id?: string | null
+          vehicle_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "vehicle_status_history_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "vehicle_status_history_vehicle_id_fkey"
+            columns: ["vehicle_id"]
+            isOneToOne: false
+            referencedRelation: "vehicles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       vehicles: {
         Row: {
           created_at: string
@@ -1056,8 +1893,14 @@ export type Database = {
       }
       workshop_entries: {
         Row: {
+          approved_at: string | null
+          approved_by: string | null
+          approved_quote_id: string | null
           created_at: string
+          diagnosed_at: string | null
+          diagnosis: string | null
           entry_date: string
+          execution_started_at: string | null
           exit_date: string | null
           id: string
           maintenance_cost: number | null
@@ -1065,14 +1908,21 @@ export type Database = {
           predicted_exit_date: string | null
           reason: string
           reason_type: string | null
+          stage: string
           status: Database["public"]["Enums"]["maintenance_status"]
           updated_at: string
           vehicle_id: string
           workshop_name: string | null
         }
         Insert: {
+          approved_at?: string | null
+          approved_by?: string | null
+          approved_quote_id?: string | null
           created_at?: string
+          diagnosed_at?: string | null
+          diagnosis?: string | null
           entry_date?: string
+          execution_started_at?: string | null
           exit_date?: string | null
           id?: string
           maintenance_cost?: number | null
@@ -1080,14 +1930,21 @@ export type Database = {
           predicted_exit_date?: string | null
           reason: string
           reason_type?: string | null
+          stage?: string
           status?: Database["public"]["Enums"]["maintenance_status"]
           updated_at?: string
           vehicle_id: string
           workshop_name?: string | null
         }
         Update: {
+          approved_at?: string | null
+          approved_by?: string | null
+          approved_quote_id?: string | null
           created_at?: string
+          diagnosed_at?: string | null
+          diagnosis?: string | null
           entry_date?: string
+          execution_started_at?: string | null
           exit_date?: string | null
           id?: string
           maintenance_cost?: number | null
@@ -1095,12 +1952,20 @@ export type Database = {
           predicted_exit_date?: string | null
           reason?: string
           reason_type?: string | null
+          stage?: string
           status?: Database["public"]["Enums"]["maintenance_status"]
           updated_at?: string
           vehicle_id?: string
           workshop_name?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "workshop_entries_approved_quote_id_fkey"
+            columns: ["approved_quote_id"]
+            isOneToOne: false
+            referencedRelation: "workshop_quotes"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "workshop_entries_vehicle_id_fkey"
             columns: ["vehicle_id"]
@@ -1110,6 +1975,94 @@ export type Database = {
           },
         ]
       }
+      workshop_quote_items: {
+        Row: {
+          created_at: string
+          description: string
+          id: string
+          item_type: string
+          quantity: number
+          quote_id: string
+          unit_price: number
+        }
+        Insert: {
+          created_at?: string
+          description: string
+          id?: string
+          item_type?: string
+          quantity?: number
+          quote_id: string
+          unit_price?: number
+        }
+        Update: {
+          created_at?: string
+          description?: string
+          id?: string
+          item_type?: string
+          quantity?: number
+          quote_id?: string
+          unit_price?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workshop_quote_items_quote_id_fkey"
+            columns: ["quote_id"]
+            isOneToOne: false
+            referencedRelation: "workshop_quotes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workshop_quotes: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          notes: string | null
+          quote_date: string
+          status: string
+          total: number
+          updated_at: string
+          valid_until: string | null
+          workshop_entry_id: string
+          workshop_name: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          notes?: string | null
+          quote_date?: string
+          status?: string
+          total?: number
+          updated_at?: string
+          valid_until?: string | null
+          workshop_entry_id: string
+          workshop_name: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          notes?: string | null
+          quote_date?: string
+          status?: string
+          total?: number
+          updated_at?: string
+          valid_until?: string | null
+          workshop_entry_id?: string
+          workshop_name?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workshop_quotes_workshop_entry_id_fkey"
+            columns: ["workshop_entry_id"]
+            isOneToOne: false
+            referencedRelation: "workshop_entries"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       ranking_pontos: {
@@ -1123,8 +2076,66 @@ export type Database = {
         }
         Relationships: []
       }
+      team_worked_hours: {
+        Row: {
+          date: string | null
+          departure_id: string | null
+          departure_time: string | null
+          early_return_minutes: number | null
+          early_return_reason: string | null
+          overtime_minutes: number | null
+          return_time: string | null
+          returned_next_day: boolean | null
+          scheduled_entry_time: string | null
+          scheduled_exit_time: string | null
+          scheduled_minutes: number | null
+          supervisor_id: string | null
+          team_id: string | null
+          worked_minutes: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "departures_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      vehicle_current_km: {
+        Row: {
+          km: number | null
+          reading_date: string | null
+          vehicle_id: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "odometer_readings_vehicle_id_fkey"
+            columns: ["vehicle_id"]
+            isOneToOne: false
+            referencedRelation: "vehicles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Functions: {
+      apply_service_import: {
+        Args: {
+          _deactivate_missing?: boolean
+          _errors?: Json
+          _file_name?: string
+          _price_table_id?: string
+          _rows: Json
+          _source?: string
+        }
+        Returns: string
+      }
+      approve_workshop_quote: {
+        Args: { _quote_id: string }
+        Returns: undefined
+      }
       calcular_pontos_relatorio: {
         Args: {
           p_horario_envio: string
@@ -1141,8 +2152,71 @@ export type Database = {
         Args: { _team_id: string; _user_id: string }
         Returns: boolean
       }
+      can_transition_ose_status: {
+        Args: { _from: string; _to: string; _user_id: string }
+        Returns: boolean
+      }
+      create_integration_api_key: {
+        Args: {
+          _expires_at?: string
+          _name: string
+          _require_signature?: boolean
+          _scopes: string[]
+        }
+        Returns: {
+          api_key: string
+          id: string
+          signing_secret: string
+        }[]
+      }
+      create_notification: {
+        Args: {
+          _dedupe_key?: string
+          _link?: string
+          _message?: string
+          _title: string
+          _type: string
+          _user_id: string
+        }
+        Returns: undefined
+      }
+      create_price_table: {
+        Args: {
+          _base_table_id: string
+          _contract_reference?: string
+          _effective_from: string
+          _name: string
+          _notes?: string
+          _readjustment_index?: string
+          _readjustment_percent?: number
+        }
+        Returns: string
+      }
+      generate_planned_maintenance: {
+        Args: { _plan_id?: string; _vehicle_id?: string }
+        Returns: number
+      }
       get_email_by_username: { Args: { _username: string }; Returns: string }
+      get_service_price: {
+        Args: { _date: string; _service_id: string }
+        Returns: number
+      }
+      get_team_notification_recipients: {
+        Args: { _team_id: string }
+        Returns: string[]
+      }
       get_user_team_ids: { Args: { _user_id: string }; Returns: string[] }
+      get_vehicle_change_history: {
+        Args: { _vehicle_id: string }
+        Returns: {
+          actor_id: string
+          actor_name: string
+          changed_at: string
+          field: string
+          new_value: string
+          old_value: string
+        }[]
+      }
       has_permission_profile: {
         Args: { _profile_name: string; _user_id: string }
         Returns: boolean
@@ -1154,10 +2228,32 @@ export type Database = {
         }
         Returns: boolean
       }
+      is_ose_measurement_locked: {
+        Args: { _ose_id: string }
+        Returns: boolean
+      }
       is_ose_owner: {
         Args: { _ose_id: string; _user_id: string }
         Returns: boolean
       }
+      notify_missing_departures: { Args: never; Returns: number }
+      notify_overdue_workshop_entries: { Args: never; Returns: number }
+      preview_service_import: {
+        Args: { _price_table_id?: string; _rows: Json }
+        Returns: Json
+      }
+      replace_production_range: {
+        Args: { _from: string; _rows: Json; _to: string }
+        Returns: Json
+      }
+      revoke_integration_api_key: {
+        Args: { _key_id: string }
+        Returns: undefined
+      }
+      save_ose_validation: {
+        Args: { _conclude?: boolean; _items: Json; _ose_id: string }
+        Returns: undefined
+      }
       user_has_permission: {
         Args: {
           _action: Database["public"]["Enums"]["permission_action"]
@@ -0,0 +1,38 @@
+/**
+ * Vehicle checkout (allocation) helpers
+ *
+ * An allocation is "em_uso" from checkout until the vehicle is returned, when
+ * it becomes "devolvido". Only one allocation per vehicle can be in use.
+ */
+
+export type AllocationStatus = "em_uso" | "devolvido";
+
+export const ALLOCATION_STATUS_LABELS: Record<AllocationStatus, string> = {
+  em_uso: "Em uso",
+  devolvido: "Devolvido",
+};
+
+export interface Allocation {
+  id: string;
+  vehicle_id: string;
+  driver_id: string;
+  checkout_date: string;
+  expected_return: string | null;
+  actual_return: string | null;
+  status: AllocationStatus;
+  notes: string | null;
+  vehicles?: { plate: string; model: string } | null;
+  drivers?: { name: string; matricula: string } | null;
+}
+
+/**
+ * An allocation is overdue when still in use after its expected return
+ */
+export function isAllocationOverdue(allocation: Pick<Allocation, "status" | "expected_return">, now: Date = new Date()): boolean {
+  return (
+    allocation.status === "em_uso" &&
+    !!allocation.expected_return &&
+    new Date(allocation.expected_return) < now
+  );
+}
+
@@ -0,0 +1,100 @@
+/**
+ * Departure registration deadline
+ *
+ * Supervisors register the departures of a day until the cut-off set in
+ * departure_cutoff_settings; after it the database rejects their writes unless
+ * an admin/gestor granted an unlock (departure_unlocks) for that date. The
+ * trigger on departures is the source of truth, these helpers only drive the
+ * screens. Times are in São Paulo time, as in the trigger, whatever the
+ * timezone of the browser.
+ */
+
+import { addDays, format } from "date-fns";
+
+export interface DepartureCutoffSettings {
+  is_enabled: boolean;
+  cutoff_time: string;
+  cutoff_days_after: number;
+}
+
+export interface DepartureUnlock {
+  id: string;
+  date: string;
+  supervisor_id: string;
+  justification: string;
+  expires_at: string;
+  unlocked_by: string | null;
+  created_at: string;
+}
+
+const TIME_ZONE = "America/Sao_Paulo";
+
+/** UTC offset of São Paulo at an instant, e.g. "-03:00" */
+const getTimeZoneOffset = (instant: Date) => {
+  const name =
+    new Intl.DateTimeFormat("en-US", { timeZone: TIME_ZONE, timeZoneName: "longOffset" })
+      .formatToParts(instant)
+      .find((part) => part.type === "timeZoneName")?.value ?? "GMT-03:00";
+  return name === "GMT" ? "Z" : name.replace("GMT", "");
+};
+
+/** Deadline to register the departures of a "yyyy-MM-dd" date, or null when disabled */
+export function getDepartureDeadline(date: string, settings: DepartureCutoffSettings | null | undefined): Date | null {
+  if (!settings?.is_enabled) return null;
+  const day = addDays(new Date(date + "T00:00:00"), settings.cutoff_days_after);
+  const wallTime = `${format(day, "yyyy-MM-dd")}T${settings.cutoff_time.slice(0, 5)}:00`;
+  return new Date(wallTime + getTimeZoneOffset(new Date(wallTime + "Z")));
+}
+
+/** "dd/MM/yyyy às HH:mm" of the deadline in São Paulo time */
+export function formatDepartureDeadline(deadline: Date) {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("pt-BR", {
+      timeZone: TIME_ZONE,
+      day: "2-digit",
+      month: "2-digit",
+      year: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    })
+      .formatToParts(deadline)
+      .map((part) => [part.type, part.value])
+  );
+  return `${parts.day}/${parts.month}/${parts.year} às ${parts.hour}:${parts.minute}`;
+}
+
+/** Unlock of the date still in effect, if any */
+export const findActiveUnlock = (unlocks: DepartureUnlock[], date: string, now = new Date()) =>
+  unlocks.find((u) => u.date === date && new Date(u.expires_at) > now);
+
+export interface CutoffCompliance {
+  supervisorId: string;
+  name: string;
+  total: number;
+  late: number;
+  /** Share registered before the cut-off, 0-100 */
+  onTimePercent: number;
+}
+
+/** Registrations on time vs after the cut-off per supervisor, worst first */
+export function calculateCutoffCompliance(
+  departures: { supervisor_id: string; supervisorName: string; registered_late: boolean }[],
+): CutoffCompliance[] {
+  const bySupervisor = new Map<string, CutoffCompliance>();
+  departures.forEach((d) => {
+    const entry = bySupervisor.get(d.supervisor_id) ?? {
+      supervisorId: d.supervisor_id,
+      name: d.supervisorName,
+      total: 0,
+      late: 0,
+      onTimePercent: 0,
+    };
+    entry.total += 1;
+    if (d.registered_late) entry.late += 1;
+    bySupervisor.set(d.supervisor_id, entry);
+  });
+  return Array.from(bySupervisor.values())
+    .map((entry) => ({ ...entry, onTimePercent: ((entry.total - entry.late) / entry.total) * 100 }))
+    .sort((a, b) => a.onTimePercent - b.onTimePercent || b.late - a.late);
+}
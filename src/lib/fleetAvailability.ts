@@ -0,0 +1,83 @@
+/**
+ * Fleet availability helpers
+ *
+ * Availability is the share of tracked hours a vehicle spent in "ativo".
+ * Periods come from vehicle_status_history and are clipped to the requested
+ * range; the open period of each vehicle runs until "now".
+ */
+
+import { addMonths, format, startOfMonth, subMonths } from "date-fns";
+import { ptBR } from "date-fns/locale";
+
+export interface StatusPeriod {
+  vehicle_id: string;
+  status: string;
+  team_id: string | null;
+  gerencia: string | null;
+  started_at: string;
+  ended_at: string | null;
+}
+
+export interface AvailabilityTotals {
+  activeHours: number;
+  totalHours: number;
+}
+
+export interface AvailabilityRow extends AvailabilityTotals {
+  key: string;
+  /** 0-100, null when there are no tracked hours */
+  percent: number | null;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const availabilityPercent = ({ activeHours, totalHours }: AvailabilityTotals) =>
+  totalHours > 0 ? (activeHours / totalHours) * 100 : null;
+
+/**
+ * Sum active/total hours of the periods inside [rangeStart, rangeEnd),
+ * grouped by keyOf. Periods with a null key are ignored.
+ */
+export function sumAvailability(
+  periods: StatusPeriod[],
+  rangeStart: Date,
+  rangeEnd: Date,
+  keyOf: (period: StatusPeriod) => string | null,
+  now: Date = new Date()
+): AvailabilityRow[] {
+  const end = Math.min(rangeEnd.getTime(), now.getTime());
+  const totals: Record<string, AvailabilityTotals> = {};
+
+  periods.forEach((period) => {
+    const key = keyOf(period);
+    if (key === null) return;
+    const from = Math.max(new Date(period.started_at).getTime(), rangeStart.getTime());
+    const to = Math.min(period.ended_at ? new Date(period.ended_at).getTime() : now.getTime(), end);
+    if (to <= from) return;
+
+    const hours = (to - from) / HOUR_MS;
+    if (!totals[key]) totals[key] = { activeHours: 0, totalHours: 0 };
+    totals[key].totalHours += hours;
+    if (period.status === "ativo") totals[key].activeHours += hours;
+  });
+
+  return Object.entries(totals).map(([key, t]) => ({ key, ...t, percent: availabilityPercent(t) }));
+}
+
+/**
+ * Fleet-wide availability of the last `months` months, oldest first
+ */
+export function monthlyAvailability(periods: StatusPeriod[], months: number, now: Date = new Date()) {
+  return Array.from({ length: months }, (_, i) => {
+    const month = subMonths(startOfMonth(now), months - 1 - i);
+    const [row] = sumAvailability(periods, month, addMonths(month, 1), () => "fleet", now);
+    return {
+      month: format(month, "yyyy-MM"),
+      label: format(month, "MMM/yy", { locale: ptBR }),
+      percent: row?.percent ?? null,
+    };
+  });
+}
+
+export const formatPercent = (value: number | null) =>
+  value === null ? "-" : `${value.toLocaleString("pt-BR", { maximumFractionDigits: 1 })}%`;
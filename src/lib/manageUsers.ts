@@ -0,0 +1,59 @@
+/**
+ * Client for the manage-users edge function
+ *
+ * The function answers errors with { error, code }. supabase-js hides the body
+ * of non-2xx responses behind a generic message, so it is read back here and
+ * the code is turned into a message for the Admin page.
+ */
+
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+
+export type ManageUsersAction = "create" | "update" | "reset-password" | "delete";
+
+const ERROR_MESSAGES: Record<string, string> = {
+  UNAUTHENTICATED: "Sua sessão expirou. Entre novamente.",
+  INVALID_TOKEN: "Sua sessão expirou. Entre novamente.",
+  FORBIDDEN: "Apenas administradores podem gerenciar usuários.",
+  INVALID_ACTION: "Ação inválida.",
+  INVALID_INPUT: "Dados incompletos.",
+  INVALID_ROLE: "Função inválida.",
+  WEAK_PASSWORD: "A senha não atende aos requisitos mínimos.",
+  USERNAME_TAKEN: "Este usuário já está cadastrado no sistema.",
+  USER_NOT_FOUND: "Usuário não encontrado.",
+  SELF_DELETE: "Você não pode excluir seu próprio usuário.",
+  SELF_DEMOTE: "Você não pode remover sua própria função de administrador.",
+  RATE_LIMITED: "Muitas redefinições de senha em pouco tempo.",
+};
+
+interface ManageUsersErrorBody {
+  error?: string;
+  code?: string;
+  retry_after_minutes?: number;
+}
+
+const getErrorMessage = (body: ManageUsersErrorBody) => {
+  const message = (body.code && ERROR_MESSAGES[body.code]) || body.error || "Erro desconhecido";
+  const retry = body.retry_after_minutes ? ` Tente novamente em até ${body.retry_after_minutes} min.` : "";
+  return body.code ? `${message}${retry} (${body.code})` : message;
+};
+
+export async function invokeManageUsers<T = { success: boolean }>(
+  action: ManageUsersAction,
+  payload: Record<string, unknown>,
+): Promise<T> {
+  const { data, error } = await supabase.functions.invoke("manage-users", {
+    body: { action, ...payload },
+  });
+
+  if (error) {
+    if (error instanceof FunctionsHttpError) {
+      const body: ManageUsersErrorBody = await error.context.json().catch(() => ({}));
+      throw new Error(getErrorMessage(body));
+    }
+    throw new Error(error.message);
+  }
+  if (data?.error) throw new Error(getErrorMessage(data));
+
+  return data as T;
+}
@@ -0,0 +1,95 @@
+/**
+ * No-departure reasons (motivos de não saída)
+ *
+ * Reasons come from the no_departure_reasons catalog managed in Admin. A
+ * departure that did not happen points at one of them through
+ * no_departure_reason_id; the old free-text no_departure_reason column is now
+ * the optional note. Records from before the catalog only have the text.
+ */
+
+export type ReasonCategory = "frota" | "pessoal" | "clima" | "material" | "operacional" | "outros";
+export type ReasonAccountability = "contratada" | "contratante" | "externo";
+
+export const REASON_CATEGORIES: Record<ReasonCategory, string> = {
+  frota: "Frota",
+  pessoal: "Pessoal",
+  clima: "Clima",
+  material: "Material",
+  operacional: "Operacional",
+  outros: "Outros",
+};
+
+export const REASON_ACCOUNTABILITY: Record<ReasonAccountability, { label: string; color: string }> = {
+  contratada: { label: "Contratada", color: "hsl(var(--destructive))" },
+  contratante: { label: "Contratante", color: "hsl(var(--warning))" },
+  externo: { label: "Externo", color: "hsl(var(--muted-foreground))" },
+};
+
+/** Code of the reason the Departures wizard picks for vehicles in the workshop */
+export const WORKSHOP_REASON_CODE = "oficina";
+
+export interface NoDepartureReason {
+  id: string;
+  code: string | null;
+  name: string;
+  category: string;
+  accountability: string;
+  requires_note: boolean;
+  is_active: boolean;
+  sort_order: number;
+}
+
+export const UNCLASSIFIED_REASON = "Não classificado";
+
+/** "Motivo - nota" for reports; falls back to the note alone on old records */
+export function formatNoDepartureReason(
+  reason: Pick<NoDepartureReason, "name"> | null | undefined,
+  note: string | null | undefined,
+): string | null {
+  const text = note?.trim();
+  if (reason) return text ? `${reason.name} - ${text}` : reason.name;
+  return text || null;
+}
+
+export interface ParetoRow {
+  reasonId: string | null;
+  name: string;
+  accountability: string | null;
+  teamDays: number;
+  percent: number;
+  cumulativePercent: number;
+}
+
+/**
+ * Lost team-days per reason, largest first, with the cumulative share. Each
+ * departure that did not happen is one lost team-day; records without a
+ * catalog reason are grouped as "Não classificado".
+ */
+export function buildReasonPareto(
+  departures: { no_departure_reason_id: string | null }[],
+  reasons: NoDepartureReason[],
+): ParetoRow[] {
+  const reasonsMap = new Map(reasons.map((r) => [r.id, r]));
+  const counts = new Map<string | null, number>();
+  departures.forEach((d) => {
+    const key = d.no_departure_reason_id && reasonsMap.has(d.no_departure_reason_id) ? d.no_departure_reason_id : null;
+    counts.set(key, (counts.get(key) || 0) + 1);
+  });
+
+  const total = departures.length;
+  let cumulative = 0;
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .map(([reasonId, teamDays]) => {
+      cumulative += teamDays;
+      const reason = reasonId ? reasonsMap.get(reasonId) : null;
+      return {
+        reasonId,
+        name: reason?.name ?? UNCLASSIFIED_REASON,
+        accountability: reason?.accountability ?? null,
+        teamDays,
+        percent: total > 0 ? (teamDays / total) * 100 : 0,
+        cumulativePercent: total > 0 ? (cumulative / total) * 100 : 0,
+      };
+    });
+}
@@ -0,0 +1,81 @@
+/**
+ * Odometer readings helpers
+ *
+ * Readings must never go backwards in time: a km value can't be lower than an
+ * earlier reading nor higher than a later one. The database enforces this with
+ * a trigger; checkOdometerReading runs the same check before saving so forms
+ * can fail early instead of leaving half-saved records behind.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+
+export type OdometerSource = "manual" | "saida" | "oficina_entrada" | "oficina_saida";
+
+export const ODOMETER_SOURCE_LABELS: Record<OdometerSource, string> = {
+  manual: "Manual",
+  saida: "Saída da equipe",
+  oficina_entrada: "Entrada na oficina",
+  oficina_saida: "Saída da oficina",
+};
+
+export interface OdometerReading {
+  id: string;
+  vehicle_id: string;
+  reading_date: string;
+  km: number;
+  source: OdometerSource;
+  workshop_entry_id: string | null;
+  notes: string | null;
+  recorded_by: string | null;
+  created_at: string;
+}
+
+export const formatKm = (km: number) => `${km.toLocaleString("pt-BR")} km`;
+
+/**
+ * Parse an optional km input. Returns null for empty values and NaN for
+ * anything that isn't a non-negative integer.
+ */
+export function parseKmInput(value: string): number | null {
+  const trimmed = value.trim().replace(/\./g, "");
+  if (!trimmed) return null;
+  const km = Number(trimmed);
+  return Number.isInteger(km) && km >= 0 ? km : NaN;
+}
+
+/**
+ * Validate a new reading against the vehicle history.
+ * Returns an error message, or null when the reading is consistent.
+ */
+export async function checkOdometerReading(
+  vehicleId: string,
+  readingDate: string,
+  km: number
+): Promise<string | null> {
+  const [{ data: previous, error: previousError }, { data: next, error: nextError }] = await Promise.all([
+    supabase
+      .from("odometer_readings")
+      .select("km")
+      .eq("vehicle_id", vehicleId)
+      .lte("reading_date", readingDate)
+      .order("km", { ascending: false })
+      .limit(1),
+    supabase
+      .from("odometer_readings")
+      .select("km")
+      .eq("vehicle_id", vehicleId)
+      .gt("reading_date", readingDate)
+      .order("km", { ascending: true })
+      .limit(1),
+  ]);
+  if (previousError) throw previousError;
+  if (nextError) throw nextError;
+
+  if (previous?.[0] && km < previous[0].km) {
+    return `Km informado (${formatKm(km)}) é menor que a leitura anterior do veículo (${formatKm(previous[0].km)}).`;
+  }
+  if (next?.[0] && km > next[0].km) {
+    return `Km informado (${formatKm(km)}) é maior que uma leitura posterior do veículo (${formatKm(next[0].km)}).`;
+  }
+  return null;
+}
@@ -0,0 +1,265 @@
+/**
+ * OSE measurement document (boletim de medição)
+ *
+ * Generates the PDF of one or more OSEs in the browser and downloads it. Each
+ * OSE starts on a new page, so a whole month goes in a single file.
+ */
+
+import { format } from "date-fns";
+import { jsPDF } from "jspdf";
+import { autoTable } from "jspdf-autotable";
+import { supabase } from "@/integrations/supabase/client";
+import { getOseStatusLabel } from "@/lib/oseStatus";
+
+export interface OseDocumentItem {
+  up: string;
+  description: string;
+  unit: string;
+  quantity: number;
+  unitPrice: number;
+  totalPrice: number;
+}
+
+export interface OseDocumentTrip {
+  date: string;
+  teamName: string;
+  items: OseDocumentItem[];
+}
+
+export interface OseDocument {
+  oseNumber: string;
+  description: string | null;
+  status: string;
+  createdAt: string;
+  totalValue: number;
+  validatedValue: number | null;
+  teams: string[];
+  trips: OseDocumentTrip[];
+}
+
+/** Loads an OSE with its teams, trips and items priced from the catalog */
+export async function fetchOseDocument(oseId: string): Promise<OseDocument> {
+  const [oseResult, teamsResult, tripsResult, itemsResult] = await Promise.all([
+    supabase.from("oses").select("*").eq("id", oseId).single(),
+    supabase.from("ose_teams").select("teams:team_id(name)").eq("ose_id", oseId),
+    supabase.from("ose_trips").select("id, date, teams:team_id(name)").eq("ose_id", oseId).order("date"),
+    supabase
+      .from("ose_items")
+      .select("trip_id, quantity, unit_price, total_price, service:service_id(up, description, unit)")
+      .eq("ose_id", oseId),
+  ]);
+  if (oseResult.error) throw oseResult.error;
+  if (teamsResult.error) throw teamsResult.error;
+  if (tripsResult.error) throw tripsResult.error;
+  if (itemsResult.error) throw itemsResult.error;
+
+  const ose = oseResult.data;
+  const trips = (tripsResult.data || []).map((trip) => ({
+    date: trip.date,
+    teamName: trip.teams?.name || "-",
+    items: (itemsResult.data || [])
+      .filter((item) => item.trip_id === trip.id)
+      .map((item) => ({
+        up: item.service?.up || "-",
+        description: item.service?.description || "-",
+        unit: item.service?.unit || "-",
+        quantity: Number(item.quantity),
+        unitPrice: Number(item.unit_price),
+        totalPrice: Number(item.total_price),
+      })),
+  }));
+
+  // Teams linked to the OSE directly plus the ones that made its trips
+  const teams = new Set<string>();
+  (teamsResult.data || []).forEach((row) => {
+    if (row.teams?.name) teams.add(row.teams.name);
+  });
+  trips.forEach((trip) => {
+    if (trip.teamName !== "-") teams.add(trip.teamName);
+  });
+
+  return {
+    oseNumber: ose.ose_number,
+    description: ose.description,
+    status: ose.status,
+    createdAt: ose.created_at,
+    totalValue: Number(ose.total_value),
+    validatedValue: ose.validated_value === null ? null : Number(ose.validated_value),
+    teams: Array.from(teams).sort(),
+    trips,
+  };
+}
+
+/** Items of all trips summed by UP */
+export function summarizeByService(trips: OseDocumentTrip[]): OseDocumentItem[] {
+  const byUp = new Map<string, OseDocumentItem>();
+  trips.forEach((trip) =>
+    trip.items.forEach((item) => {
+      const key = `${item.up}_${item.unitPrice}`;
+      const entry = byUp.get(key) ?? { ...item, quantity: 0, totalPrice: 0 };
+      entry.quantity += item.quantity;
+      entry.totalPrice += item.totalPrice;
+      byUp.set(key, entry);
+    })
+  );
+  return Array.from(byUp.values()).sort((a, b) => a.up.localeCompare(b.up));
+}
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat("pt-BR", { style: "currency", currency: "BRL" }).format(value);
+
+const formatQuantity = (value: number) => value.toLocaleString("pt-BR", { maximumFractionDigits: 2 });
+
+const formatDate = (date: string) => format(new Date(date.length === 10 ? date + "T00:00:00" : date), "dd/MM/yyyy");
+
+// A4 in mm
+const PAGE_WIDTH = 210;
+const PAGE_HEIGHT = 297;
+const MARGIN = 15;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+
+// autoTable records where the last table ended on the document
+const lastTableEnd = (pdf: jsPDF) => (pdf as unknown as { lastAutoTable: { finalY: number } }).lastAutoTable.finalY;
+
+/** Starts a new page when the next block doesn't fit in the current one */
+const ensureSpace = (pdf: jsPDF, y: number, height: number) => {
+  if (y + height <= PAGE_HEIGHT - MARGIN) return y;
+  pdf.addPage();
+  return MARGIN;
+};
+
+const heading = (pdf: jsPDF, text: string, y: number, size: number) => {
+  const top = ensureSpace(pdf, y, 14);
+  pdf.setFont("helvetica", "bold");
+  pdf.setFontSize(size);
+  pdf.text(text, MARGIN, top + 5);
+  pdf.setFont("helvetica", "normal");
+  return top + 7;
+};
+
+const itemsTable = (pdf: jsPDF, items: OseDocumentItem[], y: number) => {
+  autoTable(pdf, {
+    startY: y,
+    margin: { left: MARGIN, right: MARGIN },
+    theme: "grid",
+    styles: { fontSize: 8, cellPadding: 1.5 },
+    headStyles: { fillColor: [238, 238, 238], textColor: 20 },
+    footStyles: { fillColor: [246, 246, 246], textColor: 20 },
+    columnStyles: {
+      3: { halign: "right" },
+      4: { halign: "right" },
+      5: { halign: "right" },
+    },
+    head: [["UP", "Descrição", "Un.", "Qtd", "Preço Unit.", "Total"]],
+    body: items.map((item) => [
+      item.up,
+      item.description,
+      item.unit,
+      formatQuantity(item.quantity),
+      formatCurrency(item.unitPrice),
+      formatCurrency(item.totalPrice),
+    ]),
+    foot: [
+      [
+        { content: "Subtotal", colSpan: 5 },
+        {
+          content: formatCurrency(items.reduce((sum, item) => sum + item.totalPrice, 0)),
+          styles: { halign: "right" },
+        },
+      ],
+    ],
+  });
+  return lastTableEnd(pdf) + 4;
+};
+
+const drawOse = (pdf: jsPDF, doc: OseDocument) => {
+  const meta = [
+    `Status: ${getOseStatusLabel(doc.status)}`,
+    `Abertura: ${formatDate(doc.createdAt)}`,
+    `Emissão: ${format(new Date(), "dd/MM/yyyy HH:mm")}`,
+  ];
+  pdf.setFontSize(9);
+  pdf.text(meta, PAGE_WIDTH - MARGIN, MARGIN + 4, { align: "right" });
+
+  pdf.setFont("helvetica", "bold");
+  pdf.setFontSize(14);
+  pdf.text(`Boletim de Medição - OSE ${doc.oseNumber}`, MARGIN, MARGIN + 5);
+  pdf.setFont("helvetica", "normal");
+  pdf.setFontSize(9);
+  let y = MARGIN + 11;
+  if (doc.description) {
+    const lines: string[] = pdf.splitTextToSize(doc.description, CONTENT_WIDTH - 60);
+    pdf.text(lines, MARGIN, y);
+    y += lines.length * 4;
+  }
+  y = Math.max(y, MARGIN + 16);
+  pdf.setLineWidth(0.5);
+  pdf.line(MARGIN, y, PAGE_WIDTH - MARGIN, y);
+  y += 6;
+
+  const teams: string[] = pdf.splitTextToSize(
+    `Equipes: ${doc.teams.length > 0 ? doc.teams.join(", ") : "-"}`,
+    CONTENT_WIDTH
+  );
+  pdf.text(teams, MARGIN, y);
+  y += teams.length * 4 + 2;
+
+  y = heading(pdf, "Idas", y, 12);
+  if (doc.trips.length === 0) {
+    pdf.setFontSize(9);
+    pdf.text("Nenhuma ida cadastrada.", MARGIN, y + 3);
+    y += 8;
+  }
+  doc.trips.forEach((trip) => {
+    y = heading(pdf, `${formatDate(trip.date)} - ${trip.teamName}`, y, 10);
+    y = itemsTable(pdf, trip.items, y);
+  });
+
+  y = heading(pdf, "Resumo por Serviço", y + 2, 12);
+  y = itemsTable(pdf, summarizeByService(doc.trips), y);
+
+  y = ensureSpace(pdf, y, 14);
+  pdf.setFontSize(11);
+  pdf.text(`Total medido: ${formatCurrency(doc.totalValue)}`, PAGE_WIDTH - MARGIN, y + 5, { align: "right" });
+  if (doc.validatedValue !== null) {
+    pdf.text(`Total validado: ${formatCurrency(doc.validatedValue)}`, PAGE_WIDTH - MARGIN, y + 11, { align: "right" });
+  }
+  y += 14;
+
+  // Signature lines
+  y = ensureSpace(pdf, y, 40) + 28;
+  const columnWidth = (CONTENT_WIDTH - 20) / 2;
+  pdf.setFontSize(8);
+  pdf.setLineWidth(0.3);
+  [
+    "Responsável pela execução (Contratada)",
+    "Fiscal do contrato (Contratante)",
+  ].forEach((label, index) => {
+    const x = MARGIN + index * (columnWidth + 20);
+    pdf.line(x, y, x + columnWidth, y);
+    pdf.text([label, "Nome / Data"], x + columnWidth / 2, y + 4, { align: "center" });
+  });
+};
+
+/** One PDF with the documents, each OSE starting on its own page */
+export function renderOseDocumentPdf(docs: OseDocument[]): jsPDF {
+  const pdf = new jsPDF({ unit: "mm", format: "a4" });
+  docs.forEach((doc, index) => {
+    if (index > 0) pdf.addPage();
+    drawOse(pdf, doc);
+  });
+  return pdf;
+}
+
+/** Generates the PDF of the documents and downloads it as fileName */
+export function downloadOseDocuments(docs: OseDocument[], fileName: string) {
+  renderOseDocumentPdf(docs).save(fileName);
+}
+
+const safeFileName = (name: string) => name.replace(/[\\/:*?"<>|]+/g, "-");
+
+/** File name for the document of a single OSE */
+export const getOseDocumentFileName = (oseNumber: string) => safeFileName(`OSE ${oseNumber}.pdf`);
+
+/** File name for the documents of a "yyyy-MM" month */
+export const getMonthlyDocumentFileName = (month: string) => `Boletins ${month}.pdf`;
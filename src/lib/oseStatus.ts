@@ -0,0 +1,130 @@
+/**
+ * OSE lifecycle
+ *
+ * aberta → em execução → medida → enviada p/ validação → validada/glosada →
+ * faturada. The allowed moves mirror can_transition_ose_status in the
+ * database, which rejects anything else; here they only decide what the
+ * screens offer. Every move opens a period in ose_status_history, so the age
+ * of an OSE in its current stage is the age of its open period.
+ */
+
+import { differenceInHours } from "date-fns";
+
+export type OseStatus =
+  | "aberta"
+  | "em_execucao"
+  | "medida"
+  | "enviada_validacao"
+  | "validada"
+  | "glosada"
+  | "faturada";
+
+export const OSE_STATUSES: OseStatus[] = [
+  "aberta",
+  "em_execucao",
+  "medida",
+  "enviada_validacao",
+  "validada",
+  "glosada",
+  "faturada",
+];
+
+export const oseStatusConfig: Record<OseStatus, { label: string; className: string }> = {
+  aberta: { label: "Aberta", className: "bg-blue-500/20 text-blue-700" },
+  em_execucao: { label: "Em Execução", className: "bg-yellow-500/20 text-yellow-700" },
+  medida: { label: "Medida", className: "bg-purple-500/20 text-purple-700" },
+  enviada_validacao: { label: "Enviada p/ Validação", className: "bg-orange-500/20 text-orange-700" },
+  validada: { label: "Validada", className: "bg-green-500/20 text-green-700" },
+  glosada: { label: "Glosada", className: "bg-red-500/20 text-red-700" },
+  faturada: { label: "Faturada", className: "bg-gray-500/20 text-gray-700" },
+};
+
+export const getOseStatusLabel = (status: string) => oseStatusConfig[status as OseStatus]?.label || status;
+
+export const getOseStatusClassName = (status: string) =>
+  oseStatusConfig[status as OseStatus]?.className || "bg-gray-500/20 text-gray-700";
+
+interface OseTransition {
+  to: OseStatus;
+  /** Only admins and gestores can make this move */
+  managerOnly: boolean;
+}
+
+const OSE_TRANSITIONS: Record<OseStatus, OseTransition[]> = {
+  aberta: [{ to: "em_execucao", managerOnly: false }],
+  em_execucao: [
+    { to: "medida", managerOnly: false },
+    { to: "aberta", managerOnly: false },
+  ],
+  medida: [
+    { to: "enviada_validacao", managerOnly: true },
+    { to: "em_execucao", managerOnly: false },
+  ],
+  enviada_validacao: [
+    { to: "validada", managerOnly: true },
+    { to: "glosada", managerOnly: true },
+    { to: "medida", managerOnly: true },
+  ],
+  validada: [{ to: "faturada", managerOnly: true }],
+  glosada: [
+    { to: "faturada", managerOnly: true },
+    { to: "enviada_validacao", managerOnly: true },
+  ],
+  faturada: [],
+};
+
+/**
+ * Once sent to validation the trips and items of an OSE are what the client
+ * validates, so they can no longer change (guard_locked_ose_* in the database)
+ */
+export const isOseMeasurementLocked = (status: string) =>
+  !["aberta", "em_execucao", "medida"].includes(status);
+
+/** Statuses the user can move an OSE to from its current status */
+export const getAllowedOseTransitions = (status: string, isManager: boolean): OseStatus[] =>
+  (OSE_TRANSITIONS[status as OseStatus] || [])
+    .filter((transition) => isManager || !transition.managerOnly)
+    .map((transition) => transition.to);
+
+export interface OseStatusPeriod {
+  id: string;
+  ose_id: string;
+  status: string;
+  started_at: string;
+  ended_at: string | null;
+  changed_by: string | null;
+}
+
+/** Days spent in a period, up to now when it is still open */
+export const getPeriodDays = (period: Pick<OseStatusPeriod, "started_at" | "ended_at">, now = new Date()) =>
+  differenceInHours(period.ended_at ? new Date(period.ended_at) : now, new Date(period.started_at)) / 24;
+
+export interface OseStageAging {
+  status: OseStatus;
+  /** OSEs currently in the stage */
+  count: number;
+  /** Average and oldest age of the OSEs currently in the stage, in days */
+  averageDays: number | null;
+  maxDays: number | null;
+  /** Average time OSEs took to leave the stage, in days */
+  averageCompletedDays: number | null;
+}
+
+const average = (values: number[]) =>
+  values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+
+/** Aging per stage from the status periods of the OSEs */
+export function calculateStageAging(periods: OseStatusPeriod[], now = new Date()): OseStageAging[] {
+  return OSE_STATUSES.map((status) => {
+    const inStage = periods.filter((p) => p.status === status);
+    const open = inStage.filter((p) => !p.ended_at).map((p) => getPeriodDays(p, now));
+    const completed = inStage.filter((p) => p.ended_at).map((p) => getPeriodDays(p, now));
+    return {
+      status,
+      count: open.length,
+      averageDays: average(open),
+      maxDays: open.length > 0 ? Math.max(...open) : null,
+      averageCompletedDays: average(completed),
+    };
+  });
+}
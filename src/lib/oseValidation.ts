@@ -0,0 +1,105 @@
+/**
+ * OSE validation and glosa (glosa = the part of the measured value the client
+ * rejected)
+ *
+ * Each ose_items row is validated with the quantity and unit price accepted by
+ * the client; anything below the measured total is glosado and carries a code
+ * from glosa_reasons. save_ose_validation writes the items and, once all of
+ * them are validated, rolls the total up to oses.validated_value.
+ */
+
+export interface GlosaReason {
+  id: string;
+  code: string;
+  name: string;
+  requires_note: boolean;
+  is_active: boolean;
+  sort_order: number;
+}
+
+export interface ValidatableItem {
+  quantity: number;
+  unit_price: number;
+  total_price: number;
+  validated_quantity: number | null;
+  validated_unit_price: number | null;
+  glosa_reason_id: string | null;
+}
+
+export const isItemValidated = (item: Pick<ValidatableItem, "validated_quantity">) =>
+  item.validated_quantity !== null && item.validated_quantity !== undefined;
+
+/** Accepted value of the item, null while not validated */
+export const getValidatedTotal = (item: ValidatableItem) =>
+  isItemValidated(item) ? item.validated_quantity! * (item.validated_unit_price ?? item.unit_price) : null;
+
+/** Value rejected by the client, 0 while not validated */
+export const getGlosaValue = (item: ValidatableItem) => {
+  const validated = getValidatedTotal(item);
+  return validated === null ? 0 : Math.max(0, item.total_price - validated);
+};
+
+export const formatGlosaReason = (reason: Pick<GlosaReason, "code" | "name"> | null | undefined) =>
+  reason ? `${reason.code} - ${reason.name}` : "Sem motivo";
+
+/** Validation problem of an item being edited, null when it can be saved */
+export function getItemValidationError(
+  item: ValidatableItem & { glosa_note?: string | null },
+  reasons: GlosaReason[],
+): string | null {
+  if (!isItemValidated(item)) return null;
+  if (item.validated_quantity! < 0 || (item.validated_unit_price ?? 0) < 0) {
+    return "Quantidade e preço validados não podem ser negativos";
+  }
+  if (getGlosaValue(item) > 0) {
+    const reason = reasons.find((r) => r.id === item.glosa_reason_id);
+    if (!reason) return "Informe o motivo da glosa";
+    if (reason.requires_note && !item.glosa_note?.trim()) return "O motivo selecionado exige observação";
+  }
+  return null;
+}
+
+export interface GlosaBreakdownRow {
+  key: string;
+  label: string;
+  /** Measured and validated value of the validated items */
+  measuredValue: number;
+  validatedValue: number;
+  glosaValue: number;
+  /** Share of the measured value that was glosado, 0-100 */
+  glosaPercent: number;
+  glosedItems: number;
+}
+
+/** Glosa grouped by a key (service UP, team, reason...), largest glosa first */
+export function buildGlosaBreakdown<T extends ValidatableItem>(
+  items: T[],
+  keyOf: (item: T) => string,
+  labelOf: (item: T) => string,
+): GlosaBreakdownRow[] {
+  const rows = new Map<string, GlosaBreakdownRow>();
+  items.filter(isItemValidated).forEach((item) => {
+    const key = keyOf(item);
+    const row = rows.get(key) ?? {
+      key,
+      label: labelOf(item),
+      measuredValue: 0,
+      validatedValue: 0,
+      glosaValue: 0,
+      glosaPercent: 0,
+      glosedItems: 0,
+    };
+    const glosa = getGlosaValue(item);
+    row.measuredValue += item.total_price;
+    row.validatedValue += getValidatedTotal(item)!;
+    row.glosaValue += glosa;
+    if (glosa > 0) row.glosedItems += 1;
+    rows.set(key, row);
+  });
+  return Array.from(rows.values())
+    .map((row) => ({
+      ...row,
+      glosaPercent: row.measuredValue > 0 ? (row.glosaValue / row.measuredValue) * 100 : 0,
+    }))
+    .sort((a, b) => b.glosaValue - a.glosaValue);
+}
@@ -0,0 +1,74 @@
+/**
+ * Preventive maintenance schedule helpers
+ *
+ * Plans define a recurring service per vehicle model (every N km and/or every
+ * N months). The database generates one pending maintenance_record per vehicle
+ * and plan; these helpers classify those records for the dashboards, by date
+ * and, when the vehicle has odometer readings, by km.
+ */
+
+import { differenceInDays } from "date-fns";
+
+export type MaintenanceDueStatus = "vencida" | "proxima" | "programada";
+
+/** Days before the scheduled date when a maintenance becomes "próxima" */
+export const UPCOMING_DAYS_THRESHOLD = 30;
+
+/** Km before the scheduled km when a maintenance becomes "próxima" */
+export const UPCOMING_KM_THRESHOLD = 1000;
+
+export interface ScheduledMaintenance {
+  scheduled_date: string | null;
+  scheduled_km: number | null;
+}
+
+export interface MaintenancePlanInterval {
+  interval_km: number | null;
+  interval_months: number | null;
+}
+
+/**
+ * Days until the scheduled date (negative when overdue), or null when the
+ * record has no date.
+ */
+export function getDaysUntilDue(record: ScheduledMaintenance, today: Date = new Date()): number | null {
+  if (!record.scheduled_date) return null;
+  return differenceInDays(new Date(record.scheduled_date + "T00:00:00"), today);
+}
+
+/**
+ * Km left until the scheduled km (negative when overdue), or null when the
+ * record has no km target or the vehicle has no reading.
+ */
+export function getKmUntilDue(record: ScheduledMaintenance, currentKm: number | null): number | null {
+  if (record.scheduled_km === null || currentKm === null) return null;
+  return record.scheduled_km - currentKm;
+}
+
+/**
+ * Classify a pending maintenance by whichever comes first: scheduled date or
+ * scheduled km
+ */
+export function getMaintenanceDueStatus(
+  record: ScheduledMaintenance,
+  today: Date = new Date(),
+  currentKm: number | null = null
+): MaintenanceDueStatus {
+  const days = getDaysUntilDue(record, today);
+  const km = getKmUntilDue(record, currentKm);
+  if ((days !== null && days < 0) || (km !== null && km <= 0)) return "vencida";
+  if ((days !== null && days <= UPCOMING_DAYS_THRESHOLD) || (km !== null && km <= UPCOMING_KM_THRESHOLD)) {
+    return "proxima";
+  }
+  return "programada";
+}
+
+/**
+ * Human readable interval, e.g. "10.000 km ou 6 meses"
+ */
+export function formatPlanInterval(plan: MaintenancePlanInterval): string {
+  const parts: string[] = [];
+  if (plan.interval_km) parts.push(`${plan.interval_km.toLocaleString("pt-BR")} km`);
+  if (plan.interval_months) parts.push(`${plan.interval_months} ${plan.interval_months === 1 ? "mês" : "meses"}`);
+  return parts.join(" ou ") || "-";
+}
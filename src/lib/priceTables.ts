@@ -0,0 +1,136 @@
+/**
+ * Service price tables
+ *
+ * Each table has a validity period and the price of every service in it.
+ * OSE items are priced by the database with the table in force on the trip
+ * date; these helpers give the screens the same price and compare tables.
+ */
+
+import { format } from "date-fns";
+
+export interface PriceTable {
+  id: string;
+  name: string;
+  contract_reference: string | null;
+  effective_from: string;
+  effective_to: string | null;
+  readjustment_index: string | null;
+  readjustment_percent: number | null;
+  notes: string | null;
+  created_at: string;
+}
+
+export interface PriceTableItem {
+  id: string;
+  price_table_id: string;
+  service_id: string;
+  gross_price: number;
+}
+
+const toDateKey = (date: Date | string) => (typeof date === "string" ? date.slice(0, 10) : format(date, "yyyy-MM-dd"));
+
+export const isTableInForce = (table: PriceTable, date: Date | string) => {
+  const key = toDateKey(date);
+  return table.effective_from <= key && (table.effective_to === null || table.effective_to >= key);
+};
+
+/** Table in force on a date, if any */
+export const findTableForDate = (tables: PriceTable[], date: Date | string) =>
+  tables.find((table) => isTableInForce(table, date)) ?? null;
+
+/**
+ * Price of a service on a date, falling back to the catalog price when no
+ * table covers the date or the table does not list the service
+ */
+export function getServicePriceOn(
+  tables: PriceTable[],
+  items: PriceTableItem[],
+  service: { id: string; gross_price: number },
+  date: Date | string | undefined
+) {
+  if (!date) return service.gross_price;
+  const table = findTableForDate(tables, date);
+  if (!table) return service.gross_price;
+  const item = items.find((i) => i.price_table_id === table.id && i.service_id === service.id);
+  return item ? Number(item.gross_price) : service.gross_price;
+}
+
+export type PriceComparisonStatus = "changed" | "unchanged" | "added" | "removed";
+
+export interface PriceComparisonRow {
+  serviceId: string;
+  up: string;
+  description: string;
+  unit: string;
+  priceA: number | null;
+  priceB: number | null;
+  delta: number | null;
+  deltaPercent: number | null;
+  status: PriceComparisonStatus;
+}
+
+export interface PriceComparisonSummary {
+  changed: number;
+  unchanged: number;
+  added: number;
+  removed: number;
+  /** Average readjustment of the services present in both tables */
+  averagePercent: number;
+}
+
+/** Prices of table A against table B, service by service */
+export function comparePriceTables(
+  itemsA: PriceTableItem[],
+  itemsB: PriceTableItem[],
+  services: { id: string; up: string; description: string; unit: string }[]
+): { rows: PriceComparisonRow[]; summary: PriceComparisonSummary } {
+  const pricesA = new Map(itemsA.map((item) => [item.service_id, Number(item.gross_price)]));
+  const pricesB = new Map(itemsB.map((item) => [item.service_id, Number(item.gross_price)]));
+  const servicesMap = new Map(services.map((service) => [service.id, service]));
+  const serviceIds = new Set([...pricesA.keys(), ...pricesB.keys()]);
+
+  const rows: PriceComparisonRow[] = Array.from(serviceIds).map((serviceId) => {
+    const service = servicesMap.get(serviceId);
+    const priceA = pricesA.get(serviceId) ?? null;
+    const priceB = pricesB.get(serviceId) ?? null;
+    const both = priceA !== null && priceB !== null;
+    const delta = both ? priceB - priceA : null;
+
+    let status: PriceComparisonStatus;
+    if (priceA === null) status = "added";
+    else if (priceB === null) status = "removed";
+    else status = Math.abs(delta) < 0.005 ? "unchanged" : "changed";
+
+    return {
+      serviceId,
+      up: service?.up || "-",
+      description: service?.description || "Serviço removido do catálogo",
+      unit: service?.unit || "-",
+      priceA,
+      priceB,
+      delta,
+      deltaPercent: both && priceA > 0 ? (delta / priceA) * 100 : null,
+      status,
+    };
+  });
+  rows.sort((a, b) => a.up.localeCompare(b.up));
+
+  const percents = rows.filter((row) => row.deltaPercent !== null).map((row) => row.deltaPercent);
+  return {
+    rows,
+    summary: {
+      changed: rows.filter((row) => row.status === "changed").length,
+      unchanged: rows.filter((row) => row.status === "unchanged").length,
+      added: rows.filter((row) => row.status === "added").length,
+      removed: rows.filter((row) => row.status === "removed").length,
+      averagePercent: percents.length > 0 ? percents.reduce((sum, p) => sum + p, 0) / percents.length : 0,
+    },
+  };
+}
+
+const formatDate = (date: string) => format(new Date(date + "T00:00:00"), "dd/MM/yyyy");
+
+export const formatTablePeriod = (table: PriceTable) =>
+  table.effective_to
+    ? `${formatDate(table.effective_from)} a ${formatDate(table.effective_to)}`
+    : `A partir de ${formatDate(table.effective_from)}`;
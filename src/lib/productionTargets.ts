@@ -0,0 +1,86 @@
+/**
+ * Production targets (metas)
+ *
+ * Targets live in production_targets, per team or per team type. A target
+ * holds from its month until a newer one is set for the same team/type, and a
+ * team target takes precedence over the target of its type.
+ */
+
+import { differenceInCalendarDays, endOfMonth, format, getDaysInMonth, startOfMonth } from "date-fns";
+
+export type TargetMetric = "producao" | "poda_executado";
+
+export const TARGET_METRICS: Record<TargetMetric, { label: string; unit: string }> = {
+  producao: { label: "Produção", unit: "por equipe no mês" },
+  poda_executado: { label: "Produtividade de Poda (executado)", unit: "anomalias por equipe por dia" },
+};
+
+export interface ProductionTarget {
+  id: string;
+  metric: string;
+  month: string;
+  team_id: string | null;
+  team_type: string | null;
+  target_value: number;
+  notes: string | null;
+}
+
+/** "yyyy-MM-01" of the month containing the date */
+export const toTargetMonth = (date: Date) => format(startOfMonth(date), "yyyy-MM-dd");
+
+const latestUpTo = (targets: ProductionTarget[], month: string) =>
+  targets
+    .filter((t) => t.month <= month)
+    .sort((a, b) => b.month.localeCompare(a.month))[0];
+
+/** Target of the team for the metric in the month, or null when none is set */
+export function resolveTarget(
+  targets: ProductionTarget[],
+  metric: TargetMetric,
+  month: string,
+  team: { id: string; type: string },
+): number | null {
+  const forMetric = targets.filter((t) => t.metric === metric);
+  const target =
+    latestUpTo(forMetric.filter((t) => t.team_id === team.id), month) ??
+    latestUpTo(forMetric.filter((t) => !t.team_id && t.team_type === team.type), month);
+  return target ? Number(target.target_value) : null;
+}
+
+export interface MonthPacing {
+  daysInMonth: number;
+  /** Days of the month already elapsed, today included */
+  elapsedDays: number;
+  /** Share of the target expected by now with a linear pace */
+  expectedToDate: number;
+  /** Actual vs expected to date, 0-100+; null before the month starts */
+  pacePercent: number | null;
+  /** Actual extrapolated to the end of the month at the current pace */
+  projected: number;
+  /** Projected vs target, 0-100+; null without a target */
+  projectedPercent: number | null;
+  /** Actual vs target, 0-100+; null without a target */
+  attainmentPercent: number | null;
+}
+
+/** Month-to-date pacing of a monthly target, counting calendar days */
+export function calculatePacing(actual: number, target: number, monthDate: Date, today = new Date()): MonthPacing {
+  const daysInMonth = getDaysInMonth(monthDate);
+  const monthStart = startOfMonth(monthDate);
+  let elapsedDays = differenceInCalendarDays(today, monthStart) + 1;
+  if (today > endOfMonth(monthDate)) elapsedDays = daysInMonth;
+  elapsedDays = Math.max(0, Math.min(daysInMonth, elapsedDays));
+
+  const expectedToDate = (target * elapsedDays) / daysInMonth;
+  const projected = elapsedDays > 0 ? (actual / elapsedDays) * daysInMonth : 0;
+
+  return {
+    daysInMonth,
+    elapsedDays,
+    expectedToDate,
+    pacePercent: elapsedDays > 0 && expectedToDate > 0 ? (actual / expectedToDate) * 100 : null,
+    projected,
+    projectedPercent: target > 0 ? (projected / target) * 100 : null,
+    attainmentPercent: target > 0 ? (actual / target) * 100 : null,
+  };
+}
@@ -0,0 +1,218 @@
+/**
+ * Service catalog import
+ *
+ * Turns spreadsheet rows into catalog services through a column mapping and
+ * validates them row by row. The diff against the catalog and the import
+ * itself are done by the database (preview_service_import and
+ * apply_service_import), which keeps the report of each import.
+ */
+
+export type ServiceImportField = "up" | "service_number" | "description" | "unit" | "gross_price";
+
+export const SERVICE_IMPORT_FIELDS: { key: ServiceImportField; label: string; aliases: string[] }[] = [
+  { key: "up", label: "UP", aliases: ["up", "codigo", "cod", "codigo up"] },
+  { key: "service_number", label: "Nº Serviço", aliases: ["numero", "n servico", "numero do servico", "servico", "item"] },
+  { key: "description", label: "Descrição", aliases: ["descricao", "descricao do servico", "desc"] },
+  { key: "unit", label: "Unidade", aliases: ["unidade", "un", "und", "unid"] },
+  { key: "gross_price", label: "Preço", aliases: ["preco", "preco bruto", "valor", "valor unitario", "preco unitario"] },
+];
+
+/** Column index of each field; -1 when not mapped */
+export type ServiceImportMapping = Record<ServiceImportField, number>;
+
+export interface ServiceImportRow {
+  up: string;
+  service_number: string;
+  description: string;
+  unit: string;
+  gross_price: number;
+}
+
+export interface ServiceImportError {
+  /** Line in the file, counting the header */
+  row: number;
+  message: string;
+}
+
+export type ServiceImportAction = "new" | "changed" | "removed";
+
+export interface ServiceImportValues {
+  service_number: string;
+  description: string;
+  unit: string;
+  gross_price: number | null;
+  is_active: boolean;
+}
+
+export interface ServiceImportChange {
+  up: string;
+  action: ServiceImportAction;
+  before: ServiceImportValues | null;
+  after: ServiceImportValues | null;
+}
+
+export interface ServiceImportReport {
+  summary: { new: number; changed: number; unchanged: number; removed: number };
+  changes: ServiceImportChange[];
+  errors?: ServiceImportError[];
+}
+
+const normalizeHeader = (header: string) =>
+  header
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+
+/** Mapping guessed from the header names, falling back to the old fixed layout */
+export function guessMapping(headers: string[] | null): ServiceImportMapping {
+  const defaults = Object.fromEntries(SERVICE_IMPORT_FIELDS.map((field, index) => [field.key, index]));
+  if (!headers) return defaults as ServiceImportMapping;
+
+  const normalized = headers.map(normalizeHeader);
+  const mapping = {} as ServiceImportMapping;
+  SERVICE_IMPORT_FIELDS.forEach((field) => {
+    mapping[field.key] = normalized.findIndex((header) => field.aliases.includes(header));
+  });
+  return mapping;
+}
+
+/** Whether the first row looks like a header rather than a service */
+export const looksLikeHeader = (row: string[]) =>
+  row.some((cell) => SERVICE_IMPORT_FIELDS.some((field) => field.aliases.includes(normalizeHeader(cell))));
+
+/**
+ * Price written the pt-BR way ("1.234,56", "R$ 150,00"), with a decimal
+ * point ("150.5") or as a spreadsheet number ("1.5E+2"). A lone point
+ * followed by three digits is read as a thousands separator, as in pt-BR.
+ */
+export function parsePrice(value: string): number | null {
+  let text = value.replace(/[R$\s]/g, "");
+  if (!text) return null;
+  if (/^-?\d+(\.\d+)?e[+-]?\d+$/i.test(text)) return Number(text);
+
+  const lastComma = text.lastIndexOf(",");
+  const lastPoint = text.lastIndexOf(".");
+  if (lastComma > lastPoint) {
+    text = text.replace(/\./g, "").replace(",", ".");
+  } else if (lastComma !== -1) {
+    text = text.replace(/,/g, "");
+  } else if (/^[1-9]\d{0,2}(\.\d{3})+$/.test(text)) {
+    text = text.replace(/\./g, "");
+  }
+
+  if (!/^-?\d+(\.\d+)?$/.test(text)) return null;
+  return Number(text);
+}
+
+const sameRow = (a: ServiceImportRow, b: ServiceImportRow) =>
+  a.service_number === b.service_number &&
+  a.description === b.description &&
+  a.unit === b.unit &&
+  a.gross_price === b.gross_price;
+
+/**
+ * Valid services of the file and the errors of the rejected rows. A UP that
+ * appears more than once with different data is rejected in every row, since
+ * there is no telling which one is right; exact repeats are just skipped.
+ */
+export function buildImportRows(
+  rows: string[][],
+  mapping: ServiceImportMapping,
+  hasHeader: boolean
+): { rows: ServiceImportRow[]; errors: ServiceImportError[] } {
+  const errors: ServiceImportError[] = [];
+  const byUp = new Map<string, { row: ServiceImportRow; lines: number[]; conflict: boolean }>();
+  const cell = (row: string[], field: ServiceImportField) =>
+    mapping[field] >= 0 ? (row[mapping[field]] ?? "").trim() : "";
+
+  const missing = SERVICE_IMPORT_FIELDS.filter((field) => mapping[field.key] < 0);
+  if (missing.length > 0) {
+    return {
+      rows: [],
+      errors: [{ row: 0, message: `Colunas não mapeadas: ${missing.map((field) => field.label).join(", ")}` }],
+    };
+  }
+
+  rows.slice(hasHeader ? 1 : 0).forEach((row, index) => {
+    const line = index + (hasHeader ? 2 : 1);
+    const priceText = cell(row, "gross_price");
+    const price = parsePrice(priceText);
+    const service: ServiceImportRow = {
+      up: cell(row, "up"),
+      service_number: cell(row, "service_number"),
+      description: cell(row, "description"),
+      unit: cell(row, "unit"),
+      gross_price: price ?? 0,
+    };
+
+    const problems: string[] = [];
+    if (!service.up) problems.push("UP vazia");
+    if (!service.service_number) problems.push("número do serviço vazio");
+    if (!service.description) problems.push("descrição vazia");
+    if (!service.unit) problems.push("unidade vazia");
+    if (!priceText) problems.push("preço vazio");
+    else if (price === null) problems.push(`preço inválido "${priceText}"`);
+    else if (price < 0) problems.push("preço negativo");
+    if (problems.length > 0) {
+      errors.push({ row: line, message: problems.join("; ") });
+      return;
+    }
+
+    const existing = byUp.get(service.up);
+    if (!existing) {
+      byUp.set(service.up, { row: service, lines: [line], conflict: false });
+      return;
+    }
+    existing.lines.push(line);
+    if (!sameRow(existing.row, service)) existing.conflict = true;
+  });
+
+  const valid: ServiceImportRow[] = [];
+  byUp.forEach(({ row, lines, conflict }, up) => {
+    if (!conflict) {
+      valid.push(row);
+      return;
+    }
+    lines.forEach((line) =>
+      errors.push({ row: line, message: `UP ${up} repetida com dados diferentes (linhas ${lines.join(", ")})` })
+    );
+  });
+
+  errors.sort((a, b) => a.row - b.row);
+  return { rows: valid, errors };
+}
+
+export const SERVICE_IMPORT_ACTIONS: Record<ServiceImportAction, { label: string; className: string }> = {
+  new: { label: "Novo", className: "bg-success/10 text-success border-success/20" },
+  changed: { label: "Alterado", className: "bg-warning/10 text-warning border-warning/20" },
+  removed: { label: "Ausente", className: "bg-destructive/10 text-destructive border-destructive/20" },
+};
+
+const FIELD_LABELS: Record<keyof ServiceImportValues, string> = {
+  service_number: "Nº Serviço",
+  description: "Descrição",
+  unit: "Unidade",
+  gross_price: "Preço",
+  is_active: "Ativo",
+};
+
+/** Fields of a changed service that differ, as "label: before → after" */
+export function describeChange(change: ServiceImportChange, formatPrice: (value: number) => string): string[] {
+  if (change.action !== "changed" || !change.before || !change.after) return [];
+  const format = (key: keyof ServiceImportValues, value: ServiceImportValues[keyof ServiceImportValues]) => {
+    if (value === null) return "-";
+    if (key === "gross_price") return formatPrice(Number(value));
+    if (key === "is_active") return value ? "sim" : "não";
+    return String(value);
+  };
+
+  return (Object.keys(FIELD_LABELS) as (keyof ServiceImportValues)[])
+    .filter((key) =>
+      key === "gross_price"
+        ? Number(change.before.gross_price ?? NaN) !== Number(change.after.gross_price)
+        : change.before[key] !== change.after[key]
+    )
+    .map((key) => `${FIELD_LABELS[key]}: ${format(key, change.before[key])} → ${format(key, change.after[key])}`);
+}
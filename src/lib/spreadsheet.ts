@@ -0,0 +1,182 @@
+/**
+ * Spreadsheet reading for the importers
+ *
+ * CSV follows RFC 4180 (quoted fields with delimiters, line breaks and ""
+ * escapes) and the delimiter is detected from the first line, since Excel in
+ * pt-BR saves with ";". XLSX is read without a library: the file is a zip of
+ * XML parts, unzipped with the browser's DecompressionStream, and only the
+ * first sheet is read. Every cell comes back as text.
+ */
+
+const DELIMITERS = [";", ",", "\t"];
+
+const detectDelimiter = (text: string) => {
+  const firstLine = text.slice(0, text.indexOf("\n") === -1 ? undefined : text.indexOf("\n"));
+  let best = ";";
+  let bestCount = 0;
+  DELIMITERS.forEach((delimiter) => {
+    const count = firstLine.split(delimiter).length - 1;
+    if (count > bestCount) {
+      best = delimiter;
+      bestCount = count;
+    }
+  });
+  return best;
+};
+
+/** Rows of a delimited text, blank lines dropped */
+export function parseDelimited(text: string, delimiter = detectDelimiter(text)): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  const content = text.replace(/^\uFEFF/, "");
+
+  const endRow = () => {
+    row.push(field);
+    if (row.some((cell) => cell.trim() !== "")) rows.push(row);
+    row = [];
+    field = "";
+  };
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) endRow();
+
+  return rows;
+}
+
+interface ZipEntry {
+  method: number;
+  compressedSize: number;
+  localOffset: number;
+}
+
+const readZipEntries = (view: DataView) => {
+  // End of central directory: the last record, followed by an optional comment
+  let eocd = view.byteLength - 22;
+  while (eocd >= 0 && view.getUint32(eocd, true) !== 0x06054b50) eocd--;
+  if (eocd < 0) throw new Error("Arquivo XLSX inválido");
+
+  const entries = new Map<string, ZipEntry>();
+  const count = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  const decoder = new TextDecoder();
+
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) throw new Error("Arquivo XLSX inválido");
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const name = decoder.decode(new Uint8Array(view.buffer, view.byteOffset + offset + 46, nameLength));
+    entries.set(name, {
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localOffset: view.getUint32(offset + 42, true),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+};
+
+const readZipText = async (view: DataView, entry: ZipEntry) => {
+  const nameLength = view.getUint16(entry.localOffset + 26, true);
+  const extraLength = view.getUint16(entry.localOffset + 28, true);
+  const start = view.byteOffset + entry.localOffset + 30 + nameLength + extraLength;
+  const data = new Uint8Array(view.buffer, start, entry.compressedSize);
+
+  if (entry.method === 0) return new TextDecoder().decode(data);
+  if (entry.method !== 8) throw new Error("Compressão do arquivo XLSX não suportada");
+
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream("deflate-raw"));
+  return new Response(stream).text();
+};
+
+const parseXml = (text: string) => new DOMParser().parseFromString(text, "application/xml");
+
+/** "B12" -> 1 */
+const columnIndex = (reference: string) => {
+  const letters = reference.replace(/\d+$/, "");
+  let index = 0;
+  for (const letter of letters) index = index * 26 + (letter.charCodeAt(0) - 64);
+  return index - 1;
+};
+
+/** Rows of the first sheet of an XLSX file */
+export async function readXlsx(buffer: ArrayBuffer): Promise<string[][]> {
+  const view = new DataView(buffer);
+  const entries = readZipEntries(view);
+  const readPart = async (path: string) => {
+    const entry = entries.get(path);
+    return entry ? parseXml(await readZipText(view, entry)) : null;
+  };
+
+  // First sheet of the workbook, resolved through the workbook relationships
+  const workbook = await readPart("xl/workbook.xml");
+  const rels = await readPart("xl/_rels/workbook.xml.rels");
+  const firstSheet = workbook?.getElementsByTagName("sheet")[0];
+  const relationId = firstSheet?.getAttribute("r:id");
+  const target = Array.from(rels?.getElementsByTagName("Relationship") ?? [])
+    .find((rel) => rel.getAttribute("Id") === relationId)
+    ?.getAttribute("Target");
+  const sheetPath = target ? (target.startsWith("/") ? target.slice(1) : `xl/${target}`) : "xl/worksheets/sheet1.xml";
+
+  const sheet = await readPart(sheetPath);
+  if (!sheet) throw new Error("Planilha não encontrada no arquivo XLSX");
+
+  const sharedStrings = Array.from((await readPart("xl/sharedStrings.xml"))?.getElementsByTagName("si") ?? []).map(
+    (si) => Array.from(si.getElementsByTagName("t")).map((t) => t.textContent ?? "").join("")
+  );
+
+  const rows: string[][] = [];
+  Array.from(sheet.getElementsByTagName("row")).forEach((rowElement) => {
+    const row: string[] = [];
+    Array.from(rowElement.getElementsByTagName("c")).forEach((cell, position) => {
+      const reference = cell.getAttribute("r");
+      const index = reference ? columnIndex(reference) : position;
+      const type = cell.getAttribute("t");
+      const value = cell.getElementsByTagName("v")[0]?.textContent ?? "";
+
+      let text: string;
+      if (type === "s") text = sharedStrings[Number(value)] ?? "";
+      else if (type === "inlineStr") text = cell.getElementsByTagName("t")[0]?.textContent ?? "";
+      // Anything else, numbers included, keeps its stored text ("1.5", "1E-3"):
+      // only the price column reads it as a number, codes stay as written
+      else text = value;
+
+      while (row.length < index) row.push("");
+      row[index] = text;
+    });
+    if (row.some((cell) => cell.trim() !== "")) rows.push(row);
+  });
+
+  return rows;
+}
+
+/** Rows of a .csv, .txt or .xlsx file */
+export async function readSpreadsheetFile(file: File): Promise<string[][]> {
+  if (/\.xlsx$/i.test(file.name)) return readXlsx(await file.arrayBuffer());
+  if (/\.xls$/i.test(file.name)) throw new Error("Formato .xls não suportado. Salve a planilha como .xlsx ou .csv");
+  return parseDelimited(await file.text());
+}
@@ -0,0 +1,28 @@
+/**
+ * External team codes
+ *
+ * The production sync receives teams by their operational code (e.g. 803006A).
+ * Codes live in team_external_codes, with optional validity periods for codes
+ * that get reassigned. The sync function applies the same rules server-side.
+ */
+
+export interface TeamExternalCode {
+  id: string;
+  team_id: string;
+  code: string;
+  valid_from: string | null;
+  valid_until: string | null;
+  notes: string | null;
+}
+
+export type CodeValidity = "vigente" | "futuro" | "encerrado";
+
+export const normalizeTeamCode = (code: string) => code.trim().toUpperCase();
+
+/** Validity of a code on a "yyyy-MM-dd" date (today by default) */
+export function getCodeValidity(code: Pick<TeamExternalCode, "valid_from" | "valid_until">, date?: string): CodeValidity {
+  const day = date || new Date().toISOString().split("T")[0];
+  if (code.valid_from && code.valid_from > day) return "futuro";
+  if (code.valid_until && code.valid_until < day) return "encerrado";
+  return "vigente";
+}
@@ -0,0 +1,64 @@
+/**
+ * Team schedule helpers
+ *
+ * The Schedule page keeps a team_schedules row per team and day, with the
+ * entry/exit times for that day and whether the team works. Without a row the
+ * team works with the default times set on the team.
+ */
+
+export interface TeamScheduleEntry {
+  team_id: string;
+  date: string;
+  is_working: boolean;
+  scheduled_entry_time: string;
+  scheduled_exit_time: string;
+}
+
+export interface TeamDefaults {
+  id: string;
+  scheduled_entry_time: string;
+  scheduled_exit_time?: string;
+}
+
+export interface ResolvedSchedule {
+  isWorking: boolean;
+  scheduledEntryTime: string;
+  scheduledExitTime: string | null;
+}
+
+const scheduleKey = (teamId: string, date: string) => `${teamId}_${date}`;
+
+/** Index schedule rows by team and date for resolveSchedule */
+export const indexSchedules = (entries: TeamScheduleEntry[]) =>
+  new Map(entries.map((entry) => [scheduleKey(entry.team_id, entry.date), entry]));
+
+/** Schedule of the team on a "yyyy-MM-dd" date */
+export function resolveSchedule(
+  index: Map<string, TeamScheduleEntry>,
+  team: TeamDefaults,
+  date: string,
+): ResolvedSchedule {
+  const entry = index.get(scheduleKey(team.id, date));
+  if (entry) {
+    return {
+      isWorking: entry.is_working,
+      scheduledEntryTime: entry.scheduled_entry_time,
+      scheduledExitTime: entry.scheduled_exit_time,
+    };
+  }
+  return {
+    isWorking: true,
+    scheduledEntryTime: team.scheduled_entry_time,
+    scheduledExitTime: team.scheduled_exit_time ?? null,
+  };
+}
+
+/** Minutes since midnight of a "HH:mm" or "HH:mm:ss" time */
+export const timeToMinutes = (time: string) => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+};
+
+/** Minutes after (positive) or before (negative) the scheduled time */
+export const calculateDelayMinutes = (departureTime: string, scheduledTime: string) =>
+  timeToMinutes(departureTime) - timeToMinutes(scheduledTime);
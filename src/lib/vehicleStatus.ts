@@ -0,0 +1,20 @@
+/**
+ * Vehicle status labels and badge styles, shared by the fleet screens
+ */
+
+export type VehicleStatus = "ativo" | "manutencao" | "reserva" | "oficina" | "mobilizar";
+
+export const vehicleStatusConfig: Record<VehicleStatus, { label: string; className: string }> = {
+  ativo: { label: "Ativo", className: "bg-green-500/20 text-green-700" },
+  manutencao: { label: "Em Manutenção", className: "bg-yellow-500/20 text-yellow-700" },
+  reserva: { label: "Reserva", className: "bg-blue-500/20 text-blue-700" },
+  oficina: { label: "Oficina", className: "bg-orange-500/20 text-orange-700" },
+  mobilizar: { label: "Mobilizar", className: "bg-purple-500/20 text-purple-700" },
+};
+
+export const getVehicleStatusLabel = (status: string) =>
+  vehicleStatusConfig[status as VehicleStatus]?.label || status;
+
+/** Statuses of a vehicle that is off the road for repairs */
+export const isVehicleInWorkshop = (status: string | null | undefined) =>
+  status === "oficina" || status === "manutencao";
@@ -0,0 +1,246 @@
+/**
+ * Vehicle timeline and TCO (total cost of ownership) helpers
+ *
+ * The vehicle detail page loads each source separately (workshop stays,
+ * maintenances, incidents, attachments, laudos, status/team changes) and
+ * merges them here into one chronological list.
+ */
+
+import { differenceInDays, differenceInMonths } from "date-fns";
+import { getVehicleStatusLabel } from "@/lib/vehicleStatus";
+
+export type TimelineEventType = "status" | "team" | "workshop" | "maintenance" | "incident" | "laudo" | "attachment";
+
+export const TIMELINE_EVENT_LABELS: Record<TimelineEventType, string> = {
+  status: "Status",
+  team: "Equipe",
+  workshop: "Oficina",
+  maintenance: "Manutenção",
+  incident: "Ocorrência",
+  laudo: "Laudo",
+  attachment: "Anexo",
+};
+
+export interface TimelineEvent {
+  id: string;
+  type: TimelineEventType;
+  date: Date;
+  title: string;
+  description?: string;
+  cost?: number;
+  actor?: string | null;
+  url?: string;
+}
+
+export interface VehicleChange {
+  changed_at: string;
+  actor_name: string | null;
+  field: string;
+  old_value: string | null;
+  new_value: string | null;
+}
+
+export interface TimelineWorkshopEntry {
+  id: string;
+  entry_date: string;
+  exit_date: string | null;
+  reason: string;
+  reason_type: string | null;
+  workshop_name: string | null;
+  maintenance_cost: number | null;
+}
+
+export interface TimelineMaintenance {
+  id: string;
+  type: string;
+  description: string | null;
+  status: string;
+  scheduled_date: string | null;
+  completed_date: string | null;
+  cost: number | null;
+}
+
+export interface TimelineIncident {
+  id: string;
+  type: string;
+  severity: string;
+  description: string;
+  date: string;
+}
+
+export interface TimelineAttachment {
+  id: string;
+  file_name: string;
+  file_url: string;
+  created_at: string;
+}
+
+export interface TimelineLaudo {
+  label: string;
+  date: string;
+}
+
+export interface TimelineSources {
+  changes: VehicleChange[];
+  workshopEntries: TimelineWorkshopEntry[];
+  maintenances: TimelineMaintenance[];
+  incidents: TimelineIncident[];
+  attachments: TimelineAttachment[];
+  laudos: TimelineLaudo[];
+  teamsMap: Record<string, string>;
+}
+
+const toDate = (value: string) => new Date(value.length === 10 ? value + "T00:00:00" : value);
+
+/**
+ * Merge every source into one list, most recent first
+ */
+export function buildVehicleTimeline(sources: TimelineSources, today: Date = new Date()): TimelineEvent[] {
+  const events: TimelineEvent[] = [];
+  const teamName = (id: string | null) => (id ? sources.teamsMap[id] || "Equipe removida" : "Sem equipe");
+
+  sources.changes.forEach((change, index) => {
+    if (change.field === "status") {
+      events.push({
+        id: `status-${index}`,
+        type: "status",
+        date: toDate(change.changed_at),
+        title: change.old_value
+          ? `${getVehicleStatusLabel(change.old_value)} → ${getVehicleStatusLabel(change.new_value || "")}`
+          : `Cadastrado como ${getVehicleStatusLabel(change.new_value || "")}`,
+        actor: change.actor_name,
+      });
+    } else if (change.field === "team_id") {
+      events.push({
+        id: `team-${index}`,
+        type: "team",
+        date: toDate(change.changed_at),
+        title: change.new_value ? `Vinculado à equipe ${teamName(change.new_value)}` : "Desvinculado da equipe",
+        description: change.old_value ? `Equipe anterior: ${teamName(change.old_value)}` : undefined,
+        actor: change.actor_name,
+      });
+    }
+  });
+
+  sources.workshopEntries.forEach((entry) => {
+    const place = entry.workshop_name ? ` (${entry.workshop_name})` : "";
+    events.push({
+      id: `workshop-in-${entry.id}`,
+      type: "workshop",
+      date: toDate(entry.entry_date),
+      title: `Entrada na oficina${place}`,
+      description: [entry.reason_type, entry.reason].filter(Boolean).join(" • "),
+    });
+    if (entry.exit_date) {
+      const days = differenceInDays(toDate(entry.exit_date), toDate(entry.entry_date));
+      events.push({
+        id: `workshop-out-${entry.id}`,
+        type: "workshop",
+        date: toDate(entry.exit_date),
+        title: `Saída da oficina${place}`,
+        description: `${days} dia(s) parado`,
+        cost: entry.maintenance_cost ?? undefined,
+      });
+    }
+  });
+
+  sources.maintenances.forEach((m) => {
+    const date = m.completed_date || m.scheduled_date;
+    if (!date) return;
+    events.push({
+      id: `maintenance-${m.id}`,
+      type: "maintenance",
+      date: toDate(date),
+      title: m.completed_date ? `Manutenção realizada: ${m.type}` : `Manutenção programada: ${m.type}`,
+      description: m.description || undefined,
+      cost: m.completed_date ? m.cost ?? undefined : undefined,
+    });
+  });
+
+  sources.incidents.forEach((incident) => {
+    events.push({
+      id: `incident-${incident.id}`,
+      type: "incident",
+      date: toDate(incident.date),
+      title: `Ocorrência (${incident.type}, ${incident.severity})`,
+      description: incident.description,
+    });
+  });
+
+  sources.attachments.forEach((attachment) => {
+    events.push({
+      id: `attachment-${attachment.id}`,
+      type: "attachment",
+      date: toDate(attachment.created_at),
+      title: `Documento anexado: ${attachment.file_name}`,
+      url: attachment.file_url,
+    });
+  });
+
+  sources.laudos.forEach((laudo) => {
+    const date = toDate(laudo.date);
+    events.push({
+      id: `laudo-${laudo.label}`,
+      type: "laudo",
+      date,
+      title: date < today ? `${laudo.label} venceu` : `${laudo.label} vence`,
+    });
+  });
+
+  return events.sort((a, b) => b.date.getTime() - a.date.getTime());
+}
+
+export interface VehicleTco {
+  workshopCost: number;
+  maintenanceCost: number;
+  totalCost: number;
+  workshopStays: number;
+  workshopDays: number;
+  /** Months between the first record (or registration) and today, at least 1 */
+  monthsTracked: number;
+  costPerMonth: number;
+  kmTraveled: number | null;
+  costPerKm: number | null;
+}
+
+/**
+ * Per-vehicle cost summary: workshop and maintenance costs, downtime and,
+ * when there are odometer readings, cost per km
+ */
+export function calculateVehicleTco(
+  workshopEntries: TimelineWorkshopEntry[],
+  maintenances: TimelineMaintenance[],
+  odometerKms: number[],
+  since: string,
+  today: Date = new Date()
+): VehicleTco {
+  const workshopCost = workshopEntries.reduce((sum, e) => sum + (e.maintenance_cost || 0), 0);
+  const maintenanceCost = maintenances
+    .filter((m) => m.completed_date)
+    .reduce((sum, m) => sum + (m.cost || 0), 0);
+  const totalCost = workshopCost + maintenanceCost;
+
+  const workshopDays = workshopEntries.reduce((sum, e) => {
+    const end = e.exit_date ? toDate(e.exit_date) : today;
+    return sum + Math.max(0, differenceInDays(end, toDate(e.entry_date)));
+  }, 0);
+
+  const firstDate = [since, ...workshopEntries.map((e) => e.entry_date)]
+    .map(toDate)
+    .reduce((min, d) => (d < min ? d : min));
+  const monthsTracked = Math.max(1, differenceInMonths(today, firstDate));
+
+  const kmTraveled = odometerKms.length > 1 ? Math.max(...odometerKms) - Math.min(...odometerKms) : null;
+
+  return {
+    workshopCost,
+    maintenanceCost,
+    totalCost,
+    workshopStays: workshopEntries.length,
+    workshopDays,
+    monthsTracked,
+    costPerMonth: totalCost / monthsTracked,
+    kmTraveled,
+    costPerKm: kmTraveled ? totalCost / kmTraveled : null,
+  };
+}
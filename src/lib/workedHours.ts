@@ -0,0 +1,62 @@
+/**
+ * Worked hours (horas trabalhadas)
+ *
+ * Supervisors register the return time of the teams that departed; the
+ * team_worked_hours view pairs it with the departure time and the schedule of
+ * the day. Overtime is the time past the scheduled exit, and a return before
+ * the exit needs a reason. Teams that come back after midnight are flagged as
+ * returning the next day, and their return time counts from the next day.
+ */
+
+import { timeToMinutes } from "@/lib/teamSchedule";
+
+export interface WorkedHoursRow {
+  departure_id: string;
+  date: string;
+  team_id: string;
+  supervisor_id: string;
+  departure_time: string;
+  return_time: string;
+  returned_next_day: boolean;
+  early_return_reason: string | null;
+  scheduled_exit_time: string;
+  worked_minutes: number;
+  overtime_minutes: number;
+  early_return_minutes: number;
+}
+
+/** Minutes after (positive) or before (negative) the scheduled exit */
+export const getReturnDeviation = (returnTime: string, scheduledExitTime: string, nextDay = false) =>
+  timeToMinutes(returnTime) + (nextDay ? 24 * 60 : 0) - timeToMinutes(scheduledExitTime);
+
+/** "8h05" style duration */
+export const formatMinutes = (minutes: number) => {
+  const sign = minutes < 0 ? "-" : "";
+  const abs = Math.abs(Math.round(minutes));
+  return `${sign}${Math.floor(abs / 60)}h${String(abs % 60).padStart(2, "0")}`;
+};
+
+export interface WorkedHoursSummary {
+  teamDays: number;
+  workedMinutes: number;
+  overtimeMinutes: number;
+  earlyReturns: number;
+}
+
+/** Totals of worked hours grouped by a key (team, supervisor...) */
+export function summarizeWorkedHours(
+  rows: WorkedHoursRow[],
+  keyOf: (row: WorkedHoursRow) => string,
+): Map<string, WorkedHoursSummary> {
+  const summaries = new Map<string, WorkedHoursSummary>();
+  rows.forEach((row) => {
+    const key = keyOf(row);
+    const summary = summaries.get(key) ?? { teamDays: 0, workedMinutes: 0, overtimeMinutes: 0, earlyReturns: 0 };
+    summary.teamDays += 1;
+    summary.workedMinutes += row.worked_minutes;
+    summary.overtimeMinutes += row.overtime_minutes;
+    if (row.early_return_minutes > 0) summary.earlyReturns += 1;
+    summaries.set(key, summary);
+  });
+  return summaries;
+}
@@ -0,0 +1,98 @@
+/**
+ * Workshop flow helpers
+ *
+ * A workshop entry moves through entrada → diagnóstico → orçamento →
+ * aprovado → execução → concluída. The database trigger only accepts these
+ * transitions; the helpers here drive the UI and the cost variance indicators.
+ */
+
+export type WorkshopStage = "entrada" | "diagnostico" | "orcamento" | "aprovado" | "execucao" | "concluida";
+
+export const WORKSHOP_STAGES: WorkshopStage[] = ["entrada", "diagnostico", "orcamento", "aprovado", "execucao", "concluida"];
+
+export const WORKSHOP_STAGE_LABELS: Record<WorkshopStage, string> = {
+  entrada: "Entrada",
+  diagnostico: "Diagnóstico",
+  orcamento: "Orçamento",
+  aprovado: "Aprovado",
+  execucao: "Execução",
+  concluida: "Concluída",
+};
+
+export const WORKSHOP_STAGE_CLASSES: Record<WorkshopStage, string> = {
+  entrada: "bg-gray-500/20 text-gray-700",
+  diagnostico: "bg-blue-500/20 text-blue-700",
+  orcamento: "bg-yellow-500/20 text-yellow-700",
+  aprovado: "bg-purple-500/20 text-purple-700",
+  execucao: "bg-orange-500/20 text-orange-700",
+  concluida: "bg-green-500/20 text-green-700",
+};
+
+export type QuoteStatus = "pendente" | "aprovado" | "rejeitado";
+
+export const QUOTE_STATUS_LABELS: Record<QuoteStatus, string> = {
+  pendente: "Aguardando aprovação",
+  aprovado: "Aprovado",
+  rejeitado: "Rejeitado",
+};
+
+export type QuoteItemType = "peca" | "servico";
+
+export const QUOTE_ITEM_TYPE_LABELS: Record<QuoteItemType, string> = {
+  peca: "Peça",
+  servico: "Serviço",
+};
+
+export const WORKSHOP_NAMES = [
+  "HidrauAgri",
+  "HidrauWetec",
+  "SETEC",
+  "POLINOX",
+  "Flach",
+  "Centro Oeste",
+  "Rio Preto",
+  "Dois Irmãos",
+  "Delta Diesel",
+  "BM Suspensões",
+  "Alternativa Pneus",
+  "E-Force",
+  "JJMT",
+  "TECMARQUES",
+];
+
+export interface WorkshopQuoteItem {
+  id: string;
+  quote_id: string;
+  item_type: QuoteItemType;
+  description: string;
+  quantity: number;
+  unit_price: number;
+}
+
+export interface WorkshopQuote {
+  id: string;
+  workshop_entry_id: string;
+  workshop_name: string;
+  quote_date: string;
+  valid_until: string | null;
+  status: QuoteStatus;
+  total: number;
+  notes: string | null;
+  created_at: string;
+  workshop_quote_items: WorkshopQuoteItem[];
+}
+
+export const getStageIndex = (stage: WorkshopStage) => WORKSHOP_STAGES.indexOf(stage);
+
+export const quoteItemsTotal = (items: { quantity: number; unit_price: number }[]) =>
+  items.reduce((sum, item) => sum + item.quantity * item.unit_price, 0);
+
+/**
+ * Difference between the final cost and the approved quote.
+ * Positive values mean the repair cost more than approved.
+ */
+export function getCostVariance(actualCost: number | null, approvedTotal: number | null) {
+  if (actualCost === null || approvedTotal === null || approvedTotal <= 0) return null;
+  const amount = actualCost - approvedTotal;
+  return { amount, percent: (amount / approvedTotal) * 100 };
+}
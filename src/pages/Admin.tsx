@@ -31,9 +31,17 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Checkbox } from "@/components/ui/checkbox";
-import { Plus, User, Users, Shield, Link2, Unlink, KeyRound, UserPlus, Settings, Check, Trash2, Pencil } from "lucide-react";
+import { Plus, User, Users, Shield, Link2, Unlink, KeyRound, UserPlus, Settings, Check, Trash2, Pencil, History, RefreshCw, Key, Target, ListChecks, Timer, FileX } from "lucide-react";
 import { ExportButton } from "@/components/ExportButton";
+import { AuditLogTab } from "@/components/admin/AuditLogTab";
+import { SyncRunsTab } from "@/components/admin/SyncRunsTab";
+import { ApiKeysTab } from "@/components/admin/ApiKeysTab";
+import { ProductionTargetsTab } from "@/components/admin/ProductionTargetsTab";
+import { NoDepartureReasonsTab } from "@/components/admin/NoDepartureReasonsTab";
+import { DepartureCutoffTab } from "@/components/admin/DepartureCutoffTab";
+import { GlosaReasonsTab } from "@/components/admin/GlosaReasonsTab";
 import { CsvColumn } from "@/lib/exportCsv";
+import { invokeManageUsers } from "@/lib/manageUsers";
 import { toast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
 import { z } from "zod";
@@ -293,18 +301,18 @@ const Admin = () => {
       const { data: session } = await supabase.auth.getSession();
       if (!session.session) throw new Error("Não autenticado");
 
-      const response = await supabase.functions.invoke("manage-users", {
-        body: { action: "create", name: data.name, username: data.username, password: data.password, role: data.role },
+      const created = await invokeManageUsers<{ userId: string }>("create", {
+        name: data.name,
+        username: data.username,
+        password: data.password,
+        role: data.role,
       });
 
-      if (response.error) throw new Error(response.error.message);
-      if (response.data?.error) throw new Error(response.data.error);
-
       // If a permission profile was selected, assign it
-      if (data.permissionProfileId && response.data?.userId) {
+      if (data.permissionProfileId && created.userId) {
         const { error: permError } = await supabase
           .from("user_permissions")
-          .insert({ user_id: response.data.userId, profile_id: data.permissionProfileId });
+          .insert({ user_id: created.userId, profile_id: data.permissionProfileId });
         if (permError) console.error("Error assigning permission profile:", permError);
       }
     },
@@ -327,12 +335,7 @@ const Admin = () => {
       const { data: session } = await supabase.auth.getSession();
       if (!session.session) throw new Error("Não autenticado");
 
-      const response = await supabase.functions.invoke("manage-users", {
-        body: { action: "delete", userId },
-      });
-
-      if (response.error) throw new Error(response.error.message);
-      if (response.data?.error) throw new Error(response.data.error);
+      await invokeManageUsers("delete", { userId });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["all_profiles"] });
@@ -351,12 +354,7 @@ const Admin = () => {
       const { data: session } = await supabase.auth.getSession();
       if (!session.session) throw new Error("Não autenticado");
 
-      const response = await supabase.functions.invoke("manage-users", {
-        body: { action: "update", userId: data.userId, name: data.name, role: data.role },
-      });
-
-      if (response.error) throw new Error(response.error.message);
-      if (response.data?.error) throw new Error(response.data.error);
+      await invokeManageUsers("update", { userId: data.userId, name: data.name, role: data.role });
 
       // Update permission profile
       const existing = userPermissions.find((up) => up.user_id === data.userId);
@@ -396,12 +394,7 @@ const Admin = () => {
       const { data: session } = await supabase.auth.getSession();
       if (!session.session) throw new Error("Não autenticado");
 
-      const response = await supabase.functions.invoke("manage-users", {
-        body: { action: "reset-password", userId, newPassword },
-      });
-
-      if (response.error) throw new Error(response.error.message);
-      if (response.data?.error) throw new Error(response.data.error);
+      await invokeManageUsers("reset-password", { userId, newPassword });
     },
     onSuccess: () => {
       toast({ title: "Senha alterada com sucesso!" });
@@ -572,6 +565,34 @@ const Admin = () => {
             <Settings className="h-4 w-4" />
             Permissões
           </TabsTrigger>
+          <TabsTrigger value="targets" className="gap-2">
+            <Target className="h-4 w-4" />
+            Metas
+          </TabsTrigger>
+          <TabsTrigger value="no_departure_reasons" className="gap-2">
+            <ListChecks className="h-4 w-4" />
+            Motivos de Não Saída
+          </TabsTrigger>
+          <TabsTrigger value="departure_cutoff" className="gap-2">
+            <Timer className="h-4 w-4" />
+            Prazo de Saídas
+          </TabsTrigger>
+          <TabsTrigger value="glosa_reasons" className="gap-2">
+            <FileX className="h-4 w-4" />
+            Motivos de Glosa
+          </TabsTrigger>
+          <TabsTrigger value="audit" className="gap-2">
+            <History className="h-4 w-4" />
+            Auditoria
+          </TabsTrigger>
+          <TabsTrigger value="sync" className="gap-2">
+            <RefreshCw className="h-4 w-4" />
+            Sincronização
+          </TabsTrigger>
+          <TabsTrigger value="api_keys" className="gap-2">
+            <Key className="h-4 w-4" />
+            Chaves de API
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="users">
@@ -1199,6 +1220,34 @@ const Admin = () => {
             ))}
           </div>
         </TabsContent>
+
+        <TabsContent value="targets">
+          <ProductionTargetsTab />
+        </TabsContent>
+
+        <TabsContent value="no_departure_reasons">
+          <NoDepartureReasonsTab />
+        </TabsContent>
+
+        <TabsContent value="departure_cutoff">
+          <DepartureCutoffTab />
+        </TabsContent>
+
+        <TabsContent value="glosa_reasons">
+          <GlosaReasonsTab />
+        </TabsContent>
+
+        <TabsContent value="audit">
+          <AuditLogTab />
+        </TabsContent>
+
+        <TabsContent value="sync">
+          <SyncRunsTab />
+        </TabsContent>
+
+        <TabsContent value="api_keys">
+          <ApiKeysTab />
+        </TabsContent>
       </Tabs>
     </MainLayout>
   );
@@ -17,14 +17,32 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { toast } from "@/hooks/use-toast";
 import { Calendar } from "@/components/ui/calendar";
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
-import { Plus, Search, Trash2, Save, Check, ChevronsUpDown, CalendarIcon, Users, BarChart3, X, MapPin, Pencil, Upload, CheckCircle } from "lucide-react";
+import { Plus, Search, Trash2, Save, Check, ChevronsUpDown, CalendarIcon, Users, BarChart3, X, MapPin, Pencil, CheckCircle, ClipboardCheck, FileDown } from "lucide-react";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
-import { Textarea } from "@/components/ui/textarea";
 import { cn } from "@/lib/utils";
 import { format } from "date-fns";
 import { ptBR } from "date-fns/locale";
 import { AnalyticsTab } from "@/components/budget/AnalyticsTab";
 import { ValuesComparisonChart } from "@/components/budget/ValuesComparisonChart";
+import { OseAgingCard } from "@/components/budget/OseAgingCard";
+import { OseStatusHistory } from "@/components/budget/OseStatusHistory";
+import { OseValidationDialog } from "@/components/budget/OseValidationDialog";
+import { OseMonthlyExport } from "@/components/budget/OseMonthlyExport";
+import { downloadOseDocuments, fetchOseDocument, getOseDocumentFileName } from "@/lib/oseDocument";
+import { getGlosaValue, getValidatedTotal } from "@/lib/oseValidation";
+import { PriceTable, PriceTableItem, findTableForDate, getServicePriceOn } from "@/lib/priceTables";
+import { PriceTablesTab } from "@/components/budget/PriceTablesTab";
+import { ServiceImportDialog } from "@/components/budget/ServiceImportDialog";
+import { ServiceImportHistory } from "@/components/budget/ServiceImportHistory";
+import {
+  OSE_STATUSES,
+  OseStatusPeriod,
+  getAllowedOseTransitions,
+  getOseStatusClassName,
+  getOseStatusLabel,
+  getPeriodDays,
+  isOseMeasurementLocked,
+} from "@/lib/oseStatus";
 
 interface Team {
   id: string;
@@ -39,6 +57,7 @@ interface ServiceCatalog {
   description: string;
   unit: string;
   gross_price: number;
+  is_active: boolean;
 }
 
 interface OSETrip {
@@ -71,6 +90,10 @@ interface OSEItem {
   unit_price: number;
   total_price: number;
   created_at: string;
+  validated_quantity: number | null;
+  validated_unit_price: number | null;
+  glosa_reason_id: string | null;
+  glosa_note: string | null;
   service?: ServiceCatalog;
 }
 
@@ -91,7 +114,7 @@ interface TripCartItem {
 }
 
 export default function Budget() {
-  const { user } = useAuth();
+  const { user, isAdmin } = useAuth();
   const queryClient = useQueryClient();
   
   const [activeTab, setActiveTab] = useState("oses");
@@ -142,13 +165,10 @@ export default function Budget() {
   const [editTripDate, setEditTripDate] = useState<Date | undefined>(undefined);
   const [editTripServices, setEditTripServices] = useState<{ service: ServiceCatalog; quantity: number }[]>([]);
   
-  // Import catalog
-  const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
-  const [importData, setImportData] = useState("");
-  
-  // Validated value editing
-  const [editingValidatedOseId, setEditingValidatedOseId] = useState<string | null>(null);
-  const [validatedValueInput, setValidatedValueInput] = useState<string>("");
+  // Item-level validation
+  const [isValidationDialogOpen, setIsValidationDialogOpen] = useState(false);
+
+  const [isExportingPdf, setIsExportingPdf] = useState(false);
 
   // Fetch services catalog
   const { data: services = [] } = useQuery({
@@ -176,6 +196,42 @@ export default function Budget() {
     },
   });
 
+  // Price tables in force on the dates being filled in, so the screen shows
+  // the same prices the items will be saved with
+  const { data: priceTables = [] } = useQuery({
+    queryKey: ["price_tables"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("price_tables")
+        .select("*")
+        .order("effective_from", { ascending: false });
+      if (error) throw error;
+      return data as PriceTable[];
+    },
+  });
+
+  const pricingTableIds = useMemo(() => {
+    const dates = [currentTripDate, newTripDate, editTripDate, ...tripCart.map((trip) => trip.date)].filter(Boolean);
+    const ids = dates.map((date) => findTableForDate(priceTables, date)?.id).filter(Boolean);
+    return Array.from(new Set(ids)).sort();
+  }, [priceTables, currentTripDate, newTripDate, editTripDate, tripCart]);
+
+  const { data: pricingItems = [] } = useQuery({
+    queryKey: ["price_table_items", pricingTableIds],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("price_table_items")
+        .select("id, price_table_id, service_id, gross_price")
+        .in("price_table_id", pricingTableIds);
+      if (error) throw error;
+      return data as PriceTableItem[];
+    },
+    enabled: pricingTableIds.length > 0,
+  });
+
+  const priceOn = (service: ServiceCatalog, date: Date | undefined) =>
+    getServicePriceOn(priceTables, pricingItems, service, date);
+
   // Fetch OSEs with trips
   const { data: oses = [] } = useQuery({
     queryKey: ["oses"],
@@ -209,6 +265,25 @@ export default function Budget() {
     },
   });
 
+  // Status periods of all OSEs, for the aging per stage and the history
+  const { data: statusPeriods = [] } = useQuery({
+    queryKey: ["ose_status_history"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("ose_status_history")
+        .select("id, ose_id, status, started_at, ended_at, changed_by")
+        .order("started_at");
+      if (error) throw error;
+      return data as OseStatusPeriod[];
+    },
+  });
+
+  // Open period of each OSE = time in the current stage
+  const currentPeriodByOse = useMemo(
+    () => new Map(statusPeriods.filter((p) => !p.ended_at).map((p) => [p.ose_id, p])),
+    [statusPeriods]
+  );
+
   // Fetch items for selected OSE (grouped by trip)
   const { data: oseTripsWithItems = [] } = useQuery({
     queryKey: ["ose-trips-items", selectedOse?.id],
@@ -276,14 +351,17 @@ export default function Budget() {
   });
 
   // Filtered services for search
+  // Services deactivated by an import are no longer offered
+  const activeServices = useMemo(() => services.filter((s) => s.is_active), [services]);
+
   const filteredServices = useMemo(() => {
-    if (!upSearch) return services.slice(0, 50);
-    return services.filter(
+    if (!upSearch) return activeServices.slice(0, 50);
+    return activeServices.filter(
       (s) =>
         s.up.toLowerCase().includes(upSearch.toLowerCase()) ||
         s.description.toLowerCase().includes(upSearch.toLowerCase())
     ).slice(0, 50);
-  }, [services, upSearch]);
+  }, [activeServices, upSearch]);
 
   // Filtered OSEs
   const filteredOses = useMemo(() => {
@@ -314,6 +392,11 @@ export default function Budget() {
     });
   }, [oses, oseFilter, statusFilter, teamFilter, dateFromFilter, dateToFilter]);
 
+  const filteredStatusPeriods = useMemo(() => {
+    const ids = new Set(filteredOses.map((ose) => ose.id));
+    return statusPeriods.filter((p) => ids.has(p.ose_id));
+  }, [filteredOses, statusPeriods]);
+
 
   // Create OSE mutation
   const createOse = useMutation({
@@ -322,19 +405,14 @@ export default function Budget() {
       if (!newOseNumber) throw new Error("Número da OSE é obrigatório");
       if (tripCart.length === 0) throw new Error("Adicione pelo menos uma ida");
 
-      const totalValue = tripCart.reduce(
-        (sum, trip) => sum + trip.services.reduce((s, item) => s + item.service.gross_price * item.quantity, 0),
-        0
-      );
-
-      // Create OSE
+      // Create OSE (items are priced by the table in force on the trip date
+      // and the total is kept by the database)
       const { data: ose, error: oseError } = await supabase
         .from("oses")
         .insert({
           ose_number: newOseNumber,
           description: newOseDescription || null,
           created_by: user.id,
-          total_value: totalValue,
         })
         .select()
         .single();
@@ -361,8 +439,8 @@ export default function Budget() {
           trip_id: tripData.id,
           service_id: item.service.id,
           quantity: item.quantity,
-          unit_price: item.service.gross_price,
-          total_price: item.service.gross_price * item.quantity,
+          unit_price: priceOn(item.service, trip.date),
+          total_price: priceOn(item.service, trip.date) * item.quantity,
         }));
 
         const { error: itemsError } = await supabase.from("ose_items").insert(items);
@@ -373,6 +451,7 @@ export default function Budget() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["oses"] });
+      queryClient.invalidateQueries({ queryKey: ["ose_status_history"] });
       setIsNewOseDialogOpen(false);
       resetNewOseForm();
       toast({ title: "OSE criada com sucesso!" });
@@ -389,11 +468,6 @@ export default function Budget() {
         throw new Error("Dados incompletos");
       }
 
-      const tripTotal = newTripServices.reduce(
-        (sum, item) => sum + item.service.gross_price * item.quantity,
-        0
-      );
-
       // Create trip
       const { data: tripData, error: tripError } = await supabase
         .from("ose_trips")
@@ -413,18 +487,12 @@ export default function Budget() {
         trip_id: tripData.id,
         service_id: item.service.id,
         quantity: item.quantity,
-        unit_price: item.service.gross_price,
-        total_price: item.service.gross_price * item.quantity,
+        unit_price: priceOn(item.service, newTripDate),
+        total_price: priceOn(item.service, newTripDate) * item.quantity,
       }));
 
       const { error: itemsError } = await supabase.from("ose_items").insert(items);
       if (itemsError) throw itemsError;
-
-      // Update OSE total
-      await supabase
-        .from("oses")
-        .update({ total_value: selectedOse.total_value + tripTotal })
-        .eq("id", selectedOse.id);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["oses"] });
@@ -446,30 +514,30 @@ export default function Budget() {
       const trip = oseTripsWithItems.find(t => t.id === tripId);
       if (!trip || !selectedOse) return;
 
-      const tripTotal = (trip.items || []).reduce((sum, item) => sum + item.total_price, 0);
-
-      await supabase.from("ose_items").delete().eq("trip_id", tripId);
-      await supabase.from("ose_trips").delete().eq("id", tripId);
-      
-      await supabase
-        .from("oses")
-        .update({ total_value: selectedOse.total_value - tripTotal })
-        .eq("id", selectedOse.id);
+      const { error: itemsError } = await supabase.from("ose_items").delete().eq("trip_id", tripId);
+      if (itemsError) throw itemsError;
+      const { error } = await supabase.from("ose_trips").delete().eq("id", tripId);
+      if (error) throw error;
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["oses"] });
       queryClient.invalidateQueries({ queryKey: ["ose-trips-items", selectedOse?.id] });
       toast({ title: "Ida removida!" });
     },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao remover ida", description: error.message, variant: "destructive" });
+    },
   });
 
   // Delete OSE
   const deleteOse = useMutation({
     mutationFn: async (oseId: string) => {
       // Delete items first
-      await supabase.from("ose_items").delete().eq("ose_id", oseId);
+      const { error: itemsError } = await supabase.from("ose_items").delete().eq("ose_id", oseId);
+      if (itemsError) throw itemsError;
       // Delete trips
-      await supabase.from("ose_trips").delete().eq("ose_id", oseId);
+      const { error: tripsError } = await supabase.from("ose_trips").delete().eq("ose_id", oseId);
+      if (tripsError) throw tripsError;
       // Delete OSE
       const { error } = await supabase.from("oses").delete().eq("id", oseId);
       if (error) throw error;
@@ -502,6 +570,7 @@ export default function Budget() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["oses"] });
+      queryClient.invalidateQueries({ queryKey: ["ose_status_history"] });
       setIsEditOseDialogOpen(false);
       toast({ title: "OSE atualizada com sucesso!" });
     },
@@ -517,15 +586,6 @@ export default function Budget() {
         throw new Error("Dados incompletos");
       }
 
-      // Calculate old total
-      const oldTripTotal = (editingTrip.items || []).reduce((s, i) => s + i.total_price, 0);
-      
-      // Calculate new total
-      const newTripTotal = editTripServices.reduce(
-        (sum, item) => sum + item.service.gross_price * item.quantity,
-        0
-      );
-
       // Update trip
       const { error: tripError } = await supabase
         .from("ose_trips")
@@ -538,7 +598,8 @@ export default function Budget() {
       if (tripError) throw tripError;
 
       // Delete old items
-      await supabase.from("ose_items").delete().eq("trip_id", editingTrip.id);
+      const { error: deleteError } = await supabase.from("ose_items").delete().eq("trip_id", editingTrip.id);
+      if (deleteError) throw deleteError;
 
       // Create new items
       if (editTripServices.length > 0) {
@@ -547,19 +608,13 @@ export default function Budget() {
           trip_id: editingTrip.id,
           service_id: item.service.id,
           quantity: item.quantity,
-          unit_price: item.service.gross_price,
-          total_price: item.service.gross_price * item.quantity,
+          unit_price: priceOn(item.service, editTripDate),
+          total_price: priceOn(item.service, editTripDate) * item.quantity,
         }));
 
         const { error: itemsError } = await supabase.from("ose_items").insert(items);
         if (itemsError) throw itemsError;
       }
-
-      // Update OSE total
-      await supabase
-        .from("oses")
-        .update({ total_value: selectedOse.total_value - oldTripTotal + newTripTotal })
-        .eq("id", selectedOse.id);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["oses"] });
@@ -573,80 +628,30 @@ export default function Budget() {
     },
   });
 
-  // Update validated value
-  const updateValidatedValue = useMutation({
-    mutationFn: async ({ oseId, value }: { oseId: string; value: number | null }) => {
-      const { error } = await supabase
-        .from("oses")
-        .update({ validated_value: value } as any)
-        .eq("id", oseId);
-      
-      if (error) throw error;
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["oses"] });
-      setEditingValidatedOseId(null);
-      setValidatedValueInput("");
-      toast({ title: "Valor validado atualizado!" });
-    },
-    onError: (error: Error) => {
-      toast({ title: "Erro ao atualizar valor validado", description: error.message, variant: "destructive" });
-    },
-  });
-
-  // Import services catalog
-  const importCatalog = useMutation({
-    mutationFn: async () => {
-      if (!importData.trim()) throw new Error("Dados vazios");
-      
-      const lines = importData.trim().split("\n");
-      const services: { up: string; service_number: string; description: string; unit: string; gross_price: number }[] = [];
-      
-      for (const line of lines) {
-        // Expected format: UP;Número;Descrição;Unidade;Preço
-        const parts = line.split(";").map(p => p.trim());
-        if (parts.length >= 5) {
-          const price = parseFloat(parts[4].replace(",", ".").replace(/[^\d.]/g, ""));
-          if (!isNaN(price)) {
-            services.push({
-              up: parts[0],
-              service_number: parts[1],
-              description: parts[2],
-              unit: parts[3],
-              gross_price: price,
-            });
-          }
-        }
-      }
-      
-      if (services.length === 0) throw new Error("Nenhum serviço válido encontrado");
-      
-      const { error } = await supabase.from("service_catalog").insert(services);
-      if (error) throw error;
-      
-      return services.length;
-    },
-    onSuccess: (count) => {
-      queryClient.invalidateQueries({ queryKey: ["service-catalog"] });
-      setIsImportDialogOpen(false);
-      setImportData("");
-      toast({ title: `${count} serviços importados com sucesso!` });
-    },
-    onError: (error: Error) => {
-      toast({ title: "Erro ao importar", description: error.message, variant: "destructive" });
-    },
-  });
-
   // Open edit dialog
   const openEditDialog = () => {
     if (selectedOse) {
       setEditOseNumber(selectedOse.ose_number);
       setEditOseDescription(selectedOse.description || "");
-      setEditOseStatus(selectedOse.status);
+      // The status may have moved since the OSE was selected
+      setEditOseStatus(oses.find((o) => o.id === selectedOse.id)?.status ?? selectedOse.status);
       setIsEditOseDialogOpen(true);
     }
   };
 
+  // Measurement document of a single OSE, downloaded as PDF
+  const exportOsePdf = async (ose: OSE) => {
+    setIsExportingPdf(true);
+    try {
+      const doc = await fetchOseDocument(ose.id);
+      downloadOseDocuments([doc], getOseDocumentFileName(ose.ose_number));
+    } catch (error) {
+      toast({ title: "Erro ao gerar PDF", description: (error as Error).message, variant: "destructive" });
+    } finally {
+      setIsExportingPdf(false);
+    }
+  };
+
   // Helper functions
   const resetNewOseForm = () => {
     setNewOseNumber("");
@@ -723,7 +728,7 @@ export default function Budget() {
   };
 
   const cartTotal = tripCart.reduce(
-    (sum, trip) => sum + trip.services.reduce((s, item) => s + item.service.gross_price * item.quantity, 0),
+    (sum, trip) => sum + trip.services.reduce((s, item) => s + priceOn(item.service, trip.date) * item.quantity, 0),
     0
   );
 
@@ -899,7 +904,7 @@ export default function Budget() {
                                         </div>
                                       </div>
                                       <div className="text-sm font-medium">
-                                        {formatCurrency(service.gross_price)}
+                                        {formatCurrency(priceOn(service, currentTripDate))}
                                       </div>
                                     </CommandItem>
                                   ))}
@@ -932,10 +937,10 @@ export default function Budget() {
                         {currentTripServices.map((item, index) => (
                           <div key={index} className="flex items-center justify-between bg-muted p-2 rounded">
                             <span className="text-sm">
-                              {item.service.up} - {item.quantity}x {formatCurrency(item.service.gross_price)}
+                              {item.service.up} - {item.quantity}x {formatCurrency(priceOn(item.service, currentTripDate))}
                             </span>
                             <div className="flex items-center gap-2">
-                              <span className="font-medium">{formatCurrency(item.service.gross_price * item.quantity)}</span>
+                              <span className="font-medium">{formatCurrency(priceOn(item.service, currentTripDate) * item.quantity)}</span>
                               <Button variant="ghost" size="icon" onClick={() => removeServiceFromCurrentTrip(index)}>
                                 <X className="h-4 w-4" />
                               </Button>
@@ -945,7 +950,7 @@ export default function Budget() {
                         <div className="flex justify-between pt-2 border-t">
                           <span className="font-medium">Subtotal da ida:</span>
                           <span className="font-bold">
-                            {formatCurrency(currentTripServices.reduce((s, i) => s + i.service.gross_price * i.quantity, 0))}
+                            {formatCurrency(currentTripServices.reduce((s, i) => s + priceOn(i.service, currentTripDate) * i.quantity, 0))}
                           </span>
                         </div>
                       </div>
@@ -981,7 +986,7 @@ export default function Budget() {
                                   </span>
                                 </div>
                                 <span className="font-bold">
-                                  {formatCurrency(trip.services.reduce((s, i) => s + i.service.gross_price * i.quantity, 0))}
+                                  {formatCurrency(trip.services.reduce((s, i) => s + priceOn(i.service, trip.date) * i.quantity, 0))}
                                 </span>
                               </div>
                             </AccordionTrigger>
@@ -990,7 +995,7 @@ export default function Budget() {
                                 {trip.services.map((item, itemIndex) => (
                                   <div key={itemIndex} className="flex items-center justify-between text-sm bg-muted p-2 rounded">
                                     <span>{item.service.up} - {item.quantity}x</span>
-                                    <span>{formatCurrency(item.service.gross_price * item.quantity)}</span>
+                                    <span>{formatCurrency(priceOn(item.service, trip.date) * item.quantity)}</span>
                                   </div>
                                 ))}
                                 <Button
@@ -1037,6 +1042,7 @@ export default function Budget() {
               Analítico
             </TabsTrigger>
             <TabsTrigger value="catalog">Catálogo de Serviços</TabsTrigger>
+            <TabsTrigger value="price_tables">Tabelas de Preço</TabsTrigger>
           </TabsList>
 
           <TabsContent value="oses" className="space-y-4">
@@ -1056,14 +1062,16 @@ export default function Budget() {
                     </div>
                   </div>
                   <Select value={statusFilter} onValueChange={setStatusFilter}>
-                    <SelectTrigger className="w-[150px]">
+                    <SelectTrigger className="w-[190px]">
                       <SelectValue placeholder="Status" />
                     </SelectTrigger>
                     <SelectContent>
                       <SelectItem value="all">Todos</SelectItem>
-                      <SelectItem value="aberta">Aberta</SelectItem>
-                      <SelectItem value="em_andamento">Em Andamento</SelectItem>
-                      <SelectItem value="finalizada">Finalizada</SelectItem>
+                      {OSE_STATUSES.map((status) => (
+                        <SelectItem key={status} value={status}>
+                          {getOseStatusLabel(status)}
+                        </SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                   <Select value={teamFilter} onValueChange={setTeamFilter}>
@@ -1119,6 +1127,9 @@ export default function Budget() {
                       Limpar
                     </Button>
                   )}
+                  <div className="ml-auto">
+                    <OseMonthlyExport oses={oses} />
+                  </div>
                 </div>
               </CardContent>
             </Card>
@@ -1130,6 +1141,8 @@ export default function Budget() {
               dateToFilter={dateToFilter}
             />
 
+            <OseAgingCard periods={filteredStatusPeriods} />
+
             {/* OSE List with inline details */}
             <div className="space-y-4">
               {filteredOses.map((ose) => (
@@ -1144,17 +1157,16 @@ export default function Budget() {
                     <CardHeader className="pb-2">
                       <div className="flex items-center justify-between">
                         <CardTitle className="text-lg">{ose.ose_number}</CardTitle>
-                        <Badge
-                          variant={
-                            ose.status === "aberta"
-                              ? "default"
-                              : ose.status === "em_andamento"
-                              ? "secondary"
-                              : "outline"
-                          }
-                        >
-                          {ose.status === "aberta" ? "Aberta" : ose.status === "em_andamento" ? "Em Andamento" : "Finalizada"}
-                        </Badge>
+                        <div className="flex items-center gap-2">
+                          {currentPeriodByOse.has(ose.id) && (
+                            <span className="text-xs text-muted-foreground">
+                              há {Math.floor(getPeriodDays(currentPeriodByOse.get(ose.id)!))} d
+                            </span>
+                          )}
+                          <Badge className={getOseStatusClassName(ose.status)}>
+                            {getOseStatusLabel(ose.status)}
+                          </Badge>
+                        </div>
                       </div>
                       {ose.description && (
                         <CardDescription className="line-clamp-1">{ose.description}</CardDescription>
@@ -1194,58 +1206,6 @@ export default function Budget() {
                             )}
                           </div>
                         </div>
-                        
-                        {/* Validated Value Input */}
-                        <div 
-                          className="pt-2 border-t mt-2"
-                          onClick={(e) => e.stopPropagation()}
-                        >
-                          {editingValidatedOseId === ose.id ? (
-                            <div className="flex items-center gap-2">
-                              <Input
-                                type="number"
-                                step="0.01"
-                                placeholder="Valor validado EQTL"
-                                value={validatedValueInput}
-                                onChange={(e) => setValidatedValueInput(e.target.value)}
-                                className="flex-1"
-                              />
-                              <Button
-                                size="sm"
-                                onClick={() => {
-                                  const value = validatedValueInput ? parseFloat(validatedValueInput) : null;
-                                  updateValidatedValue.mutate({ oseId: ose.id, value });
-                                }}
-                                disabled={updateValidatedValue.isPending}
-                              >
-                                <Check className="h-4 w-4" />
-                              </Button>
-                              <Button
-                                size="sm"
-                                variant="ghost"
-                                onClick={() => {
-                                  setEditingValidatedOseId(null);
-                                  setValidatedValueInput("");
-                                }}
-                              >
-                                <X className="h-4 w-4" />
-                              </Button>
-                            </div>
-                          ) : (
-                            <Button
-                              variant="outline"
-                              size="sm"
-                              className="w-full"
-                              onClick={() => {
-                                setEditingValidatedOseId(ose.id);
-                                setValidatedValueInput(ose.validated_value?.toString() || "");
-                              }}
-                            >
-                              <CheckCircle className="h-4 w-4 mr-2" />
-                              {ose.validated_value ? "Editar Valor Validado" : "Lançar Valor Validado"}
-                            </Button>
-                          )}
-                        </div>
                       </div>
                     </CardContent>
                   </Card>
@@ -1293,11 +1253,18 @@ export default function Budget() {
                                   <SelectValue />
                                 </SelectTrigger>
                                 <SelectContent>
-                                  <SelectItem value="aberta">Aberta</SelectItem>
-                                  <SelectItem value="em_andamento">Em Andamento</SelectItem>
-                                  <SelectItem value="finalizada">Finalizada</SelectItem>
+                                  {[ose.status, ...getAllowedOseTransitions(ose.status, isAdmin)].map((status) => (
+                                    <SelectItem key={status} value={status}>
+                                      {getOseStatusLabel(status)}
+                                    </SelectItem>
+                                  ))}
                                 </SelectContent>
                               </Select>
+                              {getAllowedOseTransitions(ose.status, isAdmin).length === 0 && (
+                                <p className="text-xs text-muted-foreground">
+                                  Nenhuma mudança de status disponível para o seu perfil nesta etapa.
+                                </p>
+                              )}
                             </div>
                             <div className="flex justify-end gap-2">
                               <Button variant="outline" onClick={() => setIsEditOseDialogOpen(false)}>
@@ -1311,10 +1278,20 @@ export default function Budget() {
                         </DialogContent>
                       </Dialog>
 
+                      <Button variant="outline" className="gap-2" onClick={() => exportOsePdf(ose)} disabled={isExportingPdf}>
+                        <FileDown className="h-4 w-4" />
+                        PDF
+                      </Button>
+
+                      <Button variant="outline" className="gap-2" onClick={() => setIsValidationDialogOpen(true)}>
+                        <ClipboardCheck className="h-4 w-4" />
+                        Validação
+                      </Button>
+
                       {/* Delete OSE */}
                       <AlertDialog>
                         <AlertDialogTrigger asChild>
-                          <Button variant="destructive" size="icon">
+                          <Button variant="destructive" size="icon" disabled={isOseMeasurementLocked(ose.status)}>
                             <Trash2 className="h-4 w-4" />
                           </Button>
                         </AlertDialogTrigger>
@@ -1339,7 +1316,7 @@ export default function Budget() {
 
                       <Dialog open={isAddTripDialogOpen} onOpenChange={setIsAddTripDialogOpen}>
                         <DialogTrigger asChild>
-                          <Button>
+                          <Button disabled={isOseMeasurementLocked(ose.status)}>
                             <Plus className="h-4 w-4 mr-2" />
                             Nova Ida
                           </Button>
@@ -1434,7 +1411,7 @@ export default function Budget() {
                                                 {service.description}
                                               </div>
                                             </div>
-                                            <span className="text-sm">{formatCurrency(service.gross_price)}</span>
+                                            <span className="text-sm">{formatCurrency(priceOn(service, newTripDate))}</span>
                                           </CommandItem>
                                         ))}
                                       </CommandGroup>
@@ -1465,7 +1442,7 @@ export default function Budget() {
                                 <div key={index} className="flex items-center justify-between bg-muted p-2 rounded">
                                   <span className="text-sm">{item.service.up} - {item.quantity}x</span>
                                   <div className="flex items-center gap-2">
-                                    <span>{formatCurrency(item.service.gross_price * item.quantity)}</span>
+                                    <span>{formatCurrency(priceOn(item.service, newTripDate) * item.quantity)}</span>
                                     <Button variant="ghost" size="icon" onClick={() => removeServiceFromNewTrip(index)}>
                                       <X className="h-4 w-4" />
                                     </Button>
@@ -1474,7 +1451,7 @@ export default function Budget() {
                               ))}
                               <div className="flex justify-between pt-2 border-t font-medium">
                                 <span>Total:</span>
-                                <span>{formatCurrency(newTripServices.reduce((s, i) => s + i.service.gross_price * i.quantity, 0))}</span>
+                                <span>{formatCurrency(newTripServices.reduce((s, i) => s + priceOn(i.service, newTripDate) * i.quantity, 0))}</span>
                               </div>
                             </div>
                           )}
@@ -1525,6 +1502,7 @@ export default function Budget() {
                                   <TableHead className="text-right">Qtd</TableHead>
                                   <TableHead className="text-right">Unit.</TableHead>
                                   <TableHead className="text-right">Total</TableHead>
+                                  <TableHead className="text-right">Validado</TableHead>
                                 </TableRow>
                               </TableHeader>
                               <TableBody>
@@ -1535,28 +1513,35 @@ export default function Budget() {
                                     <TableCell className="text-right">{item.quantity}</TableCell>
                                     <TableCell className="text-right">{formatCurrency(item.unit_price)}</TableCell>
                                     <TableCell className="text-right font-medium">{formatCurrency(item.total_price)}</TableCell>
+                                    <TableCell
+                                      className={cn("text-right", getGlosaValue(item) > 0 ? "text-destructive" : "text-muted-foreground")}
+                                    >
+                                      {getValidatedTotal(item) === null ? "-" : formatCurrency(getValidatedTotal(item)!)}
+                                    </TableCell>
                                   </TableRow>
                                 ))}
                               </TableBody>
                             </Table>
-                            <div className="flex justify-end mt-2 gap-2">
-                              <Button
-                                variant="outline"
-                                size="sm"
-                                onClick={() => openEditTripDialog(trip)}
-                              >
-                                <Pencil className="h-4 w-4 mr-2" />
-                                Editar Ida
-                              </Button>
-                              <Button
-                                variant="destructive"
-                                size="sm"
-                                onClick={() => deleteTrip.mutate(trip.id)}
-                              >
-                                <Trash2 className="h-4 w-4 mr-2" />
-                                Remover Ida
-                              </Button>
-                            </div>
+                            {!isOseMeasurementLocked(ose.status) && (
+                              <div className="flex justify-end mt-2 gap-2">
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={() => openEditTripDialog(trip)}
+                                >
+                                  <Pencil className="h-4 w-4 mr-2" />
+                                  Editar Ida
+                                </Button>
+                                <Button
+                                  variant="destructive"
+                                  size="sm"
+                                  onClick={() => deleteTrip.mutate(trip.id)}
+                                >
+                                  <Trash2 className="h-4 w-4 mr-2" />
+                                  Remover Ida
+                                </Button>
+                              </div>
+                            )}
                           </AccordionContent>
                         </AccordionItem>
                       ))}
@@ -1570,6 +1555,15 @@ export default function Budget() {
                       </span>
                     </div>
                   </div>
+                  <OseValidationDialog
+                    open={isValidationDialogOpen}
+                    onOpenChange={setIsValidationDialogOpen}
+                    ose={ose}
+                    trips={oseTripsWithItems}
+                  />
+                  <div className="mt-4 pt-4 border-t">
+                    <OseStatusHistory periods={statusPeriods.filter((p) => p.ose_id === selectedOse.id)} />
+                  </div>
 
                   {/* Edit Trip Dialog */}
                   <Dialog open={isEditTripDialogOpen} onOpenChange={setIsEditTripDialogOpen}>
@@ -1663,7 +1657,7 @@ export default function Budget() {
                                               {service.description}
                                             </div>
                                           </div>
-                                          <span className="text-sm">{formatCurrency(service.gross_price)}</span>
+                                          <span className="text-sm">{formatCurrency(priceOn(service, editTripDate))}</span>
                                         </CommandItem>
                                       ))}
                                     </CommandGroup>
@@ -1694,7 +1688,7 @@ export default function Budget() {
                               <div key={index} className="flex items-center justify-between bg-muted p-2 rounded">
                                 <span className="text-sm">{item.service.up} - {item.quantity}x</span>
                                 <div className="flex items-center gap-2">
-                                  <span>{formatCurrency(item.service.gross_price * item.quantity)}</span>
+                                  <span>{formatCurrency(priceOn(item.service, editTripDate) * item.quantity)}</span>
                                   <Button variant="ghost" size="icon" onClick={() => removeServiceFromEditTrip(index)}>
                                     <X className="h-4 w-4" />
                                   </Button>
@@ -1703,7 +1697,7 @@ export default function Budget() {
                             ))}
                             <div className="flex justify-between pt-2 border-t font-medium">
                               <span>Total:</span>
-                              <span>{formatCurrency(editTripServices.reduce((s, i) => s + i.service.gross_price * i.quantity, 0))}</span>
+                              <span>{formatCurrency(editTripServices.reduce((s, i) => s + priceOn(i.service, editTripDate) * i.quantity, 0))}</span>
                             </div>
                           </div>
                         )}
@@ -1754,55 +1748,9 @@ export default function Budget() {
                 <div className="flex items-center justify-between">
                   <div>
                     <CardTitle>Catálogo de Serviços</CardTitle>
-                    <CardDescription>Lista de todos os serviços disponíveis ({services.length} serviços)</CardDescription>
+                    <CardDescription>Lista de todos os serviços disponíveis ({activeServices.length} serviços)</CardDescription>
                   </div>
-                  <Dialog open={isImportDialogOpen} onOpenChange={setIsImportDialogOpen}>
-                    <DialogTrigger asChild>
-                      <Button>
-                        <Upload className="h-4 w-4 mr-2" />
-                        Importar Catálogo
-                      </Button>
-                    </DialogTrigger>
-                    <DialogContent className="max-w-3xl">
-                      <DialogHeader>
-                        <DialogTitle>Importar Catálogo de Serviços</DialogTitle>
-                      </DialogHeader>
-                      <div className="space-y-4">
-                        <div className="space-y-2">
-                          <Label>Cole os dados do catálogo (separados por ponto e vírgula)</Label>
-                          <p className="text-sm text-muted-foreground">
-                            Formato: UP;Número do Serviço;Descrição;Unidade;Preço
-                          </p>
-                          <p className="text-sm text-muted-foreground">
-                            Exemplo: UP001;12345;Instalação de poste;UN;150,00
-                          </p>
-                          <Textarea
-                            value={importData}
-                            onChange={(e) => setImportData(e.target.value)}
-                            placeholder="Cole os dados aqui, um serviço por linha..."
-                            rows={15}
-                            className="font-mono text-sm"
-                          />
-                        </div>
-                        <div className="flex justify-between items-center">
-                          <span className="text-sm text-muted-foreground">
-                            {importData.split("\n").filter(l => l.trim()).length} linhas
-                          </span>
-                          <div className="flex gap-2">
-                            <Button variant="outline" onClick={() => setIsImportDialogOpen(false)}>
-                              Cancelar
-                            </Button>
-                            <Button 
-                              onClick={() => importCatalog.mutate()} 
-                              disabled={importCatalog.isPending || !importData.trim()}
-                            >
-                              {importCatalog.isPending ? "Importando..." : "Importar"}
-                            </Button>
-                          </div>
-                        </div>
-                      </div>
-                    </DialogContent>
-                  </Dialog>
+                  {isAdmin && <ServiceImportDialog />}
                 </div>
               </CardHeader>
               <CardContent>
@@ -1843,6 +1791,12 @@ export default function Budget() {
                 </Table>
               </CardContent>
             </Card>
+
+            {isAdmin && <ServiceImportHistory />}
+          </TabsContent>
+
+          <TabsContent value="price_tables" className="space-y-4">
+            <PriceTablesTab services={services} />
           </TabsContent>
         </Tabs>
       </div>
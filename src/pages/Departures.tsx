@@ -6,6 +6,7 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Badge } from "@/components/ui/badge";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
@@ -15,22 +16,43 @@ import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/contexts/AuthContext";
 import { format } from "date-fns";
 import { ptBR } from "date-fns/locale";
-import { Play, Check, X, ChevronLeft, ChevronRight, Calendar, Clock, Users, Pencil, AlertCircle } from "lucide-react";
+import { Play, Check, X, ChevronLeft, ChevronRight, Calendar, Clock, Users, Pencil, AlertCircle, Wrench, Lock, LockOpen, LogIn } from "lucide-react";
 import { ExportButton } from "@/components/ExportButton";
 import { CsvColumn, formatBoolean } from "@/lib/exportCsv";
+import { checkOdometerReading, parseKmInput } from "@/lib/odometer";
+import { NoDepartureReason, WORKSHOP_REASON_CODE, formatNoDepartureReason } from "@/lib/noDepartureReasons";
+import { getVehicleStatusLabel, isVehicleInWorkshop } from "@/lib/vehicleStatus";
+import {
+  DepartureCutoffSettings,
+  DepartureUnlock,
+  findActiveUnlock,
+  formatDepartureDeadline,
+  getDepartureDeadline,
+} from "@/lib/departureCutoff";
+import { formatMinutes, getReturnDeviation } from "@/lib/workedHours";
 
 interface Team {
   id: string;
   name: string;
   type: string;
   show_in_departures: boolean;
-  vehicles: { plate: string; model: string } | null;
+  scheduled_exit_time: string;
+  vehicles: { id: string; plate: string; model: string; status: string } | null;
+}
+
+interface OpenWorkshopEntry {
+  id: string;
+  vehicle_id: string;
+  entry_date: string;
+  reason: string;
+  workshop_name: string | null;
 }
 
 interface TeamSchedule {
   team_id: string;
   is_working: boolean;
   observation: string | null;
+  scheduled_exit_time: string;
 }
 
 interface Departure {
@@ -41,16 +63,106 @@ interface Departure {
   departed: boolean;
   departure_time: string | null;
   no_departure_reason: string | null;
+  no_departure_reason_id: string | null;
+  workshop_entry_id: string | null;
+  registered_late: boolean;
+  return_time: string | null;
+  returned_next_day: boolean;
+  early_return_reason: string | null;
   teams: { name: string; type: string };
+  no_departure_reasons: { name: string } | null;
+  workshop_entries: { workshop_name: string | null } | null;
   supervisorName: string;
 }
 
 interface DepartureFormData {
   departed: boolean;
   departure_time: string;
+  no_departure_reason_id: string;
+  /** Optional note on the reason, required by some reasons */
   no_departure_reason: string;
+  /** Open workshop entry of the team's vehicle, kept only with the workshop reason */
+  workshop_entry_id: string | null;
+}
+
+interface ReturnFormData {
+  return_time: string;
+  returned_next_day: boolean;
+  early_return_reason: string;
+}
+
+const emptyReturn: ReturnFormData = { return_time: "", returned_next_day: false, early_return_reason: "" };
+
+/** Why the return can't be saved yet, or null when it can */
+const getReturnError = (data: ReturnFormData, departureTime: string | null, scheduledExitTime: string) => {
+  if (!data.return_time) return null;
+  if (departureTime && data.returned_next_day && data.return_time >= departureTime.slice(0, 5)) {
+    return "O retorno no dia seguinte deve ser antes do horário de saída";
+  }
+  if (departureTime && !data.returned_next_day && data.return_time <= departureTime.slice(0, 5)) {
+    return "O retorno deve ser após o horário de saída. Se a equipe voltou depois da meia-noite, marque \"Retorno no dia seguinte\"";
+  }
+  if (getReturnDeviation(data.return_time, scheduledExitTime, data.returned_next_day) < 0 && !data.early_return_reason.trim()) {
+    return "Informe o motivo do retorno antecipado";
+  }
+  return null;
+};
+
+/** Why the form can't be saved yet, or null when it can */
+const getReasonError = (data: DepartureFormData, reasons: NoDepartureReason[]) => {
+  if (data.departed) return null;
+  const reason = reasons.find((r) => r.id === data.no_departure_reason_id);
+  if (!reason) return "Selecione o motivo da não saída";
+  if (reason.requires_note && !data.no_departure_reason.trim()) return `Informe a observação para "${reason.name}"`;
+  return null;
+};
+
+interface NoDepartureReasonFieldsProps {
+  idPrefix: string;
+  reasons: NoDepartureReason[];
+  data: DepartureFormData;
+  onChange: (field: "no_departure_reason_id" | "no_departure_reason", value: string) => void;
 }
 
+const NoDepartureReasonFields = ({ idPrefix, reasons, data, onChange }: NoDepartureReasonFieldsProps) => {
+  // Inactive reasons stay selectable only on records that already use them
+  const options = reasons.filter((r) => r.is_active || r.id === data.no_departure_reason_id);
+  const selected = reasons.find((r) => r.id === data.no_departure_reason_id);
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <Label htmlFor={`${idPrefix}-reason`}>Motivo *</Label>
+        <Select value={data.no_departure_reason_id} onValueChange={(value) => onChange("no_departure_reason_id", value)}>
+          <SelectTrigger id={`${idPrefix}-reason`} className="mt-1">
+            <SelectValue placeholder="Selecione o motivo" />
+          </SelectTrigger>
+          <SelectContent>
+            {options.map((reason) => (
+              <SelectItem key={reason.id} value={reason.id}>
+                {reason.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div>
+        <Label htmlFor={`${idPrefix}-note`}>
+          Observação {selected?.requires_note ? "*" : "(opcional)"}
+        </Label>
+        <Textarea
+          id={`${idPrefix}-note`}
+          value={data.no_departure_reason}
+          onChange={(e) => onChange("no_departure_reason", e.target.value)}
+          placeholder="Detalhes da não saída..."
+          className="mt-1"
+          rows={3}
+        />
+      </div>
+    </div>
+  );
+};
+
 const Departures = () => {
   const { isAdmin, user, userTeamIds } = useAuth();
   const { toast } = useToast();
@@ -61,6 +173,12 @@ const Departures = () => {
   const [selectedDate, setSelectedDate] = useState(format(new Date(), "yyyy-MM-dd"));
   const [currentTeamIndex, setCurrentTeamIndex] = useState(0);
   const [wizardData, setWizardData] = useState<Record<string, DepartureFormData>>({});
+  // Optional odometer reading per team vehicle, keyed by team id
+  const [wizardKm, setWizardKm] = useState<Record<string, string>>({});
+
+  // End of day returns for supervisor, keyed by team id
+  const [isReturnsOpen, setIsReturnsOpen] = useState(false);
+  const [returnsData, setReturnsData] = useState<Record<string, ReturnFormData>>({});
   
   // Admin filter state
   const [filterStartDate, setFilterStartDate] = useState(format(new Date(), "yyyy-MM-dd"));
@@ -72,7 +190,24 @@ const Departures = () => {
   const [editForm, setEditForm] = useState<DepartureFormData>({
     departed: true,
     departure_time: "07:00",
+    no_departure_reason_id: "",
     no_departure_reason: "",
+    workshop_entry_id: null,
+  });
+  const [editReturn, setEditReturn] = useState<ReturnFormData>(emptyReturn);
+
+  // Reason catalog, inactive ones included to show older records
+  const { data: noDepartureReasons = [] } = useQuery({
+    queryKey: ["no_departure_reasons"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("no_departure_reasons")
+        .select("*")
+        .order("sort_order")
+        .order("name");
+      if (error) throw error;
+      return data as NoDepartureReason[];
+    },
   });
 
   // Fetch teams for supervisor wizard (only those assigned to this supervisor)
@@ -82,7 +217,7 @@ const Departures = () => {
       if (userTeamIds.length === 0) return [];
       const { data, error } = await supabase
         .from("teams")
-        .select("id, name, type, show_in_departures, vehicles(plate, model)")
+        .select("id, name, type, show_in_departures, scheduled_exit_time, vehicles(id, plate, model, status)")
         .in("id", userTeamIds)
         .order("name");
       if (error) throw error;
@@ -97,7 +232,7 @@ const Departures = () => {
     queryFn: async () => {
       const { data, error } = await supabase
         .from("team_schedules")
-        .select("team_id, is_working, observation")
+        .select("team_id, is_working, observation, scheduled_exit_time")
         .eq("date", selectedDate);
       if (error) throw error;
       return data as TeamSchedule[];
@@ -105,6 +240,56 @@ const Departures = () => {
     enabled: !isAdmin,
   });
 
+  // Open workshop entries of the supervisor's vehicles on the selected date
+  const teamVehicleIds = allTeams.flatMap((team) => (team.vehicles ? [team.vehicles.id] : []));
+  const { data: openWorkshopEntries = [] } = useQuery({
+    queryKey: ["open_workshop_entries_departures", teamVehicleIds, selectedDate],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("workshop_entries")
+        .select("id, vehicle_id, entry_date, reason, workshop_name")
+        .in("vehicle_id", teamVehicleIds)
+        .neq("status", "concluida")
+        .lte("entry_date", `${selectedDate}T23:59:59`)
+        .order("entry_date", { ascending: false });
+      if (error) throw error;
+      return data as OpenWorkshopEntry[];
+    },
+    enabled: !isAdmin && teamVehicleIds.length > 0,
+  });
+
+  const workshopReason = noDepartureReasons.find((r) => r.code === WORKSHOP_REASON_CODE && r.is_active);
+
+  // Registration deadline of the selected date and the supervisor's unlocks
+  const { data: cutoffSettings } = useQuery({
+    queryKey: ["departure_cutoff_settings"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("departure_cutoff_settings").select("*").maybeSingle();
+      if (error) throw error;
+      return data as DepartureCutoffSettings | null;
+    },
+    enabled: !isAdmin,
+  });
+
+  const { data: myUnlocks = [] } = useQuery({
+    queryKey: ["departure_unlocks", user?.id, selectedDate],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("departure_unlocks")
+        .select("*")
+        .eq("supervisor_id", user!.id)
+        .eq("date", selectedDate);
+      if (error) throw error;
+      return data as DepartureUnlock[];
+    },
+    enabled: !isAdmin && !!user?.id,
+  });
+
+  const deadline = getDepartureDeadline(selectedDate, cutoffSettings);
+  const isPastDeadline = !!deadline && new Date() > deadline;
+  const activeUnlock = findActiveUnlock(myUnlocks, selectedDate);
+  const isLocked = isPastDeadline && !activeUnlock;
+
   // Filter teams: only those visible in departures AND scheduled to work
   const teams = allTeams.filter((team) => {
     if (!team.show_in_departures) return false;
@@ -127,7 +312,7 @@ const Departures = () => {
     queryFn: async () => {
       let query = supabase
         .from("departures")
-        .select("*, teams(name, type)")
+        .select("*, teams(name, type), no_departure_reasons(name), workshop_entries(workshop_name)")
         .gte("date", filterStartDate)
         .lte("date", filterEndDate)
         .order("date", { ascending: false })
@@ -164,7 +349,11 @@ const Departures = () => {
     { key: "supervisorName", header: "Supervisor" },
     { key: "departed", header: "Status", format: (v) => formatBoolean(v, "Saiu", "Não Saiu") },
     { key: "departure_time", header: "Horário", format: (v) => v || "-" },
-    { key: "no_departure_reason", header: "Motivo", format: (v) => v || "-" },
+    { key: "return_time", header: "Retorno", format: (v) => v || "-" },
+    { key: "early_return_reason", header: "Motivo Retorno Antecipado", format: (v) => v || "-" },
+    { key: "no_departure_reasons", header: "Motivo", format: (v) => v?.name || "-" },
+    { key: "no_departure_reason", header: "Observação", format: (v) => v || "-" },
+    { key: "registered_late", header: "Lançamento", format: (v) => formatBoolean(v, "Após o prazo", "No prazo") },
   ];
 
   // Fetch supervisors for admin filter
@@ -181,6 +370,26 @@ const Departures = () => {
     enabled: isAdmin,
   });
 
+  // Scheduled exit of the departure being edited, to tell early returns
+  const { data: editingExitTime } = useQuery({
+    queryKey: ["departure_scheduled_exit", editingDeparture?.team_id, editingDeparture?.date],
+    queryFn: async () => {
+      const [{ data: schedule, error: scheduleError }, { data: team, error: teamError }] = await Promise.all([
+        supabase
+          .from("team_schedules")
+          .select("scheduled_exit_time")
+          .eq("team_id", editingDeparture!.team_id)
+          .eq("date", editingDeparture!.date)
+          .maybeSingle(),
+        supabase.from("teams").select("scheduled_exit_time").eq("id", editingDeparture!.team_id).single(),
+      ]);
+      if (scheduleError) throw scheduleError;
+      if (teamError) throw teamError;
+      return schedule?.scheduled_exit_time ?? team.scheduled_exit_time;
+    },
+    enabled: isAdmin && !!editingDeparture,
+  });
+
   // Check existing departures for wizard
   const { data: existingDepartures = [] } = useQuery({
     queryKey: ["existing_departures", selectedDate, user?.id],
@@ -188,7 +397,7 @@ const Departures = () => {
       if (!user?.id) return [];
       const { data, error } = await supabase
         .from("departures")
-        .select("team_id, departed, departure_time, no_departure_reason")
+        .select("team_id, departed, departure_time, no_departure_reason_id, no_departure_reason, workshop_entry_id, return_time, returned_next_day, early_return_reason")
         .eq("date", selectedDate)
         .eq("supervisor_id", user.id);
       if (error) throw error;
@@ -200,6 +409,20 @@ const Departures = () => {
   // Save departures mutation
   const saveDepartures = useMutation({
     mutationFn: async (departuresData: { team_id: string; data: DepartureFormData }[]) => {
+      // Validate odometer readings up front so a bad km doesn't leave the batch half saved
+      const readings: { vehicle_id: string; km: number }[] = [];
+      for (const dep of departuresData) {
+        const team = teams.find(t => t.id === dep.team_id);
+        const reasonError = getReasonError(dep.data, noDepartureReasons);
+        if (reasonError) throw new Error(`${team?.name ?? "Equipe"}: ${reasonError}`);
+        const km = parseKmInput(wizardKm[dep.team_id] || "");
+        if (!dep.data.departed || !team?.vehicles || km === null) continue;
+        if (Number.isNaN(km)) throw new Error(`Km inválido para a equipe ${team.name}`);
+        const odometerError = await checkOdometerReading(team.vehicles.id, selectedDate, km);
+        if (odometerError) throw new Error(`${team.name} (${team.vehicles.plate}): ${odometerError}`);
+        readings.push({ vehicle_id: team.vehicles.id, km });
+      }
+
       for (const dep of departuresData) {
         const existing = existingDepartures.find(e => e.team_id === dep.team_id);
         
@@ -209,7 +432,11 @@ const Departures = () => {
           date: selectedDate,
           departed: dep.data.departed,
           departure_time: dep.data.departed ? dep.data.departure_time : null,
-          no_departure_reason: !dep.data.departed ? dep.data.no_departure_reason : null,
+          no_departure_reason_id: !dep.data.departed ? dep.data.no_departure_reason_id : null,
+          no_departure_reason: !dep.data.departed ? dep.data.no_departure_reason.trim() || null : null,
+          workshop_entry_id: getWorkshopEntryId(dep.data),
+          // A team that didn't leave has no return
+          ...(!dep.data.departed && { return_time: null, early_return_reason: null }),
         };
 
         if (existing) {
@@ -226,13 +453,22 @@ const Departures = () => {
           if (error) throw error;
         }
       }
+
+      if (readings.length > 0) {
+        const { error } = await supabase
+          .from("odometer_readings")
+          .insert(readings.map(r => ({ ...r, reading_date: selectedDate, source: "saida" })));
+        if (error) throw error;
+      }
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["departures"] });
       queryClient.invalidateQueries({ queryKey: ["existing_departures"] });
+      queryClient.invalidateQueries({ queryKey: ["odometer_readings"] });
       toast({ title: "Lançamentos salvos com sucesso!" });
       setIsWizardOpen(false);
       setWizardData({});
+      setWizardKm({});
       setCurrentTeamIndex(0);
     },
     onError: (error) => {
@@ -242,13 +478,26 @@ const Departures = () => {
 
   // Admin edit mutation
   const updateDeparture = useMutation({
-    mutationFn: async ({ id, data }: { id: string; data: DepartureFormData }) => {
+    mutationFn: async ({ id, data, returnData }: { id: string; data: DepartureFormData; returnData: ReturnFormData }) => {
+      const reasonError = getReasonError(data, noDepartureReasons);
+      if (reasonError) throw new Error(reasonError);
+      const returnError = data.departed && editingExitTime
+        ? getReturnError(returnData, data.departure_time, editingExitTime)
+        : null;
+      if (returnError) throw new Error(returnError);
+      const isEarly = !!returnData.return_time && !!editingExitTime &&
+        getReturnDeviation(returnData.return_time, editingExitTime, returnData.returned_next_day) < 0;
       const { error } = await supabase
         .from("departures")
         .update({
           departed: data.departed,
           departure_time: data.departed ? data.departure_time : null,
-          no_departure_reason: !data.departed ? data.no_departure_reason : null,
+          no_departure_reason_id: !data.departed ? data.no_departure_reason_id : null,
+          no_departure_reason: !data.departed ? data.no_departure_reason.trim() || null : null,
+          workshop_entry_id: getWorkshopEntryId(data),
+          return_time: data.departed ? returnData.return_time || null : null,
+          returned_next_day: data.departed && !!returnData.return_time && returnData.returned_next_day,
+          early_return_reason: data.departed && isEarly ? returnData.early_return_reason.trim() : null,
         })
         .eq("id", id);
       if (error) throw error;
@@ -263,18 +512,102 @@ const Departures = () => {
     },
   });
 
-  // Initialize wizard with existing data
+  // Save the returns of the teams that departed on the selected date
+  const saveReturns = useMutation({
+    mutationFn: async () => {
+      const departed = existingDepartures.filter((e) => e.departed);
+      for (const dep of departed) {
+        const data = returnsData[dep.team_id];
+        if (!data?.return_time) continue;
+        const team = allTeams.find((t) => t.id === dep.team_id);
+        const exitTime = getScheduledExitTime(dep.team_id);
+        const returnError = getReturnError(data, dep.departure_time, exitTime);
+        if (returnError) throw new Error(`${team?.name ?? "Equipe"}: ${returnError}`);
+      }
+
+      for (const dep of departed) {
+        const data = returnsData[dep.team_id];
+        if (!data?.return_time) continue;
+        const isEarly = getReturnDeviation(data.return_time, getScheduledExitTime(dep.team_id), data.returned_next_day) < 0;
+        const { error } = await supabase
+          .from("departures")
+          .update({
+            return_time: data.return_time,
+            returned_next_day: data.returned_next_day,
+            early_return_reason: isEarly ? data.early_return_reason.trim() : null,
+          })
+          .eq("team_id", dep.team_id)
+          .eq("date", selectedDate);
+        if (error) throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["departures"] });
+      queryClient.invalidateQueries({ queryKey: ["existing_departures"] });
+      queryClient.invalidateQueries({ queryKey: ["team_worked_hours"] });
+      toast({ title: "Retornos salvos com sucesso!" });
+      setIsReturnsOpen(false);
+    },
+    onError: (error) => {
+      toast({ title: "Erro ao salvar retornos", description: String(error), variant: "destructive" });
+    },
+  });
+
+  // Exit time of the team on the selected date, from the schedule or the team default
+  const getScheduledExitTime = (teamId: string) =>
+    teamSchedules.find((s) => s.team_id === teamId)?.scheduled_exit_time ??
+    allTeams.find((t) => t.id === teamId)?.scheduled_exit_time ??
+    "17:00:00";
+
+  const startReturns = () => {
+    const initialData: Record<string, ReturnFormData> = {};
+    existingDepartures.filter((e) => e.departed).forEach((dep) => {
+      initialData[dep.team_id] = {
+        return_time: dep.return_time?.slice(0, 5) ?? "",
+        returned_next_day: dep.returned_next_day,
+        early_return_reason: dep.early_return_reason ?? "",
+      };
+    });
+    setReturnsData(initialData);
+    setIsReturnsOpen(true);
+  };
+
+  const updateReturn = <K extends keyof ReturnFormData>(teamId: string, field: K, value: ReturnFormData[K]) => {
+    setReturnsData((prev) => ({ ...prev, [teamId]: { ...(prev[teamId] ?? emptyReturn), [field]: value } }));
+  };
+
+  // Workshop link is only kept when the team didn't leave because of the workshop
+  const getWorkshopEntryId = (data: DepartureFormData) => {
+    if (data.departed || !data.workshop_entry_id) return null;
+    const reason = noDepartureReasons.find((r) => r.id === data.no_departure_reason_id);
+    return reason?.code === WORKSHOP_REASON_CODE ? data.workshop_entry_id : null;
+  };
+
+  const getOpenWorkshopEntry = (team: Team) =>
+    team.vehicles ? openWorkshopEntries.find((e) => e.vehicle_id === team.vehicles.id) : undefined;
+
+  /** Team whose vehicle is in the workshop, by open entry or by vehicle status */
+  const isTeamVehicleInWorkshop = (team: Team) =>
+    !!getOpenWorkshopEntry(team) || isVehicleInWorkshop(team.vehicles?.status);
+
+  // Initialize wizard with existing data; teams with the vehicle in the
+  // workshop start as not departed with the workshop reason
   const startWizard = () => {
     const initialData: Record<string, DepartureFormData> = {};
     teams.forEach(team => {
       const existing = existingDepartures.find(e => e.team_id === team.id);
+      const workshopEntry = getOpenWorkshopEntry(team);
+      const inWorkshop = !existing && isTeamVehicleInWorkshop(team);
       initialData[team.id] = {
-        departed: existing?.departed ?? true,
+        departed: existing?.departed ?? !inWorkshop,
         departure_time: existing?.departure_time ?? "07:00",
+        no_departure_reason_id: existing?.no_departure_reason_id ?? (inWorkshop && workshopReason ? workshopReason.id : ""),
         no_departure_reason: existing?.no_departure_reason ?? "",
+        workshop_entry_id: existing?.workshop_entry_id ?? workshopEntry?.id ?? null,
       };
     });
     setWizardData(initialData);
+    setWizardKm({});
     setCurrentTeamIndex(0);
     setIsWizardOpen(true);
   };
@@ -285,13 +618,20 @@ const Departures = () => {
     setEditForm({
       departed: dep.departed,
       departure_time: dep.departure_time || "07:00",
+      no_departure_reason_id: dep.no_departure_reason_id || "",
       no_departure_reason: dep.no_departure_reason || "",
+      workshop_entry_id: dep.workshop_entry_id,
+    });
+    setEditReturn({
+      return_time: dep.return_time?.slice(0, 5) ?? "",
+      returned_next_day: dep.returned_next_day,
+      early_return_reason: dep.early_return_reason ?? "",
     });
   };
 
   const handleSaveEdit = () => {
     if (!editingDeparture) return;
-    updateDeparture.mutate({ id: editingDeparture.id, data: editForm });
+    updateDeparture.mutate({ id: editingDeparture.id, data: editForm, returnData: editReturn });
   };
 
   const currentTeam = teams[currentTeamIndex];
@@ -306,6 +646,11 @@ const Departures = () => {
   };
 
   const handleNext = () => {
+    const reasonError = currentData && getReasonError(currentData, noDepartureReasons);
+    if (reasonError) {
+      toast({ title: reasonError, variant: "destructive" });
+      return;
+    }
     if (currentTeamIndex < teams.length - 1) {
       setCurrentTeamIndex(prev => prev + 1);
     }
@@ -355,13 +700,43 @@ const Departures = () => {
                 onClick={startWizard} 
                 size="lg" 
                 className="gap-2"
-                disabled={teams.length === 0}
+                disabled={teams.length === 0 || isLocked}
               >
                 <Play className="h-5 w-5" />
                 Lançar Saídas ({teams.length} equipes)
               </Button>
+              <Button
+                onClick={startReturns}
+                size="lg"
+                variant="outline"
+                className="gap-2"
+                disabled={!existingDepartures.some((e) => e.departed)}
+              >
+                <LogIn className="h-5 w-5" />
+                Lançar Retornos
+              </Button>
             </div>
             
+            {/* Registration deadline */}
+            {deadline && (
+              <div className={`mt-4 flex items-start gap-2 text-sm ${isLocked ? "text-destructive" : "text-muted-foreground"}`}>
+                {isLocked ? <Lock className="h-4 w-4 mt-0.5" /> : activeUnlock ? <LockOpen className="h-4 w-4 mt-0.5" /> : <Clock className="h-4 w-4 mt-0.5" />}
+                {isLocked ? (
+                  <span>
+                    Prazo encerrado em {formatDepartureDeadline(deadline)}. Solicite o desbloqueio a um
+                    administrador para lançar ou editar as saídas deste dia.
+                  </span>
+                ) : activeUnlock ? (
+                  <span>
+                    Lançamento desbloqueado até {format(new Date(activeUnlock.expires_at), "dd/MM/yyyy 'às' HH:mm")}
+                    {" "}({activeUnlock.justification}). Lançamentos feitos agora contam como atrasados.
+                  </span>
+                ) : (
+                  <span>Prazo para lançamento: {formatDepartureDeadline(deadline)}</span>
+                )}
+              </div>
+            )}
+
             {/* Show teams not scheduled for this date */}
             {notScheduledTeams.length > 0 && (
               <div className="mt-4 p-3 bg-muted/50 rounded-lg">
@@ -483,15 +858,32 @@ const Departures = () => {
                           Não Saiu
                         </Badge>
                       )}
+                      {dep.registered_late && (
+                        <Badge variant="outline" className="ml-2 text-warning border-warning/40">
+                          Após o prazo
+                        </Badge>
+                      )}
                     </TableCell>
                     <TableCell>
                       {dep.departed ? (
                         <span className="flex items-center gap-1 text-muted-foreground">
                           <Clock className="h-4 w-4" />
                           {dep.departure_time}
+                          {dep.return_time && ` → ${dep.return_time}${dep.returned_next_day ? " (dia seguinte)" : ""}`}
+                          {dep.early_return_reason && (
+                            <span className="text-xs">({dep.early_return_reason})</span>
+                          )}
                         </span>
                       ) : (
-                        <span className="text-muted-foreground">{dep.no_departure_reason || "-"}</span>
+                        <span className="text-muted-foreground">
+                          {formatNoDepartureReason(dep.no_departure_reasons, dep.no_departure_reason) || "-"}
+                          {dep.workshop_entry_id && (
+                            <Badge variant="outline" className="ml-2 gap-1">
+                              <Wrench className="h-3 w-3" />
+                              {dep.workshop_entries?.workshop_name || "Oficina"}
+                            </Badge>
+                          )}
+                        </span>
                       )}
                     </TableCell>
                     {isAdmin && (
@@ -564,28 +956,63 @@ const Departures = () => {
 
               {/* Conditional Fields */}
               {editForm.departed ? (
-                <div>
-                  <Label htmlFor="edit-departure-time">Horário de Saída</Label>
-                  <Input
-                    id="edit-departure-time"
-                    type="time"
-                    value={editForm.departure_time}
-                    onChange={(e) => setEditForm(prev => ({ ...prev, departure_time: e.target.value }))}
-                    className="w-full mt-1"
-                  />
+                <div className="space-y-4">
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <Label htmlFor="edit-departure-time">Horário de Saída</Label>
+                      <Input
+                        id="edit-departure-time"
+                        type="time"
+                        value={editForm.departure_time}
+                        onChange={(e) => setEditForm(prev => ({ ...prev, departure_time: e.target.value }))}
+                        className="w-full mt-1"
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="edit-return-time">Horário de Retorno</Label>
+                      <Input
+                        id="edit-return-time"
+                        type="time"
+                        value={editReturn.return_time}
+                        onChange={(e) => setEditReturn(prev => ({ ...prev, return_time: e.target.value }))}
+                        className="w-full mt-1"
+                      />
+                    </div>
+                  </div>
+                  {editReturn.return_time && (
+                    <div className="flex items-center space-x-2">
+                      <Checkbox
+                        id="edit-returned-next-day"
+                        checked={editReturn.returned_next_day}
+                        onCheckedChange={(checked) => setEditReturn(prev => ({ ...prev, returned_next_day: checked === true }))}
+                      />
+                      <Label htmlFor="edit-returned-next-day" className="cursor-pointer">
+                        Retorno no dia seguinte (após a meia-noite)
+                      </Label>
+                    </div>
+                  )}
+                  {editReturn.return_time && editingExitTime &&
+                    getReturnDeviation(editReturn.return_time, editingExitTime, editReturn.returned_next_day) < 0 && (
+                    <div>
+                      <Label htmlFor="edit-early-return-reason">
+                        Motivo do retorno antecipado (saída prevista {editingExitTime.slice(0, 5)})
+                      </Label>
+                      <Input
+                        id="edit-early-return-reason"
+                        value={editReturn.early_return_reason}
+                        onChange={(e) => setEditReturn(prev => ({ ...prev, early_return_reason: e.target.value }))}
+                        className="w-full mt-1"
+                      />
+                    </div>
+                  )}
                 </div>
               ) : (
-                <div>
-                  <Label htmlFor="edit-no-departure-reason">Motivo</Label>
-                  <Textarea
-                    id="edit-no-departure-reason"
-                    value={editForm.no_departure_reason}
-                    onChange={(e) => setEditForm(prev => ({ ...prev, no_departure_reason: e.target.value }))}
-                    placeholder="Informe o motivo da não saída..."
-                    className="mt-1"
-                    rows={3}
-                  />
-                </div>
+                <NoDepartureReasonFields
+                  idPrefix="edit-no-departure"
+                  reasons={noDepartureReasons}
+                  data={editForm}
+                  onChange={(field, value) => setEditForm(prev => ({ ...prev, [field]: value }))}
+                />
               )}
 
               {/* Actions */}
@@ -602,6 +1029,85 @@ const Departures = () => {
         </DialogContent>
       </Dialog>
 
+      {/* Returns Dialog */}
+      <Dialog open={isReturnsOpen} onOpenChange={setIsReturnsOpen}>
+        <DialogContent className="sm:max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>
+              Retorno das Equipes - {format(new Date(selectedDate + "T12:00:00"), "dd/MM/yyyy", { locale: ptBR })}
+            </DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-4 max-h-[60vh] overflow-y-auto">
+            {existingDepartures.filter((e) => e.departed).map((dep) => {
+              const team = allTeams.find((t) => t.id === dep.team_id);
+              const exitTime = getScheduledExitTime(dep.team_id);
+              const data = returnsData[dep.team_id] ?? emptyReturn;
+              const deviation = data.return_time
+                ? getReturnDeviation(data.return_time, exitTime, data.returned_next_day)
+                : null;
+              return (
+                <div key={dep.team_id} className="rounded-lg border p-3 space-y-3">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <div>
+                      <p className="font-medium">{team?.name ?? "-"}</p>
+                      <p className="text-xs text-muted-foreground">
+                        Saída {dep.departure_time?.slice(0, 5) ?? "-"} • Saída prevista {exitTime.slice(0, 5)}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      {deviation !== null && deviation > 0 && (
+                        <Badge variant="outline" className="text-warning border-warning/40">
+                          Hora extra {formatMinutes(deviation)}
+                        </Badge>
+                      )}
+                      {deviation !== null && deviation < 0 && (
+                        <Badge variant="outline">Antecipado {formatMinutes(-deviation)}</Badge>
+                      )}
+                      <Input
+                        type="time"
+                        value={data.return_time}
+                        onChange={(e) => updateReturn(dep.team_id, "return_time", e.target.value)}
+                        className="w-32"
+                        aria-label={`Retorno de ${team?.name ?? "equipe"}`}
+                      />
+                    </div>
+                  </div>
+                  {data.return_time && (
+                    <div className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`returned-next-day-${dep.team_id}`}
+                        checked={data.returned_next_day}
+                        onCheckedChange={(checked) => updateReturn(dep.team_id, "returned_next_day", checked === true)}
+                      />
+                      <Label htmlFor={`returned-next-day-${dep.team_id}`} className="cursor-pointer text-sm">
+                        Retorno no dia seguinte (após a meia-noite)
+                      </Label>
+                    </div>
+                  )}
+                  {deviation !== null && deviation < 0 && (
+                    <Input
+                      value={data.early_return_reason}
+                      onChange={(e) => updateReturn(dep.team_id, "early_return_reason", e.target.value)}
+                      placeholder="Motivo do retorno antecipado *"
+                    />
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="flex gap-3 justify-end pt-4 border-t">
+            <Button variant="outline" onClick={() => setIsReturnsOpen(false)}>
+              Cancelar
+            </Button>
+            <Button onClick={() => saveReturns.mutate()} disabled={saveReturns.isPending}>
+              {saveReturns.isPending ? "Salvando..." : "Salvar Retornos"}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
       {/* Wizard Dialog */}
       <Dialog open={isWizardOpen} onOpenChange={setIsWizardOpen}>
         <DialogContent className="sm:max-w-lg">
@@ -631,6 +1137,29 @@ const Departures = () => {
                 </div>
               </div>
 
+              {/* Vehicle in workshop */}
+              {isTeamVehicleInWorkshop(currentTeam) && (() => {
+                const workshopEntry = getOpenWorkshopEntry(currentTeam);
+                return (
+                  <div className="flex items-start gap-2 rounded-lg border border-warning/30 bg-warning/10 p-3 text-sm">
+                    <Wrench className="h-4 w-4 mt-0.5 text-warning" />
+                    {workshopEntry ? (
+                      <span>
+                        Veículo {currentTeam.vehicles?.plate} na oficina
+                        {workshopEntry.workshop_name && ` ${workshopEntry.workshop_name}`} desde{" "}
+                        {format(new Date(workshopEntry.entry_date), "dd/MM/yyyy")} ({workshopEntry.reason}).
+                        {" "}A não saída por oficina fica vinculada a essa entrada.
+                      </span>
+                    ) : (
+                      <span>
+                        Veículo {currentTeam.vehicles?.plate} com status "{getVehicleStatusLabel(currentTeam.vehicles?.status)}",
+                        sem entrada de oficina aberta.
+                      </span>
+                    )}
+                  </div>
+                );
+              })()}
+
               {/* Question */}
               <div className="text-center">
                 <p className="text-lg mb-4">A equipe saiu hoje?</p>
@@ -658,28 +1187,39 @@ const Departures = () => {
 
               {/* Conditional Fields */}
               {currentData.departed ? (
-                <div>
-                  <Label htmlFor="departure-time">Horário de Saída</Label>
-                  <Input
-                    id="departure-time"
-                    type="time"
-                    value={currentData.departure_time}
-                    onChange={(e) => updateCurrentTeam("departure_time", e.target.value)}
-                    className="w-full mt-1"
-                  />
+                <div className="space-y-4">
+                  <div>
+                    <Label htmlFor="departure-time">Horário de Saída</Label>
+                    <Input
+                      id="departure-time"
+                      type="time"
+                      value={currentData.departure_time}
+                      onChange={(e) => updateCurrentTeam("departure_time", e.target.value)}
+                      className="w-full mt-1"
+                    />
+                  </div>
+                  {currentTeam.vehicles && (
+                    <div>
+                      <Label htmlFor="departure-km">Km do Veículo (opcional)</Label>
+                      <Input
+                        id="departure-km"
+                        type="number"
+                        min="0"
+                        value={wizardKm[currentTeam.id] || ""}
+                        onChange={(e) => setWizardKm(prev => ({ ...prev, [currentTeam.id]: e.target.value }))}
+                        placeholder={`Hodômetro de ${currentTeam.vehicles.plate}`}
+                        className="w-full mt-1"
+                      />
+                    </div>
+                  )}
                 </div>
               ) : (
-                <div>
-                  <Label htmlFor="no-departure-reason">Motivo</Label>
-                  <Textarea
-                    id="no-departure-reason"
-                    value={currentData.no_departure_reason}
-                    onChange={(e) => updateCurrentTeam("no_departure_reason", e.target.value)}
-                    placeholder="Informe o motivo da não saída..."
-                    className="mt-1"
-                    rows={3}
-                  />
-                </div>
+                <NoDepartureReasonFields
+                  idPrefix="no-departure"
+                  reasons={noDepartureReasons}
+                  data={currentData}
+                  onChange={updateCurrentTeam}
+                />
               )}
 
               {/* Navigation */}
@@ -1,5 +1,6 @@
 import { useState, useMemo, useRef } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link } from "react-router-dom";
 import { MainLayout } from "@/components/layout/MainLayout";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -46,20 +47,31 @@ import {
   Plus, Search, Edit, Trash2, Car, Wrench, Clock, CheckCircle, 
   Calendar, LogOut, ChevronsUpDown, Check, Building, User, Phone,
   Upload, X, FileText, Image, Video, Download, Eye, Paperclip, BarChart3,
-  FileWarning
+  FileWarning, CalendarClock, Gauge, KeyRound, History, Undo2, ClipboardList
 } from "lucide-react";
 import { FleetIndicatorsTab } from "@/components/fleet/FleetIndicatorsTab";
 import { LaudosTrackingTab } from "@/components/fleet/LaudosTrackingTab";
+import { PreventiveMaintenanceTab } from "@/components/fleet/PreventiveMaintenanceTab";
+import { OdometerHistory } from "@/components/fleet/OdometerHistory";
+import { CheckoutDialog } from "@/components/fleet/CheckoutDialog";
+import { AllocationHistoryDialog } from "@/components/fleet/AllocationHistoryDialog";
+import { OverdueAllocations } from "@/components/fleet/OverdueAllocations";
+import { WorkshopFlowDialog } from "@/components/fleet/WorkshopFlowDialog";
 import { ExportButton } from "@/components/ExportButton";
 import { CsvColumn, formatDateTime } from "@/lib/exportCsv";
 import { cn } from "@/lib/utils";
 import { toast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/contexts/AuthContext";
+import { usePermissions } from "@/hooks/usePermissions";
+import { useActiveAllocations, useReturnVehicle } from "@/hooks/useAllocations";
+import { Allocation, isAllocationOverdue } from "@/lib/allocations";
+import { VehicleStatus, vehicleStatusConfig } from "@/lib/vehicleStatus";
+import { checkOdometerReading, parseKmInput } from "@/lib/odometer";
+import { WORKSHOP_NAMES, WORKSHOP_STAGE_CLASSES, WORKSHOP_STAGE_LABELS, WorkshopStage, getCostVariance } from "@/lib/workshopFlow";
 import { differenceInHours, differenceInDays } from "date-fns";
 
 // ==================== VEHICLES TYPES ====================
-type VehicleStatus = "ativo" | "manutencao" | "reserva" | "oficina" | "mobilizar";
 
 type GerenciaType = "C&M" | "STC Comercial" | "STC Emergencial" | "STC Corte e religa" | "Perdas" | "Âncora Comercial";
 
@@ -103,14 +115,6 @@ interface Profile {
   name: string;
 }
 
-const vehicleStatusConfig: Record<VehicleStatus, { label: string; className: string }> = {
-  ativo: { label: "Ativo", className: "bg-green-500/20 text-green-700" },
-  manutencao: { label: "Em Manutenção", className: "bg-yellow-500/20 text-yellow-700" },
-  reserva: { label: "Reserva", className: "bg-blue-500/20 text-blue-700" },
-  oficina: { label: "Oficina", className: "bg-orange-500/20 text-orange-700" },
-  mobilizar: { label: "Mobilizar", className: "bg-purple-500/20 text-purple-700" },
-};
-
 // ==================== WORKSHOP TYPES ====================
 type MaintenanceStatus = "pendente" | "em_andamento" | "concluida";
 
@@ -118,23 +122,6 @@ type ReasonType = "Implemento" | "Mecânico" | "Elétrico";
 
 const REASON_TYPES: ReasonType[] = ["Implemento", "Mecânico", "Elétrico"];
 
-const WORKSHOP_NAMES = [
-  "HidrauAgri",
-  "HidrauWetec",
-  "SETEC",
-  "POLINOX",
-  "Flach",
-  "Centro Oeste",
-  "Rio Preto",
-  "Dois Irmãos",
-  "Delta Diesel",
-  "BM Suspensões",
-  "Alternativa Pneus",
-  "E-Force",
-  "JJMT",
-  "TECMARQUES",
-];
-
 interface WorkshopAttachment {
   id: string;
   workshop_entry_id: string;
@@ -155,6 +142,14 @@ interface WorkshopEntry {
   maintenance_cost: number | null;
   status: MaintenanceStatus;
   notes: string | null;
+  stage: WorkshopStage;
+  diagnosis: string | null;
+  diagnosed_at: string | null;
+  approved_quote_id: string | null;
+  approved_quote?: {
+    workshop_name: string;
+    total: number;
+  } | null;
   vehicles?: {
     plate: string;
     model: string;
@@ -180,7 +175,10 @@ interface Driver {
 
 const FleetManagement = () => {
   const { isAdmin } = useAuth();
+  const { isFrotasProfile } = usePermissions();
   const queryClient = useQueryClient();
+  // Frotas profile handles day-to-day records (odometer, checkouts) without full admin rights
+  const canOperateFleet = isAdmin || isFrotasProfile();
 
   // ==================== VEHICLES STATE ====================
   const [vehicleSearchTerm, setVehicleSearchTerm] = useState("");
@@ -205,6 +203,7 @@ const FleetManagement = () => {
   const [isViewAttachmentsOpen, setIsViewAttachmentsOpen] = useState(false);
   const [viewingVehicleAttachments, setViewingVehicleAttachments] = useState<VehicleAttachment[]>([]);
   const [viewingVehiclePlate, setViewingVehiclePlate] = useState("");
+  const [odometerVehicle, setOdometerVehicle] = useState<Vehicle | null>(null);
   
   // Import vehicles state
   const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
@@ -220,6 +219,8 @@ const FleetManagement = () => {
   const [selectedEntry, setSelectedEntry] = useState<WorkshopEntry | null>(null);
   const [exitDate, setExitDate] = useState("");
   const [exitMaintenanceCost, setExitMaintenanceCost] = useState("");
+  const [exitKm, setExitKm] = useState("");
+  const [flowEntryId, setFlowEntryId] = useState<string | null>(null);
   const [plateSearchOpen, setPlateSearchOpen] = useState(false);
   const [plateSearch, setPlateSearch] = useState("");
   const [workshopFormData, setWorkshopFormData] = useState({
@@ -229,8 +230,8 @@ const FleetManagement = () => {
     reason: "",
     reason_type: "",
     workshop_name: "",
-    maintenance_cost: "",
     notes: "",
+    entry_km: "",
   });
   const [editFormData, setEditFormData] = useState({
     entry_date: "",
@@ -240,7 +241,6 @@ const FleetManagement = () => {
     workshop_name: "",
     maintenance_cost: "",
     notes: "",
-    status: "em_andamento" as MaintenanceStatus,
   });
   const [workshopFiles, setWorkshopFiles] = useState<File[]>([]);
   const [existingWorkshopAttachments, setExistingWorkshopAttachments] = useState<WorkshopAttachment[]>([]);
@@ -250,6 +250,10 @@ const FleetManagement = () => {
   const [viewingWorkshopAttachments, setViewingWorkshopAttachments] = useState<WorkshopAttachment[]>([]);
   const [viewingWorkshopVehicle, setViewingWorkshopVehicle] = useState("");
 
+  // ==================== ALLOCATIONS STATE ====================
+  const [checkoutDefaults, setCheckoutDefaults] = useState<{ vehicleId?: string; driverId?: string } | null>(null);
+  const [allocationHistory, setAllocationHistory] = useState<{ title: string; vehicleId?: string; driverId?: string } | null>(null);
+
   // ==================== DRIVERS STATE ====================
   const [driverSearchTerm, setDriverSearchTerm] = useState("");
   const [isDriverDialogOpen, setIsDriverDialogOpen] = useState(false);
@@ -328,6 +332,10 @@ const FleetManagement = () => {
             plate,
             model,
             team_id
+          ),
+          approved_quote:workshop_quotes!workshop_entries_approved_quote_id_fkey (
+            workshop_name,
+            total
           )
         `)
         .order("entry_date", { ascending: false });
@@ -349,6 +357,25 @@ const FleetManagement = () => {
     },
   });
 
+  // ==================== ALLOCATIONS QUERIES ====================
+  const { data: activeAllocations = [] } = useActiveAllocations();
+  const returnVehicle = useReturnVehicle();
+
+  const activeAllocationByVehicle = useMemo(() => {
+    const map: Record<string, Allocation> = {};
+    activeAllocations.forEach(a => { map[a.vehicle_id] = a; });
+    return map;
+  }, [activeAllocations]);
+
+  const activeAllocationsByDriver = useMemo(() => {
+    const map: Record<string, Allocation[]> = {};
+    activeAllocations.forEach(a => {
+      if (!map[a.driver_id]) map[a.driver_id] = [];
+      map[a.driver_id].push(a);
+    });
+    return map;
+  }, [activeAllocations]);
+
   // ==================== FILE UPLOAD HELPERS ====================
   const uploadVehicleFiles = async (vehicleId: string, files: File[]) => {
     const uploadedAttachments: { file_url: string; file_name: string; file_type: string }[] = [];
@@ -662,6 +689,13 @@ const FleetManagement = () => {
       if (!data.vehicle_id) throw new Error("Veículo não selecionado");
       if (!data.reason_type) throw new Error("Tipo de motivo é obrigatório");
       if (!data.workshop_name) throw new Error("Oficina é obrigatória");
+
+      const entryKm = parseKmInput(data.entry_km);
+      if (Number.isNaN(entryKm)) throw new Error("Km de entrada inválido");
+      if (entryKm !== null) {
+        const odometerError = await checkOdometerReading(data.vehicle_id, data.entry_date, entryKm);
+        if (odometerError) throw new Error(odometerError);
+      }
       
       setIsUploadingWorkshopFiles(true);
       
@@ -672,7 +706,6 @@ const FleetManagement = () => {
         reason: data.reason,
         reason_type: data.reason_type,
         workshop_name: data.workshop_name,
-        maintenance_cost: data.maintenance_cost ? parseFloat(data.maintenance_cost) : null,
         notes: data.notes || null,
         status: "em_andamento" as MaintenanceStatus,
       }).select().single();
@@ -689,12 +722,24 @@ const FleetManagement = () => {
         }
       }
       
+      if (entryKm !== null) {
+        const { error: odometerError } = await supabase.from("odometer_readings").insert({
+          vehicle_id: data.vehicle_id,
+          reading_date: data.entry_date,
+          km: entryKm,
+          source: "oficina_entrada",
+          workshop_entry_id: entryData.id,
+        });
+        if (odometerError) throw odometerError;
+      }
+      
       await supabase.from("vehicles").update({ status: "oficina" }).eq("id", data.vehicle_id);
       setIsUploadingWorkshopFiles(false);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["workshop_entries"] });
       queryClient.invalidateQueries({ queryKey: ["vehicles"] });
+      queryClient.invalidateQueries({ queryKey: ["odometer_readings"] });
       toast({ title: "Entrada na oficina registrada!" });
       resetWorkshopForm();
     },
@@ -705,9 +750,10 @@ const FleetManagement = () => {
   });
 
   const updateWorkshopEntry = useMutation({
-    mutationFn: async ({ id, data }: { id: string; data: typeof editFormData }) => {
+    mutationFn: async ({ entry, data }: { entry: WorkshopEntry; data: typeof editFormData }) => {
       setIsUploadingWorkshopFiles(true);
       
+      // The status follows the stage, and the cost is only set at the exit
       const { error } = await supabase
         .from("workshop_entries")
         .update({
@@ -716,19 +762,20 @@ const FleetManagement = () => {
           reason: data.reason,
           reason_type: data.reason_type || null,
           workshop_name: data.workshop_name || null,
-          maintenance_cost: data.maintenance_cost ? parseFloat(data.maintenance_cost) : null,
+          ...(entry.stage === "concluida" && {
+            maintenance_cost: data.maintenance_cost ? parseFloat(data.maintenance_cost) : null,
+          }),
           notes: data.notes || null,
-          status: data.status,
         })
-        .eq("id", id);
+        .eq("id", entry.id);
       if (error) throw error;
       
       // Upload new files if any
       if (workshopFiles.length > 0) {
-        const attachments = await uploadWorkshopFiles(id, workshopFiles);
+        const attachments = await uploadWorkshopFiles(entry.id, workshopFiles);
         for (const attachment of attachments) {
           await supabase.from("workshop_attachments").insert({
-            workshop_entry_id: id,
+            workshop_entry_id: entry.id,
             ...attachment,
           });
         }
@@ -751,27 +798,46 @@ const FleetManagement = () => {
   });
 
   const registerExit = useMutation({
-    mutationFn: async ({ entry, exitDate, maintenanceCost }: { entry: WorkshopEntry; exitDate: string; maintenanceCost: number }) => {
+    mutationFn: async ({ entry, exitDate, maintenanceCost, km }: { entry: WorkshopEntry; exitDate: string; maintenanceCost: number; km: number | null }) => {
+      if (km !== null) {
+        const odometerError = await checkOdometerReading(entry.vehicle_id, exitDate, km);
+        if (odometerError) throw new Error(odometerError);
+      }
+
       const { error } = await supabase
         .from("workshop_entries")
         .update({ 
           status: "concluida" as MaintenanceStatus, 
+          stage: "concluida",
           exit_date: new Date(exitDate).toISOString(),
           maintenance_cost: maintenanceCost,
         })
         .eq("id", entry.id);
       if (error) throw error;
+
+      if (km !== null) {
+        const { error: odometerError } = await supabase.from("odometer_readings").insert({
+          vehicle_id: entry.vehicle_id,
+          reading_date: exitDate,
+          km,
+          source: "oficina_saida",
+          workshop_entry_id: entry.id,
+        });
+        if (odometerError) throw odometerError;
+      }
       
       await supabase.from("vehicles").update({ status: "ativo" }).eq("id", entry.vehicle_id);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["workshop_entries"] });
       queryClient.invalidateQueries({ queryKey: ["vehicles"] });
+      queryClient.invalidateQueries({ queryKey: ["odometer_readings"] });
       toast({ title: "Saída da oficina registrada!" });
       setIsExitDialogOpen(false);
       setSelectedEntry(null);
       setExitDate("");
       setExitMaintenanceCost("");
+      setExitKm("");
     },
     onError: (error) => {
       toast({ title: "Erro ao registrar saída", description: error.message, variant: "destructive" });
@@ -1072,11 +1138,17 @@ const FleetManagement = () => {
       });
       return;
     }
+    const km = parseKmInput(exitKm);
+    if (Number.isNaN(km)) {
+      toast({ title: "Km de saída inválido", variant: "destructive" });
+      return;
+    }
     if (selectedEntry && exitDate) {
       registerExit.mutate({ 
         entry: selectedEntry, 
         exitDate, 
-        maintenanceCost: parseFloat(exitMaintenanceCost) 
+        maintenanceCost: parseFloat(exitMaintenanceCost),
+        km,
       });
     }
   };
@@ -1084,7 +1156,8 @@ const FleetManagement = () => {
   const openExitDialog = (entry: WorkshopEntry) => {
     setSelectedEntry(entry);
     setExitDate(new Date().toISOString().split("T")[0]);
-    setExitMaintenanceCost(entry.maintenance_cost?.toString() || "");
+    setExitMaintenanceCost(entry.maintenance_cost?.toString() || entry.approved_quote?.total.toString() || "");
+    setExitKm("");
     setIsExitDialogOpen(true);
   };
 
@@ -1098,7 +1171,6 @@ const FleetManagement = () => {
       workshop_name: entry.workshop_name || "",
       maintenance_cost: entry.maintenance_cost?.toString() || "",
       notes: entry.notes || "",
-      status: entry.status,
     });
     // Load existing attachments
     const { data: attachments } = await supabase
@@ -1113,7 +1185,7 @@ const FleetManagement = () => {
   const handleEditSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (selectedEntry) {
-      updateWorkshopEntry.mutate({ id: selectedEntry.id, data: editFormData });
+      updateWorkshopEntry.mutate({ entry: selectedEntry, data: editFormData });
     }
   };
 
@@ -1125,8 +1197,8 @@ const FleetManagement = () => {
       reason: "",
       reason_type: "",
       workshop_name: "",
-      maintenance_cost: "",
       notes: "",
+      entry_km: "",
     });
     setWorkshopFiles([]);
     setExistingWorkshopAttachments([]);
@@ -1172,6 +1244,7 @@ const FleetManagement = () => {
     const status = workshopStatusConfig[entry.status];
     const StatusIcon = status.icon;
     const downtime = calculateDowntime(entry.entry_date, entry.exit_date);
+    const variance = entry.exit_date ? getCostVariance(entry.maintenance_cost, entry.approved_quote?.total ?? null) : null;
 
     return (
       <div className="bg-card rounded-xl border border-border p-5 card-hover">
@@ -1197,6 +1270,11 @@ const FleetManagement = () => {
         
         {/* Reason Type and Workshop badges */}
         <div className="flex flex-wrap gap-2 mb-3">
+          {entry.stage !== "concluida" && (
+            <span className={cn("px-2 py-1 rounded-md text-xs font-medium", WORKSHOP_STAGE_CLASSES[entry.stage])}>
+              Etapa: {WORKSHOP_STAGE_LABELS[entry.stage]}
+            </span>
+          )}
           {entry.reason_type && (
             <span className="px-2 py-1 rounded-md text-xs font-medium bg-blue-500/20 text-blue-700">
               {entry.reason_type}
@@ -1219,6 +1297,16 @@ const FleetManagement = () => {
             Valor: R$ {entry.maintenance_cost.toLocaleString("pt-BR", { minimumFractionDigits: 2 })}
           </p>
         )}
+        {entry.approved_quote && (
+          <p className="text-sm text-muted-foreground mb-3">
+            Orçamento aprovado: R$ {entry.approved_quote.total.toLocaleString("pt-BR", { minimumFractionDigits: 2 })}
+            {variance && (
+              <span className={cn("ml-2 font-medium", variance.amount > 0 ? "text-destructive" : "text-green-600")}>
+                ({variance.amount > 0 ? "+" : ""}{variance.percent.toFixed(1)}%)
+              </span>
+            )}
+          </p>
+        )}
         
         <div className="flex items-center justify-between pt-4 border-t border-border">
           <div className="space-y-1">
@@ -1253,7 +1341,11 @@ const FleetManagement = () => {
                 Editar
               </Button>
             </div>
-            {entry.status !== "concluida" && (
+            <Button size="sm" variant="outline" onClick={() => setFlowEntryId(entry.id)} className="gap-1">
+              <ClipboardList className="h-4 w-4" />
+              Etapas
+            </Button>
+            {entry.status !== "concluida" && entry.stage === "execucao" && (
               <Button size="sm" onClick={() => openExitDialog(entry)} className="gap-1">
                 <LogOut className="h-4 w-4" />
                 Registrar Saída
@@ -1294,6 +1386,10 @@ const FleetManagement = () => {
             <FileWarning className="h-4 w-4" />
             Acompanhamento de Laudos
           </TabsTrigger>
+          <TabsTrigger value="preventive" className="gap-2">
+            <CalendarClock className="h-4 w-4" />
+            Preventivas
+          </TabsTrigger>
         </TabsList>
 
         {/* ==================== VEHICLES TAB ==================== */}
@@ -1702,12 +1798,15 @@ const FleetManagement = () => {
               <TableBody>
                 {filteredVehicles.map((vehicle) => {
                   const status = vehicleStatusConfig[vehicle.status] || { label: vehicle.status, className: "bg-gray-500/20 text-gray-700" };
+                  const allocation = activeAllocationByVehicle[vehicle.id];
                   return (
                     <TableRow key={vehicle.id} className="hover:bg-muted/30">
                       <TableCell className="font-medium">
                         <div className="flex items-center gap-2">
                           <Car className="h-4 w-4 text-primary" />
-                          {vehicle.plate}
+                          <Link to={`/frotas/veiculo/${vehicle.id}`} className="hover:text-primary hover:underline">
+                            {vehicle.plate}
+                          </Link>
                         </div>
                       </TableCell>
                       <TableCell>{vehicle.model}</TableCell>
@@ -1724,12 +1823,32 @@ const FleetManagement = () => {
                         <span className={cn("px-3 py-1 rounded-full text-xs font-medium", status.className)}>
                           {status.label}
                         </span>
+                        {allocation && (
+                          <div className={cn("text-xs mt-1", isAllocationOverdue(allocation) ? "text-red-600 font-medium" : "text-muted-foreground")}>
+                            Com {allocation.drivers?.name || "motorista"}
+                          </div>
+                        )}
                       </TableCell>
                       <TableCell className="text-right">
                         <div className="flex justify-end gap-2">
+                          {canOperateFleet && (allocation ? (
+                            <Button variant="ghost" size="icon" onClick={() => returnVehicle.mutate(allocation)} disabled={returnVehicle.isPending} title="Registrar devolução">
+                              <Undo2 className="h-4 w-4" />
+                            </Button>
+                          ) : (
+                            <Button variant="ghost" size="icon" onClick={() => setCheckoutDefaults({ vehicleId: vehicle.id })} title="Registrar retirada">
+                              <KeyRound className="h-4 w-4" />
+                            </Button>
+                          ))}
+                          <Button variant="ghost" size="icon" onClick={() => setAllocationHistory({ title: vehicle.plate, vehicleId: vehicle.id })} title="Histórico de retiradas">
+                            <History className="h-4 w-4" />
+                          </Button>
                           <Button variant="ghost" size="icon" onClick={() => openViewAttachments(vehicle)} title="Ver anexos">
                             <Paperclip className="h-4 w-4" />
                           </Button>
+                          <Button variant="ghost" size="icon" onClick={() => setOdometerVehicle(vehicle)} title="Hodômetro">
+                            <Gauge className="h-4 w-4" />
+                          </Button>
                           {isAdmin && (
                             <>
                               <Button variant="ghost" size="icon" onClick={() => handleEditVehicle(vehicle)}>
@@ -1809,6 +1928,28 @@ const FleetManagement = () => {
               )}
             </DialogContent>
           </Dialog>
+
+          {/* Odometer Dialog */}
+          <Dialog open={!!odometerVehicle} onOpenChange={(open) => { if (!open) setOdometerVehicle(null); }}>
+            <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+              <DialogHeader>
+                <DialogTitle className="flex items-center gap-2">
+                  <Gauge className="h-5 w-5" />
+                  Hodômetro - {odometerVehicle?.plate}
+                </DialogTitle>
+                <DialogDescription>
+                  Histórico de quilometragem do veículo
+                </DialogDescription>
+              </DialogHeader>
+              {odometerVehicle && (
+                <OdometerHistory
+                  vehicleId={odometerVehicle.id}
+                  canRecord={canOperateFleet}
+                  canDelete={isAdmin}
+                />
+              )}
+            </DialogContent>
+          </Dialog>
         </TabsContent>
 
         {/* ==================== WORKSHOP TAB ==================== */}
@@ -1963,15 +2104,14 @@ const FleetManagement = () => {
                     />
                   </div>
                   <div className="space-y-2">
-                    <Label htmlFor="maintenance_cost">Valor da Manutenção (opcional)</Label>
+                    <Label htmlFor="entry_km">Km na Entrada (opcional)</Label>
                     <Input
-                      id="maintenance_cost"
+                      id="entry_km"
                       type="number"
-                      step="0.01"
                       min="0"
-                      value={workshopFormData.maintenance_cost}
-                      onChange={(e) => setWorkshopFormData({ ...workshopFormData, maintenance_cost: e.target.value })}
-                      placeholder="R$ 0,00"
+                      value={workshopFormData.entry_km}
+                      onChange={(e) => setWorkshopFormData({ ...workshopFormData, entry_km: e.target.value })}
+                      placeholder="Hodômetro do veículo"
                     />
                   </div>
                   <div className="space-y-2">
@@ -2124,18 +2264,20 @@ const FleetManagement = () => {
                       required
                     />
                   </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="edit_maintenance_cost">Valor da Manutenção</Label>
-                    <Input
-                      id="edit_maintenance_cost"
-                      type="number"
-                      step="0.01"
-                      min="0"
-                      value={editFormData.maintenance_cost}
-                      onChange={(e) => setEditFormData({ ...editFormData, maintenance_cost: e.target.value })}
-                      placeholder="R$ 0,00"
-                    />
-                  </div>
+                  {selectedEntry?.stage === "concluida" && (
+                    <div className="space-y-2">
+                      <Label htmlFor="edit_maintenance_cost">Valor da Manutenção</Label>
+                      <Input
+                        id="edit_maintenance_cost"
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={editFormData.maintenance_cost}
+                        onChange={(e) => setEditFormData({ ...editFormData, maintenance_cost: e.target.value })}
+                        placeholder="R$ 0,00"
+                      />
+                    </div>
+                  )}
                   <div className="space-y-2">
                     <Label htmlFor="edit_notes">Observações (opcional)</Label>
                     <Textarea
@@ -2288,9 +2430,22 @@ const FleetManagement = () => {
                       required
                     />
                     <p className="text-xs text-muted-foreground">
-                      O valor da manutenção é obrigatório para registrar a saída
+                      {selectedEntry?.approved_quote
+                        ? `Orçamento aprovado: R$ ${selectedEntry.approved_quote.total.toLocaleString("pt-BR", { minimumFractionDigits: 2 })}. Informe o valor final cobrado.`
+                        : "O valor da manutenção é obrigatório para registrar a saída"}
                     </p>
                   </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="exit_km">Km na Saída (opcional)</Label>
+                    <Input
+                      id="exit_km"
+                      type="number"
+                      min="0"
+                      value={exitKm}
+                      onChange={(e) => setExitKm(e.target.value)}
+                      placeholder="Hodômetro do veículo"
+                    />
+                  </div>
                   <div className="flex justify-end gap-3 pt-4">
                     <Button type="button" variant="outline" onClick={() => setIsExitDialogOpen(false)}>
                       Cancelar
@@ -2400,6 +2555,8 @@ const FleetManagement = () => {
 
         {/* ==================== DRIVERS TAB ==================== */}
         <TabsContent value="drivers">
+          <OverdueAllocations activeAllocations={activeAllocations} canManage={canOperateFleet} />
+
           <div className="flex flex-col sm:flex-row gap-4 mb-6">
             <div className="relative flex-1">
               <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
@@ -2415,6 +2572,12 @@ const FleetManagement = () => {
               filename={`motoristas-${new Date().toISOString().split('T')[0]}`}
               columns={driversCsvColumns}
             />
+            {canOperateFleet && (
+              <Button variant="outline" className="gap-2" onClick={() => setCheckoutDefaults({})}>
+                <KeyRound className="h-4 w-4" />
+                Registrar Retirada
+              </Button>
+            )}
             {isAdmin && (
               <Dialog open={isDriverDialogOpen} onOpenChange={(open) => { if (!open) resetDriverForm(); else setIsDriverDialogOpen(true); }}>
                 <DialogTrigger asChild>
@@ -2515,7 +2678,8 @@ const FleetManagement = () => {
                   <TableHead>Função</TableHead>
                   <TableHead>Equipe</TableHead>
                   <TableHead>Contato</TableHead>
-                  {isAdmin && <TableHead className="text-right">Ações</TableHead>}
+                  <TableHead>Veículo em Uso</TableHead>
+                  <TableHead className="text-right">Ações</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
@@ -2544,18 +2708,47 @@ const FleetManagement = () => {
                         <span className="text-muted-foreground">-</span>
                       )}
                     </TableCell>
-                    {isAdmin && (
-                      <TableCell className="text-right">
-                        <div className="flex justify-end gap-2">
-                          <Button variant="ghost" size="icon" onClick={() => handleEditDriver(driver)}>
-                            <Edit className="h-4 w-4" />
-                          </Button>
-                          <Button variant="ghost" size="icon" onClick={() => handleDeleteDriver(driver.id)}>
-                            <Trash2 className="h-4 w-4 text-destructive" />
-                          </Button>
+                    <TableCell>
+                      {activeAllocationsByDriver[driver.id]?.length ? (
+                        <div className="flex flex-wrap gap-1">
+                          {activeAllocationsByDriver[driver.id].map((allocation) => (
+                            <span
+                              key={allocation.id}
+                              className={cn(
+                                "px-2 py-0.5 rounded-full text-xs font-medium",
+                                isAllocationOverdue(allocation) ? "bg-red-500/20 text-red-700" : "bg-primary/10 text-primary"
+                              )}
+                            >
+                              {allocation.vehicles?.plate}
+                            </span>
+                          ))}
                         </div>
-                      </TableCell>
-                    )}
+                      ) : (
+                        <span className="text-muted-foreground">-</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        {canOperateFleet && (
+                          <Button variant="ghost" size="icon" onClick={() => setCheckoutDefaults({ driverId: driver.id })} title="Registrar retirada">
+                            <KeyRound className="h-4 w-4" />
+                          </Button>
+                        )}
+                        <Button variant="ghost" size="icon" onClick={() => setAllocationHistory({ title: driver.name, driverId: driver.id })} title="Histórico de retiradas">
+                          <History className="h-4 w-4" />
+                        </Button>
+                        {isAdmin && (
+                          <>
+                            <Button variant="ghost" size="icon" onClick={() => handleEditDriver(driver)}>
+                              <Edit className="h-4 w-4" />
+                            </Button>
+                            <Button variant="ghost" size="icon" onClick={() => handleDeleteDriver(driver.id)}>
+                              <Trash2 className="h-4 w-4 text-destructive" />
+                            </Button>
+                          </>
+                        )}
+                      </div>
+                    </TableCell>
                   </TableRow>
                 ))}
               </TableBody>
@@ -2580,7 +2773,44 @@ const FleetManagement = () => {
         <TabsContent value="laudos">
           <LaudosTrackingTab />
         </TabsContent>
+
+        {/* ==================== PREVENTIVE MAINTENANCE TAB ==================== */}
+        <TabsContent value="preventive">
+          <PreventiveMaintenanceTab canManage={isAdmin} />
+        </TabsContent>
       </Tabs>
+
+      {/* ==================== WORKSHOP FLOW DIALOG ==================== */}
+      <WorkshopFlowDialog
+        open={!!flowEntryId}
+        onOpenChange={(open) => { if (!open) setFlowEntryId(null); }}
+        entry={workshopEntries.find(e => e.id === flowEntryId) || null}
+        canApprove={isAdmin}
+        onRegisterExit={() => {
+          const entry = workshopEntries.find(e => e.id === flowEntryId);
+          setFlowEntryId(null);
+          if (entry) openExitDialog(entry);
+        }}
+      />
+
+      {/* ==================== ALLOCATION DIALOGS ==================== */}
+      <CheckoutDialog
+        open={!!checkoutDefaults}
+        onOpenChange={(open) => { if (!open) setCheckoutDefaults(null); }}
+        vehicles={vehicles}
+        drivers={drivers}
+        busyVehicleIds={Object.keys(activeAllocationByVehicle)}
+        defaultVehicleId={checkoutDefaults?.vehicleId}
+        defaultDriverId={checkoutDefaults?.driverId}
+      />
+      <AllocationHistoryDialog
+        open={!!allocationHistory}
+        onOpenChange={(open) => { if (!open) setAllocationHistory(null); }}
+        title={allocationHistory?.title || ""}
+        vehicleId={allocationHistory?.vehicleId}
+        driverId={allocationHistory?.driverId}
+        canManage={canOperateFleet}
+      />
     </MainLayout>
   );
 };
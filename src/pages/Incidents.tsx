@@ -1,4 +1,6 @@
-import { useState } from "react";
+import { useState, useMemo, useRef } from "react";
+import { Navigate } from "react-router-dom";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { MainLayout } from "@/components/layout/MainLayout";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -17,108 +19,331 @@ import {
   DialogDescription,
   DialogHeader,
   DialogTitle,
-  DialogTrigger,
 } from "@/components/ui/dialog";
-import { Plus, Search, AlertTriangle, FileWarning, Car, Calendar, User } from "lucide-react";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+  Plus, Search, AlertTriangle, FileWarning, Car, Calendar, User, Edit, Trash2,
+  Upload, X, Paperclip, ChevronsUpDown, Check, Siren,
+} from "lucide-react";
 import { ExportButton } from "@/components/ExportButton";
 import { CsvColumn, formatDate } from "@/lib/exportCsv";
 import { cn } from "@/lib/utils";
 import { toast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { usePermissions } from "@/hooks/usePermissions";
+
+type IncidentType = "multa" | "acidente" | "incidente" | "observacao";
+type IncidentSeverity = "baixa" | "media" | "alta" | "critica";
 
 interface Incident {
-  id: number;
-  vehiclePlate: string;
-  vehicleModel: string;
-  driverName: string;
-  type: "multa" | "incidente" | "observacao";
+  id: string;
+  vehicle_id: string | null;
+  driver_id: string | null;
+  type: IncidentType;
+  severity: IncidentSeverity;
   description: string;
   date: string;
-  severity: "baixa" | "media" | "alta";
+  attachment_url: string | null;
+  vehicles?: {
+    plate: string;
+    model: string;
+  } | null;
+  drivers?: {
+    name: string;
+  } | null;
+}
+
+interface VehicleOption {
+  id: string;
+  plate: string;
+  model: string;
 }
 
-const initialIncidents: Incident[] = [
-  { id: 1, vehiclePlate: "ABC-1234", vehicleModel: "Fiat Strada", driverName: "João Silva", type: "multa", description: "Multa por excesso de velocidade na BR-101", date: "2024-12-05", severity: "media" },
-  { id: 2, vehiclePlate: "DEF-5678", vehicleModel: "VW Saveiro", driverName: "Maria Santos", type: "incidente", description: "Pequeno amassado na porta traseira direita", date: "2024-12-03", severity: "baixa" },
-  { id: 3, vehiclePlate: "GHI-9012", vehicleModel: "Toyota Hilux", driverName: "Pedro Costa", type: "incidente", description: "Colisão traseira leve em estacionamento", date: "2024-11-28", severity: "alta" },
-  { id: 4, vehiclePlate: "JKL-3456", vehicleModel: "Ford Ranger", driverName: "Ana Lima", type: "observacao", description: "Barulho estranho ao acelerar - verificar motor", date: "2024-12-07", severity: "media" },
-];
+interface DriverOption {
+  id: string;
+  name: string;
+  matricula: string;
+}
 
-const typeConfig = {
+const typeConfig: Record<IncidentType, { label: string; icon: React.ComponentType<{ className?: string }>; color: string }> = {
   multa: { label: "Multa", icon: FileWarning, color: "text-destructive" },
+  acidente: { label: "Acidente", icon: Siren, color: "text-destructive" },
   incidente: { label: "Incidente", icon: AlertTriangle, color: "text-warning" },
   observacao: { label: "Observação", icon: Car, color: "text-primary" },
 };
 
-const severityConfig = {
+const severityConfig: Record<IncidentSeverity, { label: string; className: string }> = {
   baixa: { label: "Baixa", className: "status-available" },
   media: { label: "Média", className: "status-maintenance" },
   alta: { label: "Alta", className: "status-in-use" },
+  critica: { label: "Crítica", className: "bg-destructive/20 text-destructive" },
+};
+
+const emptyForm = {
+  vehicle_id: "",
+  driver_id: "",
+  type: "observacao" as IncidentType,
+  description: "",
+  date: new Date().toISOString().split("T")[0],
+  severity: "baixa" as IncidentSeverity,
 };
 
 const Incidents = () => {
-  const [incidents, setIncidents] = useState<Incident[]>(initialIncidents);
+  const { user } = useAuth();
+  const { hasPermission, canViewPage, isLoading: isLoadingPermissions } = usePermissions();
+  const queryClient = useQueryClient();
+
   const [searchTerm, setSearchTerm] = useState("");
   const [filterType, setFilterType] = useState<string>("all");
   const [isDialogOpen, setIsDialogOpen] = useState(false);
-  const [formData, setFormData] = useState({
-    vehiclePlate: "",
-    vehicleModel: "",
-    driverName: "",
-    type: "observacao" as Incident["type"],
-    description: "",
-    date: "",
-    severity: "baixa" as Incident["severity"],
+  const [editingIncident, setEditingIncident] = useState<Incident | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+  const [attachmentFile, setAttachmentFile] = useState<File | null>(null);
+  const [removeExistingAttachment, setRemoveExistingAttachment] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [plateSearchOpen, setPlateSearchOpen] = useState(false);
+  const [plateSearch, setPlateSearch] = useState("");
+
+  const canCreate = hasPermission("incidents", "create");
+  const canEdit = hasPermission("incidents", "edit");
+  const canDelete = hasPermission("incidents", "delete");
+  const canExport = hasPermission("incidents", "export");
+
+  // ==================== QUERIES ====================
+  const { data: incidents = [], isLoading } = useQuery({
+    queryKey: ["incidents"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("incidents")
+        .select(`
+          *,
+          vehicles (
+            plate,
+            model
+          ),
+          drivers (
+            name
+          )
+        `)
+        .order("date", { ascending: false });
+      if (error) throw error;
+      return data as Incident[];
+    },
+  });
+
+  const { data: vehicles = [] } = useQuery({
+    queryKey: ["incident_vehicles"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("vehicles")
+        .select("id, plate, model")
+        .order("plate");
+      if (error) throw error;
+      return data as VehicleOption[];
+    },
+  });
+
+  const { data: drivers = [] } = useQuery({
+    queryKey: ["incident_drivers"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("drivers")
+        .select("id, name, matricula")
+        .order("name");
+      if (error) throw error;
+      return data as DriverOption[];
+    },
   });
 
+  // ==================== FILE UPLOAD ====================
+  const uploadAttachment = async (incidentId: string, file: File) => {
+    const fileExt = file.name.split('.').pop();
+    const fileName = `incidents/${incidentId}/${Date.now()}-${Math.random().toString(36).substring(7)}.${fileExt}`;
+
+    const { error: uploadError } = await supabase.storage
+      .from('fleet-files')
+      .upload(fileName, file);
+
+    if (uploadError) throw uploadError;
+
+    const { data: urlData } = supabase.storage.from('fleet-files').getPublicUrl(fileName);
+    return urlData.publicUrl;
+  };
+
+  // ==================== MUTATIONS ====================
+  const saveIncident = useMutation({
+    mutationFn: async (data: typeof formData) => {
+      if (!data.vehicle_id) throw new Error("Veículo não selecionado");
+
+      setIsUploading(true);
+
+      const payload = {
+        vehicle_id: data.vehicle_id,
+        driver_id: data.driver_id || null,
+        type: data.type,
+        severity: data.severity,
+        description: data.description,
+        date: data.date,
+      };
+
+      let incidentId = editingIncident?.id;
+      if (editingIncident) {
+        const { error } = await supabase
+          .from("incidents")
+          .update({
+            ...payload,
+            ...(removeExistingAttachment ? { attachment_url: null } : {}),
+          })
+          .eq("id", editingIncident.id);
+        if (error) throw error;
+      } else {
+        const { data: created, error } = await supabase
+          .from("incidents")
+          .insert({ ...payload, created_by: user?.id ?? null })
+          .select("id")
+          .single();
+        if (error) throw error;
+        incidentId = created.id;
+      }
+
+      if (attachmentFile && incidentId) {
+        const attachmentUrl = await uploadAttachment(incidentId, attachmentFile);
+        const { error } = await supabase
+          .from("incidents")
+          .update({ attachment_url: attachmentUrl })
+          .eq("id", incidentId);
+        if (error) throw error;
+      }
+
+      setIsUploading(false);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["incidents"] });
+      toast({ title: editingIncident ? "Ocorrência atualizada com sucesso!" : "Ocorrência registrada com sucesso!" });
+      resetForm();
+    },
+    onError: (error) => {
+      setIsUploading(false);
+      toast({ title: "Erro ao salvar ocorrência", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteIncident = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("incidents").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["incidents"] });
+      toast({ title: "Ocorrência removida com sucesso!" });
+    },
+    onError: (error) => {
+      toast({ title: "Erro ao remover ocorrência", description: error.message, variant: "destructive" });
+    },
+  });
+
+  // ==================== FILTERED DATA ====================
   const filteredIncidents = incidents.filter((i) => {
+    const term = searchTerm.toLowerCase();
     const matchesSearch =
-      i.vehiclePlate.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      i.driverName.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      i.description.toLowerCase().includes(searchTerm.toLowerCase());
+      (i.vehicles?.plate.toLowerCase().includes(term) || false) ||
+      (i.drivers?.name.toLowerCase().includes(term) || false) ||
+      i.description.toLowerCase().includes(term);
     const matchesType = filterType === "all" || i.type === filterType;
     return matchesSearch && matchesType;
   });
 
+  const filteredVehicleOptions = useMemo(() => {
+    if (!plateSearch) return vehicles;
+    return vehicles.filter(v =>
+      v.plate.toLowerCase().includes(plateSearch.toLowerCase()) ||
+      v.model.toLowerCase().includes(plateSearch.toLowerCase())
+    );
+  }, [vehicles, plateSearch]);
+
+  const selectedVehicle = vehicles.find(v => v.id === formData.vehicle_id);
+
   // CSV columns
   const csvColumns: CsvColumn[] = [
     { key: "date", header: "Data", format: (v) => formatDate(v) },
-    { key: "vehiclePlate", header: "Placa" },
-    { key: "vehicleModel", header: "Modelo" },
-    { key: "driverName", header: "Motorista" },
-    { key: "type", header: "Tipo", format: (v) => typeConfig[v as keyof typeof typeConfig]?.label || v },
-    { key: "severity", header: "Gravidade", format: (v) => severityConfig[v as keyof typeof severityConfig]?.label || v },
+    { key: "vehicles", header: "Placa", format: (v) => v?.plate || "-" },
+    { key: "vehicles", header: "Modelo", format: (v) => v?.model || "-" },
+    { key: "drivers", header: "Motorista", format: (v) => v?.name || "-" },
+    { key: "type", header: "Tipo", format: (v) => typeConfig[v as IncidentType]?.label || v },
+    { key: "severity", header: "Gravidade", format: (v) => severityConfig[v as IncidentSeverity]?.label || v },
     { key: "description", header: "Descrição" },
+    { key: "attachment_url", header: "Anexo", format: (v) => v || "-" },
   ];
 
+  // ==================== HANDLERS ====================
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    const newIncident: Incident = {
-      id: Date.now(),
-      ...formData,
-    };
-    setIncidents([newIncident, ...incidents]);
-    toast({ title: "Ocorrência registrada com sucesso!" });
-    resetForm();
+    saveIncident.mutate(formData);
   };
 
-  const resetForm = () => {
+  const handleEdit = (incident: Incident) => {
+    setEditingIncident(incident);
     setFormData({
-      vehiclePlate: "",
-      vehicleModel: "",
-      driverName: "",
-      type: "observacao",
-      description: "",
-      date: "",
-      severity: "baixa",
+      vehicle_id: incident.vehicle_id || "",
+      driver_id: incident.driver_id || "",
+      type: incident.type,
+      description: incident.description,
+      date: incident.date,
+      severity: incident.severity,
     });
+    setAttachmentFile(null);
+    setRemoveExistingAttachment(false);
+    setIsDialogOpen(true);
+  };
+
+  const handleDelete = (id: string) => {
+    if (confirm("Tem certeza que deseja remover esta ocorrência?")) {
+      deleteIncident.mutate(id);
+    }
+  };
+
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0] || null;
+    setAttachmentFile(file);
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  };
+
+  const resetForm = () => {
+    setFormData({ ...emptyForm, date: new Date().toISOString().split("T")[0] });
+    setEditingIncident(null);
+    setAttachmentFile(null);
+    setRemoveExistingAttachment(false);
+    setPlateSearch("");
     setIsDialogOpen(false);
   };
 
+  if (!isLoadingPermissions && !canViewPage("incidents")) {
+    return <Navigate to="/" replace />;
+  }
+
+  const existingAttachmentUrl = editingIncident && !removeExistingAttachment ? editingIncident.attachment_url : null;
+
   return (
     <MainLayout>
       <div className="mb-8 animate-fade-in">
         <h1 className="text-3xl font-bold text-foreground mb-2">Ocorrências</h1>
-        <p className="text-muted-foreground">Registro de multas, incidentes e observações</p>
+        <p className="text-muted-foreground">Registro de multas, acidentes, incidentes e observações</p>
       </div>
 
       {/* Actions */}
@@ -126,7 +351,7 @@ const Incidents = () => {
         <div className="relative flex-1">
           <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
           <Input
-            placeholder="Buscar ocorrências..."
+            placeholder="Buscar por placa, motorista ou descrição..."
             value={searchTerm}
             onChange={(e) => setSearchTerm(e.target.value)}
             className="pl-10"
@@ -139,132 +364,238 @@ const Incidents = () => {
           <SelectContent>
             <SelectItem value="all">Todos os tipos</SelectItem>
             <SelectItem value="multa">Multas</SelectItem>
+            <SelectItem value="acidente">Acidentes</SelectItem>
             <SelectItem value="incidente">Incidentes</SelectItem>
             <SelectItem value="observacao">Observações</SelectItem>
           </SelectContent>
         </Select>
-        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-          <DialogTrigger asChild>
-            <Button className="gap-2">
-            <Plus className="h-4 w-4" />
-              Nova Ocorrência
-            </Button>
-          </DialogTrigger>
+        {canExport && (
           <ExportButton
             data={filteredIncidents}
             filename={`ocorrencias-${new Date().toISOString().split('T')[0]}`}
             columns={csvColumns}
           />
-          <DialogContent className="max-w-lg">
-            <DialogHeader>
-              <DialogTitle>Registrar Ocorrência</DialogTitle>
-              <DialogDescription>Preencha os detalhes da ocorrência</DialogDescription>
-            </DialogHeader>
-            <form onSubmit={handleSubmit} className="space-y-4">
-              <div className="grid grid-cols-2 gap-4">
-                <div className="space-y-2">
-                  <Label htmlFor="vehiclePlate">Placa</Label>
-                  <Input
-                    id="vehiclePlate"
-                    value={formData.vehiclePlate}
-                    onChange={(e) => setFormData({ ...formData, vehiclePlate: e.target.value })}
-                    placeholder="ABC-1234"
-                    required
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="vehicleModel">Modelo</Label>
-                  <Input
-                    id="vehicleModel"
-                    value={formData.vehicleModel}
-                    onChange={(e) => setFormData({ ...formData, vehicleModel: e.target.value })}
-                    placeholder="Fiat Strada"
-                    required
-                  />
-                </div>
-              </div>
-              <div className="grid grid-cols-2 gap-4">
-                <div className="space-y-2">
-                  <Label htmlFor="driverName">Motorista</Label>
-                  <Input
-                    id="driverName"
-                    value={formData.driverName}
-                    onChange={(e) => setFormData({ ...formData, driverName: e.target.value })}
-                    placeholder="Nome do motorista"
-                    required
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="date">Data</Label>
-                  <Input
-                    id="date"
-                    type="date"
-                    value={formData.date}
-                    onChange={(e) => setFormData({ ...formData, date: e.target.value })}
-                    required
-                  />
-                </div>
-              </div>
-              <div className="grid grid-cols-2 gap-4">
-                <div className="space-y-2">
-                  <Label htmlFor="type">Tipo</Label>
-                  <Select
-                    value={formData.type}
-                    onValueChange={(value: Incident["type"]) => setFormData({ ...formData, type: value })}
-                  >
-                    <SelectTrigger>
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="multa">Multa</SelectItem>
-                      <SelectItem value="incidente">Incidente</SelectItem>
-                      <SelectItem value="observacao">Observação</SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="severity">Gravidade</Label>
-                  <Select
-                    value={formData.severity}
-                    onValueChange={(value: Incident["severity"]) => setFormData({ ...formData, severity: value })}
+        )}
+        {canCreate && (
+          <Button className="gap-2" onClick={() => { resetForm(); setIsDialogOpen(true); }}>
+            <Plus className="h-4 w-4" />
+            Nova Ocorrência
+          </Button>
+        )}
+      </div>
+
+      <Dialog open={isDialogOpen} onOpenChange={(open) => { if (!open) resetForm(); else setIsDialogOpen(true); }}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingIncident ? "Editar Ocorrência" : "Registrar Ocorrência"}</DialogTitle>
+            <DialogDescription>Preencha os detalhes da ocorrência</DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label>Veículo</Label>
+              <Popover open={plateSearchOpen} onOpenChange={setPlateSearchOpen}>
+                <PopoverTrigger asChild>
+                  <Button
+                    variant="outline"
+                    role="combobox"
+                    aria-expanded={plateSearchOpen}
+                    className="w-full justify-between"
                   >
-                    <SelectTrigger>
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="baixa">Baixa</SelectItem>
-                      <SelectItem value="media">Média</SelectItem>
-                      <SelectItem value="alta">Alta</SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
+                    {selectedVehicle
+                      ? `${selectedVehicle.plate} - ${selectedVehicle.model}`
+                      : "Buscar por placa..."}
+                    <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-full p-0" align="start">
+                  <Command>
+                    <CommandInput
+                      placeholder="Digite a placa..."
+                      value={plateSearch}
+                      onValueChange={setPlateSearch}
+                    />
+                    <CommandList>
+                      <CommandEmpty>Nenhum veículo encontrado.</CommandEmpty>
+                      <CommandGroup>
+                        {filteredVehicleOptions.map((vehicle) => (
+                          <CommandItem
+                            key={vehicle.id}
+                            value={vehicle.plate}
+                            onSelect={() => {
+                              setFormData({ ...formData, vehicle_id: vehicle.id });
+                              setPlateSearchOpen(false);
+                            }}
+                          >
+                            <Check
+                              className={cn(
+                                "mr-2 h-4 w-4",
+                                formData.vehicle_id === vehicle.id ? "opacity-100" : "opacity-0"
+                              )}
+                            />
+                            {vehicle.plate} - {vehicle.model}
+                          </CommandItem>
+                        ))}
+                      </CommandGroup>
+                    </CommandList>
+                  </Command>
+                </PopoverContent>
+              </Popover>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="driver">Motorista</Label>
+                <Select
+                  value={formData.driver_id || "none"}
+                  onValueChange={(value) => setFormData({ ...formData, driver_id: value === "none" ? "" : value })}
+                >
+                  <SelectTrigger id="driver">
+                    <SelectValue placeholder="Selecione o motorista" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Não identificado</SelectItem>
+                    {drivers.map((driver) => (
+                      <SelectItem key={driver.id} value={driver.id}>
+                        {driver.name} ({driver.matricula})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
               </div>
               <div className="space-y-2">
-                <Label htmlFor="description">Descrição</Label>
-                <Textarea
-                  id="description"
-                  value={formData.description}
-                  onChange={(e) => setFormData({ ...formData, description: e.target.value })}
-                  placeholder="Descreva a ocorrência em detalhes..."
-                  rows={3}
+                <Label htmlFor="date">Data</Label>
+                <Input
+                  id="date"
+                  type="date"
+                  value={formData.date}
+                  onChange={(e) => setFormData({ ...formData, date: e.target.value })}
                   required
                 />
               </div>
-              <div className="flex justify-end gap-3 pt-4">
-                <Button type="button" variant="outline" onClick={resetForm}>Cancelar</Button>
-                <Button type="submit">Registrar</Button>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="type">Tipo</Label>
+                <Select
+                  value={formData.type}
+                  onValueChange={(value: IncidentType) => setFormData({ ...formData, type: value })}
+                >
+                  <SelectTrigger id="type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(typeConfig) as IncidentType[]).map((type) => (
+                      <SelectItem key={type} value={type}>{typeConfig[type].label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
               </div>
-            </form>
-          </DialogContent>
-        </Dialog>
-      </div>
+              <div className="space-y-2">
+                <Label htmlFor="severity">Gravidade</Label>
+                <Select
+                  value={formData.severity}
+                  onValueChange={(value: IncidentSeverity) => setFormData({ ...formData, severity: value })}
+                >
+                  <SelectTrigger id="severity">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(severityConfig) as IncidentSeverity[]).map((severity) => (
+                      <SelectItem key={severity} value={severity}>{severityConfig[severity].label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="description">Descrição</Label>
+              <Textarea
+                id="description"
+                value={formData.description}
+                onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                placeholder="Descreva a ocorrência em detalhes..."
+                rows={3}
+                required
+              />
+            </div>
+
+            {/* Attachment */}
+            <div className="space-y-2">
+              <Label>Anexo (auto de infração, B.O., fotos...)</Label>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="image/*,video/*,.pdf,.doc,.docx"
+                onChange={handleFileSelect}
+                className="hidden"
+              />
+              {existingAttachmentUrl && !attachmentFile && (
+                <div className="flex items-center justify-between bg-muted/50 rounded-lg p-2">
+                  <a
+                    href={existingAttachmentUrl}
+                    target="_blank"
+                    rel="noreferrer"
+                    className="flex items-center gap-2 text-sm text-primary truncate"
+                  >
+                    <Paperclip className="h-4 w-4" />
+                    Anexo atual
+                  </a>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6 shrink-0"
+                    onClick={() => setRemoveExistingAttachment(true)}
+                    title="Remover"
+                  >
+                    <X className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+              )}
+              {attachmentFile ? (
+                <div className="flex items-center justify-between bg-muted/50 rounded-lg p-2">
+                  <div className="flex items-center gap-2 overflow-hidden">
+                    <Paperclip className="h-4 w-4" />
+                    <span className="text-sm truncate">{attachmentFile.name}</span>
+                  </div>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6 shrink-0"
+                    onClick={() => setAttachmentFile(null)}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ) : (
+                <Button
+                  type="button"
+                  variant="outline"
+                  className="w-full gap-2"
+                  onClick={() => fileInputRef.current?.click()}
+                >
+                  <Upload className="h-4 w-4" />
+                  {existingAttachmentUrl ? "Substituir Anexo" : "Anexar Arquivo"}
+                </Button>
+              )}
+            </div>
+
+            <div className="flex justify-end gap-3 pt-4">
+              <Button type="button" variant="outline" onClick={resetForm}>Cancelar</Button>
+              <Button type="submit" disabled={saveIncident.isPending || isUploading || !formData.vehicle_id}>
+                {isUploading ? "Enviando..." : editingIncident ? "Atualizar" : "Registrar"}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
 
       {/* Incidents Grid */}
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4 animate-fade-in">
         {filteredIncidents.map((incident) => {
-          const typeInfo = typeConfig[incident.type];
+          const typeInfo = typeConfig[incident.type] || typeConfig.observacao;
           const TypeIcon = typeInfo.icon;
-          const severity = severityConfig[incident.severity];
+          const severity = severityConfig[incident.severity] || severityConfig.baixa;
 
           return (
             <div key={incident.id} className="bg-card rounded-xl border border-border p-5 card-hover">
@@ -281,22 +612,39 @@ const Incidents = () => {
                       </span>
                     </div>
                     <p className="text-sm text-muted-foreground">
-                      {incident.vehicleModel} • {incident.vehiclePlate}
+                      {incident.vehicles ? `${incident.vehicles.model} • ${incident.vehicles.plate}` : "Veículo removido"}
                     </p>
                   </div>
                 </div>
+                <div className="flex gap-1">
+                  {incident.attachment_url && (
+                    <Button variant="ghost" size="icon" onClick={() => window.open(incident.attachment_url!, '_blank')} title="Ver anexo">
+                      <Paperclip className="h-4 w-4" />
+                    </Button>
+                  )}
+                  {canEdit && (
+                    <Button variant="ghost" size="icon" onClick={() => handleEdit(incident)}>
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                  )}
+                  {canDelete && (
+                    <Button variant="ghost" size="icon" onClick={() => handleDelete(incident.id)}>
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  )}
+                </div>
               </div>
-              
+
               <p className="text-sm text-foreground mb-4">{incident.description}</p>
-              
+
               <div className="flex items-center justify-between pt-4 border-t border-border text-sm text-muted-foreground">
                 <div className="flex items-center gap-2">
                   <User className="h-4 w-4" />
-                  {incident.driverName}
+                  {incident.drivers?.name || "Motorista não identificado"}
                 </div>
                 <div className="flex items-center gap-2">
                   <Calendar className="h-4 w-4" />
-                  {new Date(incident.date).toLocaleDateString("pt-BR")}
+                  {new Date(incident.date + "T12:00:00").toLocaleDateString("pt-BR")}
                 </div>
               </div>
             </div>
@@ -304,7 +652,10 @@ const Incidents = () => {
         })}
       </div>
 
-      {filteredIncidents.length === 0 && (
+      {isLoading && (
+        <div className="text-center py-12 text-muted-foreground">Carregando...</div>
+      )}
+      {!isLoading && filteredIncidents.length === 0 && (
         <div className="text-center py-12 text-muted-foreground">
           Nenhuma ocorrência encontrada
         </div>
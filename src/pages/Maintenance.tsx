@@ -21,21 +21,34 @@ import {
   DialogTrigger,
 } from "@/components/ui/dialog";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Plus, Search, Wrench, Calendar, AlertCircle, CheckCircle, Clock } from "lucide-react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Switch } from "@/components/ui/switch";
+import { Plus, Search, Wrench, Calendar, AlertCircle, CheckCircle, Clock, ClipboardList, Edit, Trash2, Gauge } from "lucide-react";
 import { ExportButton } from "@/components/ExportButton";
 import { CsvColumn, formatDate, formatCurrency } from "@/lib/exportCsv";
 import { cn } from "@/lib/utils";
 import { toast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { formatPlanInterval } from "@/lib/preventiveMaintenance";
 
 type MaintenanceStatus = "pendente" | "em_andamento" | "concluida";
 
 interface MaintenanceRecord {
   id: string;
   vehicle_id: string;
+  plan_id: string | null;
   type: string;
   description: string | null;
   scheduled_date: string | null;
+  scheduled_km: number | null;
   completed_date: string | null;
   cost: number | null;
   status: MaintenanceStatus;
@@ -46,6 +59,16 @@ interface MaintenanceRecord {
   };
 }
 
+interface MaintenancePlan {
+  id: string;
+  name: string;
+  vehicle_model: string | null;
+  interval_km: number | null;
+  interval_months: number | null;
+  description: string | null;
+  is_active: boolean;
+}
+
 interface Team {
   id: string;
   name: string;
@@ -62,10 +85,23 @@ const statusConfig = {
   em_andamento: { icon: Wrench, label: "Em Andamento", className: "status-in-use" },
 };
 
+const emptyPlanForm = {
+  name: "",
+  vehicle_model: "",
+  interval_km: "",
+  interval_months: "",
+  description: "",
+  is_active: true,
+};
+
 const Maintenance = () => {
+  const { isAdmin } = useAuth();
   const queryClient = useQueryClient();
   const [searchTerm, setSearchTerm] = useState("");
   const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [isPlanDialogOpen, setIsPlanDialogOpen] = useState(false);
+  const [editingPlan, setEditingPlan] = useState<MaintenancePlan | null>(null);
+  const [planFormData, setPlanFormData] = useState(emptyPlanForm);
   const [formData, setFormData] = useState({
     team_id: "",
     type: "",
@@ -127,6 +163,29 @@ const Maintenance = () => {
     },
   });
 
+  const { data: plans = [] } = useQuery({
+    queryKey: ["maintenance_plans"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("maintenance_plans")
+        .select("*")
+        .order("name");
+      if (error) throw error;
+      return data as MaintenancePlan[];
+    },
+  });
+
+  const { data: vehicleModels = [] } = useQuery({
+    queryKey: ["vehicle_models"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("vehicles")
+        .select("model");
+      if (error) throw error;
+      return Array.from(new Set(data.map(v => v.model.trim().toUpperCase()))).sort();
+    },
+  });
+
   const createMaintenance = useMutation({
     mutationFn: async (data: typeof formData) => {
       const team = teams.find(t => t.id === data.team_id);
@@ -166,6 +225,98 @@ const Maintenance = () => {
     },
   });
 
+  // ==================== PLAN MUTATIONS ====================
+  const savePlan = useMutation({
+    mutationFn: async (data: typeof planFormData) => {
+      if (!data.interval_km && !data.interval_months) {
+        throw new Error("Informe o intervalo em km e/ou meses");
+      }
+      const payload = {
+        name: data.name,
+        vehicle_model: data.vehicle_model || null,
+        interval_km: data.interval_km ? parseInt(data.interval_km, 10) : null,
+        interval_months: data.interval_months ? parseInt(data.interval_months, 10) : null,
+        description: data.description || null,
+        is_active: data.is_active,
+      };
+      if (editingPlan) {
+        const { error } = await supabase.from("maintenance_plans").update(payload).eq("id", editingPlan.id);
+        if (error) throw error;
+      } else {
+        const { error } = await supabase.from("maintenance_plans").insert(payload);
+        if (error) throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["maintenance_plans"] });
+      queryClient.invalidateQueries({ queryKey: ["maintenance_records"] });
+      queryClient.invalidateQueries({ queryKey: ["planned_maintenance"] });
+      toast({ title: editingPlan ? "Plano atualizado com sucesso!" : "Plano criado! Manutenções programadas para os veículos do modelo." });
+      resetPlanForm();
+    },
+    onError: (error) => {
+      toast({ title: "Erro ao salvar plano", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deletePlan = useMutation({
+    mutationFn: async (id: string) => {
+      // Pending records generated by the plan go away with it; history is kept
+      const { error: recordsError } = await supabase
+        .from("maintenance_records")
+        .delete()
+        .eq("plan_id", id)
+        .eq("status", "pendente");
+      if (recordsError) throw recordsError;
+      const { error } = await supabase.from("maintenance_plans").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["maintenance_plans"] });
+      queryClient.invalidateQueries({ queryKey: ["maintenance_records"] });
+      queryClient.invalidateQueries({ queryKey: ["planned_maintenance"] });
+      toast({ title: "Plano removido com sucesso!" });
+    },
+    onError: (error) => {
+      toast({ title: "Erro ao remover plano", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handlePlanSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    savePlan.mutate(planFormData);
+  };
+
+  const handleEditPlan = (plan: MaintenancePlan) => {
+    setEditingPlan(plan);
+    setPlanFormData({
+      name: plan.name,
+      vehicle_model: plan.vehicle_model || "",
+      interval_km: plan.interval_km?.toString() || "",
+      interval_months: plan.interval_months?.toString() || "",
+      description: plan.description || "",
+      is_active: plan.is_active,
+    });
+    setIsPlanDialogOpen(true);
+  };
+
+  const handleDeletePlan = (id: string) => {
+    if (confirm("Tem certeza que deseja remover este plano? As manutenções pendentes geradas por ele serão excluídas.")) {
+      deletePlan.mutate(id);
+    }
+  };
+
+  const resetPlanForm = () => {
+    setPlanFormData(emptyPlanForm);
+    setEditingPlan(null);
+    setIsPlanDialogOpen(false);
+  };
+
+  const getPlanName = (planId: string | null) => {
+    if (!planId) return null;
+    return plans.find(p => p.id === planId)?.name || null;
+  };
+
   const completedMaintenances = maintenances.filter(m => m.status === "concluida");
   const upcomingMaintenances = maintenances.filter(m => m.status !== "concluida");
 
@@ -217,6 +368,11 @@ const Maintenance = () => {
               <p className="text-xs text-muted-foreground">
                 {getTeamName(maintenance.vehicles?.team_id || null)}
               </p>
+              {maintenance.plan_id && (
+                <span className="inline-block mt-1 px-2 py-0.5 rounded-md text-xs font-medium bg-blue-500/20 text-blue-700">
+                  Preventiva{getPlanName(maintenance.plan_id) ? ` • ${getPlanName(maintenance.plan_id)}` : ""}
+                </span>
+              )}
             </div>
           </div>
           <span className={cn("flex items-center gap-1.5 px-3 py-1 rounded-full text-xs font-medium", status.className)}>
@@ -228,12 +384,20 @@ const Maintenance = () => {
           <p className="text-sm text-muted-foreground mb-4">{maintenance.description}</p>
         )}
         <div className="flex items-center justify-between pt-4 border-t border-border">
-          <div className="flex items-center gap-2 text-sm text-muted-foreground">
-            <Calendar className="h-4 w-4" />
-            {maintenance.scheduled_date 
-              ? new Date(maintenance.scheduled_date).toLocaleDateString("pt-BR")
-              : "Sem data"
-            }
+          <div className="space-y-1">
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Calendar className="h-4 w-4" />
+              {maintenance.scheduled_date 
+                ? new Date(maintenance.scheduled_date).toLocaleDateString("pt-BR")
+                : "Sem data"
+              }
+            </div>
+            {maintenance.scheduled_km !== null && (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Gauge className="h-4 w-4" />
+                {maintenance.scheduled_km.toLocaleString("pt-BR")} km
+              </div>
+            )}
           </div>
           <div className="flex items-center gap-3">
             {maintenance.cost && (
@@ -388,6 +552,10 @@ const Maintenance = () => {
             <CheckCircle className="h-4 w-4" />
             Realizadas ({completedMaintenances.length})
           </TabsTrigger>
+          <TabsTrigger value="plans" className="gap-2">
+            <ClipboardList className="h-4 w-4" />
+            Planos Preventivos ({plans.length})
+          </TabsTrigger>
         </TabsList>
         
         <TabsContent value="upcoming">
@@ -415,6 +583,158 @@ const Maintenance = () => {
             </div>
           )}
         </TabsContent>
+
+        <TabsContent value="plans">
+          {isAdmin && (
+            <div className="flex justify-end mb-4">
+              <Dialog open={isPlanDialogOpen} onOpenChange={(open) => { if (!open) resetPlanForm(); else setIsPlanDialogOpen(true); }}>
+                <DialogTrigger asChild>
+                  <Button className="gap-2">
+                    <Plus className="h-4 w-4" />
+                    Novo Plano
+                  </Button>
+                </DialogTrigger>
+                <DialogContent className="max-w-lg">
+                  <DialogHeader>
+                    <DialogTitle>{editingPlan ? "Editar Plano" : "Novo Plano Preventivo"}</DialogTitle>
+                    <DialogDescription>
+                      A manutenção é programada para cada veículo do modelo pelo que vencer primeiro: km ou meses
+                    </DialogDescription>
+                  </DialogHeader>
+                  <form onSubmit={handlePlanSubmit} className="space-y-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="plan_name">Serviço</Label>
+                      <Input
+                        id="plan_name"
+                        value={planFormData.name}
+                        onChange={(e) => setPlanFormData({ ...planFormData, name: e.target.value })}
+                        placeholder="Troca de óleo"
+                        required
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="plan_model">Modelo do Veículo</Label>
+                      <Select
+                        value={planFormData.vehicle_model || "all"}
+                        onValueChange={(value) => setPlanFormData({ ...planFormData, vehicle_model: value === "all" ? "" : value })}
+                      >
+                        <SelectTrigger id="plan_model">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="all">Todos os modelos</SelectItem>
+                          {vehicleModels.map((model) => (
+                            <SelectItem key={model} value={model}>{model}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="plan_interval_km">A cada (km)</Label>
+                        <Input
+                          id="plan_interval_km"
+                          type="number"
+                          min="1"
+                          value={planFormData.interval_km}
+                          onChange={(e) => setPlanFormData({ ...planFormData, interval_km: e.target.value })}
+                          placeholder="10000"
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="plan_interval_months">A cada (meses)</Label>
+                        <Input
+                          id="plan_interval_months"
+                          type="number"
+                          min="1"
+                          value={planFormData.interval_months}
+                          onChange={(e) => setPlanFormData({ ...planFormData, interval_months: e.target.value })}
+                          placeholder="6"
+                        />
+                      </div>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="plan_description">Descrição</Label>
+                      <Textarea
+                        id="plan_description"
+                        value={planFormData.description}
+                        onChange={(e) => setPlanFormData({ ...planFormData, description: e.target.value })}
+                        placeholder="Itens a verificar, peças, etc."
+                        rows={2}
+                      />
+                    </div>
+                    <div className="flex items-center justify-between">
+                      <Label htmlFor="plan_active">Plano ativo</Label>
+                      <Switch
+                        id="plan_active"
+                        checked={planFormData.is_active}
+                        onCheckedChange={(checked) => setPlanFormData({ ...planFormData, is_active: checked })}
+                      />
+                    </div>
+                    <div className="flex justify-end gap-3 pt-4">
+                      <Button type="button" variant="outline" onClick={resetPlanForm}>Cancelar</Button>
+                      <Button
+                        type="submit"
+                        disabled={savePlan.isPending || (!planFormData.interval_km && !planFormData.interval_months)}
+                      >
+                        {editingPlan ? "Atualizar" : "Criar Plano"}
+                      </Button>
+                    </div>
+                  </form>
+                </DialogContent>
+              </Dialog>
+            </div>
+          )}
+          <div className="bg-card rounded-xl border border-border overflow-hidden">
+            <Table>
+              <TableHeader>
+                <TableRow className="bg-muted/50">
+                  <TableHead>Serviço</TableHead>
+                  <TableHead>Modelo</TableHead>
+                  <TableHead>Intervalo</TableHead>
+                  <TableHead>Status</TableHead>
+                  {isAdmin && <TableHead className="text-right">Ações</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {plans.map((plan) => (
+                  <TableRow key={plan.id} className="hover:bg-muted/30">
+                    <TableCell className="font-medium">
+                      <div>{plan.name}</div>
+                      {plan.description && (
+                        <div className="text-xs text-muted-foreground">{plan.description}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>{plan.vehicle_model || "Todos os modelos"}</TableCell>
+                    <TableCell>A cada {formatPlanInterval(plan)}</TableCell>
+                    <TableCell>
+                      <span className={cn("px-3 py-1 rounded-full text-xs font-medium", plan.is_active ? "status-available" : "bg-muted text-muted-foreground")}>
+                        {plan.is_active ? "Ativo" : "Inativo"}
+                      </span>
+                    </TableCell>
+                    {isAdmin && (
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-2">
+                          <Button variant="ghost" size="icon" onClick={() => handleEditPlan(plan)}>
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="icon" onClick={() => handleDeletePlan(plan.id)}>
+                            <Trash2 className="h-4 w-4 text-destructive" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            {plans.length === 0 && (
+              <div className="p-8 text-center text-muted-foreground">
+                Nenhum plano preventivo cadastrado
+              </div>
+            )}
+          </div>
+        </TabsContent>
       </Tabs>
     </MainLayout>
   );
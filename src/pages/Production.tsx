@@ -18,6 +18,8 @@ import { Calendar as CalendarComponent } from "@/components/ui/calendar";
 import { cn } from "@/lib/utils";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { ProductivityTab } from "@/components/production/ProductivityTab";
+import { ProductionTargetsSection } from "@/components/production/ProductionTargetsSection";
+import { WorkedHoursSection } from "@/components/production/WorkedHoursSection";
 
 interface ProductionData {
   id: string;
@@ -607,6 +609,16 @@ export default function Production() {
           </Card>
         </div>
 
+        {/* Targets - month-to-date pacing */}
+        <ProductionTargetsSection
+          teamIds={selectedTeam !== "all" ? [selectedTeam] : selectedSupervisor !== "all" ? supervisorTeamIds : null}
+        />
+
+        {/* Worked hours - productivity per hour and overtime */}
+        <WorkedHoursSection
+          teamIds={selectedTeam !== "all" ? [selectedTeam] : selectedSupervisor !== "all" ? supervisorTeamIds : null}
+        />
+
         {/* Data Table */}
         <Card>
           <CardHeader>
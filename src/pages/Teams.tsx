@@ -27,13 +27,15 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
-import { Plus, Search, Edit, Trash2, Users, Truck, Car, Clock } from "lucide-react";
+import { Plus, Search, Edit, Trash2, Users, Truck, Car, Clock, Hash } from "lucide-react";
 import { ExportButton } from "@/components/ExportButton";
 import { CsvColumn } from "@/lib/exportCsv";
 import { Checkbox } from "@/components/ui/checkbox";
 import { toast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/contexts/AuthContext";
+import { TeamExternalCodesDialog } from "@/components/teams/TeamExternalCodesDialog";
+import { TeamExternalCode, getCodeValidity } from "@/lib/teamExternalCodes";
 
 type TeamType = "linha_viva" | "linha_morta" | "poda" | "linha_morta_obras" | "linha_viva_obras" | "recolha";
 
@@ -79,6 +81,7 @@ const Teams = () => {
   const [filterBasket, setFilterBasket] = useState<string>("all");
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingTeam, setEditingTeam] = useState<Team | null>(null);
+  const [codesTeam, setCodesTeam] = useState<Team | null>(null);
   const [formData, setFormData] = useState({
     name: "",
     type: "linha_viva" as TeamType,
@@ -149,6 +152,18 @@ const Teams = () => {
     },
   });
 
+  const { data: externalCodes = [] } = useQuery({
+    queryKey: ["team_external_codes"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("team_external_codes")
+        .select("*")
+        .order("code");
+      if (error) throw error;
+      return data as TeamExternalCode[];
+    },
+  });
+
   const createTeam = useMutation({
     mutationFn: async (data: { name: string; type: TeamType; has_basket: boolean; cost_center: string; supervisor_id: string; vehicle_id: string; show_in_departures: boolean; scheduled_entry_time: string; scheduled_exit_time: string }) => {
       const { cost_center, supervisor_id, vehicle_id, scheduled_entry_time, scheduled_exit_time, ...teamData } = data;
@@ -550,12 +565,16 @@ const Teams = () => {
               <TableHead>Veículo</TableHead>
               <TableHead>Supervisor</TableHead>
               <TableHead>Cesto Aéreo</TableHead>
+              <TableHead>Códigos Externos</TableHead>
               {isAdmin && <TableHead className="text-right">Ações</TableHead>}
             </TableRow>
           </TableHeader>
           <TableBody>
             {filteredTeams.map((team) => {
               const vehicle = getTeamVehicle(team.id);
+              const currentCodes = externalCodes.filter(
+                (c) => c.team_id === team.id && getCodeValidity(c) === "vigente"
+              );
               return (
                 <TableRow key={team.id} className="hover:bg-muted/30">
                   <TableCell className="font-medium">
@@ -595,9 +614,25 @@ const Teams = () => {
                       <span className="text-muted-foreground">Não</span>
                     )}
                   </TableCell>
+                  <TableCell>
+                    {currentCodes.length > 0 ? (
+                      <div className="flex flex-wrap gap-1">
+                        {currentCodes.map((c) => (
+                          <span key={c.id} className="px-2 py-0.5 rounded-md text-xs font-mono bg-muted">
+                            {c.code}
+                          </span>
+                        ))}
+                      </div>
+                    ) : (
+                      <span className="text-muted-foreground">-</span>
+                    )}
+                  </TableCell>
                   {isAdmin && (
                     <TableCell className="text-right">
                       <div className="flex justify-end gap-2">
+                        <Button variant="ghost" size="icon" onClick={() => setCodesTeam(team)} title="Códigos externos">
+                          <Hash className="h-4 w-4" />
+                        </Button>
                         <Button variant="ghost" size="icon" onClick={() => handleEdit(team)}>
                           <Edit className="h-4 w-4" />
                         </Button>
@@ -619,6 +654,13 @@ const Teams = () => {
           <div className="p-8 text-center text-muted-foreground">Nenhuma equipe encontrada</div>
         )}
       </div>
+
+      <TeamExternalCodesDialog
+        open={!!codesTeam}
+        onOpenChange={(open) => { if (!open) setCodesTeam(null); }}
+        team={codesTeam}
+        codes={externalCodes.filter((c) => c.team_id === codesTeam?.id)}
+      />
     </MainLayout>
   );
 };
@@ -0,0 +1,432 @@
+import { useMemo, useState } from "react";
+import { Link, Navigate, useParams } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { MainLayout } from "@/components/layout/MainLayout";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  ArrowLeft, Car, DollarSign, Wrench, Clock, Gauge, CalendarDays, AlertTriangle,
+  FileText, Users, RefreshCw, ClipboardCheck, Paperclip, ExternalLink,
+} from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { usePermissions } from "@/hooks/usePermissions";
+import { OdometerHistory } from "@/components/fleet/OdometerHistory";
+import { VehicleStatus, vehicleStatusConfig } from "@/lib/vehicleStatus";
+import { formatCurrency } from "@/lib/exportCsv";
+import { formatKm } from "@/lib/odometer";
+import {
+  TIMELINE_EVENT_LABELS,
+  TimelineEventType,
+  buildVehicleTimeline,
+  calculateVehicleTco,
+} from "@/lib/vehicleTimeline";
+import { format, differenceInDays } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { cn } from "@/lib/utils";
+
+const LAUDO_LABELS: Record<string, string> = {
+  laudo_eletrico: "Laudo Elétrico",
+  laudo_acustico: "Laudo Acústico",
+  laudo_liner: "Laudo Liner",
+  laudo_tacografo: "Laudo Tacógrafo",
+};
+
+const EVENT_ICONS: Record<TimelineEventType, React.ElementType> = {
+  status: RefreshCw,
+  team: Users,
+  workshop: Wrench,
+  maintenance: ClipboardCheck,
+  incident: AlertTriangle,
+  laudo: FileText,
+  attachment: Paperclip,
+};
+
+const EVENT_COLORS: Record<TimelineEventType, string> = {
+  status: "bg-blue-500/15 text-blue-700",
+  team: "bg-purple-500/15 text-purple-700",
+  workshop: "bg-orange-500/15 text-orange-700",
+  maintenance: "bg-green-500/15 text-green-700",
+  incident: "bg-red-500/15 text-red-700",
+  laudo: "bg-yellow-500/15 text-yellow-700",
+  attachment: "bg-gray-500/15 text-gray-700",
+};
+
+const formatDate = (date: string) => format(new Date(date + "T00:00:00"), "dd/MM/yyyy", { locale: ptBR });
+
+const VehicleDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const { isAdmin } = useAuth();
+  const { canViewPage, isFrotasProfile, isLoading: isLoadingPermissions } = usePermissions();
+  const canOperateFleet = isAdmin || isFrotasProfile();
+  const [eventFilter, setEventFilter] = useState<"all" | TimelineEventType>("all");
+
+  const { data: vehicle, isLoading } = useQuery({
+    queryKey: ["vehicle", id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("vehicles")
+        .select("*")
+        .eq("id", id!)
+        .maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!id,
+  });
+
+  const { data: teamsMap = {} } = useQuery({
+    queryKey: ["teams_map"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("teams").select("id, name");
+      if (error) throw error;
+      const map: Record<string, string> = {};
+      data.forEach(t => { map[t.id] = t.name; });
+      return map;
+    },
+  });
+
+  const { data: history, isLoading: isLoadingHistory } = useQuery({
+    queryKey: ["vehicle_history", id],
+    queryFn: async () => {
+      const [changes, workshopEntries, maintenances, incidents, attachments, readings] = await Promise.all([
+        supabase.rpc("get_vehicle_change_history", { _vehicle_id: id! }),
+        supabase
+          .from("workshop_entries")
+          .select("id, entry_date, exit_date, reason, reason_type, workshop_name, maintenance_cost")
+          .eq("vehicle_id", id!)
+          .order("entry_date", { ascending: false }),
+        supabase
+          .from("maintenance_records")
+          .select("id, type, description, status, scheduled_date, completed_date, cost")
+          .eq("vehicle_id", id!),
+        supabase
+          .from("incidents")
+          .select("id, type, severity, description, date")
+          .eq("vehicle_id", id!),
+        supabase
+          .from("vehicle_attachments")
+          .select("id, file_name, file_url, created_at")
+          .eq("vehicle_id", id!),
+        supabase
+          .from("odometer_readings")
+          .select("km")
+          .eq("vehicle_id", id!),
+      ]);
+      for (const result of [changes, workshopEntries, maintenances, incidents, attachments, readings]) {
+        if (result.error) throw result.error;
+      }
+      return {
+        changes: changes.data || [],
+        workshopEntries: workshopEntries.data || [],
+        maintenances: maintenances.data || [],
+        incidents: incidents.data || [],
+        attachments: attachments.data || [],
+        odometerKms: (readings.data || []).map(r => r.km),
+      };
+    },
+    enabled: !!id,
+  });
+
+  const laudos = useMemo(() => {
+    if (!vehicle) return [];
+    return Object.entries(LAUDO_LABELS)
+      .filter(([field]) => vehicle[field as keyof typeof vehicle])
+      .map(([field, label]) => ({ label, date: vehicle[field as keyof typeof vehicle] as string }));
+  }, [vehicle]);
+
+  const timeline = useMemo(() => {
+    if (!history) return [];
+    return buildVehicleTimeline({ ...history, laudos, teamsMap });
+  }, [history, laudos, teamsMap]);
+
+  const filteredTimeline = eventFilter === "all" ? timeline : timeline.filter(e => e.type === eventFilter);
+
+  const tco = useMemo(() => {
+    if (!history || !vehicle) return null;
+    return calculateVehicleTco(history.workshopEntries, history.maintenances, history.odometerKms, vehicle.created_at);
+  }, [history, vehicle]);
+
+  const openWorkshopEntry = history?.workshopEntries.find(e => !e.exit_date);
+
+  if (!isLoadingPermissions && !canViewPage("vehicles") && !canViewPage("workshop")) {
+    return <Navigate to="/" replace />;
+  }
+
+  if (isLoading || isLoadingHistory) {
+    return (
+      <MainLayout>
+        <div className="text-center py-12 text-muted-foreground">Carregando...</div>
+      </MainLayout>
+    );
+  }
+
+  if (!vehicle) {
+    return (
+      <MainLayout>
+        <div className="text-center py-12 space-y-4">
+          <p className="text-muted-foreground">Veículo não encontrado</p>
+          <Button variant="outline" asChild>
+            <Link to="/frotas">Voltar para Gestão de Frotas</Link>
+          </Button>
+        </div>
+      </MainLayout>
+    );
+  }
+
+  const status = vehicleStatusConfig[vehicle.status as VehicleStatus] || { label: vehicle.status, className: "bg-gray-500/20 text-gray-700" };
+  const today = new Date();
+
+  return (
+    <MainLayout>
+      <div className="mb-8 animate-fade-in">
+        <Button variant="ghost" size="sm" className="gap-2 mb-4 -ml-2" asChild>
+          <Link to="/frotas">
+            <ArrowLeft className="h-4 w-4" />
+            Gestão de Frotas
+          </Link>
+        </Button>
+        <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+          <div className="p-3 rounded-xl bg-primary/10">
+            <Car className="h-6 w-6 text-primary" />
+          </div>
+          <div className="flex-1">
+            <div className="flex items-center gap-3">
+              <h1 className="text-3xl font-bold text-foreground">{vehicle.plate}</h1>
+              <span className={cn("px-2.5 py-1 rounded-full text-xs font-medium", status.className)}>
+                {status.label}
+              </span>
+            </div>
+            <p className="text-muted-foreground">
+              {vehicle.model}
+              {vehicle.year ? ` • ${vehicle.year}` : ""}
+              {" • "}
+              {vehicle.team_id ? teamsMap[vehicle.team_id] || "Equipe removida" : "Sem equipe"}
+              {vehicle.gerencia ? ` • ${vehicle.gerencia}` : ""}
+            </p>
+          </div>
+        </div>
+        {openWorkshopEntry && (
+          <div className="mt-4 flex items-center gap-2 rounded-lg border border-orange-500/30 bg-orange-500/10 px-4 py-2 text-sm text-orange-700">
+            <Wrench className="h-4 w-4" />
+            Na oficina desde {formatDate(openWorkshopEntry.entry_date)}
+            {openWorkshopEntry.workshop_name ? ` (${openWorkshopEntry.workshop_name})` : ""}
+            {" • "}
+            {differenceInDays(today, new Date(openWorkshopEntry.entry_date + "T00:00:00"))} dia(s)
+          </div>
+        )}
+      </div>
+
+      {/* ==================== TCO SUMMARY ==================== */}
+      {tco && (
+        <div className="grid grid-cols-2 lg:grid-cols-6 gap-4 mb-6">
+          <Card>
+            <CardContent className="pt-6">
+              <div className="flex items-center gap-2 text-muted-foreground text-sm mb-1">
+                <DollarSign className="h-4 w-4" />
+                Custo Total
+              </div>
+              <p className="text-2xl font-bold">{formatCurrency(tco.totalCost)}</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="pt-6">
+              <div className="flex items-center gap-2 text-muted-foreground text-sm mb-1">
+                <Wrench className="h-4 w-4" />
+                Oficina
+              </div>
+              <p className="text-2xl font-bold">{formatCurrency(tco.workshopCost)}</p>
+              <p className="text-xs text-muted-foreground">{tco.workshopStays} passagem(ns)</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="pt-6">
+              <div className="flex items-center gap-2 text-muted-foreground text-sm mb-1">
+                <ClipboardCheck className="h-4 w-4" />
+                Manutenções
+              </div>
+              <p className="text-2xl font-bold">{formatCurrency(tco.maintenanceCost)}</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="pt-6">
+              <div className="flex items-center gap-2 text-muted-foreground text-sm mb-1">
+                <Clock className="h-4 w-4" />
+                Dias em Oficina
+              </div>
+              <p className="text-2xl font-bold">{tco.workshopDays}</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="pt-6">
+              <div className="flex items-center gap-2 text-muted-foreground text-sm mb-1">
+                <CalendarDays className="h-4 w-4" />
+                Custo Médio Mensal
+              </div>
+              <p className="text-2xl font-bold">{formatCurrency(tco.costPerMonth)}</p>
+              <p className="text-xs text-muted-foreground">{tco.monthsTracked} mês(es)</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="pt-6">
+              <div className="flex items-center gap-2 text-muted-foreground text-sm mb-1">
+                <Gauge className="h-4 w-4" />
+                Custo por Km
+              </div>
+              <p className="text-2xl font-bold">
+                {tco.costPerKm !== null ? formatCurrency(tco.costPerKm) : "-"}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {tco.kmTraveled !== null ? `${formatKm(tco.kmTraveled)} rodados` : "Sem leituras suficientes"}
+              </p>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* ==================== TIMELINE ==================== */}
+        <Card className="lg:col-span-2">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
+            <CardTitle className="text-lg">Linha do Tempo</CardTitle>
+            <Select value={eventFilter} onValueChange={(v) => setEventFilter(v as "all" | TimelineEventType)}>
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Todos os eventos</SelectItem>
+                {Object.entries(TIMELINE_EVENT_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </CardHeader>
+          <CardContent>
+            {filteredTimeline.length === 0 ? (
+              <div className="py-8 text-center text-muted-foreground text-sm">Nenhum evento registrado</div>
+            ) : (
+              <ol className="relative border-l border-border ml-4 space-y-6">
+                {filteredTimeline.map((event) => {
+                  const Icon = EVENT_ICONS[event.type];
+                  return (
+                    <li key={event.id} className="ml-6">
+                      <span className={cn(
+                        "absolute -left-4 flex h-8 w-8 items-center justify-center rounded-full ring-4 ring-background",
+                        EVENT_COLORS[event.type]
+                      )}>
+                        <Icon className="h-4 w-4" />
+                      </span>
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className="font-medium text-foreground">{event.title}</span>
+                        <Badge variant="outline" className="text-xs">{TIMELINE_EVENT_LABELS[event.type]}</Badge>
+                        {event.cost !== undefined && (
+                          <Badge variant="secondary" className="text-xs">{formatCurrency(event.cost)}</Badge>
+                        )}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {format(event.date, "dd/MM/yyyy", { locale: ptBR })}
+                        {event.type === "status" || event.type === "team" || event.type === "attachment"
+                          ? format(event.date, " 'às' HH:mm", { locale: ptBR })
+                          : ""}
+                        {event.actor ? ` • por ${event.actor}` : ""}
+                      </p>
+                      {event.description && (
+                        <p className="text-sm text-muted-foreground mt-1">{event.description}</p>
+                      )}
+                      {event.url && (
+                        <a
+                          href={event.url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="inline-flex items-center gap-1 text-xs text-primary hover:underline mt-1"
+                        >
+                          <ExternalLink className="h-3 w-3" />
+                          Abrir arquivo
+                        </a>
+                      )}
+                    </li>
+                  );
+                })}
+              </ol>
+            )}
+          </CardContent>
+        </Card>
+
+        <div className="space-y-6">
+          {/* ==================== LAUDOS ==================== */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Laudos</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {Object.entries(LAUDO_LABELS).map(([field, label]) => {
+                const date = vehicle[field as keyof typeof vehicle] as string | null;
+                const daysLeft = date ? differenceInDays(new Date(date + "T00:00:00"), today) : null;
+                return (
+                  <div key={field} className="flex items-center justify-between text-sm">
+                    <span>{label}</span>
+                    {date ? (
+                      <span className={cn(
+                        "font-medium",
+                        daysLeft! < 0 ? "text-destructive" : daysLeft! <= 30 ? "text-yellow-600" : "text-foreground"
+                      )}>
+                        {formatDate(date)}
+                      </span>
+                    ) : (
+                      <span className="text-muted-foreground">-</span>
+                    )}
+                  </div>
+                );
+              })}
+            </CardContent>
+          </Card>
+
+          {/* ==================== ATTACHMENTS ==================== */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Documentos</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {history?.attachments.length ? (
+                history.attachments.map((attachment) => (
+                  <a
+                    key={attachment.id}
+                    href={attachment.file_url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="flex items-center gap-2 text-sm hover:text-primary"
+                  >
+                    <Paperclip className="h-4 w-4 shrink-0" />
+                    <span className="truncate">{attachment.file_name}</span>
+                  </a>
+                ))
+              ) : (
+                <p className="text-sm text-muted-foreground">Nenhum documento anexado</p>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      {/* ==================== ODOMETER ==================== */}
+      <Card className="mt-6">
+        <CardHeader>
+          <CardTitle className="text-lg">Hodômetro</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <OdometerHistory vehicleId={vehicle.id} canRecord={canOperateFleet} canDelete={isAdmin} />
+        </CardContent>
+      </Card>
+    </MainLayout>
+  );
+};
+
+export default VehicleDetail;
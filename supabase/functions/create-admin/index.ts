@@ -17,17 +17,25 @@ Deno.serve(async (req) => {
       { auth: { autoRefreshToken: false, persistSession: false } }
     )
 
-    // Check if admin already exists
-    const { data: existingAdmin } = await supabaseAdmin
+    // Only bootstraps the first admin: once one exists (or the check fails)
+    // nothing is created, so this can't add admins to a running system
+    const { count: adminCount, error: adminCheckError } = await supabaseAdmin
       .from('user_roles')
-      .select('id')
+      .select('id', { count: 'exact', head: true })
       .eq('role', 'admin')
-      .limit(1)
 
-    if (existingAdmin && existingAdmin.length > 0) {
+    if (adminCheckError) {
+      console.error('Admin check error:', adminCheckError)
       return new Response(
-        JSON.stringify({ error: 'Admin user already exists' }),
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        JSON.stringify({ error: 'Could not verify existing admins', code: 'INTERNAL_ERROR' }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    if ((adminCount ?? 0) > 0) {
+      return new Response(
+        JSON.stringify({ error: 'Admin user already exists', code: 'ADMIN_EXISTS' }),
+        { status: 410, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       )
     }
 
@@ -42,7 +50,7 @@ Deno.serve(async (req) => {
     if (authError) {
       console.error('Auth error:', authError)
       return new Response(
-        JSON.stringify({ error: authError.message }),
+        JSON.stringify({ error: authError.message, code: 'AUTH_ERROR' }),
         { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       )
     }
@@ -65,7 +73,7 @@ Deno.serve(async (req) => {
     if (roleError) {
       console.error('Role error:', roleError)
       return new Response(
-        JSON.stringify({ error: roleError.message }),
+        JSON.stringify({ error: roleError.message, code: 'INTERNAL_ERROR' }),
         { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       )
     }
@@ -85,7 +93,7 @@ Deno.serve(async (req) => {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error'
     console.error('Unexpected error:', error)
     return new Response(
-      JSON.stringify({ error: errorMessage }),
+      JSON.stringify({ error: errorMessage, code: 'INTERNAL_ERROR' }),
       { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     )
   }
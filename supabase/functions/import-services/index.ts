@@ -6,89 +6,252 @@ const corsHeaders = {
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
+// Same fields, header names and validation as the importer in the Budget page
+// (src/lib/serviceImport.ts); keep both in step
+type Field = "up" | "service_number" | "description" | "unit" | "gross_price";
+
+const FIELDS: { key: Field; label: string; aliases: string[] }[] = [
+  { key: "up", label: "UP", aliases: ["up", "codigo", "cod", "codigo up"] },
+  { key: "service_number", label: "Nº Serviço", aliases: ["numero", "n servico", "numero do servico", "servico", "item"] },
+  { key: "description", label: "Descrição", aliases: ["descricao", "descricao do servico", "desc"] },
+  { key: "unit", label: "Unidade", aliases: ["unidade", "un", "und", "unid"] },
+  { key: "gross_price", label: "Preço", aliases: ["preco", "preco bruto", "valor", "valor unitario", "preco unitario"] },
+];
+
+interface ServiceRow {
+  up: string;
+  service_number: string;
+  description: string;
+  unit: string;
+  gross_price: number;
+}
+
+interface RowError {
+  row: number;
+  message: string;
+}
+
+const json = (status: number, payload: Record<string, unknown>) =>
+  new Response(
+    JSON.stringify(payload),
+    { status, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+  );
+
+// RFC 4180 rows; the delimiter is the most frequent of ; , and tab in the header
+function parseDelimited(text: string): string[][] {
+  const content = text.replace(/^\uFEFF/, "");
+  const firstLine = content.split("\n")[0];
+  const delimiter = [";", ",", "\t"].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  const endRow = () => {
+    row.push(field);
+    if (row.some((cell) => cell.trim() !== "")) rows.push(row);
+    row = [];
+    field = "";
+  };
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) endRow();
+  return rows;
+}
+
+const normalizeHeader = (header: string) =>
+  header.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+
+function parsePrice(value: string): number | null {
+  let text = value.replace(/[R$\s]/g, "");
+  if (!text) return null;
+  if (/^-?\d+(\.\d+)?e[+-]?\d+$/i.test(text)) return Number(text);
+  const lastComma = text.lastIndexOf(",");
+  const lastPoint = text.lastIndexOf(".");
+  if (lastComma > lastPoint) text = text.replace(/\./g, "").replace(",", ".");
+  else if (lastComma !== -1) text = text.replace(/,/g, "");
+  else if (/^[1-9]\d{0,2}(\.\d{3})+$/.test(text)) text = text.replace(/\./g, "");
+  if (!/^-?\d+(\.\d+)?$/.test(text)) return null;
+  return Number(text);
+}
+
+/**
+ * Columns come from the header row, or from `mapping` ({ up: "Código", ... }
+ * by header name, or by 0-based index). Without a header the old fixed layout
+ * UP;Número;Descrição;Unidade;Preço is assumed.
+ */
+function buildRows(rows: string[][], mapping?: Record<string, string | number>) {
+  const errors: RowError[] = [];
+  const headers = rows[0]?.map(normalizeHeader) ?? [];
+  const hasHeader = headers.some((header) => FIELDS.some((field) => field.aliases.includes(header)));
+
+  const columns = {} as Record<Field, number>;
+  FIELDS.forEach((field, index) => {
+    const mapped = mapping?.[field.key];
+    if (typeof mapped === "number") columns[field.key] = mapped;
+    else if (typeof mapped === "string") columns[field.key] = headers.indexOf(normalizeHeader(mapped));
+    else columns[field.key] = hasHeader ? headers.findIndex((h) => field.aliases.includes(h)) : index;
+  });
+
+  const missing = FIELDS.filter((field) => columns[field.key] < 0);
+  if (missing.length > 0) {
+    return { rows: [], errors: [{ row: 0, message: `Colunas não mapeadas: ${missing.map((f) => f.label).join(", ")}` }] };
+  }
+
+  const byUp = new Map<string, { row: ServiceRow; lines: number[]; conflict: boolean }>();
+  rows.slice(hasHeader ? 1 : 0).forEach((cells, index) => {
+    const line = index + (hasHeader ? 2 : 1);
+    const cell = (field: Field) => (cells[columns[field]] ?? "").trim();
+    const priceText = cell("gross_price");
+    const price = parsePrice(priceText);
+    const service: ServiceRow = {
+      up: cell("up"),
+      service_number: cell("service_number"),
+      description: cell("description"),
+      unit: cell("unit"),
+      gross_price: price ?? 0,
+    };
+
+    const problems: string[] = [];
+    if (!service.up) problems.push("UP vazia");
+    if (!service.service_number) problems.push("número do serviço vazio");
+    if (!service.description) problems.push("descrição vazia");
+    if (!service.unit) problems.push("unidade vazia");
+    if (!priceText) problems.push("preço vazio");
+    else if (price === null) problems.push(`preço inválido "${priceText}"`);
+    else if (price < 0) problems.push("preço negativo");
+    if (problems.length > 0) {
+      errors.push({ row: line, message: problems.join("; ") });
+      return;
+    }
+
+    const existing = byUp.get(service.up);
+    if (!existing) {
+      byUp.set(service.up, { row: service, lines: [line], conflict: false });
+      return;
+    }
+    existing.lines.push(line);
+    const a = existing.row;
+    if (
+      a.service_number !== service.service_number || a.description !== service.description ||
+      a.unit !== service.unit || a.gross_price !== service.gross_price
+    ) {
+      existing.conflict = true;
+    }
+  });
+
+  const valid: ServiceRow[] = [];
+  byUp.forEach(({ row, lines, conflict }, up) => {
+    if (!conflict) {
+      valid.push(row);
+      return;
+    }
+    lines.forEach((line) =>
+      errors.push({ row: line, message: `UP ${up} repetida com dados diferentes (linhas ${lines.join(", ")})` })
+    );
+  });
+  errors.sort((a, b) => a.row - b.row);
+
+  return { rows: valid, errors };
+}
+
+/**
+ * Imports the service catalog from CSV text. Runs as the calling user, so
+ * only admins and gestors can import (checked by apply_service_import).
+ *
+ * Body: { csvData, fileName?, mapping?, priceTableId?, deactivateMissing?, dryRun? }
+ * With dryRun nothing is saved and the preview of the changes is returned.
+ */
 serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
   }
 
   try {
-    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
-    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-    const supabase = createClient(supabaseUrl, supabaseKey);
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader?.startsWith("Bearer ")) {
+      return json(401, { error: "Não autorizado" });
+    }
 
-    const { csvData } = await req.json();
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_ANON_KEY")!,
+      { global: { headers: { Authorization: authHeader } }, auth: { persistSession: false } }
+    );
+
+    const { csvData, fileName, mapping, priceTableId, deactivateMissing, dryRun } = await req.json();
 
-    if (!csvData) {
-      return new Response(
-        JSON.stringify({ error: "CSV data is required" }),
-        { headers: { ...corsHeaders, "Content-Type": "application/json" }, status: 400 }
-      );
+    if (!csvData || typeof csvData !== "string") {
+      return json(400, { error: "CSV data is required" });
     }
 
-    // Parse CSV
-    const lines = csvData.split('\n');
-    const services = new Map();
-
-    for (let i = 1; i < lines.length; i++) {
-      const line = lines[i].trim();
-      if (!line) continue;
-
-      const parts = line.split(';');
-      if (parts.length < 5) continue;
-
-      const up = parts[0].trim();
-      const serviceNumber = parts[1].trim();
-      const description = parts[2].trim();
-      const unit = parts[3].trim();
-      const priceStr = parts[4].trim().replace('.', '').replace(',', '.');
-      const grossPrice = parseFloat(priceStr);
-
-      if (!up || isNaN(grossPrice)) continue;
-
-      // Only keep unique UPs (first occurrence)
-      if (!services.has(up)) {
-        services.set(up, {
-          up,
-          service_number: serviceNumber,
-          description,
-          unit,
-          gross_price: grossPrice,
-        });
-      }
+    const { rows, errors } = buildRows(parseDelimited(csvData), mapping);
+    if (rows.length === 0) {
+      return json(400, { error: "Nenhum serviço válido encontrado", errors });
     }
 
-    const dataToInsert = Array.from(services.values());
+    const { data: preview, error: previewError } = await supabase.rpc("preview_service_import", {
+      _rows: rows,
+      _price_table_id: priceTableId ?? null,
+    });
+    if (previewError) {
+      console.error("Error previewing import:", previewError);
+      return json(400, { error: previewError.message });
+    }
 
-    // Upsert services
-    const { data, error } = await supabase
-      .from('service_catalog')
-      .upsert(dataToInsert, { onConflict: 'up' })
-      .select();
+    if (dryRun) {
+      return json(200, { success: true, dryRun: true, preview, errors });
+    }
+
+    const { data: importId, error } = await supabase.rpc("apply_service_import", {
+      _rows: rows,
+      _file_name: fileName ?? null,
+      _errors: errors,
+      _price_table_id: priceTableId ?? null,
+      _deactivate_missing: deactivateMissing === true,
+      _source: "api",
+    });
 
     if (error) {
-      console.error("Error inserting services:", error);
-      return new Response(
-        JSON.stringify({ error: error.message }),
-        { headers: { ...corsHeaders, "Content-Type": "application/json" }, status: 500 }
-      );
+      console.error("Error importing services:", error);
+      return json(400, { error: error.message });
     }
 
-    return new Response(
-      JSON.stringify({ 
-        success: true, 
-        message: `${dataToInsert.length} services imported successfully`,
-        count: dataToInsert.length 
-      }),
-      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
-    );
+    return json(200, {
+      success: true,
+      importId,
+      summary: preview.summary,
+      errors,
+      message: `${preview.summary.new} new, ${preview.summary.changed} changed, ${errors.length} rejected rows`,
+    });
 
   } catch (error) {
     console.error("Error:", error);
     const errorMessage = error instanceof Error ? error.message : "Unknown error";
-    return new Response(
-      JSON.stringify({ error: errorMessage }),
-      { headers: { ...corsHeaders, "Content-Type": "application/json" }, status: 500 }
-    );
+    return json(500, { error: errorMessage });
   }
 });
-
@@ -0,0 +1,156 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import {
+  VehicleLaudos,
+  buildDigest,
+  buildNotification,
+  collectExpiringLaudos,
+  getLaudoStage,
+  todayInTimeZone,
+} from './laudos.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } })
+
+// Actions:
+//   scan   - (cron/admin/gestor) notify supervisors and admins about laudos entering a new stage
+//   digest - summary of expiring laudos visible to the caller
+//
+// "today" (yyyy-MM-dd) can be forced with the FAKE_TODAY env var or, for the
+// service role, admins and gestors, in the request body, e.g. to test locally:
+//   supabase functions serve laudo-expiry-notifications --env-file .env.local
+//   curl -X POST .../laudo-expiry-notifications -d '{"action":"scan","today":"2026-03-01","dry_run":true}'
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      serviceKey,
+      { auth: { autoRefreshToken: false, persistSession: false } }
+    )
+
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      return jsonResponse({ error: 'Não autorizado' }, 401)
+    }
+    const token = authHeader.replace('Bearer ', '')
+
+    // The cron job calls with the service role key; users call with their JWT
+    let userId: string | null = null
+    let isManager = token === serviceKey
+    if (!isManager) {
+      const { data: { user }, error: userError } = await supabaseAdmin.auth.getUser(token)
+      if (userError || !user) {
+        return jsonResponse({ error: 'Token inválido' }, 401)
+      }
+      userId = user.id
+
+      const { data: roles } = await supabaseAdmin
+        .from('user_roles')
+        .select('role')
+        .eq('user_id', user.id)
+      isManager = (roles || []).some(r => r.role === 'admin' || r.role === 'gestor')
+    }
+
+    const url = new URL(req.url)
+    const body = req.method === 'POST' ? await req.json().catch(() => ({})) : {}
+    const action: string = body.action || url.searchParams.get('action') || 'digest'
+    const dryRun = body.dry_run === true
+
+    const forcedToday: string | undefined = (isManager ? body.today : undefined) ?? Deno.env.get('FAKE_TODAY')
+    const today = forcedToday || todayInTimeZone(new Date())
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(today)) {
+      return jsonResponse({ error: 'Data inválida, use o formato yyyy-MM-dd' }, 400)
+    }
+
+    const { data: vehicles, error: vehiclesError } = await supabaseAdmin
+      .from('vehicles')
+      .select('id, plate, team_id, laudo_eletrico, laudo_acustico, laudo_liner, laudo_tacografo')
+    if (vehiclesError) throw new Error(`Failed to fetch vehicles: ${vehiclesError.message}`)
+
+    const { data: supervisorTeams, error: supervisorTeamsError } = await supabaseAdmin
+      .from('supervisor_teams')
+      .select('supervisor_id, team_id')
+    if (supervisorTeamsError) throw new Error(`Failed to fetch supervisor teams: ${supervisorTeamsError.message}`)
+
+    const laudos = collectExpiringLaudos((vehicles || []) as VehicleLaudos[], today)
+
+    if (action === 'digest') {
+      let visible = laudos
+      if (!isManager) {
+        const teamIds = new Set((supervisorTeams || []).filter(st => st.supervisor_id === userId).map(st => st.team_id))
+        visible = laudos.filter(l => l.team_id && teamIds.has(l.team_id))
+      }
+      return jsonResponse(buildDigest(visible, today))
+    }
+
+    if (action !== 'scan') {
+      return jsonResponse({ error: 'Ação inválida' }, 400)
+    }
+
+    if (!isManager) {
+      return jsonResponse({ error: 'Apenas administradores ou gestores podem executar a varredura' }, 403)
+    }
+
+    const { data: admins, error: adminsError } = await supabaseAdmin
+      .from('user_roles')
+      .select('user_id')
+      .eq('role', 'admin')
+    if (adminsError) throw new Error(`Failed to fetch admins: ${adminsError.message}`)
+
+    const adminIds = [...new Set((admins || []).map(a => a.user_id))]
+    const supervisorsByTeam = new Map<string, string[]>()
+    for (const st of supervisorTeams || []) {
+      supervisorsByTeam.set(st.team_id, [...(supervisorsByTeam.get(st.team_id) || []), st.supervisor_id])
+    }
+
+    const notifications: Array<Record<string, string>> = []
+    for (const laudo of laudos) {
+      const stage = getLaudoStage(laudo.days_until_expiration)
+      if (!stage) continue
+
+      const recipients = new Set([
+        ...adminIds,
+        ...(laudo.team_id ? supervisorsByTeam.get(laudo.team_id) || [] : []),
+      ])
+      const notification = buildNotification(laudo, stage)
+      for (const recipient of recipients) {
+        notifications.push({ user_id: recipient, ...notification })
+      }
+    }
+
+    console.log(`Laudo scan for ${today}: ${laudos.length} expiring laudos, ${notifications.length} candidate notifications`)
+
+    let created = 0
+    if (!dryRun && notifications.length > 0) {
+      // Notifications already sent for the same stage are skipped by the dedupe key
+      const { data: inserted, error: insertError } = await supabaseAdmin
+        .from('notifications')
+        .upsert(notifications, { onConflict: 'user_id,dedupe_key', ignoreDuplicates: true })
+        .select('id')
+      if (insertError) throw new Error(`Failed to create notifications: ${insertError.message}`)
+      created = inserted?.length || 0
+    }
+
+    return jsonResponse({
+      date: today,
+      dry_run: dryRun,
+      expiring: laudos.length,
+      candidates: notifications.length,
+      created,
+      ...(dryRun ? { notifications } : {}),
+    })
+  } catch (error) {
+    console.error('Error in laudo-expiry-notifications:', error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return jsonResponse({ error: message }, 500)
+  }
+})
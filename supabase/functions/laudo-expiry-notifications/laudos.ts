@@ -0,0 +1,126 @@
+// Pure laudo expiry rules, shared by the daily scan and the digest endpoint.
+// Everything takes "today" as a parameter so it can run against a fake clock.
+
+export type LaudoField = 'laudo_eletrico' | 'laudo_acustico' | 'laudo_liner' | 'laudo_tacografo'
+
+export const LAUDO_FIELDS: LaudoField[] = ['laudo_eletrico', 'laudo_acustico', 'laudo_liner', 'laudo_tacografo']
+
+export const LAUDO_LABELS: Record<LaudoField, string> = {
+  laudo_eletrico: 'Laudo Elétrico',
+  laudo_acustico: 'Laudo Acústico',
+  laudo_liner: 'Laudo Liner',
+  laudo_tacografo: 'Laudo Tacógrafo',
+}
+
+// Same windows as the "Acompanhamento de Laudos" tab
+export const DIGEST_WINDOW_DAYS = 90
+export const EXPIRED_WINDOW_DAYS = 30
+
+// A notification is sent once per stage: 30 days before, 7 days before and when it expires
+export type LaudoStage = 'vencido' | 'critico' | 'alerta'
+
+export interface VehicleLaudos {
+  id: string
+  plate: string
+  team_id: string | null
+  laudo_eletrico: string | null
+  laudo_acustico: string | null
+  laudo_liner: string | null
+  laudo_tacografo: string | null
+}
+
+export interface ExpiringLaudo {
+  vehicle_id: string
+  plate: string
+  team_id: string | null
+  field: LaudoField
+  label: string
+  expiration_date: string
+  days_until_expiration: number
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/** Whole days between two "yyyy-MM-dd" dates (negative when date is before today) */
+export function daysBetween(today: string, date: string): number {
+  const a = Date.UTC(+today.slice(0, 4), +today.slice(5, 7) - 1, +today.slice(8, 10))
+  const b = Date.UTC(+date.slice(0, 4), +date.slice(5, 7) - 1, +date.slice(8, 10))
+  return Math.round((b - a) / DAY_MS)
+}
+
+/** Today's date ("yyyy-MM-dd") in the operation's time zone */
+export function todayInTimeZone(now: Date, timeZone = 'America/Sao_Paulo'): string {
+  return new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(now)
+}
+
+export function getLaudoStage(daysUntilExpiration: number): LaudoStage | null {
+  if (daysUntilExpiration < 0) return 'vencido'
+  if (daysUntilExpiration <= 7) return 'critico'
+  if (daysUntilExpiration <= 30) return 'alerta'
+  return null
+}
+
+/** Laudos expiring within the digest window (or expired recently), soonest first */
+export function collectExpiringLaudos(vehicles: VehicleLaudos[], today: string): ExpiringLaudo[] {
+  const result: ExpiringLaudo[] = []
+
+  for (const vehicle of vehicles) {
+    for (const field of LAUDO_FIELDS) {
+      const date = vehicle[field]
+      if (!date) continue
+      const days = daysBetween(today, date.slice(0, 10))
+      if (days > DIGEST_WINDOW_DAYS || days < -EXPIRED_WINDOW_DAYS) continue
+      result.push({
+        vehicle_id: vehicle.id,
+        plate: vehicle.plate,
+        team_id: vehicle.team_id,
+        field,
+        label: LAUDO_LABELS[field],
+        expiration_date: date.slice(0, 10),
+        days_until_expiration: days,
+      })
+    }
+  }
+
+  return result.sort((a, b) => a.days_until_expiration - b.days_until_expiration)
+}
+
+export function buildNotification(laudo: ExpiringLaudo, stage: LaudoStage) {
+  const [year, month, day] = laudo.expiration_date.split('-')
+  const date = `${day}/${month}/${year}`
+  const days = laudo.days_until_expiration
+
+  const title = stage === 'vencido'
+    ? `${laudo.label} vencido - ${laudo.plate}`
+    : `${laudo.label} vence em ${days} dia(s) - ${laudo.plate}`
+  const message = stage === 'vencido'
+    ? `O ${laudo.label.toLowerCase()} do veículo ${laudo.plate} venceu em ${date}.`
+    : `O ${laudo.label.toLowerCase()} do veículo ${laudo.plate} vence em ${date}.`
+
+  return {
+    type: 'laudo_expiring',
+    title,
+    message,
+    link: '/frotas',
+    // One notification per laudo date and stage: renewing the laudo starts over
+    dedupe_key: `laudo:${laudo.vehicle_id}:${laudo.field}:${laudo.expiration_date}:${stage}`,
+  }
+}
+
+export interface LaudoDigest {
+  date: string
+  totals: { expired: number; within30: number; within60: number; within90: number }
+  laudos: ExpiringLaudo[]
+}
+
+export function buildDigest(laudos: ExpiringLaudo[], today: string): LaudoDigest {
+  const totals = { expired: 0, within30: 0, within60: 0, within90: 0 }
+  for (const laudo of laudos) {
+    const days = laudo.days_until_expiration
+    if (days < 0) totals.expired++
+    else if (days <= 30) totals.within30++
+    else if (days <= 60) totals.within60++
+    else totals.within90++
+  }
+  return { date: today, totals, laudos }
+}
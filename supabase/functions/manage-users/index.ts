@@ -5,6 +5,40 @@ const corsHeaders = {
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
+// Error codes the Admin page maps to messages; `error` stays as a fallback text
+type ErrorCode =
+  | 'UNAUTHENTICATED'
+  | 'INVALID_TOKEN'
+  | 'FORBIDDEN'
+  | 'INVALID_ACTION'
+  | 'INVALID_INPUT'
+  | 'INVALID_ROLE'
+  | 'WEAK_PASSWORD'
+  | 'USERNAME_TAKEN'
+  | 'USER_NOT_FOUND'
+  | 'SELF_DELETE'
+  | 'SELF_DEMOTE'
+  | 'RATE_LIMITED'
+  | 'AUTH_ERROR'
+  | 'INTERNAL_ERROR'
+
+const VALID_ROLES = ['admin', 'supervisor', 'gestor']
+const MIN_PASSWORD_LENGTH = 6
+
+// Password resets allowed in the window, per admin and per target user
+const RESET_WINDOW_MINUTES = 60
+const MAX_RESETS_PER_ADMIN = 10
+const MAX_RESETS_PER_USER = 3
+
+const json = (status: number, payload: Record<string, unknown>) =>
+  new Response(
+    JSON.stringify(payload),
+    { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  )
+
+const fail = (status: number, code: ErrorCode, error: string, extra: Record<string, unknown> = {}) =>
+  json(status, { error, code, ...extra })
+
 Deno.serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders })
@@ -19,36 +53,28 @@ Deno.serve(async (req) => {
 
     // Verify the requesting user is an admin
     const authHeader = req.headers.get('Authorization')
-    if (!authHeader) {
-      return new Response(
-        JSON.stringify({ error: 'Não autorizado' }),
-        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
+    if (!authHeader?.startsWith('Bearer ')) {
+      return fail(401, 'UNAUTHENTICATED', 'Não autorizado')
     }
 
     const token = authHeader.replace('Bearer ', '')
     const { data: { user: requestingUser }, error: userError } = await supabaseAdmin.auth.getUser(token)
-    
+
     if (userError || !requestingUser) {
-      return new Response(
-        JSON.stringify({ error: 'Token inválido' }),
-        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
+      return fail(401, 'INVALID_TOKEN', 'Token inválido')
     }
 
-    // Check if requesting user is admin
-    const { data: adminRole } = await supabaseAdmin
-      .from('user_roles')
-      .select('role')
-      .eq('user_id', requestingUser.id)
-      .eq('role', 'admin')
-      .single()
-
-    if (!adminRole) {
-      return new Response(
-        JSON.stringify({ error: 'Apenas administradores podem gerenciar usuários' }),
-        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
+    // Same check the RLS policies use; any error counts as "not admin"
+    const { data: isAdmin, error: roleCheckError } = await supabaseAdmin.rpc('has_role', {
+      _user_id: requestingUser.id,
+      _role: 'admin',
+    })
+
+    if (roleCheckError) {
+      console.error('Role check error:', roleCheckError)
+    }
+    if (roleCheckError || !isAdmin) {
+      return fail(403, 'FORBIDDEN', 'Apenas administradores podem gerenciar usuários')
     }
 
     const { action, ...data } = await req.json()
@@ -57,10 +83,13 @@ Deno.serve(async (req) => {
       const { name, username, password, role } = data
 
       if (!name || !username || !password || !role) {
-        return new Response(
-          JSON.stringify({ error: 'Dados incompletos' }),
-          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        )
+        return fail(400, 'INVALID_INPUT', 'Dados incompletos')
+      }
+      if (!VALID_ROLES.includes(role)) {
+        return fail(400, 'INVALID_ROLE', 'Função inválida')
+      }
+      if (String(password).length < MIN_PASSWORD_LENGTH) {
+        return fail(400, 'WEAK_PASSWORD', `A senha deve ter no mínimo ${MIN_PASSWORD_LENGTH} caracteres`)
       }
 
       const email = `${username}@fleetcontrol.local`
@@ -70,13 +99,10 @@ Deno.serve(async (req) => {
         .from('profiles')
         .select('id')
         .eq('username', username)
-        .single()
+        .maybeSingle()
 
       if (existingProfile) {
-        return new Response(
-          JSON.stringify({ error: 'Usuário já existe' }),
-          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        )
+        return fail(409, 'USERNAME_TAKEN', 'Usuário já existe')
       }
 
       // Create user
@@ -89,15 +115,13 @@ Deno.serve(async (req) => {
 
       if (authError) {
         console.error('Auth error:', authError)
-        // Translate common error messages
-        let errorMessage = authError.message
         if (authError.message.includes('already been registered') || authError.code === 'email_exists') {
-          errorMessage = 'Este usuário já está cadastrado no sistema'
+          return fail(409, 'USERNAME_TAKEN', 'Este usuário já está cadastrado no sistema')
         }
-        return new Response(
-          JSON.stringify({ error: errorMessage }),
-          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        )
+        if (authError.code === 'weak_password') {
+          return fail(400, 'WEAK_PASSWORD', authError.message)
+        }
+        return fail(400, 'AUTH_ERROR', authError.message)
       }
 
       // Update profile with username
@@ -115,22 +139,23 @@ Deno.serve(async (req) => {
         console.error('Role error:', roleError)
       }
 
-      console.log('User created:', username)
+      console.log('User created:', username, 'by', requestingUser.id)
 
-      return new Response(
-        JSON.stringify({ success: true, userId: authData.user.id }),
-        { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
+      return json(200, { success: true, userId: authData.user.id })
     }
 
     if (action === 'update') {
       const { userId, name, role } = data
 
       if (!userId) {
-        return new Response(
-          JSON.stringify({ error: 'ID do usuário é obrigatório' }),
-          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        )
+        return fail(400, 'INVALID_INPUT', 'ID do usuário é obrigatório')
+      }
+      if (role && !VALID_ROLES.includes(role)) {
+        return fail(400, 'INVALID_ROLE', 'Função inválida')
+      }
+      // Keeps at least the current admin able to manage users
+      if (role && role !== 'admin' && userId === requestingUser.id) {
+        return fail(400, 'SELF_DEMOTE', 'Você não pode remover sua própria função de administrador')
       }
 
       // Update profile name if provided
@@ -142,10 +167,7 @@ Deno.serve(async (req) => {
 
         if (profileError) {
           console.error('Profile update error:', profileError)
-          return new Response(
-            JSON.stringify({ error: 'Erro ao atualizar perfil' }),
-            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-          )
+          return fail(400, 'INTERNAL_ERROR', 'Erro ao atualizar perfil')
         }
       }
 
@@ -164,29 +186,47 @@ Deno.serve(async (req) => {
 
         if (roleError) {
           console.error('Role update error:', roleError)
-          return new Response(
-            JSON.stringify({ error: 'Erro ao atualizar função' }),
-            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-          )
+          return fail(400, 'INTERNAL_ERROR', 'Erro ao atualizar função')
         }
       }
 
-      console.log('User updated:', userId)
+      console.log('User updated:', userId, 'by', requestingUser.id)
 
-      return new Response(
-        JSON.stringify({ success: true }),
-        { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
+      return json(200, { success: true })
     }
 
     if (action === 'reset-password') {
       const { userId, newPassword } = data
 
       if (!userId || !newPassword) {
-        return new Response(
-          JSON.stringify({ error: 'Dados incompletos' }),
-          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        )
+        return fail(400, 'INVALID_INPUT', 'Dados incompletos')
+      }
+      if (String(newPassword).length < MIN_PASSWORD_LENGTH) {
+        return fail(400, 'WEAK_PASSWORD', `A senha deve ter no mínimo ${MIN_PASSWORD_LENGTH} caracteres`)
+      }
+
+      const windowStart = new Date(Date.now() - RESET_WINDOW_MINUTES * 60 * 1000).toISOString()
+      const [byAdmin, byTarget] = await Promise.all([
+        supabaseAdmin
+          .from('password_reset_log')
+          .select('id', { count: 'exact', head: true })
+          .eq('requested_by', requestingUser.id)
+          .gte('created_at', windowStart),
+        supabaseAdmin
+          .from('password_reset_log')
+          .select('id', { count: 'exact', head: true })
+          .eq('target_user_id', userId)
+          .gte('created_at', windowStart),
+      ])
+
+      if (byAdmin.error || byTarget.error) {
+        console.error('Rate limit check error:', byAdmin.error || byTarget.error)
+        return fail(500, 'INTERNAL_ERROR', 'Não foi possível verificar o limite de redefinições')
+      }
+      if ((byAdmin.count ?? 0) >= MAX_RESETS_PER_ADMIN || (byTarget.count ?? 0) >= MAX_RESETS_PER_USER) {
+        return fail(429, 'RATE_LIMITED', 'Muitas redefinições de senha em pouco tempo', {
+          retry_after_minutes: RESET_WINDOW_MINUTES,
+        })
       }
 
       const { error } = await supabaseAdmin.auth.admin.updateUserById(userId, {
@@ -195,36 +235,38 @@ Deno.serve(async (req) => {
 
       if (error) {
         console.error('Reset password error:', error)
-        return new Response(
-          JSON.stringify({ error: error.message }),
-          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        )
+        if (error.status === 404) {
+          return fail(404, 'USER_NOT_FOUND', 'Usuário não encontrado')
+        }
+        if (error.code === 'weak_password') {
+          return fail(400, 'WEAK_PASSWORD', error.message)
+        }
+        return fail(400, 'AUTH_ERROR', error.message)
+      }
+
+      const { error: logError } = await supabaseAdmin
+        .from('password_reset_log')
+        .insert({ target_user_id: userId, requested_by: requestingUser.id })
+
+      if (logError) {
+        console.error('Reset log error:', logError)
       }
 
-      console.log('Password reset for user:', userId)
+      console.log('Password reset for user:', userId, 'by', requestingUser.id)
 
-      return new Response(
-        JSON.stringify({ success: true }),
-        { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
+      return json(200, { success: true })
     }
 
     if (action === 'delete') {
       const { userId } = data
 
       if (!userId) {
-        return new Response(
-          JSON.stringify({ error: 'ID do usuário é obrigatório' }),
-          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        )
+        return fail(400, 'INVALID_INPUT', 'ID do usuário é obrigatório')
       }
 
       // Prevent deleting yourself
       if (userId === requestingUser.id) {
-        return new Response(
-          JSON.stringify({ error: 'Você não pode excluir seu próprio usuário' }),
-          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        )
+        return fail(400, 'SELF_DELETE', 'Você não pode excluir seu próprio usuário')
       }
 
       // Delete user from auth (cascade will handle related tables)
@@ -232,31 +274,22 @@ Deno.serve(async (req) => {
 
       if (error) {
         console.error('Delete user error:', error)
-        return new Response(
-          JSON.stringify({ error: error.message }),
-          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        )
+        if (error.status === 404) {
+          return fail(404, 'USER_NOT_FOUND', 'Usuário não encontrado')
+        }
+        return fail(400, 'AUTH_ERROR', error.message)
       }
 
-      console.log('User deleted:', userId)
+      console.log('User deleted:', userId, 'by', requestingUser.id)
 
-      return new Response(
-        JSON.stringify({ success: true }),
-        { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
+      return json(200, { success: true })
     }
 
-    return new Response(
-      JSON.stringify({ error: 'Ação inválida' }),
-      { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    )
+    return fail(400, 'INVALID_ACTION', 'Ação inválida')
 
   } catch (error: unknown) {
     const errorMessage = error instanceof Error ? error.message : 'Erro desconhecido'
     console.error('Unexpected error:', error)
-    return new Response(
-      JSON.stringify({ error: errorMessage }),
-      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    )
+    return fail(500, 'INTERNAL_ERROR', errorMessage)
   }
 })
@@ -0,0 +1,70 @@
+// API key and signature checks for the sync. Keys live in integration_api_keys
+// (only their SHA-256 is stored); keys with require_signature also need an
+// x-signature header with the HMAC-SHA256 of the raw body.
+
+export const SCOPE_SYNC = 'production:sync'
+export const SCOPE_DRY_RUN = 'production:dry_run'
+
+export interface IntegrationApiKey {
+  id: string
+  name: string
+  scopes: string[]
+  require_signature: boolean
+  signing_secret: string | null
+  expires_at: string | null
+  revoked_at: string | null
+}
+
+/** Key sent in x-api-key, or as "Authorization: Bearer sk_..." */
+export function getApiKeyFromRequest(req: Request): string | null {
+  const header = req.headers.get('x-api-key')
+  if (header) return header.trim()
+
+  const authorization = req.headers.get('authorization') || ''
+  const bearer = authorization.replace(/^Bearer\s+/i, '').trim()
+  // Anything else in Authorization is a Supabase JWT, not one of our keys
+  return bearer.startsWith('sk_') ? bearer : null
+}
+
+export interface KeyRejection {
+  status: 401 | 403
+  error: string
+}
+
+/** Why the key can't be used for this call, or null when it can */
+export function checkApiKey(key: IntegrationApiKey | null, dryRun: boolean, now = new Date()): KeyRejection | null {
+  if (!key) return { status: 401, error: 'Invalid API key' }
+  if (key.revoked_at) return { status: 401, error: 'API key revoked' }
+  if (key.expires_at && new Date(key.expires_at) <= now) return { status: 401, error: 'API key expired' }
+
+  // A key allowed to write can also simulate
+  const allowed = key.scopes.includes(SCOPE_SYNC) || (dryRun && key.scopes.includes(SCOPE_DRY_RUN))
+  return allowed ? null : { status: 403, error: 'API key not allowed for this operation' }
+}
+
+export async function hmacSha256Hex(secret: string, body: string): Promise<string> {
+  const encoder = new TextEncoder()
+  const cryptoKey = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign'],
+  )
+  const signature = await crypto.subtle.sign('HMAC', cryptoKey, encoder.encode(body))
+  return Array.from(new Uint8Array(signature)).map((b) => b.toString(16).padStart(2, '0')).join('')
+}
+
+const timingSafeEqual = (a: string, b: string) => {
+  if (a.length !== b.length) return false
+  let result = 0
+  for (let i = 0; i < a.length; i++) result |= a.charCodeAt(i) ^ b.charCodeAt(i)
+  return result === 0
+}
+
+/** Accepts the hex digest with or without a "sha256=" prefix */
+export async function verifySignature(secret: string, body: string, header: string | null): Promise<boolean> {
+  if (!header) return false
+  const received = header.trim().replace(/^sha256=/i, '').toLowerCase()
+  return timingSafeEqual(received, await hmacSha256Hex(secret, body))
+}
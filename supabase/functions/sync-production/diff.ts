@@ -0,0 +1,53 @@
+// Compares the aggregated rows of a sync with what is stored for the same
+// date range. Used for the dry run response and for the run counters.
+
+export interface ProductionValue {
+  team_id: string
+  date: string
+  production_value: number
+}
+
+export interface ProductionDiff {
+  toInsert: ProductionValue[]
+  toUpdate: (ProductionValue & { previous_value: number })[]
+  toDelete: ProductionValue[]
+  unchanged: number
+}
+
+const keyOf = (row: { team_id: string; date: string }) => `${row.team_id}_${row.date}`
+
+export function diffProduction(existing: ProductionValue[], incoming: ProductionValue[]): ProductionDiff {
+  const existingByKey = new Map(existing.map((row) => [keyOf(row), row]))
+  const incomingKeys = new Set(incoming.map(keyOf))
+
+  const diff: ProductionDiff = { toInsert: [], toUpdate: [], toDelete: [], unchanged: 0 }
+
+  for (const row of incoming) {
+    const current = existingByKey.get(keyOf(row))
+    if (!current) {
+      diff.toInsert.push(row)
+    } else if (Number(current.production_value) !== row.production_value) {
+      diff.toUpdate.push({ ...row, previous_value: Number(current.production_value) })
+    } else {
+      diff.unchanged++
+    }
+  }
+
+  for (const row of existing) {
+    if (!incomingKeys.has(keyOf(row))) diff.toDelete.push(row)
+  }
+
+  return diff
+}
+
+/** First and last date of the rows, or null when there are none */
+export function getDateRange(rows: { date: string }[]): { from: string; to: string } | null {
+  if (rows.length === 0) return null
+  const dates = rows.map((row) => row.date).sort()
+  return { from: dates[0], to: dates[dates.length - 1] }
+}
+
+export async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text))
+  return Array.from(new Uint8Array(digest)).map((b) => b.toString(16).padStart(2, '0')).join('')
+}
@@ -1,93 +1,11 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { createTeamCodeResolver } from './teamCodes.ts'
+import { ProductionValue, diffProduction, getDateRange, sha256Hex } from './diff.ts'
+import { IntegrationApiKey, checkApiKey, getApiKeyFromRequest, verifySignature } from './auth.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-}
-
-// Mapping from external codes to internal team names
-const TEAM_CODE_MAPPING: Record<string, string> = {
-  '803006A': 'GOOO101M',
-  '803006': 'GOOO101M',
-  '803007A': 'GOOO102M',
-  '803007': 'GOOO102M',
-  '803008A': 'GOOO103M',
-  '803008': 'GOOO103M',
-  '803010A': 'GOOO105M',
-  '803010': 'GOOO105M',
-  '703014A': 'GOOV101M',
-  '703014': 'GOOV101M',
-  '703017A': 'GOOV104M',
-  '703017': 'GOOV104M',
-  '803009A': 'GOOO104M',
-  '803009': 'GOOO104M',
-  '803011A': 'GOOO106M',
-  '803011': 'GOOO106M',
-  '803012A': 'GOOO107M',
-  '803012': 'GOOO107M',
-  '803013A': 'GOOO108M',
-  '803013': 'GOOO108M',
-  '703015A': 'GOOV102M',
-  '703015': 'GOOV102M',
-  '703016A': 'GOOV103M',
-  '703016': 'GOOV103M',
-  '703000A': 'GOOV001M',
-  '703000': 'GOOV001M',
-  '703001A': 'GOOV002M',
-  '703001': 'GOOV002M',
-  '703002A': 'GOOV003M',
-  '703002': 'GOOV003M',
-  '703003A': 'GOOV004M',
-  '703003': 'GOOV004M',
-  '703004A': 'GOOV005M',
-  '703004': 'GOOV005M',
-  '703005A': 'GOOV006M',
-  '703005': 'GOOV006M',
-  '703006A': 'GOOP001M',
-  '703006': 'GOOP001M',
-  '703007A': 'GOOP002M',
-  '703007': 'GOOP002M',
-  '703008A': 'GOOP003M',
-  '703008': 'GOOP003M',
-  '703009A': 'GOOP004M',
-  '703009': 'GOOP004M',
-  '703010A': 'GOOP005M',
-  '703010': 'GOOP005M',
-  '703011A': 'GOOP006M',
-  '703011': 'GOOP006M',
-  '703012A': 'GOOP007M',
-  '703012': 'GOOP007M',
-  '703013A': 'GOOP008M',
-  '703013': 'GOOP008M',
-  '803000A': 'GOOO001M',
-  '803000': 'GOOO001M',
-  '803001A': 'GOOO002M',
-  '803001': 'GOOO002M',
-  '803002A': 'GOOO003M',
-  '803002': 'GOOO003M',
-  '803003A': 'GOOO004M',
-  '803003': 'GOOO004M',
-  '803004A': 'GOOO005M',
-  '803004': 'GOOO005M',
-  '803005A': 'GOOO006M',
-  '803005': 'GOOO006M',
-}
-
-// Function to convert external code to internal team name
-function convertTeamCode(externalCode: string): string {
-  // First try exact match
-  if (TEAM_CODE_MAPPING[externalCode]) {
-    return TEAM_CODE_MAPPING[externalCode]
-  }
-  
-  // Try without trailing 'A' if present
-  const codeWithoutA = externalCode.replace(/A$/i, '')
-  if (TEAM_CODE_MAPPING[codeWithoutA]) {
-    return TEAM_CODE_MAPPING[codeWithoutA]
-  }
-  
-  // Return original if no mapping found
-  return externalCode
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-api-key, x-signature, x-sync-source, x-dry-run',
 }
 
 // Support both old and new field names
@@ -111,6 +29,37 @@ interface RequestBody {
   }>
 }
 
+// Ignored rows kept on the run record for the Admin drill-down
+const MAX_STORED_IGNORED_ROWS = 1000
+const DIFF_SAMPLE_SIZE = 50
+
+type IgnoreReason = 'sem_codigo' | 'data_invalida' | 'equipe_nao_encontrada'
+
+interface IgnoredRow {
+  reason: IgnoreReason
+  code: string | null
+  date: string | null
+  production: number | null
+}
+
+interface SyncRunRecord {
+  source: string | null
+  api_key_id?: string
+  dry_run: boolean
+  payload_hash?: string | null
+  status?: 'sucesso' | 'erro'
+  rows_received?: number
+  rows_inserted?: number
+  rows_updated?: number
+  rows_deleted?: number
+  rows_ignored?: number
+  date_from?: string | null
+  date_to?: string | null
+  unmatched_codes?: { code: string; rows: number; production: number }[]
+  ignored_rows?: IgnoredRow[]
+  error?: string | null
+}
+
 // Function to try parsing concatenated JSONs
 function parseJSONWithFallback(rawBody: string): any[] {
   const results: any[] = []
@@ -200,40 +149,111 @@ Deno.serve(async (req) => {
     )
   }
 
-  try {
-    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
-    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
-    
-    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+  const startedAt = new Date()
+  const url = new URL(req.url)
+  const dryRunParam = url.searchParams.get('dry_run') ?? req.headers.get('x-dry-run')
+  const explicitSource = url.searchParams.get('source') || req.headers.get('x-sync-source')
+  const run: SyncRunRecord = {
+    source: explicitSource,
+    dry_run: dryRunParam === 'true' || dryRunParam === '1',
+  }
 
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+  const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+  const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+  // Calls without a valid key are rejected before anything is recorded
+  const reject = (status: number, error: string) => {
+    console.warn('Rejected sync call:', error)
+    return new Response(
+      JSON.stringify({ error, success: false }),
+      { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+
+  const rawKey = getApiKeyFromRequest(req)
+  if (!rawKey) {
+    return reject(401, 'Missing API key (send it in the x-api-key header)')
+  }
+
+  const { data: apiKey, error: keyError } = await supabase
+    .from('integration_api_keys')
+    .select('id, name, scopes, require_signature, signing_secret, expires_at, revoked_at')
+    .eq('key_hash', await sha256Hex(rawKey))
+    .maybeSingle<IntegrationApiKey>()
+  if (keyError) {
+    console.error('Error loading API key:', keyError)
+    return reject(500, 'Could not validate API key')
+  }
+
+  const rejection = checkApiKey(apiKey, run.dry_run)
+  if (rejection) {
+    return reject(rejection.status, rejection.error)
+  }
+
+  run.api_key_id = apiKey!.id
+  run.source = explicitSource || apiKey!.name
+
+  // Every authenticated call is recorded, including dry runs and failures
+  const respond = async (status: number, payload: Record<string, unknown>, fields: Partial<SyncRunRecord>) => {
+    const finishedAt = new Date()
+    const { data: saved, error: runError } = await supabase
+      .from('production_sync_runs')
+      .insert({
+        ...run,
+        ...fields,
+        status: fields.status ?? (status < 400 ? 'sucesso' : 'erro'),
+        started_at: startedAt.toISOString(),
+        finished_at: finishedAt.toISOString(),
+        duration_ms: finishedAt.getTime() - startedAt.getTime(),
+      })
+      .select('id')
+      .single()
+    if (runError) console.error('Error saving sync run:', runError)
+
+    return new Response(
+      JSON.stringify({ ...payload, run_id: saved?.id ?? null }),
+      { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+
+  try {
     // Parse request body
     const rawBody = await req.text()
     console.log('Raw body length:', rawBody.length)
+
+    if (apiKey!.require_signature) {
+      const validSignature = await verifySignature(apiKey!.signing_secret!, rawBody, req.headers.get('x-signature'))
+      if (!validSignature) {
+        return reject(401, 'Invalid or missing x-signature')
+      }
+    }
+
+    await supabase
+      .from('integration_api_keys')
+      .update({ last_used_at: new Date().toISOString() })
+      .eq('id', apiKey!.id)
     
     if (!rawBody || rawBody.length === 0) {
       console.log('Empty request body received')
-      return new Response(
-        JSON.stringify({ 
-          error: 'Request body is empty',
-          hint: 'Make sure to set Content-Type: application/json and send JSON in the body'
-        }),
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
+      return await respond(400, {
+        error: 'Request body is empty',
+        hint: 'Make sure to set Content-Type: application/json and send JSON in the body'
+      }, { error: 'Request body is empty' })
     }
 
+    run.payload_hash = await sha256Hex(rawBody)
+
     // Try to parse (handles concatenated JSONs)
     const parsedBodies = parseJSONWithFallback(rawBody)
     
     if (parsedBodies.length === 0) {
       console.error('Failed to parse any JSON from body')
       console.log('Raw body preview:', rawBody.substring(0, 200))
-      return new Response(
-        JSON.stringify({ 
-          error: 'Invalid JSON in request body',
-          details: 'Could not parse JSON data'
-        }),
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
+      return await respond(400, {
+        error: 'Invalid JSON in request body',
+        details: 'Could not parse JSON data'
+      }, { error: 'Invalid JSON in request body' })
     }
     
     console.log(`Parsed ${parsedBodies.length} JSON object(s) from request`)
@@ -271,42 +291,44 @@ Deno.serve(async (req) => {
       allRows = allRows.concat(rows)
     }
 
+    run.rows_received = allRows.length
+
     if (allRows.length === 0) {
       console.log('No rows found in any JSON objects')
-      return new Response(
-        JSON.stringify({ 
-          error: 'No data rows found in request', 
-          inserted: 0, 
-          ignored: 0,
-          hint: 'Expected firstTableRows array or results[0].tables[0].rows'
-        }),
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
+      return await respond(400, {
+        error: 'No data rows found in request', 
+        inserted: 0, 
+        ignored: 0,
+        hint: 'Expected firstTableRows array or results[0].tables[0].rows'
+      }, { error: 'No data rows found in request' })
     }
 
     console.log(`Total rows to process: ${allRows.length}`)
 
-    // Fetch all teams to create a name -> id map
-    const { data: teams, error: teamsError } = await supabase
-      .from('teams')
-      .select('id, name')
+    // Fetch teams and their external codes to resolve the codes sent by the BI
+    const [{ data: teams, error: teamsError }, { data: teamCodes, error: teamCodesError }] = await Promise.all([
+      supabase.from('teams').select('id, name'),
+      supabase.from('team_external_codes').select('team_id, code, valid_from, valid_until'),
+    ])
 
     if (teamsError) {
       console.error('Error fetching teams:', teamsError)
       throw new Error(`Failed to fetch teams: ${teamsError.message}`)
     }
+    if (teamCodesError) {
+      console.error('Error fetching team codes:', teamCodesError)
+      throw new Error(`Failed to fetch team codes: ${teamCodesError.message}`)
+    }
 
-    const teamMap = new Map<string, string>()
-    teams?.forEach(team => {
-      teamMap.set(team.name, team.id)
-    })
+    const teamResolver = createTeamCodeResolver(teamCodes || [], teams || [])
 
-    console.log(`Found ${teamMap.size} registered teams`)
+    console.log(`Found ${teams?.length || 0} registered teams and ${teamCodes?.length || 0} external codes`)
 
     // Process rows and filter only those with matching teams
     // Use a Map to aggregate duplicates (same team_id + date)
-    const aggregatedData = new Map<string, { team_id: string; date: string; production_value: number }>()
-    let ignoredCount = 0
+    const aggregatedData = new Map<string, ProductionValue>()
+    const ignoredRows: IgnoredRow[] = []
+    const unmatchedCodes = new Map<string, { code: string; rows: number; production: number }>()
 
     for (const row of allRows) {
       // Support both old format (ZCA010[ZCA_NUMOPE]) and new format (EQUIPE_SUPERVISÃO[PREFIXO N ])
@@ -316,18 +338,7 @@ Deno.serve(async (req) => {
       const productionValue = row['[produção]']
 
       if (!rawTeamName) {
-        ignoredCount++
-        continue
-      }
-
-      // Convert external code to internal team name
-      const teamName = convertTeamCode(rawTeamName)
-
-      // Check if team exists
-      const teamId = teamMap.get(teamName)
-      
-      if (!teamId) {
-        ignoredCount++
+        ignoredRows.push({ reason: 'sem_codigo', code: null, date: dateStr ?? null, production: productionValue ?? null })
         continue
       }
 
@@ -336,7 +347,19 @@ Deno.serve(async (req) => {
       
       if (!date) {
         console.log(`Ignoring row: invalid date "${dateStr}"`)
-        ignoredCount++
+        ignoredRows.push({ reason: 'data_invalida', code: rawTeamName, date: dateStr ?? null, production: productionValue ?? null })
+        continue
+      }
+
+      // Resolve the external code to a team, considering the code validity on that date
+      const teamId = teamResolver.resolve(rawTeamName, date)
+      
+      if (!teamId) {
+        ignoredRows.push({ reason: 'equipe_nao_encontrada', code: rawTeamName, date, production: productionValue ?? null })
+        const unmatched = unmatchedCodes.get(rawTeamName) || { code: rawTeamName, rows: 0, production: 0 }
+        unmatched.rows++
+        unmatched.production += productionValue || 0
+        unmatchedCodes.set(rawTeamName, unmatched)
         continue
       }
 
@@ -347,7 +370,7 @@ Deno.serve(async (req) => {
       if (aggregatedData.has(key)) {
         const existing = aggregatedData.get(key)!
         existing.production_value += productionValue
-        console.log(`Aggregating duplicate: ${teamName} on ${date}, new total: ${existing.production_value}`)
+        console.log(`Aggregating duplicate: ${rawTeamName} on ${date}, new total: ${existing.production_value}`)
       } else {
         aggregatedData.set(key, {
           team_id: teamId,
@@ -359,67 +382,103 @@ Deno.serve(async (req) => {
 
     // Convert Map to array
     const dataToInsert = Array.from(aggregatedData.values())
+    const ignoredCount = ignoredRows.length
+    const range = getDateRange(dataToInsert)
+
+    Object.assign(run, {
+      rows_ignored: ignoredCount,
+      date_from: range?.from ?? null,
+      date_to: range?.to ?? null,
+      unmatched_codes: Array.from(unmatchedCodes.values()).sort((a, b) => b.rows - a.rows),
+      ignored_rows: ignoredRows.slice(0, MAX_STORED_IGNORED_ROWS),
+    })
 
     console.log(`Prepared ${dataToInsert.length} rows for insert, ${ignoredCount} ignored`)
 
-    // Delete all existing data
-    const { error: deleteError } = await supabase
-      .from('production_data')
-      .delete()
-      .neq('id', '00000000-0000-0000-0000-000000000000') // Delete all rows
-
-    if (deleteError) {
-      console.error('Error deleting old data:', deleteError)
-      throw new Error(`Failed to delete old data: ${deleteError.message}`)
+    // Compare with what is stored for the same date range
+    let existingRows: ProductionValue[] = []
+    if (range) {
+      const { data: existing, error: existingError } = await supabase
+        .from('production_data')
+        .select('team_id, date, production_value')
+        .gte('date', range.from)
+        .lte('date', range.to)
+      if (existingError) throw new Error(`Failed to read current data: ${existingError.message}`)
+      existingRows = existing || []
+    }
+    const diff = diffProduction(existingRows, dataToInsert)
+
+    if (run.dry_run) {
+      const result = {
+        success: true,
+        dry_run: true,
+        total_received: allRows.length,
+        ignored: ignoredCount,
+        date_from: run.date_from,
+        date_to: run.date_to,
+        would_insert: diff.toInsert.length,
+        would_update: diff.toUpdate.length,
+        would_delete: diff.toDelete.length,
+        unchanged: diff.unchanged,
+        unmatched_codes: run.unmatched_codes,
+        sample: {
+          insert: diff.toInsert.slice(0, DIFF_SAMPLE_SIZE),
+          update: diff.toUpdate.slice(0, DIFF_SAMPLE_SIZE),
+          delete: diff.toDelete.slice(0, DIFF_SAMPLE_SIZE),
+        },
+        timestamp: new Date().toISOString()
+      }
+      console.log('Dry run completed:', { ...result, sample: undefined })
+      return await respond(200, result, {})
     }
 
-    console.log('Old data deleted successfully')
-
-    // Insert new data (upsert to handle duplicates)
+    // Replace the date range covered by this payload: rows missing from it are
+    // deleted and the rest upserted, in one transaction
+    let writtenCount = 0
     let insertedCount = 0
-    
-    if (dataToInsert.length > 0) {
-      const { data: inserted, error: insertError } = await supabase
-        .from('production_data')
-        .upsert(dataToInsert, { 
-          onConflict: 'team_id,date',
-          ignoreDuplicates: false 
-        })
-        .select()
 
-      if (insertError) {
-        console.error('Error inserting data:', insertError)
-        throw new Error(`Failed to insert data: ${insertError.message}`)
+    if (range) {
+      const { data: written, error: replaceError } = await supabase.rpc('replace_production_range', {
+        _from: range.from,
+        _to: range.to,
+        _rows: dataToInsert,
+      })
+
+      if (replaceError) {
+        console.error('Error replacing production data:', replaceError)
+        throw new Error(`Failed to replace production data: ${replaceError.message}`)
       }
 
-      insertedCount = inserted?.length || dataToInsert.length
+      const counts = written as { written: number; inserted: number } | null
+      writtenCount = counts?.written ?? dataToInsert.length
+      insertedCount = counts?.inserted ?? diff.toInsert.length
     }
 
-    console.log(`Inserted ${insertedCount} rows successfully`)
+    console.log(`Wrote ${writtenCount} rows successfully, ${insertedCount} new`)
 
     const result = {
       success: true,
-      inserted: insertedCount,
+      inserted: writtenCount,
       ignored: ignoredCount,
       total_received: allRows.length,
+      new_rows: diff.toInsert.length,
+      updated_rows: diff.toUpdate.length,
+      removed_rows: diff.toDelete.length,
+      unmatched_codes: run.unmatched_codes,
       timestamp: new Date().toISOString()
     }
 
     console.log('Sync completed:', result)
 
-    return new Response(
-      JSON.stringify(result),
-      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    )
+    return await respond(200, result, {
+      rows_inserted: insertedCount,
+      rows_updated: diff.toUpdate.length,
+      rows_deleted: diff.toDelete.length,
+    })
 
   } catch (error) {
     console.error('Error in sync-production:', error)
-    return new Response(
-      JSON.stringify({ 
-        error: error instanceof Error ? error.message : 'Unknown error',
-        success: false 
-      }),
-      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    )
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return await respond(500, { error: message, success: false }, { error: message })
   }
 })
@@ -0,0 +1,48 @@
+// Resolves the team codes sent by the BI export to our teams, using the
+// team_external_codes table. A code can be reassigned to another team over
+// time, so the row date picks which validity period applies.
+
+export interface TeamExternalCode {
+  team_id: string
+  code: string
+  valid_from: string | null
+  valid_until: string | null
+}
+
+export interface TeamCodeResolver {
+  /** Team id for the code on the given "yyyy-MM-dd" date, or null when unknown */
+  resolve(rawCode: string, date: string): string | null
+}
+
+export const normalizeTeamCode = (code: string) => code.trim().toUpperCase()
+
+const isValidOn = (entry: TeamExternalCode, date: string) =>
+  (!entry.valid_from || entry.valid_from <= date) && (!entry.valid_until || entry.valid_until >= date)
+
+export function createTeamCodeResolver(
+  codes: TeamExternalCode[],
+  teams: { id: string; name: string }[],
+): TeamCodeResolver {
+  const byCode = new Map<string, TeamExternalCode[]>()
+  for (const entry of codes) {
+    const code = normalizeTeamCode(entry.code)
+    byCode.set(code, [...(byCode.get(code) || []), entry])
+  }
+
+  const teamsByName = new Map(teams.map((team) => [normalizeTeamCode(team.name), team.id]))
+
+  const lookup = (code: string, date: string) =>
+    byCode.get(code)?.find((entry) => isValidOn(entry, date))?.team_id ?? null
+
+  return {
+    resolve(rawCode, date) {
+      const code = normalizeTeamCode(rawCode)
+      // Exact code first, then without the trailing "A" some exports add,
+      // and finally the code may already be one of our team names
+      return lookup(code, date)
+        ?? (code.endsWith('A') ? lookup(code.slice(0, -1), date) : null)
+        ?? teamsByName.get(code)
+        ?? null
+    },
+  }
+}
@@ -0,0 +1,44 @@
+-- Track who registered each incident
+ALTER TABLE public.incidents
+ADD COLUMN created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_incidents_vehicle_id ON public.incidents(vehicle_id);
+CREATE INDEX idx_incidents_driver_id ON public.incidents(driver_id);
+CREATE INDEX idx_incidents_date ON public.incidents(date);
+
+-- Users with the "incidents" page permissions can work with incidents
+-- (admins and gestors keep the existing "manage all" policy)
+DROP POLICY IF EXISTS "Supervisors can view incidents of their team vehicles" ON public.incidents;
+CREATE POLICY "Supervisors can view incidents of their team vehicles"
+ON public.incidents
+FOR SELECT
+TO authenticated
+USING (
+  has_role(auth.uid(), 'admin'::app_role)
+  OR has_role(auth.uid(), 'gestor'::app_role)
+  OR has_permission_profile(auth.uid(), 'Frotas')
+  OR user_has_permission(auth.uid(), 'incidents', 'view')
+  OR vehicle_id IN (SELECT id FROM vehicles WHERE team_id IN (SELECT get_user_team_ids(auth.uid())))
+);
+
+DROP POLICY IF EXISTS "Supervisors can manage incidents of their team vehicles" ON public.incidents;
+CREATE POLICY "Users with permission can create incidents"
+ON public.incidents
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  user_has_permission(auth.uid(), 'incidents', 'create')
+  OR vehicle_id IN (SELECT id FROM vehicles WHERE team_id IN (SELECT get_user_team_ids(auth.uid())))
+);
+
+CREATE POLICY "Users with permission can update incidents"
+ON public.incidents
+FOR UPDATE
+TO authenticated
+USING (user_has_permission(auth.uid(), 'incidents', 'edit'));
+
+CREATE POLICY "Users with permission can delete incidents"
+ON public.incidents
+FOR DELETE
+TO authenticated
+USING (user_has_permission(auth.uid(), 'incidents', 'delete'));
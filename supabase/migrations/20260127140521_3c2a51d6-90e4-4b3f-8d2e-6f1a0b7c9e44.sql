@@ -0,0 +1,196 @@
+-- Preventive maintenance plans (recurring services per vehicle model)
+CREATE TABLE public.maintenance_plans (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  vehicle_model TEXT,
+  interval_km INTEGER CHECK (interval_km IS NULL OR interval_km > 0),
+  interval_months INTEGER CHECK (interval_months IS NULL OR interval_months > 0),
+  description TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT maintenance_plans_interval_check CHECK (interval_km IS NOT NULL OR interval_months IS NOT NULL)
+);
+
+COMMENT ON COLUMN public.maintenance_plans.vehicle_model IS 'Modelo do veículo (case-insensitive). NULL = todos os modelos';
+
+-- Link generated maintenance records to their plan
+ALTER TABLE public.maintenance_records
+ADD COLUMN plan_id UUID REFERENCES public.maintenance_plans(id) ON DELETE SET NULL;
+
+-- Only one open (not completed) record per vehicle and plan
+CREATE UNIQUE INDEX idx_maintenance_records_open_plan
+ON public.maintenance_records(vehicle_id, plan_id)
+WHERE plan_id IS NOT NULL AND status <> 'concluida';
+
+CREATE INDEX idx_maintenance_records_scheduled_date ON public.maintenance_records(scheduled_date);
+
+-- Enable RLS
+ALTER TABLE public.maintenance_plans ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view maintenance plans"
+ON public.maintenance_plans
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins and gestors can manage maintenance plans"
+ON public.maintenance_plans
+FOR ALL
+TO authenticated
+USING (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'gestor'::app_role));
+
+-- Frotas profile can see and update maintenance of every vehicle
+DROP POLICY IF EXISTS "Supervisors can view maintenance of their team vehicles" ON public.maintenance_records;
+CREATE POLICY "Supervisors can view maintenance of their team vehicles"
+ON public.maintenance_records
+FOR SELECT
+TO authenticated
+USING (
+  has_role(auth.uid(), 'admin'::app_role)
+  OR has_role(auth.uid(), 'gestor'::app_role)
+  OR has_permission_profile(auth.uid(), 'Frotas')
+  OR vehicle_id IN (SELECT id FROM vehicles WHERE team_id IN (SELECT get_user_team_ids(auth.uid())))
+);
+
+CREATE POLICY "Frotas profile can update maintenance"
+ON public.maintenance_records
+FOR UPDATE
+TO authenticated
+USING (has_permission_profile(auth.uid(), 'Frotas'));
+
+CREATE TRIGGER update_maintenance_plans_updated_at
+BEFORE UPDATE ON public.maintenance_plans
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Generate the next pending maintenance record for every (vehicle, plan) pair
+-- that doesn't have an open one. The next due date/km is counted from the last
+-- completed record of the same plan; with none, the date counts from today and
+-- the km is left open, since the vehicle's current km isn't recorded.
+CREATE OR REPLACE FUNCTION public.generate_planned_maintenance(_vehicle_id uuid DEFAULT NULL, _plan_id uuid DEFAULT NULL)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _plan RECORD;
+  _vehicle RECORD;
+  _last RECORD;
+  _base_date date;
+  _inserted integer := 0;
+BEGIN
+  FOR _plan IN
+    SELECT * FROM maintenance_plans
+    WHERE is_active AND (_plan_id IS NULL OR id = _plan_id)
+  LOOP
+    FOR _vehicle IN
+      SELECT id FROM vehicles
+      WHERE (_vehicle_id IS NULL OR id = _vehicle_id)
+        AND (_plan.vehicle_model IS NULL OR LOWER(TRIM(model)) = LOWER(TRIM(_plan.vehicle_model)))
+    LOOP
+      CONTINUE WHEN EXISTS (
+        SELECT 1 FROM maintenance_records
+        WHERE vehicle_id = _vehicle.id AND plan_id = _plan.id AND status <> 'concluida'
+      );
+
+      SELECT completed_date, scheduled_km INTO _last
+      FROM maintenance_records
+      WHERE vehicle_id = _vehicle.id AND plan_id = _plan.id AND status = 'concluida'
+      ORDER BY completed_date DESC NULLS LAST, created_at DESC
+      LIMIT 1;
+
+      _base_date := COALESCE(_last.completed_date, CURRENT_DATE);
+
+      INSERT INTO maintenance_records (vehicle_id, plan_id, type, description, scheduled_date, scheduled_km, status)
+      VALUES (
+        _vehicle.id,
+        _plan.id,
+        _plan.name,
+        _plan.description,
+        CASE WHEN _plan.interval_months IS NOT NULL
+          THEN (_base_date + make_interval(months => _plan.interval_months))::date
+        END,
+        CASE WHEN _plan.interval_km IS NOT NULL
+          THEN _last.scheduled_km + _plan.interval_km
+        END,
+        'pendente'
+      );
+      _inserted := _inserted + 1;
+    END LOOP;
+  END LOOP;
+
+  RETURN _inserted;
+END;
+$$;
+
+-- Regenerate the schedule when a plan is created or changed
+CREATE OR REPLACE FUNCTION public.handle_maintenance_plan_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Drop pending records that no longer match the plan definition
+  IF TG_OP = 'UPDATE' THEN
+    DELETE FROM maintenance_records
+    WHERE plan_id = NEW.id AND status = 'pendente';
+  END IF;
+
+  IF NEW.is_active THEN
+    PERFORM public.generate_planned_maintenance(NULL, NEW.id);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_maintenance_plan_change
+AFTER INSERT OR UPDATE ON public.maintenance_plans
+FOR EACH ROW
+EXECUTE FUNCTION public.handle_maintenance_plan_change();
+
+-- Schedule the next occurrence once a planned maintenance is completed
+CREATE OR REPLACE FUNCTION public.handle_planned_maintenance_completed()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.plan_id IS NOT NULL AND NEW.status = 'concluida' AND OLD.status <> 'concluida' THEN
+    PERFORM public.generate_planned_maintenance(NEW.vehicle_id, NEW.plan_id);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_planned_maintenance_completed
+AFTER UPDATE ON public.maintenance_records
+FOR EACH ROW
+EXECUTE FUNCTION public.handle_planned_maintenance_completed();
+
+-- New vehicles (or model changes) get the plans of their model
+CREATE OR REPLACE FUNCTION public.handle_vehicle_model_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR LOWER(TRIM(NEW.model)) <> LOWER(TRIM(OLD.model)) THEN
+    IF TG_OP = 'UPDATE' THEN
+      DELETE FROM maintenance_records
+      WHERE vehicle_id = NEW.id AND plan_id IS NOT NULL AND status = 'pendente';
+    END IF;
+    PERFORM public.generate_planned_maintenance(NEW.id, NULL);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_vehicle_model_change
+AFTER INSERT OR UPDATE OF model ON public.vehicles
+FOR EACH ROW
+EXECUTE FUNCTION public.handle_vehicle_model_change();
@@ -0,0 +1,195 @@
+-- Odometer history per vehicle
+CREATE TABLE public.odometer_readings (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  vehicle_id UUID NOT NULL REFERENCES public.vehicles(id) ON DELETE CASCADE,
+  reading_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  km INTEGER NOT NULL CHECK (km >= 0),
+  source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'saida', 'oficina_entrada', 'oficina_saida')),
+  workshop_entry_id UUID REFERENCES public.workshop_entries(id) ON DELETE SET NULL,
+  notes TEXT,
+  recorded_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_odometer_readings_vehicle_date ON public.odometer_readings(vehicle_id, reading_date);
+
+-- Enable RLS
+ALTER TABLE public.odometer_readings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view odometer readings of accessible vehicles"
+ON public.odometer_readings
+FOR SELECT
+TO authenticated
+USING (
+  has_role(auth.uid(), 'admin'::app_role)
+  OR has_role(auth.uid(), 'gestor'::app_role)
+  OR has_permission_profile(auth.uid(), 'Frotas')
+  OR vehicle_id IN (SELECT id FROM vehicles WHERE team_id IN (SELECT get_user_team_ids(auth.uid())))
+);
+
+-- Supervisors record the km of their team vehicles on the departure wizard
+CREATE POLICY "Users can record odometer readings of accessible vehicles"
+ON public.odometer_readings
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  has_role(auth.uid(), 'admin'::app_role)
+  OR has_role(auth.uid(), 'gestor'::app_role)
+  OR has_permission_profile(auth.uid(), 'Frotas')
+  OR vehicle_id IN (SELECT id FROM vehicles WHERE team_id IN (SELECT get_user_team_ids(auth.uid())))
+);
+
+CREATE POLICY "Admins and gestors can manage odometer readings"
+ON public.odometer_readings
+FOR ALL
+TO authenticated
+USING (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'gestor'::app_role));
+
+-- A reading can't be lower than an earlier reading nor higher than a later one
+CREATE OR REPLACE FUNCTION public.validate_odometer_reading()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _previous integer;
+  _next integer;
+BEGIN
+  SELECT MAX(km) INTO _previous
+  FROM odometer_readings
+  WHERE vehicle_id = NEW.vehicle_id
+    AND reading_date <= NEW.reading_date
+    AND id <> NEW.id;
+
+  IF _previous IS NOT NULL AND NEW.km < _previous THEN
+    RAISE EXCEPTION 'Km informado (%) é menor que a leitura anterior do veículo (% km)', NEW.km, _previous;
+  END IF;
+
+  SELECT MIN(km) INTO _next
+  FROM odometer_readings
+  WHERE vehicle_id = NEW.vehicle_id
+    AND reading_date > NEW.reading_date
+    AND id <> NEW.id;
+
+  IF _next IS NOT NULL AND NEW.km > _next THEN
+    RAISE EXCEPTION 'Km informado (%) é maior que uma leitura posterior do veículo (% km)', NEW.km, _next;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_odometer_reading
+BEFORE INSERT OR UPDATE OF km, reading_date, vehicle_id ON public.odometer_readings
+FOR EACH ROW
+EXECUTE FUNCTION public.validate_odometer_reading();
+
+-- Latest known km of each vehicle
+CREATE OR REPLACE VIEW public.vehicle_current_km
+WITH (security_invoker = true)
+AS
+SELECT DISTINCT ON (vehicle_id)
+  vehicle_id,
+  km,
+  reading_date
+FROM public.odometer_readings
+ORDER BY vehicle_id, reading_date DESC, km DESC;
+
+-- Planned maintenance by km now starts from the vehicle's current odometer
+CREATE OR REPLACE FUNCTION public.generate_planned_maintenance(_vehicle_id uuid DEFAULT NULL, _plan_id uuid DEFAULT NULL)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _plan RECORD;
+  _vehicle RECORD;
+  _last RECORD;
+  _base_date date;
+  _base_km integer;
+  _inserted integer := 0;
+BEGIN
+  FOR _plan IN
+    SELECT * FROM maintenance_plans
+    WHERE is_active AND (_plan_id IS NULL OR id = _plan_id)
+  LOOP
+    FOR _vehicle IN
+      SELECT v.id, ck.km AS current_km
+      FROM vehicles v
+      LEFT JOIN vehicle_current_km ck ON ck.vehicle_id = v.id
+      WHERE (_vehicle_id IS NULL OR v.id = _vehicle_id)
+        AND (_plan.vehicle_model IS NULL OR LOWER(TRIM(v.model)) = LOWER(TRIM(_plan.vehicle_model)))
+    LOOP
+      CONTINUE WHEN EXISTS (
+        SELECT 1 FROM maintenance_records
+        WHERE vehicle_id = _vehicle.id AND plan_id = _plan.id AND status <> 'concluida'
+      );
+
+      SELECT completed_date, scheduled_km INTO _last
+      FROM maintenance_records
+      WHERE vehicle_id = _vehicle.id AND plan_id = _plan.id AND status = 'concluida'
+      ORDER BY completed_date DESC NULLS LAST, created_at DESC
+      LIMIT 1;
+
+      _base_date := COALESCE(_last.completed_date, CURRENT_DATE);
+      -- Count from the km the vehicle actually had when the service was done
+      -- (or now), falling back to the previous target when there is no reading.
+      -- Without any km the target is left open until the first reading.
+      _base_km := COALESCE(
+        (SELECT km FROM odometer_readings
+         WHERE vehicle_id = _vehicle.id AND reading_date <= _base_date
+         ORDER BY reading_date DESC, km DESC
+         LIMIT 1),
+        _last.scheduled_km,
+        _vehicle.current_km
+      );
+
+      INSERT INTO maintenance_records (vehicle_id, plan_id, type, description, scheduled_date, scheduled_km, status)
+      VALUES (
+        _vehicle.id,
+        _plan.id,
+        _plan.name,
+        _plan.description,
+        CASE WHEN _plan.interval_months IS NOT NULL
+          THEN (_base_date + make_interval(months => _plan.interval_months))::date
+        END,
+        CASE WHEN _plan.interval_km IS NOT NULL
+          THEN _base_km + _plan.interval_km
+        END,
+        'pendente'
+      );
+      _inserted := _inserted + 1;
+    END LOOP;
+  END LOOP;
+
+  RETURN _inserted;
+END;
+$$;
+
+-- Pending maintenance generated before the vehicle had any km gets its km
+-- target from the first reading
+CREATE OR REPLACE FUNCTION public.schedule_open_maintenance_km()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE maintenance_records r
+  SET scheduled_km = NEW.km + p.interval_km
+  FROM maintenance_plans p
+  WHERE r.plan_id = p.id
+    AND r.vehicle_id = NEW.vehicle_id
+    AND r.status = 'pendente'
+    AND r.scheduled_km IS NULL
+    AND p.interval_km IS NOT NULL;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER schedule_open_maintenance_km
+AFTER INSERT ON public.odometer_readings
+FOR EACH ROW
+EXECUTE FUNCTION public.schedule_open_maintenance_km();
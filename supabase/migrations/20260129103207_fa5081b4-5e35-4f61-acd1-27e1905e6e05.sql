@@ -0,0 +1,33 @@
+-- Vehicle checkout/return workflow on top of allocations
+ALTER TABLE public.allocations
+ADD COLUMN notes TEXT,
+ADD COLUMN created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+ADD CONSTRAINT allocations_status_check CHECK (status IN ('em_uso', 'devolvido')),
+ADD CONSTRAINT allocations_return_after_checkout CHECK (actual_return IS NULL OR actual_return >= checkout_date);
+
+-- A vehicle can only be checked out once at a time
+CREATE UNIQUE INDEX idx_allocations_vehicle_in_use
+ON public.allocations(vehicle_id)
+WHERE status = 'em_uso';
+
+CREATE INDEX idx_allocations_driver_id ON public.allocations(driver_id);
+CREATE INDEX idx_allocations_checkout_date ON public.allocations(checkout_date);
+
+-- Frotas profile handles checkouts of every vehicle
+CREATE POLICY "Frotas profile can view allocations"
+ON public.allocations
+FOR SELECT
+TO authenticated
+USING (has_permission_profile(auth.uid(), 'Frotas'));
+
+CREATE POLICY "Frotas profile can create allocations"
+ON public.allocations
+FOR INSERT
+TO authenticated
+WITH CHECK (has_permission_profile(auth.uid(), 'Frotas'));
+
+CREATE POLICY "Frotas profile can update allocations"
+ON public.allocations
+FOR UPDATE
+TO authenticated
+USING (has_permission_profile(auth.uid(), 'Frotas'));
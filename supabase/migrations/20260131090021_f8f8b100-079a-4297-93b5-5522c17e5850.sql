@@ -0,0 +1,177 @@
+-- Deliver notifications in realtime
+ALTER TABLE public.notifications REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
+
+-- Create a notification, skipping it when the same dedupe key was already used
+CREATE OR REPLACE FUNCTION public.create_notification(
+  _user_id uuid,
+  _type text,
+  _title text,
+  _message text DEFAULT NULL,
+  _link text DEFAULT NULL,
+  _dedupe_key text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF _user_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO notifications (user_id, type, title, message, link, dedupe_key)
+  VALUES (_user_id, _type, _title, _message, _link, _dedupe_key)
+  ON CONFLICT (user_id, dedupe_key) DO NOTHING;
+END;
+$$;
+
+-- Producers run on the server only; users must not create notifications for others
+REVOKE EXECUTE ON FUNCTION public.create_notification(uuid, text, text, text, text, text) FROM PUBLIC, anon, authenticated;
+
+-- Recipients of team related events: supervisors of the team plus admins
+CREATE OR REPLACE FUNCTION public.get_team_notification_recipients(_team_id uuid)
+RETURNS SETOF uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT supervisor_id FROM supervisor_teams WHERE team_id = _team_id
+  UNION
+  SELECT user_id FROM user_roles WHERE role = 'admin'::app_role
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_team_notification_recipients(uuid) FROM PUBLIC, anon, authenticated;
+
+-- ==================== OSE STATUS CHANGED ====================
+CREATE OR REPLACE FUNCTION public.notify_ose_status_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _recipient uuid;
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  FOR _recipient IN
+    SELECT NEW.created_by
+    UNION
+    SELECT st.supervisor_id
+    FROM supervisor_teams st
+    WHERE st.team_id = NEW.team_id
+       OR st.team_id IN (SELECT team_id FROM ose_teams WHERE ose_id = NEW.id)
+  LOOP
+    -- The user who changed the status doesn't need to be told about it
+    CONTINUE WHEN _recipient = auth.uid();
+    PERFORM public.create_notification(
+      _recipient,
+      'ose_status_changed',
+      'OSE ' || NEW.ose_number || ' atualizada',
+      'Status alterado de "' || OLD.status || '" para "' || NEW.status || '".',
+      '/orcamento',
+      NULL
+    );
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_ose_status_change
+AFTER UPDATE OF status ON public.oses
+FOR EACH ROW
+EXECUTE FUNCTION public.notify_ose_status_change();
+
+-- ==================== WORKSHOP PREDICTED EXIT PASSED ====================
+CREATE OR REPLACE FUNCTION public.notify_overdue_workshop_entries()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _entry RECORD;
+  _recipient uuid;
+  _count integer := 0;
+BEGIN
+  FOR _entry IN
+    SELECT we.id, we.predicted_exit_date, v.plate, v.team_id
+    FROM workshop_entries we
+    JOIN vehicles v ON v.id = we.vehicle_id
+    WHERE we.status <> 'concluida'
+      AND we.exit_date IS NULL
+      AND we.predicted_exit_date < now()
+  LOOP
+    FOR _recipient IN SELECT * FROM public.get_team_notification_recipients(_entry.team_id) LOOP
+      PERFORM public.create_notification(
+        _recipient,
+        'workshop_overdue',
+        'Veículo ' || _entry.plate || ' com saída da oficina atrasada',
+        'A previsão de saída era ' || to_char(_entry.predicted_exit_date AT TIME ZONE 'America/Sao_Paulo', 'DD/MM/YYYY') || '.',
+        '/frotas',
+        -- A new predicted date means a new alert
+        'workshop_overdue:' || _entry.id || ':' || (_entry.predicted_exit_date AT TIME ZONE 'America/Sao_Paulo')::date
+      );
+      _count := _count + 1;
+    END LOOP;
+  END LOOP;
+
+  RETURN _count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.notify_overdue_workshop_entries() FROM PUBLIC, anon, authenticated;
+
+-- ==================== DEPARTURE NOT REGISTERED ====================
+-- Supervisors are warned when a working team has no departure registered
+-- two hours after its scheduled entry time
+CREATE OR REPLACE FUNCTION public.notify_missing_departures()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _now timestamp := now() AT TIME ZONE 'America/Sao_Paulo';
+  _today date := (now() AT TIME ZONE 'America/Sao_Paulo')::date;
+  _team RECORD;
+  _recipient uuid;
+  _count integer := 0;
+BEGIN
+  FOR _team IN
+    SELECT t.id, t.name, COALESCE(ts.scheduled_entry_time, t.scheduled_entry_time) AS entry_time
+    FROM teams t
+    LEFT JOIN team_schedules ts ON ts.team_id = t.id AND ts.date = _today
+    WHERE t.show_in_departures
+      AND COALESCE(ts.is_working, true)
+      AND NOT EXISTS (SELECT 1 FROM departures d WHERE d.team_id = t.id AND d.date = _today)
+  LOOP
+    CONTINUE WHEN _today + _team.entry_time + interval '2 hours' > _now;
+
+    FOR _recipient IN SELECT supervisor_id FROM supervisor_teams WHERE team_id = _team.id LOOP
+      PERFORM public.create_notification(
+        _recipient,
+        'departure_missing',
+        'Saída não lançada - ' || _team.name,
+        'A saída da equipe ' || _team.name || ' de ' || to_char(_today, 'DD/MM/YYYY') || ' ainda não foi registrada.',
+        '/saida',
+        'departure_missing:' || _team.id || ':' || _today
+      );
+      _count := _count + 1;
+    END LOOP;
+  END LOOP;
+
+  RETURN _count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.notify_missing_departures() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule('workshop-overdue-notifications', '0 * * * *', $$SELECT public.notify_overdue_workshop_entries()$$);
+SELECT cron.schedule('missing-departure-notifications', '*/30 * * * *', $$SELECT public.notify_missing_departures()$$);
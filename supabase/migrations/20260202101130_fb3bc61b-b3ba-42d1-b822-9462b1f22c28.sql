@@ -0,0 +1,126 @@
+-- Audit trail of changes made to operational tables
+CREATE TABLE public.audit_log (
+  id BIGSERIAL PRIMARY KEY,
+  actor_id UUID,
+  table_name TEXT NOT NULL,
+  row_id TEXT,
+  action TEXT NOT NULL CHECK (action IN ('INSERT', 'UPDATE', 'DELETE')),
+  old_data JSONB,
+  new_data JSONB,
+  changed_fields TEXT[],
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_audit_log_created_at ON public.audit_log(created_at DESC);
+CREATE INDEX idx_audit_log_table_row ON public.audit_log(table_name, row_id);
+CREATE INDEX idx_audit_log_actor ON public.audit_log(actor_id);
+
+-- Enable RLS: only admins read it and nobody writes it directly
+ALTER TABLE public.audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view audit log"
+ON public.audit_log
+FOR SELECT
+TO authenticated
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE OR REPLACE FUNCTION public.audit_row_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _old jsonb;
+  _new jsonb;
+  _changed text[];
+BEGIN
+  IF TG_OP <> 'INSERT' THEN
+    _old := to_jsonb(OLD);
+  END IF;
+  IF TG_OP <> 'DELETE' THEN
+    _new := to_jsonb(NEW);
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    SELECT array_agg(key ORDER BY key) INTO _changed
+    FROM jsonb_each(_new)
+    WHERE key <> 'updated_at'
+      AND _new -> key IS DISTINCT FROM _old -> key;
+
+    -- Nothing but the updated_at timestamp changed
+    IF _changed IS NULL THEN
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  INSERT INTO audit_log (actor_id, table_name, row_id, action, old_data, new_data, changed_fields)
+  VALUES (
+    auth.uid(),
+    TG_TABLE_NAME,
+    COALESCE(_new ->> 'id', _old ->> 'id'),
+    TG_OP,
+    _old,
+    _new,
+    _changed
+  );
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+CREATE TRIGGER audit_vehicles
+AFTER INSERT OR UPDATE OR DELETE ON public.vehicles
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+
+CREATE TRIGGER audit_workshop_entries
+AFTER INSERT OR UPDATE OR DELETE ON public.workshop_entries
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+
+CREATE TRIGGER audit_drivers
+AFTER INSERT OR UPDATE OR DELETE ON public.drivers
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+
+CREATE TRIGGER audit_allocations
+AFTER INSERT OR UPDATE OR DELETE ON public.allocations
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+
+CREATE TRIGGER audit_incidents
+AFTER INSERT OR UPDATE OR DELETE ON public.incidents
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+
+CREATE TRIGGER audit_maintenance_records
+AFTER INSERT OR UPDATE OR DELETE ON public.maintenance_records
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+
+CREATE TRIGGER audit_departures
+AFTER INSERT OR UPDATE OR DELETE ON public.departures
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+
+CREATE TRIGGER audit_teams
+AFTER INSERT OR UPDATE OR DELETE ON public.teams
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+
+CREATE TRIGGER audit_supervisor_teams
+AFTER INSERT OR UPDATE OR DELETE ON public.supervisor_teams
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+
+CREATE TRIGGER audit_team_schedules
+AFTER INSERT OR UPDATE OR DELETE ON public.team_schedules
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+
+CREATE TRIGGER audit_oses
+AFTER INSERT OR UPDATE OR DELETE ON public.oses
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+
+CREATE TRIGGER audit_ose_items
+AFTER INSERT OR UPDATE OR DELETE ON public.ose_items
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+
+CREATE TRIGGER audit_ose_trips
+AFTER INSERT OR UPDATE OR DELETE ON public.ose_trips
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+
+CREATE TRIGGER audit_ose_teams
+AFTER INSERT OR UPDATE OR DELETE ON public.ose_teams
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
@@ -0,0 +1,50 @@
+-- Status and team changes of a vehicle, read from the audit log.
+-- The audit log itself is admin only, so this exposes just these fields to
+-- whoever can see the vehicle.
+CREATE OR REPLACE FUNCTION public.get_vehicle_change_history(_vehicle_id uuid)
+RETURNS TABLE (
+  changed_at timestamp with time zone,
+  actor_id uuid,
+  actor_name text,
+  field text,
+  old_value text,
+  new_value text
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT (
+    has_role(auth.uid(), 'admin'::app_role)
+    OR has_role(auth.uid(), 'gestor'::app_role)
+    OR has_permission_profile(auth.uid(), 'Frotas')
+    OR EXISTS (
+      SELECT 1 FROM vehicles
+      WHERE id = _vehicle_id AND team_id IN (SELECT get_user_team_ids(auth.uid()))
+    )
+  ) THEN
+    RAISE EXCEPTION 'Acesso negado ao histórico do veículo';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    a.created_at,
+    a.actor_id,
+    p.name,
+    f.field,
+    a.old_data ->> f.field,
+    a.new_data ->> f.field
+  FROM audit_log a
+  CROSS JOIN LATERAL unnest(ARRAY['status', 'team_id']) AS f(field)
+  LEFT JOIN profiles p ON p.id = a.actor_id
+  WHERE a.table_name = 'vehicles'
+    AND a.row_id = _vehicle_id::text
+    AND (
+      (a.action = 'UPDATE' AND f.field = ANY(a.changed_fields))
+      OR (a.action = 'INSERT' AND a.new_data ->> f.field IS NOT NULL)
+    )
+  ORDER BY a.created_at;
+END;
+$$;
@@ -0,0 +1,75 @@
+-- Status history of each vehicle, one row per period. vehicles.status is
+-- overwritten in place, so a trigger closes the open period and starts a new
+-- one whenever the status, team or gerência changes. Team and gerência are
+-- kept on the period so availability is attributed to whoever had the
+-- vehicle at the time.
+CREATE TABLE public.vehicle_status_history (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  vehicle_id UUID NOT NULL REFERENCES public.vehicles(id) ON DELETE CASCADE,
+  status public.vehicle_status NOT NULL,
+  team_id UUID REFERENCES public.teams(id) ON DELETE SET NULL,
+  gerencia TEXT,
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  ended_at TIMESTAMP WITH TIME ZONE,
+  changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT vehicle_status_history_period_check CHECK (ended_at IS NULL OR ended_at >= started_at)
+);
+
+-- Only one open period per vehicle
+CREATE UNIQUE INDEX idx_vehicle_status_history_open
+ON public.vehicle_status_history(vehicle_id)
+WHERE ended_at IS NULL;
+
+CREATE INDEX idx_vehicle_status_history_vehicle ON public.vehicle_status_history(vehicle_id, started_at);
+CREATE INDEX idx_vehicle_status_history_period ON public.vehicle_status_history(started_at, ended_at);
+
+ALTER TABLE public.vehicle_status_history ENABLE ROW LEVEL SECURITY;
+
+-- Same visibility as the vehicles themselves; rows are only written by the trigger
+CREATE POLICY "Users can view status history of visible vehicles"
+ON public.vehicle_status_history
+FOR SELECT
+TO authenticated
+USING (
+  has_role(auth.uid(), 'admin'::app_role)
+  OR has_role(auth.uid(), 'gestor'::app_role)
+  OR has_permission_profile(auth.uid(), 'Frotas')
+  OR (vehicle_id IN (SELECT vehicles.id FROM vehicles WHERE vehicles.team_id IN (SELECT get_user_team_ids(auth.uid()))))
+);
+
+CREATE OR REPLACE FUNCTION public.track_vehicle_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND NEW.status IS NOT DISTINCT FROM OLD.status
+    AND NEW.team_id IS NOT DISTINCT FROM OLD.team_id
+    AND NEW.gerencia IS NOT DISTINCT FROM OLD.gerencia THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE public.vehicle_status_history
+  SET ended_at = now()
+  WHERE vehicle_id = NEW.id AND ended_at IS NULL;
+
+  INSERT INTO public.vehicle_status_history (vehicle_id, status, team_id, gerencia, started_at, changed_by)
+  VALUES (NEW.id, NEW.status, NEW.team_id, NEW.gerencia, now(), auth.uid());
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER track_vehicle_status
+AFTER INSERT OR UPDATE OF status, team_id, gerencia ON public.vehicles
+FOR EACH ROW
+EXECUTE FUNCTION public.track_vehicle_status();
+
+-- Earlier statuses were never recorded, so history starts now with the
+-- current status of every vehicle instead of guessing the past
+INSERT INTO public.vehicle_status_history (vehicle_id, status, team_id, gerencia, started_at)
+SELECT id, status, team_id, gerencia, now()
+FROM public.vehicles;
@@ -0,0 +1,276 @@
+-- Multi-stage workshop flow: entrada → diagnóstico → orçamento → aprovado →
+-- execução → concluída. Quotes from one or more workshops carry line items;
+-- a gestor approves one of them and the exit cost is compared against it.
+ALTER TABLE public.workshop_entries
+ADD COLUMN stage TEXT NOT NULL DEFAULT 'entrada',
+ADD COLUMN diagnosis TEXT,
+ADD COLUMN diagnosed_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN approved_quote_id UUID,
+ADD COLUMN approved_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+ADD COLUMN approved_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN execution_started_at TIMESTAMP WITH TIME ZONE,
+ADD CONSTRAINT workshop_entries_stage_check CHECK (stage IN ('entrada', 'diagnostico', 'orcamento', 'aprovado', 'execucao', 'concluida'));
+
+-- Entries created before the flow existed: closed ones are done, open ones
+-- are already being worked on and can go straight to the exit
+UPDATE public.workshop_entries
+SET stage = CASE WHEN status = 'concluida' THEN 'concluida' ELSE 'execucao' END;
+
+CREATE TABLE public.workshop_quotes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  workshop_entry_id UUID NOT NULL REFERENCES public.workshop_entries(id) ON DELETE CASCADE,
+  workshop_name TEXT NOT NULL,
+  quote_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  valid_until DATE,
+  status TEXT NOT NULL DEFAULT 'pendente',
+  total NUMERIC(12,2) NOT NULL DEFAULT 0,
+  notes TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT workshop_quotes_status_check CHECK (status IN ('pendente', 'aprovado', 'rejeitado'))
+);
+
+CREATE TABLE public.workshop_quote_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  quote_id UUID NOT NULL REFERENCES public.workshop_quotes(id) ON DELETE CASCADE,
+  item_type TEXT NOT NULL DEFAULT 'servico',
+  description TEXT NOT NULL,
+  quantity NUMERIC(10,2) NOT NULL DEFAULT 1,
+  unit_price NUMERIC(12,2) NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT workshop_quote_items_type_check CHECK (item_type IN ('peca', 'servico')),
+  CONSTRAINT workshop_quote_items_quantity_check CHECK (quantity > 0),
+  CONSTRAINT workshop_quote_items_price_check CHECK (unit_price >= 0)
+);
+
+ALTER TABLE public.workshop_entries
+ADD CONSTRAINT workshop_entries_approved_quote_id_fkey
+FOREIGN KEY (approved_quote_id) REFERENCES public.workshop_quotes(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_workshop_quotes_entry ON public.workshop_quotes(workshop_entry_id);
+CREATE INDEX idx_workshop_quote_items_quote ON public.workshop_quote_items(quote_id);
+
+CREATE TRIGGER update_workshop_quotes_updated_at
+BEFORE UPDATE ON public.workshop_quotes
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.workshop_quotes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.workshop_quote_items ENABLE ROW LEVEL SECURITY;
+
+-- Quotes follow the visibility of their workshop entry
+CREATE POLICY "Users can view quotes of visible workshop entries"
+ON public.workshop_quotes
+FOR SELECT
+TO authenticated
+USING (workshop_entry_id IN (SELECT id FROM public.workshop_entries));
+
+CREATE POLICY "Fleet staff can manage workshop quotes"
+ON public.workshop_quotes
+FOR ALL
+TO authenticated
+USING (
+  has_role(auth.uid(), 'admin'::app_role)
+  OR has_role(auth.uid(), 'gestor'::app_role)
+  OR has_permission_profile(auth.uid(), 'Frotas')
+)
+WITH CHECK (
+  has_role(auth.uid(), 'admin'::app_role)
+  OR has_role(auth.uid(), 'gestor'::app_role)
+  OR has_permission_profile(auth.uid(), 'Frotas')
+);
+
+CREATE POLICY "Users can view items of visible quotes"
+ON public.workshop_quote_items
+FOR SELECT
+TO authenticated
+USING (quote_id IN (SELECT id FROM public.workshop_quotes));
+
+CREATE POLICY "Fleet staff can manage workshop quote items"
+ON public.workshop_quote_items
+FOR ALL
+TO authenticated
+USING (
+  has_role(auth.uid(), 'admin'::app_role)
+  OR has_role(auth.uid(), 'gestor'::app_role)
+  OR has_permission_profile(auth.uid(), 'Frotas')
+)
+WITH CHECK (
+  has_role(auth.uid(), 'admin'::app_role)
+  OR has_role(auth.uid(), 'gestor'::app_role)
+  OR has_permission_profile(auth.uid(), 'Frotas')
+);
+
+-- Keep the quote total in sync with its items
+CREATE OR REPLACE FUNCTION public.refresh_workshop_quote_total()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _quote_id UUID := COALESCE(NEW.quote_id, OLD.quote_id);
+BEGIN
+  UPDATE public.workshop_quotes
+  SET total = COALESCE((
+    SELECT SUM(quantity * unit_price) FROM public.workshop_quote_items WHERE quote_id = _quote_id
+  ), 0)
+  WHERE id = _quote_id;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER refresh_workshop_quote_total
+AFTER INSERT OR UPDATE OR DELETE ON public.workshop_quote_items
+FOR EACH ROW
+EXECUTE FUNCTION public.refresh_workshop_quote_total();
+
+-- Approved quotes are the baseline for the cost variance, so they can't be
+-- edited, and only a gestor (or admin) can approve one
+CREATE OR REPLACE FUNCTION public.validate_workshop_quote()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  -- Deleting the whole workshop entry cascades here and is allowed
+  IF TG_OP = 'DELETE' THEN
+    IF OLD.status = 'aprovado' AND pg_trigger_depth() = 1 THEN
+      RAISE EXCEPTION 'Orçamento já aprovado não pode ser removido';
+    END IF;
+    RETURN OLD;
+  END IF;
+
+  IF OLD.status = 'aprovado' AND (NEW.status <> 'aprovado' OR NEW.workshop_name <> OLD.workshop_name) THEN
+    RAISE EXCEPTION 'Orçamento já aprovado não pode ser alterado';
+  END IF;
+  IF NEW.status = 'aprovado' AND OLD.status <> 'aprovado'
+    AND NOT (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'gestor'::app_role)) THEN
+    RAISE EXCEPTION 'Somente gestores podem aprovar orçamentos';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_workshop_quote
+BEFORE UPDATE OR DELETE ON public.workshop_quotes
+FOR EACH ROW
+EXECUTE FUNCTION public.validate_workshop_quote();
+
+CREATE OR REPLACE FUNCTION public.protect_approved_quote_items()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' AND pg_trigger_depth() > 1 THEN
+    RETURN OLD;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.workshop_quotes
+    WHERE id = COALESCE(NEW.quote_id, OLD.quote_id) AND status = 'aprovado'
+  ) THEN
+    RAISE EXCEPTION 'Itens de orçamento aprovado não podem ser alterados';
+  END IF;
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+CREATE TRIGGER protect_approved_quote_items
+BEFORE INSERT OR UPDATE OR DELETE ON public.workshop_quote_items
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_approved_quote_items();
+
+-- Stages only move forward one step at a time (going back from orçamento to
+-- diagnóstico is allowed to redo the diagnosis). Approval needs a gestor and
+-- an approved quote.
+CREATE OR REPLACE FUNCTION public.validate_workshop_stage()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _stages TEXT[] := ARRAY['entrada', 'diagnostico', 'orcamento', 'aprovado', 'execucao', 'concluida'];
+  _old_index INT;
+  _new_index INT;
+BEGIN
+  IF NEW.stage IS NOT DISTINCT FROM OLD.stage THEN
+    RETURN NEW;
+  END IF;
+
+  _old_index := array_position(_stages, OLD.stage);
+  _new_index := array_position(_stages, NEW.stage);
+
+  IF NOT (_new_index = _old_index + 1 OR (OLD.stage = 'orcamento' AND NEW.stage = 'diagnostico')) THEN
+    RAISE EXCEPTION 'Transição de etapa inválida: % → %', OLD.stage, NEW.stage;
+  END IF;
+
+  IF NEW.stage = 'aprovado' THEN
+    IF NOT (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'gestor'::app_role)) THEN
+      RAISE EXCEPTION 'Somente gestores podem aprovar orçamentos';
+    END IF;
+    IF NEW.approved_quote_id IS NULL THEN
+      RAISE EXCEPTION 'Nenhum orçamento aprovado para esta entrada';
+    END IF;
+  END IF;
+
+  IF NEW.stage = 'concluida' AND NEW.exit_date IS NULL THEN
+    RAISE EXCEPTION 'Informe a data de saída para concluir a entrada';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_workshop_stage
+BEFORE UPDATE OF stage ON public.workshop_entries
+FOR EACH ROW
+EXECUTE FUNCTION public.validate_workshop_stage();
+
+-- Approve one quote of an entry: rejects the others, records who approved it
+-- and moves the entry to "aprovado" with the chosen workshop
+CREATE OR REPLACE FUNCTION public.approve_workshop_quote(_quote_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  _quote RECORD;
+BEGIN
+  SELECT q.*, e.stage AS entry_stage
+  INTO _quote
+  FROM public.workshop_quotes q
+  JOIN public.workshop_entries e ON e.id = q.workshop_entry_id
+  WHERE q.id = _quote_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Orçamento não encontrado';
+  END IF;
+  IF _quote.entry_stage <> 'orcamento' THEN
+    RAISE EXCEPTION 'A entrada não está aguardando aprovação de orçamento';
+  END IF;
+  IF _quote.total <= 0 THEN
+    RAISE EXCEPTION 'O orçamento não possui itens';
+  END IF;
+
+  UPDATE public.workshop_quotes SET status = 'aprovado' WHERE id = _quote_id;
+  UPDATE public.workshop_quotes
+  SET status = 'rejeitado'
+  WHERE workshop_entry_id = _quote.workshop_entry_id AND id <> _quote_id AND status = 'pendente';
+
+  UPDATE public.workshop_entries
+  SET stage = 'aprovado',
+      approved_quote_id = _quote_id,
+      approved_by = auth.uid(),
+      approved_at = now(),
+      workshop_name = _quote.workshop_name
+  WHERE id = _quote.workshop_entry_id;
+END;
+$$;
+
+CREATE TRIGGER audit_workshop_quotes
+AFTER INSERT OR UPDATE OR DELETE ON public.workshop_quotes
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
@@ -0,0 +1,120 @@
+-- External team codes used by the production sync (the BI exports teams by
+-- their operational code, e.g. 803006A, not by our team name). A team can have
+-- several aliases, and a code that gets reassigned to another team keeps its
+-- history through validity periods.
+CREATE EXTENSION IF NOT EXISTS btree_gist WITH SCHEMA extensions;
+
+CREATE TABLE public.team_external_codes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  team_id UUID NOT NULL REFERENCES public.teams(id) ON DELETE CASCADE,
+  code TEXT NOT NULL,
+  valid_from DATE,
+  valid_until DATE,
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT team_external_codes_code_format CHECK (code = upper(btrim(code)) AND code <> ''),
+  CONSTRAINT team_external_codes_period_check CHECK (valid_until IS NULL OR valid_from IS NULL OR valid_until >= valid_from),
+  -- The same code can't point to two teams on the same day
+  CONSTRAINT team_external_codes_no_overlap EXCLUDE USING gist (
+    code WITH =,
+    daterange(COALESCE(valid_from, '-infinity'::date), COALESCE(valid_until, 'infinity'::date), '[]') WITH &&
+  )
+);
+
+CREATE INDEX idx_team_external_codes_team ON public.team_external_codes(team_id);
+
+CREATE TRIGGER update_team_external_codes_updated_at
+BEFORE UPDATE ON public.team_external_codes
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.team_external_codes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view team external codes"
+ON public.team_external_codes
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins and gestors can manage team external codes"
+ON public.team_external_codes
+FOR ALL
+TO authenticated
+USING (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'gestor'::app_role))
+WITH CHECK (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'gestor'::app_role));
+
+CREATE TRIGGER audit_team_external_codes
+AFTER INSERT OR UPDATE OR DELETE ON public.team_external_codes
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+
+-- Codes that were hardcoded in the sync-production function
+INSERT INTO public.team_external_codes (team_id, code)
+SELECT t.id, m.code
+FROM (VALUES
+  ('803006A', 'GOOO101M'),
+  ('803006', 'GOOO101M'),
+  ('803007A', 'GOOO102M'),
+  ('803007', 'GOOO102M'),
+  ('803008A', 'GOOO103M'),
+  ('803008', 'GOOO103M'),
+  ('803010A', 'GOOO105M'),
+  ('803010', 'GOOO105M'),
+  ('703014A', 'GOOV101M'),
+  ('703014', 'GOOV101M'),
+  ('703017A', 'GOOV104M'),
+  ('703017', 'GOOV104M'),
+  ('803009A', 'GOOO104M'),
+  ('803009', 'GOOO104M'),
+  ('803011A', 'GOOO106M'),
+  ('803011', 'GOOO106M'),
+  ('803012A', 'GOOO107M'),
+  ('803012', 'GOOO107M'),
+  ('803013A', 'GOOO108M'),
+  ('803013', 'GOOO108M'),
+  ('703015A', 'GOOV102M'),
+  ('703015', 'GOOV102M'),
+  ('703016A', 'GOOV103M'),
+  ('703016', 'GOOV103M'),
+  ('703000A', 'GOOV001M'),
+  ('703000', 'GOOV001M'),
+  ('703001A', 'GOOV002M'),
+  ('703001', 'GOOV002M'),
+  ('703002A', 'GOOV003M'),
+  ('703002', 'GOOV003M'),
+  ('703003A', 'GOOV004M'),
+  ('703003', 'GOOV004M'),
+  ('703004A', 'GOOV005M'),
+  ('703004', 'GOOV005M'),
+  ('703005A', 'GOOV006M'),
+  ('703005', 'GOOV006M'),
+  ('703006A', 'GOOP001M'),
+  ('703006', 'GOOP001M'),
+  ('703007A', 'GOOP002M'),
+  ('703007', 'GOOP002M'),
+  ('703008A', 'GOOP003M'),
+  ('703008', 'GOOP003M'),
+  ('703009A', 'GOOP004M'),
+  ('703009', 'GOOP004M'),
+  ('703010A', 'GOOP005M'),
+  ('703010', 'GOOP005M'),
+  ('703011A', 'GOOP006M'),
+  ('703011', 'GOOP006M'),
+  ('703012A', 'GOOP007M'),
+  ('703012', 'GOOP007M'),
+  ('703013A', 'GOOP008M'),
+  ('703013', 'GOOP008M'),
+  ('803000A', 'GOOO001M'),
+  ('803000', 'GOOO001M'),
+  ('803001A', 'GOOO002M'),
+  ('803001', 'GOOO002M'),
+  ('803002A', 'GOOO003M'),
+  ('803002', 'GOOO003M'),
+  ('803003A', 'GOOO004M'),
+  ('803003', 'GOOO004M'),
+  ('803004A', 'GOOO005M'),
+  ('803004', 'GOOO005M'),
+  ('803005A', 'GOOO006M'),
+  ('803005', 'GOOO006M')
+) AS m(code, team_name)
+JOIN public.teams t ON t.name = m.team_name;
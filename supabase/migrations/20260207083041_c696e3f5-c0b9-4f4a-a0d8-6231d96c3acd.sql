@@ -0,0 +1,38 @@
+-- One row per call to the sync-production function, including dry runs and
+-- failed calls, so admins can see what the BI sent and what was dropped.
+CREATE TABLE public.production_sync_runs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  finished_at TIMESTAMP WITH TIME ZONE,
+  duration_ms INTEGER,
+  source TEXT,
+  payload_hash TEXT,
+  dry_run BOOLEAN NOT NULL DEFAULT false,
+  status TEXT NOT NULL DEFAULT 'sucesso',
+  rows_received INTEGER NOT NULL DEFAULT 0,
+  -- Rows written by the upsert; updated/deleted break down what changed
+  rows_inserted INTEGER NOT NULL DEFAULT 0,
+  rows_updated INTEGER NOT NULL DEFAULT 0,
+  rows_deleted INTEGER NOT NULL DEFAULT 0,
+  rows_ignored INTEGER NOT NULL DEFAULT 0,
+  date_from DATE,
+  date_to DATE,
+  -- [{ code, rows, production }]
+  unmatched_codes JSONB NOT NULL DEFAULT '[]'::jsonb,
+  -- [{ reason, code, date, production }], capped by the function
+  ignored_rows JSONB NOT NULL DEFAULT '[]'::jsonb,
+  error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT production_sync_runs_status_check CHECK (status IN ('sucesso', 'erro'))
+);
+
+CREATE INDEX idx_production_sync_runs_started_at ON public.production_sync_runs(started_at DESC);
+
+ALTER TABLE public.production_sync_runs ENABLE ROW LEVEL SECURITY;
+
+-- Written by the edge function with the service role only
+CREATE POLICY "Admins can view production sync runs"
+ON public.production_sync_runs
+FOR SELECT
+TO authenticated
+USING (has_role(auth.uid(), 'admin'::app_role));
@@ -0,0 +1,117 @@
+-- API keys for external integrations (Power Automate, BI exports) calling the
+-- edge functions that don't use a user session. Only the SHA-256 of the key is
+-- stored; the plain key is shown once, when it is created.
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+CREATE TABLE public.integration_api_keys (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  -- First characters of the key, to tell keys apart in the Admin list
+  key_prefix TEXT NOT NULL,
+  key_hash TEXT NOT NULL UNIQUE,
+  scopes TEXT[] NOT NULL DEFAULT '{}',
+  -- When set, callers must send x-signature = HMAC-SHA256(signing_secret, body)
+  require_signature BOOLEAN NOT NULL DEFAULT false,
+  signing_secret TEXT,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  last_used_at TIMESTAMP WITH TIME ZONE,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  revoked_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT integration_api_keys_scopes_check CHECK (scopes <@ ARRAY['production:sync', 'production:dry_run']::text[]),
+  CONSTRAINT integration_api_keys_signature_check CHECK (NOT require_signature OR signing_secret IS NOT NULL)
+);
+
+ALTER TABLE public.integration_api_keys ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view integration api keys"
+ON public.integration_api_keys
+FOR SELECT
+TO authenticated
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- The hash and the signing secret never leave the database through the API;
+-- keys are created and revoked through the functions below
+REVOKE ALL ON public.integration_api_keys FROM anon, authenticated;
+GRANT SELECT (
+  id, name, key_prefix, scopes, require_signature, expires_at,
+  last_used_at, revoked_at, revoked_by, created_by, created_at
+) ON public.integration_api_keys TO authenticated;
+
+-- Not attached to audit_row_change(): the audit log would copy the secret, and
+-- last_used_at changes on every call. created_by/revoked_by keep the history.
+
+-- Returns the plain key (and signing secret) once; they can't be read again
+CREATE OR REPLACE FUNCTION public.create_integration_api_key(
+  _name text,
+  _scopes text[],
+  _require_signature boolean DEFAULT false,
+  _expires_at timestamp with time zone DEFAULT NULL
+)
+RETURNS TABLE (id uuid, api_key text, signing_secret text)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _key text;
+  _secret text;
+  _id uuid;
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Apenas administradores podem criar chaves de API';
+  END IF;
+  IF btrim(coalesce(_name, '')) = '' THEN
+    RAISE EXCEPTION 'Informe o nome da integração';
+  END IF;
+  IF coalesce(array_length(_scopes, 1), 0) = 0 THEN
+    RAISE EXCEPTION 'Selecione ao menos um escopo';
+  END IF;
+
+  _key := 'sk_' || encode(extensions.gen_random_bytes(24), 'hex');
+  _secret := CASE WHEN _require_signature THEN encode(extensions.gen_random_bytes(32), 'hex') END;
+
+  INSERT INTO public.integration_api_keys (
+    name, key_prefix, key_hash, scopes, require_signature, signing_secret, expires_at, created_by
+  )
+  VALUES (
+    btrim(_name),
+    left(_key, 11),
+    encode(extensions.digest(_key, 'sha256'), 'hex'),
+    _scopes,
+    _require_signature,
+    _secret,
+    _expires_at,
+    auth.uid()
+  )
+  RETURNING integration_api_keys.id INTO _id;
+
+  RETURN QUERY SELECT _id, _key, _secret;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.revoke_integration_api_key(_key_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Apenas administradores podem revogar chaves de API';
+  END IF;
+
+  UPDATE public.integration_api_keys
+  SET revoked_at = now(), revoked_by = auth.uid()
+  WHERE id = _key_id AND revoked_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Chave não encontrada ou já revogada';
+  END IF;
+END;
+$$;
+
+-- Which key made each sync call
+ALTER TABLE public.production_sync_runs
+  ADD COLUMN api_key_id UUID REFERENCES public.integration_api_keys(id) ON DELETE SET NULL;
@@ -0,0 +1,20 @@
+-- Password resets done through the manage-users function. Used to rate-limit
+-- resets per admin and per target user, and as a record of who reset what.
+CREATE TABLE public.password_reset_log (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  target_user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  requested_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_password_reset_log_target ON public.password_reset_log(target_user_id, created_at DESC);
+CREATE INDEX idx_password_reset_log_requested_by ON public.password_reset_log(requested_by, created_at DESC);
+
+ALTER TABLE public.password_reset_log ENABLE ROW LEVEL SECURITY;
+
+-- Written by the edge function with the service role only
+CREATE POLICY "Admins can view password reset log"
+ON public.password_reset_log
+FOR SELECT
+TO authenticated
+USING (has_role(auth.uid(), 'admin'::app_role));
@@ -0,0 +1,57 @@
+-- Monthly production targets (metas), per team or per team type. A target
+-- holds from its month until a newer one is set for the same team/type and
+-- metric; a team target takes precedence over the target of its type.
+--   producao:       production_data total per team in the month
+--   poda_executado: anomalies executed per poda team per day (productivity)
+CREATE TABLE public.production_targets (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  metric TEXT NOT NULL,
+  month DATE NOT NULL,
+  team_id UUID REFERENCES public.teams(id) ON DELETE CASCADE,
+  team_type public.team_type,
+  target_value NUMERIC NOT NULL,
+  notes TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT production_targets_metric_check CHECK (metric IN ('producao', 'poda_executado')),
+  CONSTRAINT production_targets_month_check CHECK (month = date_trunc('month', month)::date),
+  CONSTRAINT production_targets_scope_check CHECK ((team_id IS NULL) <> (team_type IS NULL)),
+  CONSTRAINT production_targets_value_check CHECK (target_value >= 0)
+);
+
+CREATE UNIQUE INDEX production_targets_team_unique
+ON public.production_targets(metric, month, team_id)
+WHERE team_id IS NOT NULL;
+
+CREATE UNIQUE INDEX production_targets_type_unique
+ON public.production_targets(metric, month, team_type)
+WHERE team_type IS NOT NULL;
+
+CREATE TRIGGER update_production_targets_updated_at
+BEFORE UPDATE ON public.production_targets
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.production_targets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view production targets"
+ON public.production_targets
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can manage production targets"
+ON public.production_targets
+FOR ALL
+TO authenticated
+USING (has_role(auth.uid(), 'admin'::app_role))
+WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER audit_production_targets
+AFTER INSERT OR UPDATE OR DELETE ON public.production_targets
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+
+-- The goal that was hardcoded in the productivity tab: 15 anomalies per poda team per day
+INSERT INTO public.production_targets (metric, month, team_type, target_value, notes)
+VALUES ('poda_executado', '2025-01-01', 'poda', 15, 'Meta anterior fixa no sistema');
@@ -0,0 +1,67 @@
+-- Catalog of no-departure reasons (motivos de não saída). Supervisors pick a
+-- reason from the catalog when a team does not leave; departures.no_departure_reason
+-- stays as the optional free-text note.
+--   category:       groups reasons for the Pareto of lost team-days
+--   accountability: who is accountable for the lost day
+--                   (contratada = us, contratante = the client, externo = nobody)
+CREATE TABLE public.no_departure_reasons (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  category TEXT NOT NULL DEFAULT 'outros',
+  accountability TEXT NOT NULL DEFAULT 'contratada',
+  requires_note BOOLEAN NOT NULL DEFAULT false,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT no_departure_reasons_name_key UNIQUE (name),
+  CONSTRAINT no_departure_reasons_category_check
+    CHECK (category IN ('frota', 'pessoal', 'clima', 'material', 'operacional', 'outros')),
+  CONSTRAINT no_departure_reasons_accountability_check
+    CHECK (accountability IN ('contratada', 'contratante', 'externo'))
+);
+
+CREATE TRIGGER update_no_departure_reasons_updated_at
+BEFORE UPDATE ON public.no_departure_reasons
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.no_departure_reasons ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view no departure reasons"
+ON public.no_departure_reasons
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can manage no departure reasons"
+ON public.no_departure_reasons
+FOR ALL
+TO authenticated
+USING (has_role(auth.uid(), 'admin'::app_role))
+WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER audit_no_departure_reasons
+AFTER INSERT OR UPDATE OR DELETE ON public.no_departure_reasons
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+
+INSERT INTO public.no_departure_reasons (name, category, accountability, requires_note, sort_order) VALUES
+  ('Veículo na oficina', 'frota', 'contratada', false, 10),
+  ('Veículo avariado / sem condições', 'frota', 'contratada', false, 20),
+  ('Falta de colaborador', 'pessoal', 'contratada', false, 30),
+  ('Atestado médico', 'pessoal', 'contratada', false, 40),
+  ('Treinamento / reunião', 'pessoal', 'contratada', false, 50),
+  ('Chuva / condições climáticas', 'clima', 'externo', false, 60),
+  ('Falta de material', 'material', 'contratante', false, 70),
+  ('Sem programação de serviço', 'operacional', 'contratante', false, 80),
+  ('Aguardando liberação / desligamento', 'operacional', 'contratante', false, 90),
+  ('Outros', 'outros', 'contratada', true, 100);
+
+-- Reason picked by the supervisor; RESTRICT keeps history intact, retire
+-- reasons by deactivating them instead
+ALTER TABLE public.departures
+ADD COLUMN no_departure_reason_id UUID REFERENCES public.no_departure_reasons(id) ON DELETE RESTRICT;
+
+CREATE INDEX idx_departures_no_departure_reason_id
+ON public.departures(no_departure_reason_id)
+WHERE no_departure_reason_id IS NOT NULL;
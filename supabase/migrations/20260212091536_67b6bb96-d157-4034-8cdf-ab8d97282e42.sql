@@ -0,0 +1,21 @@
+-- Link departures lost to the workshop to the workshop entry that kept the
+-- vehicle in, so fleet indicators can count team-days lost per vehicle and
+-- per workshop. The Departures wizard fills it when the team's vehicle has an
+-- open entry (status other than 'concluida').
+ALTER TABLE public.departures
+ADD COLUMN workshop_entry_id UUID REFERENCES public.workshop_entries(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_departures_workshop_entry_id
+ON public.departures(workshop_entry_id)
+WHERE workshop_entry_id IS NOT NULL;
+
+-- Stable code for reasons the app picks on its own; names stay editable
+ALTER TABLE public.no_departure_reasons
+ADD COLUMN code TEXT;
+
+ALTER TABLE public.no_departure_reasons
+ADD CONSTRAINT no_departure_reasons_code_key UNIQUE (code);
+
+UPDATE public.no_departure_reasons
+SET code = 'oficina'
+WHERE name = 'Veículo na oficina';
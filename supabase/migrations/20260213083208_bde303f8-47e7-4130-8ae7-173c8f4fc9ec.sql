@@ -0,0 +1,146 @@
+-- Departure registration deadline. Supervisors register the departures of a
+-- day until the cut-off (cutoff_time, cutoff_days_after days after the
+-- departure date, Sao Paulo time). After it, inserts and edits need an
+-- unlock granted by an admin/gestor with a justification; departures created
+-- after the cut-off are flagged registered_late for the compliance metric.
+
+-- Single-row settings
+CREATE TABLE public.departure_cutoff_settings (
+  id BOOLEAN NOT NULL DEFAULT true PRIMARY KEY,
+  is_enabled BOOLEAN NOT NULL DEFAULT true,
+  cutoff_time TIME NOT NULL DEFAULT '09:00',
+  cutoff_days_after INTEGER NOT NULL DEFAULT 0,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT departure_cutoff_settings_single_row CHECK (id),
+  CONSTRAINT departure_cutoff_settings_days_check CHECK (cutoff_days_after BETWEEN 0 AND 7)
+);
+
+INSERT INTO public.departure_cutoff_settings (id) VALUES (true);
+
+CREATE TRIGGER update_departure_cutoff_settings_updated_at
+BEFORE UPDATE ON public.departure_cutoff_settings
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.departure_cutoff_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view departure cutoff settings"
+ON public.departure_cutoff_settings
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can update departure cutoff settings"
+ON public.departure_cutoff_settings
+FOR UPDATE
+TO authenticated
+USING (has_role(auth.uid(), 'admin'::app_role))
+WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER audit_departure_cutoff_settings
+AFTER INSERT OR UPDATE OR DELETE ON public.departure_cutoff_settings
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+
+-- Unlocks of a supervisor's registrations for a date, valid until expires_at
+CREATE TABLE public.departure_unlocks (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  date DATE NOT NULL,
+  supervisor_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  justification TEXT NOT NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  unlocked_by UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT departure_unlocks_justification_check CHECK (length(trim(justification)) >= 10)
+);
+
+CREATE INDEX idx_departure_unlocks_supervisor_date ON public.departure_unlocks(supervisor_id, date);
+
+ALTER TABLE public.departure_unlocks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Supervisors can view their departure unlocks"
+ON public.departure_unlocks
+FOR SELECT
+TO authenticated
+USING (supervisor_id = auth.uid());
+
+CREATE POLICY "Admins and gestors can manage departure unlocks"
+ON public.departure_unlocks
+FOR ALL
+TO authenticated
+USING (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'gestor'::app_role))
+WITH CHECK (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'gestor'::app_role));
+
+CREATE TRIGGER audit_departure_unlocks
+AFTER INSERT OR UPDATE OR DELETE ON public.departure_unlocks
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+
+ALTER TABLE public.departures
+ADD COLUMN registered_late BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN unlock_id UUID REFERENCES public.departure_unlocks(id) ON DELETE SET NULL;
+
+-- Enforce the deadline on every write; registered_late and unlock_id are
+-- only ever set here
+CREATE OR REPLACE FUNCTION public.enforce_departure_cutoff()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _settings departure_cutoff_settings%ROWTYPE;
+  _deadline timestamptz;
+  _is_manager boolean;
+  _unlock_id uuid;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.registered_late := false;
+    NEW.unlock_id := NULL;
+  ELSE
+    NEW.registered_late := OLD.registered_late;
+    NEW.unlock_id := OLD.unlock_id;
+  END IF;
+
+  SELECT * INTO _settings FROM departure_cutoff_settings WHERE id;
+  IF NOT FOUND OR NOT _settings.is_enabled THEN
+    RETURN NEW;
+  END IF;
+
+  _deadline := ((NEW.date + _settings.cutoff_days_after) + _settings.cutoff_time) AT TIME ZONE 'America/Sao_Paulo';
+  IF now() <= _deadline THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.registered_late := true;
+  END IF;
+
+  -- Admins, gestors and server-side jobs are not locked out
+  _is_manager := auth.uid() IS NULL
+    OR has_role(auth.uid(), 'admin'::app_role)
+    OR has_role(auth.uid(), 'gestor'::app_role);
+  IF _is_manager THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT id INTO _unlock_id
+  FROM departure_unlocks
+  WHERE supervisor_id = auth.uid()
+    AND date = NEW.date
+    AND expires_at > now()
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  IF _unlock_id IS NULL THEN
+    RAISE EXCEPTION 'Prazo de lançamento das saídas de % encerrado em %. Solicite o desbloqueio a um administrador.',
+      to_char(NEW.date, 'DD/MM/YYYY'),
+      to_char(_deadline AT TIME ZONE 'America/Sao_Paulo', 'DD/MM/YYYY HH24:MI');
+  END IF;
+
+  NEW.unlock_id := _unlock_id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_departure_cutoff
+BEFORE INSERT OR UPDATE ON public.departures
+FOR EACH ROW EXECUTE FUNCTION public.enforce_departure_cutoff();
@@ -0,0 +1,120 @@
+-- End of day return of the teams that departed: return time and, when the
+-- team came back before its scheduled exit, why. Teams that come back after
+-- midnight are flagged as returning the next day, so the return time is then
+-- before the departure time
+ALTER TABLE public.departures
+ADD COLUMN return_time TIME,
+ADD COLUMN returned_next_day BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN early_return_reason TEXT,
+ADD CONSTRAINT departures_return_check CHECK (
+  (return_time IS NULL AND NOT returned_next_day)
+  OR (departed AND departure_time IS NOT NULL AND CASE
+    WHEN returned_next_day THEN return_time < departure_time
+    ELSE return_time > departure_time
+  END)
+);
+
+-- Returns are registered at the end of the day, after the registration
+-- cut-off; updates that only touch the return fields are not locked
+CREATE OR REPLACE FUNCTION public.enforce_departure_cutoff()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _settings departure_cutoff_settings%ROWTYPE;
+  _deadline timestamptz;
+  _is_manager boolean;
+  _unlock_id uuid;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.registered_late := false;
+    NEW.unlock_id := NULL;
+  ELSE
+    NEW.registered_late := OLD.registered_late;
+    NEW.unlock_id := OLD.unlock_id;
+
+    IF (NEW.team_id, NEW.supervisor_id, NEW.date, NEW.departed, NEW.departure_time,
+        NEW.no_departure_reason_id, NEW.no_departure_reason, NEW.workshop_entry_id)
+       IS NOT DISTINCT FROM
+       (OLD.team_id, OLD.supervisor_id, OLD.date, OLD.departed, OLD.departure_time,
+        OLD.no_departure_reason_id, OLD.no_departure_reason, OLD.workshop_entry_id) THEN
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  SELECT * INTO _settings FROM departure_cutoff_settings WHERE id;
+  IF NOT FOUND OR NOT _settings.is_enabled THEN
+    RETURN NEW;
+  END IF;
+
+  _deadline := ((NEW.date + _settings.cutoff_days_after) + _settings.cutoff_time) AT TIME ZONE 'America/Sao_Paulo';
+  IF now() <= _deadline THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.registered_late := true;
+  END IF;
+
+  -- Admins, gestors and server-side jobs are not locked out
+  _is_manager := auth.uid() IS NULL
+    OR has_role(auth.uid(), 'admin'::app_role)
+    OR has_role(auth.uid(), 'gestor'::app_role);
+  IF _is_manager THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT id INTO _unlock_id
+  FROM departure_unlocks
+  WHERE supervisor_id = auth.uid()
+    AND date = NEW.date
+    AND expires_at > now()
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  IF _unlock_id IS NULL THEN
+    RAISE EXCEPTION 'Prazo de lançamento das saídas de % encerrado em %. Solicite o desbloqueio a um administrador.',
+      to_char(NEW.date, 'DD/MM/YYYY'),
+      to_char(_deadline AT TIME ZONE 'America/Sao_Paulo', 'DD/MM/YYYY HH24:MI');
+  END IF;
+
+  NEW.unlock_id := _unlock_id;
+  RETURN NEW;
+END;
+$$;
+
+-- Worked hours per team and day, against the schedule of the day (or the
+-- team default when there is no team_schedules row). Only departures with a
+-- return count as worked; overtime is the time past the scheduled exit.
+CREATE OR REPLACE VIEW public.team_worked_hours
+WITH (security_invoker = true)
+AS
+SELECT
+  d.id AS departure_id,
+  d.date,
+  d.team_id,
+  d.supervisor_id,
+  d.departure_time,
+  d.return_time,
+  d.returned_next_day,
+  d.early_return_reason,
+  s.scheduled_entry_time,
+  s.scheduled_exit_time,
+  (EXTRACT(EPOCH FROM (s.scheduled_exit_time - s.scheduled_entry_time)) / 60)::integer AS scheduled_minutes,
+  (EXTRACT(EPOCH FROM (d.return_time - d.departure_time + r.day_offset)) / 60)::integer AS worked_minutes,
+  GREATEST(0, EXTRACT(EPOCH FROM (d.return_time - s.scheduled_exit_time + r.day_offset)) / 60)::integer AS overtime_minutes,
+  GREATEST(0, EXTRACT(EPOCH FROM (s.scheduled_exit_time - d.return_time - r.day_offset)) / 60)::integer AS early_return_minutes
+FROM public.departures d
+JOIN public.teams t ON t.id = d.team_id
+LEFT JOIN public.team_schedules ts ON ts.team_id = d.team_id AND ts.date = d.date
+CROSS JOIN LATERAL (
+  SELECT
+    COALESCE(ts.scheduled_entry_time, t.scheduled_entry_time) AS scheduled_entry_time,
+    COALESCE(ts.scheduled_exit_time, t.scheduled_exit_time) AS scheduled_exit_time
+) s
+CROSS JOIN LATERAL (
+  SELECT CASE WHEN d.returned_next_day THEN interval '1 day' ELSE interval '0' END AS day_offset
+) r
+WHERE d.departed AND d.return_time IS NOT NULL;
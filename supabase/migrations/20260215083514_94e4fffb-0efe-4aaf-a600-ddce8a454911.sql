@@ -0,0 +1,158 @@
+-- OSE lifecycle: aberta → em_execucao → medida → enviada_validacao →
+-- validada/glosada → faturada. The status used to be a free string
+-- (aberta/em_andamento/finalizada), so the legacy values are mapped first.
+UPDATE public.oses SET status = 'em_execucao' WHERE status = 'em_andamento';
+UPDATE public.oses
+SET status = CASE WHEN validated_value IS NOT NULL THEN 'validada' ELSE 'medida' END
+WHERE status = 'finalizada';
+UPDATE public.oses
+SET status = 'aberta'
+WHERE status NOT IN ('aberta', 'em_execucao', 'medida', 'enviada_validacao', 'validada', 'glosada', 'faturada');
+
+ALTER TABLE public.oses
+ADD CONSTRAINT oses_status_check
+CHECK (status IN ('aberta', 'em_execucao', 'medida', 'enviada_validacao', 'validada', 'glosada', 'faturada'));
+
+-- Allowed moves. Field steps (execution and measurement) can be done by the
+-- creator of the OSE; sending to validation, the validation outcome and
+-- invoicing are for admins and gestores only.
+CREATE OR REPLACE FUNCTION public.can_transition_ose_status(_from text, _to text, _user_id uuid)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _is_manager boolean;
+BEGIN
+  _is_manager := has_role(_user_id, 'admin'::app_role) OR has_role(_user_id, 'gestor'::app_role);
+
+  RETURN CASE
+    WHEN (_from, _to) IN (
+      ('aberta', 'em_execucao'),
+      ('em_execucao', 'aberta'),
+      ('em_execucao', 'medida'),
+      ('medida', 'em_execucao')
+    ) THEN true
+    WHEN (_from, _to) IN (
+      ('medida', 'enviada_validacao'),
+      ('enviada_validacao', 'medida'),
+      ('enviada_validacao', 'validada'),
+      ('enviada_validacao', 'glosada'),
+      ('glosada', 'enviada_validacao'),
+      ('validada', 'faturada'),
+      ('glosada', 'faturada')
+    ) THEN _is_manager
+    ELSE false
+  END;
+END;
+$$;
+
+-- New OSEs start open and status changes must follow the lifecycle. Writes
+-- without a user (service role, migrations) are not checked.
+CREATE OR REPLACE FUNCTION public.enforce_ose_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status <> 'aberta' THEN
+      RAISE EXCEPTION 'Uma nova OSE deve ser criada com status aberta';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT can_transition_ose_status(OLD.status, NEW.status, auth.uid()) THEN
+    RAISE EXCEPTION 'Transição de status não permitida: % → %', OLD.status, NEW.status;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_ose_status_transition
+BEFORE INSERT OR UPDATE OF status ON public.oses
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_ose_status_transition();
+
+-- Status history of each OSE, one row per stage period, with who moved it.
+-- Open period = current stage; its age is how long the OSE has been waiting.
+CREATE TABLE public.ose_status_history (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  ose_id UUID NOT NULL REFERENCES public.oses(id) ON DELETE CASCADE,
+  status TEXT NOT NULL,
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  ended_at TIMESTAMP WITH TIME ZONE,
+  changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT ose_status_history_period_check CHECK (ended_at IS NULL OR ended_at >= started_at)
+);
+
+-- Only one open period per OSE
+CREATE UNIQUE INDEX idx_ose_status_history_open
+ON public.ose_status_history(ose_id)
+WHERE ended_at IS NULL;
+
+CREATE INDEX idx_ose_status_history_ose ON public.ose_status_history(ose_id, started_at);
+
+ALTER TABLE public.ose_status_history ENABLE ROW LEVEL SECURITY;
+
+-- Same visibility as the OSEs themselves; rows are only written by the trigger
+CREATE POLICY "Users can view status history of visible oses"
+ON public.ose_status_history
+FOR SELECT
+TO authenticated
+USING (
+  has_role(auth.uid(), 'admin'::app_role)
+  OR has_role(auth.uid(), 'gestor'::app_role)
+  OR has_role(auth.uid(), 'supervisor'::app_role)
+  OR (ose_id IN (SELECT oses.id FROM oses WHERE oses.created_by = auth.uid()))
+);
+
+CREATE OR REPLACE FUNCTION public.track_ose_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE public.ose_status_history
+  SET ended_at = now()
+  WHERE ose_id = NEW.id AND ended_at IS NULL;
+
+  INSERT INTO public.ose_status_history (ose_id, status, started_at, changed_by)
+  VALUES (NEW.id, NEW.status, now(), auth.uid());
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER track_ose_status
+AFTER INSERT OR UPDATE OF status ON public.oses
+FOR EACH ROW
+EXECUTE FUNCTION public.track_ose_status();
+
+-- Earlier moves were never recorded. Open OSEs have been in their stage since
+-- creation; for the others the last update is the best guess available.
+INSERT INTO public.ose_status_history (ose_id, status, started_at, changed_by)
+SELECT
+  id,
+  status,
+  CASE WHEN status = 'aberta' THEN created_at ELSE updated_at END,
+  CASE WHEN status = 'aberta' THEN created_by END
+FROM public.oses;
@@ -0,0 +1,175 @@
+-- Catalog of glosa reasons (motivos de glosa): why the client rejected part
+-- of a measured service. The code is the one used in the client's
+-- validation report.
+CREATE TABLE public.glosa_reasons (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  code TEXT NOT NULL,
+  name TEXT NOT NULL,
+  requires_note BOOLEAN NOT NULL DEFAULT false,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT glosa_reasons_code_key UNIQUE (code)
+);
+
+CREATE TRIGGER update_glosa_reasons_updated_at
+BEFORE UPDATE ON public.glosa_reasons
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.glosa_reasons ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view glosa reasons"
+ON public.glosa_reasons
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can manage glosa reasons"
+ON public.glosa_reasons
+FOR ALL
+TO authenticated
+USING (has_role(auth.uid(), 'admin'::app_role))
+WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER audit_glosa_reasons
+AFTER INSERT OR UPDATE OR DELETE ON public.glosa_reasons
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+
+INSERT INTO public.glosa_reasons (code, name, requires_note, sort_order) VALUES
+  ('G01', 'Serviço não executado', false, 10),
+  ('G02', 'Quantidade divergente', false, 20),
+  ('G03', 'Preço divergente do contrato', false, 30),
+  ('G04', 'Serviço fora do escopo da OSE', false, 40),
+  ('G05', 'Falta de evidência fotográfica', false, 50),
+  ('G06', 'Execução fora do padrão técnico', false, 60),
+  ('G99', 'Outros', true, 100);
+
+-- Validation of each measured item. Null validated_quantity = not validated
+-- yet. Anything validated below the measured total is a glosa and needs a
+-- reason; RESTRICT keeps the history intact, retire reasons with is_active.
+ALTER TABLE public.ose_items
+ADD COLUMN validated_quantity NUMERIC,
+ADD COLUMN validated_unit_price NUMERIC,
+ADD COLUMN glosa_reason_id UUID REFERENCES public.glosa_reasons(id) ON DELETE RESTRICT,
+ADD COLUMN glosa_note TEXT,
+ADD COLUMN validated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+ADD COLUMN validated_at TIMESTAMP WITH TIME ZONE,
+ADD CONSTRAINT ose_items_validation_check CHECK (
+  validated_quantity IS NULL
+  OR (
+    validated_quantity >= 0
+    AND validated_unit_price IS NOT NULL
+    AND validated_unit_price >= 0
+    AND (validated_quantity * validated_unit_price >= total_price OR glosa_reason_id IS NOT NULL)
+  )
+);
+
+CREATE INDEX idx_ose_items_glosa_reason ON public.ose_items(glosa_reason_id);
+
+-- Only admins and gestores validate; the creator of the OSE can still edit
+-- the measured quantities through the existing policies.
+CREATE OR REPLACE FUNCTION public.guard_ose_item_validation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL
+    OR has_role(auth.uid(), 'admin'::app_role)
+    OR has_role(auth.uid(), 'gestor'::app_role) THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.validated_quantity IS DISTINCT FROM OLD.validated_quantity
+    OR NEW.validated_unit_price IS DISTINCT FROM OLD.validated_unit_price
+    OR NEW.glosa_reason_id IS DISTINCT FROM OLD.glosa_reason_id
+    OR NEW.glosa_note IS DISTINCT FROM OLD.glosa_note THEN
+    RAISE EXCEPTION 'Apenas administradores ou gestores podem validar itens da OSE';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_ose_item_validation
+BEFORE UPDATE ON public.ose_items
+FOR EACH ROW
+EXECUTE FUNCTION public.guard_ose_item_validation();
+
+-- Saves the validation of the items of an OSE sent to validation.
+--   _items: [{ id, validated_quantity, validated_unit_price, glosa_reason_id, glosa_note }]
+-- Once every item is validated, oses.validated_value becomes their validated
+-- total. With _conclude the OSE moves to glosada when any item was glosado,
+-- otherwise to validada.
+CREATE OR REPLACE FUNCTION public.save_ose_validation(_ose_id uuid, _items jsonb, _conclude boolean DEFAULT false)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  _status TEXT;
+  _item JSONB;
+  _reason RECORD;
+  _pending INTEGER;
+  _has_glosa BOOLEAN;
+BEGIN
+  IF NOT (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'gestor'::app_role)) THEN
+    RAISE EXCEPTION 'Apenas administradores ou gestores podem validar OSEs';
+  END IF;
+
+  SELECT status INTO _status FROM public.oses WHERE id = _ose_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'OSE não encontrada';
+  END IF;
+  IF _status <> 'enviada_validacao' THEN
+    RAISE EXCEPTION 'A OSE não está enviada para validação';
+  END IF;
+
+  FOR _item IN SELECT * FROM jsonb_array_elements(_items) LOOP
+    IF _item ->> 'glosa_reason_id' IS NOT NULL THEN
+      SELECT requires_note INTO _reason FROM public.glosa_reasons WHERE id = (_item ->> 'glosa_reason_id')::uuid;
+      IF _reason.requires_note AND coalesce(trim(_item ->> 'glosa_note'), '') = '' THEN
+        RAISE EXCEPTION 'O motivo de glosa selecionado exige observação';
+      END IF;
+    END IF;
+
+    UPDATE public.ose_items
+    SET validated_quantity = (_item ->> 'validated_quantity')::numeric,
+        validated_unit_price = (_item ->> 'validated_unit_price')::numeric,
+        glosa_reason_id = (_item ->> 'glosa_reason_id')::uuid,
+        glosa_note = nullif(trim(_item ->> 'glosa_note'), ''),
+        validated_by = auth.uid(),
+        validated_at = now()
+    WHERE id = (_item ->> 'id')::uuid AND ose_id = _ose_id;
+  END LOOP;
+
+  SELECT count(*) FILTER (WHERE validated_quantity IS NULL),
+         coalesce(bool_or(validated_quantity * validated_unit_price < total_price), false)
+  INTO _pending, _has_glosa
+  FROM public.ose_items
+  WHERE ose_id = _ose_id;
+
+  IF _pending = 0 THEN
+    UPDATE public.oses
+    SET validated_value = (
+      SELECT coalesce(sum(validated_quantity * validated_unit_price), 0)
+      FROM public.ose_items
+      WHERE ose_id = _ose_id
+    )
+    WHERE id = _ose_id;
+  END IF;
+
+  IF _conclude THEN
+    IF _pending > 0 THEN
+      RAISE EXCEPTION 'Ainda há % item(ns) sem validação', _pending;
+    END IF;
+    UPDATE public.oses
+    SET status = CASE WHEN _has_glosa THEN 'glosada' ELSE 'validada' END
+    WHERE id = _ose_id;
+  END IF;
+END;
+$$;
@@ -0,0 +1,256 @@
+-- Versioned price tables for the service catalog. service_catalog.gross_price
+-- used to be overwritten on every re-import; now each readjustment is a new
+-- table with its validity period, and OSE items are priced with the table in
+-- force on the trip date. gross_price stays as the catalog reference price,
+-- used when no table covers a date.
+--   readjustment_index:   index the readjustment follows (IPCA, IGP-M...)
+--   readjustment_percent: readjustment over the previous table, informative
+CREATE TABLE public.price_tables (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  contract_reference TEXT,
+  effective_from DATE NOT NULL,
+  effective_to DATE,
+  readjustment_index TEXT,
+  readjustment_percent NUMERIC,
+  notes TEXT,
+  created_by UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT price_tables_name_key UNIQUE (name),
+  CONSTRAINT price_tables_period_check CHECK (effective_to IS NULL OR effective_to >= effective_from)
+);
+
+CREATE TABLE public.price_table_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  price_table_id UUID NOT NULL REFERENCES public.price_tables(id) ON DELETE CASCADE,
+  service_id UUID NOT NULL REFERENCES public.service_catalog(id) ON DELETE CASCADE,
+  gross_price NUMERIC NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT price_table_items_service_key UNIQUE (price_table_id, service_id),
+  CONSTRAINT price_table_items_price_check CHECK (gross_price >= 0)
+);
+
+CREATE INDEX idx_price_tables_period ON public.price_tables(effective_from, effective_to);
+CREATE INDEX idx_price_table_items_service ON public.price_table_items(service_id);
+
+CREATE TRIGGER update_price_tables_updated_at
+BEFORE UPDATE ON public.price_tables
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_price_table_items_updated_at
+BEFORE UPDATE ON public.price_table_items
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.price_tables ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.price_table_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view price tables"
+ON public.price_tables
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins and gestors can manage price tables"
+ON public.price_tables
+FOR ALL
+TO authenticated
+USING (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'gestor'::app_role))
+WITH CHECK (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'gestor'::app_role));
+
+CREATE POLICY "Authenticated users can view price table items"
+ON public.price_table_items
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins and gestors can manage price table items"
+ON public.price_table_items
+FOR ALL
+TO authenticated
+USING (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'gestor'::app_role))
+WITH CHECK (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'gestor'::app_role));
+
+CREATE TRIGGER audit_price_tables
+AFTER INSERT OR UPDATE OR DELETE ON public.price_tables
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+
+CREATE TRIGGER audit_price_table_items
+AFTER INSERT OR UPDATE OR DELETE ON public.price_table_items
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+
+-- At most one table in force on any date
+CREATE OR REPLACE FUNCTION public.check_price_table_overlap()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _other TEXT;
+BEGIN
+  SELECT name INTO _other
+  FROM public.price_tables
+  WHERE id <> NEW.id
+    AND daterange(effective_from, effective_to, '[]') && daterange(NEW.effective_from, NEW.effective_to, '[]')
+  LIMIT 1;
+
+  IF _other IS NOT NULL THEN
+    RAISE EXCEPTION 'A vigência se sobrepõe à tabela de preços %', _other;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_price_table_overlap
+BEFORE INSERT OR UPDATE OF effective_from, effective_to ON public.price_tables
+FOR EACH ROW
+EXECUTE FUNCTION public.check_price_table_overlap();
+
+-- Price of a service on a date: the table in force, else the catalog price
+CREATE OR REPLACE FUNCTION public.get_service_price(_service_id uuid, _date date)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT coalesce(
+    (
+      SELECT i.gross_price
+      FROM price_table_items i
+      JOIN price_tables t ON t.id = i.price_table_id
+      WHERE i.service_id = _service_id
+        AND t.effective_from <= _date
+        AND (t.effective_to IS NULL OR t.effective_to >= _date)
+    ),
+    (SELECT gross_price FROM service_catalog WHERE id = _service_id)
+  );
+$$;
+
+-- Items are priced by the database with the table in force on the trip date,
+-- whatever the screen sent
+CREATE OR REPLACE FUNCTION public.price_ose_item()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _date DATE;
+BEGIN
+  IF NEW.trip_id IS NOT NULL THEN
+    SELECT date INTO _date FROM public.ose_trips WHERE id = NEW.trip_id;
+  END IF;
+
+  IF _date IS NOT NULL THEN
+    NEW.unit_price := coalesce(get_service_price(NEW.service_id, _date), NEW.unit_price);
+  END IF;
+  NEW.total_price := NEW.unit_price * NEW.quantity;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER price_ose_item
+BEFORE INSERT OR UPDATE OF service_id, quantity, trip_id ON public.ose_items
+FOR EACH ROW
+EXECUTE FUNCTION public.price_ose_item();
+
+-- oses.total_value follows its items, so it no longer depends on the screen
+-- keeping a running total
+CREATE OR REPLACE FUNCTION public.refresh_ose_total()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _ose_id UUID;
+BEGIN
+  _ose_id := CASE WHEN TG_OP = 'DELETE' THEN OLD.ose_id ELSE NEW.ose_id END;
+
+  UPDATE public.oses
+  SET total_value = (
+    SELECT coalesce(sum(total_price), 0) FROM public.ose_items WHERE ose_id = _ose_id
+  )
+  WHERE id = _ose_id;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER refresh_ose_total
+AFTER INSERT OR DELETE OR UPDATE OF total_price ON public.ose_items
+FOR EACH ROW
+EXECUTE FUNCTION public.refresh_ose_total();
+
+-- Creates a table in force from a date. The open-ended table in force closes
+-- the day before, and the prices are copied from a base table readjusted by
+-- _readjustment_percent (new services are added to the table afterwards).
+CREATE OR REPLACE FUNCTION public.create_price_table(
+  _name text,
+  _effective_from date,
+  _base_table_id uuid,
+  _contract_reference text DEFAULT NULL,
+  _readjustment_index text DEFAULT NULL,
+  _readjustment_percent numeric DEFAULT NULL,
+  _notes text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  _table_id UUID;
+BEGIN
+  IF NOT (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'gestor'::app_role)) THEN
+    RAISE EXCEPTION 'Apenas administradores ou gestores podem criar tabelas de preços';
+  END IF;
+
+  UPDATE public.price_tables
+  SET effective_to = _effective_from - 1
+  WHERE effective_to IS NULL AND effective_from < _effective_from;
+
+  INSERT INTO public.price_tables (
+    name, contract_reference, effective_from, readjustment_index, readjustment_percent, notes
+  )
+  VALUES (
+    _name, _contract_reference, _effective_from, _readjustment_index, _readjustment_percent, _notes
+  )
+  RETURNING id INTO _table_id;
+
+  IF _base_table_id IS NOT NULL THEN
+    INSERT INTO public.price_table_items (price_table_id, service_id, gross_price)
+    SELECT _table_id, service_id, round(gross_price * (1 + coalesce(_readjustment_percent, 0) / 100), 2)
+    FROM public.price_table_items
+    WHERE price_table_id = _base_table_id;
+  ELSE
+    INSERT INTO public.price_table_items (price_table_id, service_id, gross_price)
+    SELECT _table_id, id, round(gross_price * (1 + coalesce(_readjustment_percent, 0) / 100), 2)
+    FROM public.service_catalog;
+  END IF;
+
+  RETURN _table_id;
+END;
+$$;
+
+-- The current catalog prices become the first table, in force since the
+-- first trip. Items already saved keep their stored prices, since they are
+-- only repriced when written again.
+INSERT INTO public.price_tables (name, effective_from, notes, created_by)
+SELECT
+  'Tabela inicial',
+  coalesce((SELECT min(date) FROM public.ose_trips), current_date),
+  'Criada a partir dos preços do catálogo de serviços',
+  NULL;
+
+INSERT INTO public.price_table_items (price_table_id, service_id, gross_price)
+SELECT t.id, s.id, s.gross_price
+FROM public.price_tables t
+CROSS JOIN public.service_catalog s
+WHERE t.name = 'Tabela inicial';
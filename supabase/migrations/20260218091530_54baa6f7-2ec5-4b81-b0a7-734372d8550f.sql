@@ -0,0 +1,226 @@
+-- Service catalog imports. The file is parsed and validated by the caller
+-- (Budget page or the import-services function); the database computes the
+-- diff against the catalog, applies it in one transaction and keeps a report
+-- of every import.
+
+-- Services missing from an import can be deactivated; they cannot be deleted
+-- once used in OSE items
+ALTER TABLE public.service_catalog
+  ADD COLUMN is_active BOOLEAN NOT NULL DEFAULT true;
+
+--   price_table_id:  table the prices were imported into; null when the
+--                    catalog price itself was updated
+--   report:          { summary, changes: [{ up, action, before, after }], errors: [{ row, message }] }
+CREATE TABLE public.service_imports (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  source TEXT NOT NULL DEFAULT 'tela',
+  file_name TEXT,
+  price_table_id UUID REFERENCES public.price_tables(id) ON DELETE SET NULL,
+  deactivate_missing BOOLEAN NOT NULL DEFAULT false,
+  created_count INTEGER NOT NULL DEFAULT 0,
+  updated_count INTEGER NOT NULL DEFAULT 0,
+  unchanged_count INTEGER NOT NULL DEFAULT 0,
+  deactivated_count INTEGER NOT NULL DEFAULT 0,
+  error_count INTEGER NOT NULL DEFAULT 0,
+  report JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_by UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT service_imports_source_check CHECK (source IN ('tela', 'api'))
+);
+
+CREATE INDEX idx_service_imports_created_at ON public.service_imports(created_at DESC);
+
+ALTER TABLE public.service_imports ENABLE ROW LEVEL SECURITY;
+
+-- Reports are never edited, so there are no update or delete policies
+CREATE POLICY "Admins and gestors can view service imports"
+ON public.service_imports
+FOR SELECT
+TO authenticated
+USING (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'gestor'::app_role));
+
+CREATE POLICY "Admins and gestors can create service imports"
+ON public.service_imports
+FOR INSERT
+TO authenticated
+WITH CHECK (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'gestor'::app_role));
+
+CREATE TRIGGER audit_service_imports
+AFTER INSERT OR UPDATE OR DELETE ON public.service_imports
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+
+-- What an import would change. _rows is [{ up, service_number, description,
+-- unit, gross_price }]; prices are compared with the catalog or, when given,
+-- with the price table. Unchanged services are only counted.
+CREATE OR REPLACE FUNCTION public.preview_service_import(_rows jsonb, _price_table_id uuid DEFAULT NULL)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH incoming AS (
+    SELECT r.up, r.service_number, r.description, r.unit, r.gross_price
+    FROM jsonb_to_recordset(_rows) AS r(up text, service_number text, description text, unit text, gross_price numeric)
+  ),
+  current_services AS (
+    SELECT
+      s.id, s.up, s.service_number, s.description, s.unit, s.is_active,
+      CASE WHEN _price_table_id IS NULL THEN s.gross_price ELSE i.gross_price END AS gross_price
+    FROM service_catalog s
+    LEFT JOIN price_table_items i ON i.service_id = s.id AND i.price_table_id = _price_table_id
+  ),
+  changes AS (
+    SELECT
+      n.up,
+      CASE
+        WHEN c.id IS NULL THEN 'new'
+        WHEN c.service_number IS DISTINCT FROM n.service_number
+          OR c.description IS DISTINCT FROM n.description
+          OR c.unit IS DISTINCT FROM n.unit
+          OR c.gross_price IS DISTINCT FROM n.gross_price
+          OR NOT c.is_active THEN 'changed'
+        ELSE 'unchanged'
+      END AS action,
+      CASE WHEN c.id IS NOT NULL THEN
+        jsonb_build_object(
+          'service_number', c.service_number, 'description', c.description, 'unit', c.unit,
+          'gross_price', c.gross_price, 'is_active', c.is_active
+        )
+      END AS before,
+      jsonb_build_object(
+        'service_number', n.service_number, 'description', n.description, 'unit', n.unit,
+        'gross_price', n.gross_price, 'is_active', true
+      ) AS after
+    FROM incoming n
+    LEFT JOIN current_services c ON c.up = n.up
+    UNION ALL
+    SELECT
+      c.up,
+      'removed',
+      jsonb_build_object(
+        'service_number', c.service_number, 'description', c.description, 'unit', c.unit,
+        'gross_price', c.gross_price, 'is_active', true
+      ),
+      NULL
+    FROM current_services c
+    WHERE c.is_active AND NOT EXISTS (SELECT 1 FROM incoming n WHERE n.up = c.up)
+  )
+  SELECT jsonb_build_object(
+    'summary', jsonb_build_object(
+      'new', count(*) FILTER (WHERE action = 'new'),
+      'changed', count(*) FILTER (WHERE action = 'changed'),
+      'unchanged', count(*) FILTER (WHERE action = 'unchanged'),
+      'removed', count(*) FILTER (WHERE action = 'removed')
+    ),
+    'changes', coalesce(
+      jsonb_agg(
+        jsonb_build_object('up', up, 'action', action, 'before', before, 'after', after)
+        ORDER BY up
+      ) FILTER (WHERE action <> 'unchanged'),
+      '[]'::jsonb
+    )
+  )
+  FROM changes;
+$$;
+
+-- Applies an import and records its report. New and changed services are
+-- upserted by UP; with _price_table_id the prices go to that table and the
+-- catalog price is kept; with _deactivate_missing the services missing from
+-- the file are deactivated. _errors are the rows the caller rejected, kept in
+-- the report.
+CREATE OR REPLACE FUNCTION public.apply_service_import(
+  _rows jsonb,
+  _file_name text DEFAULT NULL,
+  _errors jsonb DEFAULT '[]'::jsonb,
+  _price_table_id uuid DEFAULT NULL,
+  _deactivate_missing boolean DEFAULT false,
+  _source text DEFAULT 'tela'
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  _report JSONB;
+  _changed_ups TEXT[];
+  _duplicate TEXT;
+  _import_id UUID;
+BEGIN
+  IF NOT (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'gestor'::app_role)) THEN
+    RAISE EXCEPTION 'Apenas administradores ou gestores podem importar serviços';
+  END IF;
+  IF jsonb_array_length(coalesce(_rows, '[]'::jsonb)) = 0 THEN
+    RAISE EXCEPTION 'Nenhum serviço válido para importar';
+  END IF;
+
+  SELECT r->>'up' INTO _duplicate
+  FROM jsonb_array_elements(_rows) r
+  GROUP BY r->>'up'
+  HAVING count(*) > 1
+  LIMIT 1;
+  IF _duplicate IS NOT NULL THEN
+    RAISE EXCEPTION 'UP % repetida no arquivo', _duplicate;
+  END IF;
+
+  IF _price_table_id IS NOT NULL AND NOT EXISTS (SELECT 1 FROM public.price_tables WHERE id = _price_table_id) THEN
+    RAISE EXCEPTION 'Tabela de preços não encontrada';
+  END IF;
+
+  _report := preview_service_import(_rows, _price_table_id);
+
+  SELECT coalesce(array_agg(c->>'up'), '{}') INTO _changed_ups
+  FROM jsonb_array_elements(_report->'changes') c
+  WHERE c->>'action' IN ('new', 'changed');
+
+  INSERT INTO public.service_catalog (up, service_number, description, unit, gross_price, is_active)
+  SELECT r.up, r.service_number, r.description, r.unit, r.gross_price, true
+  FROM jsonb_to_recordset(_rows) AS r(up text, service_number text, description text, unit text, gross_price numeric)
+  WHERE r.up = ANY(_changed_ups)
+  ON CONFLICT (up) DO UPDATE SET
+    service_number = EXCLUDED.service_number,
+    description = EXCLUDED.description,
+    unit = EXCLUDED.unit,
+    gross_price = CASE WHEN _price_table_id IS NULL THEN EXCLUDED.gross_price ELSE service_catalog.gross_price END,
+    is_active = true;
+
+  IF _price_table_id IS NOT NULL THEN
+    INSERT INTO public.price_table_items (price_table_id, service_id, gross_price)
+    SELECT _price_table_id, s.id, r.gross_price
+    FROM jsonb_to_recordset(_rows) AS r(up text, gross_price numeric)
+    JOIN public.service_catalog s ON s.up = r.up
+    WHERE r.up = ANY(_changed_ups)
+    ON CONFLICT (price_table_id, service_id) DO UPDATE SET gross_price = EXCLUDED.gross_price
+    WHERE price_table_items.gross_price IS DISTINCT FROM EXCLUDED.gross_price;
+  END IF;
+
+  IF _deactivate_missing THEN
+    UPDATE public.service_catalog
+    SET is_active = false
+    WHERE up IN (
+      SELECT c->>'up' FROM jsonb_array_elements(_report->'changes') c WHERE c->>'action' = 'removed'
+    );
+  END IF;
+
+  INSERT INTO public.service_imports (
+    source, file_name, price_table_id, deactivate_missing,
+    created_count, updated_count, unchanged_count, deactivated_count, error_count, report
+  )
+  VALUES (
+    _source,
+    _file_name,
+    _price_table_id,
+    _deactivate_missing,
+    (_report->'summary'->>'new')::int,
+    (_report->'summary'->>'changed')::int,
+    (_report->'summary'->>'unchanged')::int,
+    CASE WHEN _deactivate_missing THEN (_report->'summary'->>'removed')::int ELSE 0 END,
+    jsonb_array_length(coalesce(_errors, '[]'::jsonb)),
+    _report || jsonb_build_object('errors', coalesce(_errors, '[]'::jsonb))
+  )
+  RETURNING id INTO _import_id;
+
+  RETURN _import_id;
+END;
+$$;
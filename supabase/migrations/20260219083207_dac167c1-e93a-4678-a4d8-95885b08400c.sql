@@ -0,0 +1,41 @@
+-- sync-production replaces the date range of a payload. Deleting the range
+-- and upserting the new rows were two calls, so a failed upsert left the
+-- range empty; both now run in one transaction. Returns the rows written and,
+-- among them, the new ones (the others were updated in place).
+CREATE OR REPLACE FUNCTION public.replace_production_range(_from date, _to date, _rows jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _written INTEGER;
+  _inserted INTEGER;
+BEGIN
+  DELETE FROM public.production_data p
+  WHERE p.date BETWEEN _from AND _to
+    AND NOT EXISTS (
+      SELECT 1
+      FROM jsonb_to_recordset(_rows) AS r(team_id uuid, date date)
+      WHERE r.team_id = p.team_id AND r.date = p.date
+    );
+
+  -- xmax is 0 only on the rows the upsert inserted
+  WITH written AS (
+    INSERT INTO public.production_data (team_id, date, production_value)
+    SELECT r.team_id, r.date, r.production_value
+    FROM jsonb_to_recordset(_rows) AS r(team_id uuid, date date, production_value numeric)
+    ON CONFLICT (team_id, date) DO UPDATE SET
+      production_value = EXCLUDED.production_value
+    RETURNING (xmax = 0) AS inserted
+  )
+  SELECT count(*), count(*) FILTER (WHERE inserted)
+  INTO _written, _inserted
+  FROM written;
+
+  RETURN jsonb_build_object('written', _written, 'inserted', _inserted);
+END;
+$$;
+
+-- Only the edge function (service role) replaces production data
+REVOKE EXECUTE ON FUNCTION public.replace_production_range(date, date, jsonb) FROM PUBLIC, anon, authenticated;
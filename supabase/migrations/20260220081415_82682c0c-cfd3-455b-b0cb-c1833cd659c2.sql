@@ -0,0 +1,35 @@
+-- oses.validated_value is the validated total of the items, written by
+-- save_ose_validation once every item is validated. Any other change made
+-- by a user is rejected.
+CREATE OR REPLACE FUNCTION public.guard_ose_validated_value()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _pending INTEGER;
+  _validated NUMERIC;
+BEGIN
+  IF auth.uid() IS NULL OR NEW.validated_value IS NOT DISTINCT FROM OLD.validated_value THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT count(*) FILTER (WHERE validated_quantity IS NULL),
+         coalesce(sum(validated_quantity * validated_unit_price), 0)
+  INTO _pending, _validated
+  FROM public.ose_items
+  WHERE ose_id = NEW.id;
+
+  IF _pending > 0 OR NEW.validated_value IS DISTINCT FROM _validated THEN
+    RAISE EXCEPTION 'O valor validado da OSE é calculado pela validação dos itens';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_ose_validated_value
+BEFORE UPDATE ON public.oses
+FOR EACH ROW
+EXECUTE FUNCTION public.guard_ose_validated_value();
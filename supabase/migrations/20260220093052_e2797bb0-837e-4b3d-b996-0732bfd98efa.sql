@@ -0,0 +1,47 @@
+-- The status of a workshop entry follows its stage: it is only concluída
+-- once the stage is, and an entry can't be reopened by its status alone
+CREATE OR REPLACE FUNCTION public.sync_workshop_entry_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.stage = 'concluida' THEN
+    NEW.status := 'concluida';
+  ELSIF NEW.status = 'concluida' THEN
+    NEW.status := 'em_andamento';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_workshop_entry_status
+BEFORE INSERT OR UPDATE OF stage, status ON public.workshop_entries
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_workshop_entry_status();
+
+-- The maintenance cost is compared against the approved quote, so it is only
+-- set at the exit (or corrected after it), never when the entry is created
+CREATE OR REPLACE FUNCTION public.guard_workshop_maintenance_cost()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.maintenance_cost IS NOT NULL AND NEW.stage <> 'concluida' THEN
+      RAISE EXCEPTION 'O valor da manutenção é informado na saída da oficina';
+    END IF;
+  ELSIF auth.uid() IS NOT NULL
+    AND NEW.stage <> 'concluida'
+    AND NEW.maintenance_cost IS DISTINCT FROM OLD.maintenance_cost THEN
+    RAISE EXCEPTION 'O valor da manutenção é informado na saída da oficina';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_workshop_maintenance_cost
+BEFORE INSERT OR UPDATE OF maintenance_cost ON public.workshop_entries
+FOR EACH ROW
+EXECUTE FUNCTION public.guard_workshop_maintenance_cost();
@@ -0,0 +1,67 @@
+-- From enviada_validacao on, the trips and items of an OSE are what the
+-- client validates and invoices: they can't be added, changed or removed
+-- (moving the OSE back to medida unlocks them). Validating the items is still
+-- allowed, and deleting the OSE itself cascades here after its row is gone.
+CREATE OR REPLACE FUNCTION public.is_ose_measurement_locked(_ose_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.oses
+    WHERE id = _ose_id AND status NOT IN ('aberta', 'em_execucao', 'medida')
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.guard_locked_ose_items()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND NEW.ose_id = OLD.ose_id
+    AND NEW.trip_id IS NOT DISTINCT FROM OLD.trip_id
+    AND NEW.service_id = OLD.service_id
+    AND NEW.quantity = OLD.quantity
+    AND NEW.unit_price = OLD.unit_price
+    AND NEW.total_price = OLD.total_price THEN
+    RETURN NEW;
+  END IF;
+
+  IF (TG_OP <> 'INSERT' AND is_ose_measurement_locked(OLD.ose_id))
+    OR (TG_OP <> 'DELETE' AND is_ose_measurement_locked(NEW.ose_id)) THEN
+    RAISE EXCEPTION 'Os itens de uma OSE enviada para validação não podem ser alterados';
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+-- AFTER, so the prices set by price_ose_item are the ones compared
+CREATE TRIGGER guard_locked_ose_items
+AFTER INSERT OR UPDATE OR DELETE ON public.ose_items
+FOR EACH ROW
+EXECUTE FUNCTION public.guard_locked_ose_items();
+
+CREATE OR REPLACE FUNCTION public.guard_locked_ose_trips()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF (TG_OP <> 'INSERT' AND is_ose_measurement_locked(OLD.ose_id))
+    OR (TG_OP <> 'DELETE' AND is_ose_measurement_locked(NEW.ose_id)) THEN
+    RAISE EXCEPTION 'As idas de uma OSE enviada para validação não podem ser alteradas';
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+CREATE TRIGGER guard_locked_ose_trips
+BEFORE INSERT OR UPDATE OR DELETE ON public.ose_trips
+FOR EACH ROW
+EXECUTE FUNCTION public.guard_locked_ose_trips();
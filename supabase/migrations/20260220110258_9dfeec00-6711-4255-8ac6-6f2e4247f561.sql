@@ -0,0 +1,29 @@
+-- The overlap check ran before the insert, so two tables saved at the same
+-- time could both pass it. The exclusion constraint holds under concurrency.
+DROP TRIGGER check_price_table_overlap ON public.price_tables;
+DROP FUNCTION public.check_price_table_overlap();
+
+ALTER TABLE public.price_tables
+ADD CONSTRAINT price_tables_no_overlap EXCLUDE USING gist (
+  daterange(effective_from, effective_to, '[]') WITH &&
+);
+
+-- Items are priced on the date of their trip, so moving the trip to another
+-- date reprices them (price_ose_item runs on any update of trip_id)
+CREATE OR REPLACE FUNCTION public.reprice_ose_trip_items()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.ose_items SET trip_id = trip_id WHERE trip_id = NEW.id;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER reprice_ose_trip_items
+AFTER UPDATE OF date ON public.ose_trips
+FOR EACH ROW
+WHEN (NEW.date IS DISTINCT FROM OLD.date)
+EXECUTE FUNCTION public.reprice_ose_trip_items();